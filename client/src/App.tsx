@@ -1,7 +1,7 @@
 import { Toaster } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/NotFound";
-import { Route, Switch } from "wouter";
+import { Redirect, Route, Switch, useLocation } from "wouter";
 import ErrorBoundary from "./components/ErrorBoundary";
 import { ThemeProvider } from "./contexts/ThemeContext";
 import Home from "./pages/Home";
@@ -17,23 +17,70 @@ import StockIn from "./pages/StockIn";
 import StockHistory from "./pages/StockHistory";
 import Settings from "./pages/Settings";
 import FullTaxInvoices from "./pages/FullTaxInvoices";
+import SalesHistory from "./pages/SalesHistory";
+import Suppliers from "./pages/Suppliers";
+import PurchaseOrders from "./pages/PurchaseOrders";
+import PurchaseOrderCreate from "./pages/PurchaseOrderCreate";
+import PurchaseOrderDetail from "./pages/PurchaseOrderDetail";
+import StockValuation from "./pages/StockValuation";
+import Stocktakes from "./pages/Stocktakes";
+import StocktakeDetail from "./pages/StocktakeDetail";
+import StockAdjust from "./pages/StockAdjust";
+import Shrinkage from "./pages/Shrinkage";
+import Categories from "./pages/Categories";
+import Labels from "./pages/Labels";
+import NearExpiry from "./pages/NearExpiry";
+import Branches from "./pages/Branches";
+import Transfers from "./pages/Transfers";
+import Staff from "./pages/Staff";
+import AuditLog from "./pages/AuditLog";
+import Customers from "./pages/Customers";
+import Lock from "./pages/Lock";
+import { isDeviceLocked } from "./lib/cashier";
+
+// หน้าที่เปิดได้ตอนเครื่องล็อก (สลับแคชเชียร์)
+const UNLOCKED_PATHS = ["/lock", "/login", "/register"];
 
 function Router() {
+  const [location] = useLocation();
+  if (isDeviceLocked() && !UNLOCKED_PATHS.includes(location)) {
+    return <Redirect to="/lock" />;
+  }
+
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/lock" component={Lock} />
       <Route path="/login" component={Login} />
       <Route path="/register" component={Register} />
       <Route path="/sell" component={Sell} />
       <Route path="/low-stock" component={LowStock} />
       <Route path="/debtors" component={Debtors} />
+      <Route path="/customers" component={Customers} />
       <Route path="/products" component={Products} />
       <Route path="/stock-in" component={StockIn} />
       <Route path="/stock-history" component={StockHistory} />
+      <Route path="/stock-adjust" component={StockAdjust} />
+      <Route path="/categories" component={Categories} />
+      <Route path="/labels" component={Labels} />
+      <Route path="/near-expiry" component={NearExpiry} />
+      <Route path="/suppliers" component={Suppliers} />
+      <Route path="/purchase-orders" component={PurchaseOrders} />
+      <Route path="/purchase-orders/new" component={PurchaseOrderCreate} />
+      <Route path="/purchase-orders/:id" component={PurchaseOrderDetail} />
+      <Route path="/stocktakes" component={Stocktakes} />
+      <Route path="/stocktakes/:id" component={StocktakeDetail} />
       <Route path="/chat" component={Chat} />
       <Route path="/reports" component={Reports} />
+      <Route path="/stock-valuation" component={StockValuation} />
+      <Route path="/shrinkage" component={Shrinkage} />
       <Route path="/settings" component={Settings} />
+      <Route path="/branches" component={Branches} />
+      <Route path="/staff" component={Staff} />
+      <Route path="/audit-log" component={AuditLog} />
+      <Route path="/transfers" component={Transfers} />
       <Route path="/full-tax-invoices" component={FullTaxInvoices} />
+      <Route path="/sales" component={SalesHistory} />
       <Route path="/404" component={NotFound} />
       <Route component={NotFound} />
     </Switch>
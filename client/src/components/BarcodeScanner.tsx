@@ -0,0 +1,221 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Loader2, CameraOff } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  BarcodeFormat,
+  BinaryBitmap,
+  DecodeHintType,
+  HTMLCanvasElementLuminanceSource,
+  HybridBinarizer,
+  MultiFormatReader,
+} from "@zxing/library";
+
+interface BarcodeScannerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onDetected: (code: string) => void;
+  title?: string;
+  /**
+   * สแกนต่อเนื่อง (หน้าขาย) - ไม่ปิดกล้องหลังอ่านได้
+   * บาร์โค้ดเดิมซ้ำภายใน REPEAT_DELAY_MS จะไม่นับ
+   */
+  continuous?: boolean;
+}
+
+// รูปแบบที่รองรับ (ชื่อตาม BarcodeDetector)
+const NATIVE_FORMATS = ["ean_13", "ean_8", "upc_a", "code_128", "qr_code"];
+const ZXING_FORMATS = [
+  BarcodeFormat.EAN_13,
+  BarcodeFormat.EAN_8,
+  BarcodeFormat.UPC_A,
+  BarcodeFormat.CODE_128,
+  BarcodeFormat.QR_CODE,
+];
+const SCAN_INTERVAL_MS = 200;
+const REPEAT_DELAY_MS = 1500;
+
+// BarcodeDetector ยังไม่มีใน lib.dom ของ TypeScript
+type NativeBarcodeDetector = {
+  detect: (source: CanvasImageSource) => Promise<Array<{ rawValue: string }>>;
+};
+type NativeBarcodeDetectorClass = {
+  new (options: { formats: string[] }): NativeBarcodeDetector;
+  getSupportedFormats: () => Promise<string[]>;
+};
+
+/**
+ * ตัวอ่านบาร์โค้ดจากภาพ - ใช้ BarcodeDetector ของเบราว์เซอร์ถ้ามี ไม่มีใช้ zxing แทน
+ */
+async function createDecoder(
+  canvas: HTMLCanvasElement
+): Promise<(video: HTMLVideoElement) => Promise<string | null>> {
+  const Native = (window as unknown as { BarcodeDetector?: NativeBarcodeDetectorClass })
+    .BarcodeDetector;
+  if (Native) {
+    const supported = await Native.getSupportedFormats().catch(() => [] as string[]);
+    const formats = NATIVE_FORMATS.filter((format) => supported.includes(format));
+    if (formats.length === NATIVE_FORMATS.length) {
+      const detector = new Native({ formats });
+      return async (video) => {
+        const results = await detector.detect(video);
+        return results[0]?.rawValue ?? null;
+      };
+    }
+  }
+
+  const reader = new MultiFormatReader();
+  const hints = new Map<DecodeHintType, unknown>([
+    [DecodeHintType.POSSIBLE_FORMATS, ZXING_FORMATS],
+    [DecodeHintType.TRY_HARDER, true],
+  ]);
+  reader.setHints(hints);
+  return async (video) => {
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const context = canvas.getContext("2d", { willReadFrequently: true });
+    if (!context || !canvas.width) return null;
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    try {
+      const bitmap = new BinaryBitmap(
+        new HybridBinarizer(new HTMLCanvasElementLuminanceSource(canvas))
+      );
+      return reader.decodeWithState(bitmap).getText();
+    } catch {
+      // ภาพนี้ไม่พบบาร์โค้ด (NotFoundException) → ลองเฟรมถัดไป
+      return null;
+    }
+  };
+}
+
+export default function BarcodeScanner({
+  open,
+  onOpenChange,
+  onDetected,
+  title = "สแกนบาร์โค้ดด้วยกล้อง",
+  continuous = false,
+}: BarcodeScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // เก็บ callback ล่าสุด - ไม่ต้องเปิดกล้องใหม่ทุกครั้งที่ parent render
+  const onDetectedRef = useRef(onDetected);
+  onDetectedRef.current = onDetected;
+  const [status, setStatus] = useState<"starting" | "scanning" | "error">("starting");
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+
+    let stopped = false;
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let lastCode = "";
+    let lastCodeAt = 0;
+
+    const stop = () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+
+    const start = async () => {
+      setStatus("starting");
+      setError("");
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setStatus("error");
+        setError("เบราว์เซอร์นี้ใช้กล้องไม่ได้ (ต้องเปิดผ่าน https)");
+        return;
+      }
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: "environment" },
+          audio: false,
+        });
+      } catch (err: any) {
+        setStatus("error");
+        setError(
+          err?.name === "NotAllowedError"
+            ? "ไม่ได้รับอนุญาตให้ใช้กล้อง กรุณาอนุญาตในการตั้งค่าเบราว์เซอร์"
+            : "เปิดกล้องไม่ได้"
+        );
+        return;
+      }
+      const video = videoRef.current;
+      if (stopped || !video || !canvasRef.current) {
+        stop();
+        return;
+      }
+      video.srcObject = stream;
+      await video.play().catch(() => undefined);
+      const decode = await createDecoder(canvasRef.current);
+      setStatus("scanning");
+
+      const tick = async () => {
+        if (stopped) return;
+        const code = video.readyState >= 2 ? await decode(video).catch(() => null) : null;
+        if (stopped) return;
+        const now = Date.now();
+        if (code && (code !== lastCode || now - lastCodeAt > REPEAT_DELAY_MS)) {
+          lastCode = code;
+          lastCodeAt = now;
+          navigator.vibrate?.(100);
+          onDetectedRef.current(code);
+          if (!continuous) {
+            stop();
+            onOpenChange(false);
+            return;
+          }
+        }
+        timer = setTimeout(tick, SCAN_INTERVAL_MS);
+      };
+      tick();
+    };
+
+    start();
+    return stop;
+  }, [open, continuous]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="text-xl">{title}</DialogTitle>
+        </DialogHeader>
+
+        <div className="relative aspect-[3/4] bg-black rounded-lg overflow-hidden">
+          <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+          <canvas ref={canvasRef} className="hidden" />
+          {status === "scanning" && (
+            <div className="absolute inset-x-6 top-1/2 h-0.5 bg-red-500/80 shadow" />
+          )}
+          {status === "starting" && (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <Loader2 className="w-8 h-8 animate-spin text-white" />
+            </div>
+          )}
+          {status === "error" && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-4 text-center text-white">
+              <CameraOff className="w-10 h-10" />
+              <p className="text-sm">{error}</p>
+            </div>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground text-center">
+          {continuous ? "เล็งบาร์โค้ดทีละชิ้น สแกนต่อได้เรื่อยๆ" : "เล็งบาร์โค้ดให้อยู่กลางกรอบ"}
+        </p>
+
+        <DialogFooter>
+          <Button variant="outline" className="w-full" onClick={() => onOpenChange(false)}>
+            {continuous ? "เสร็จแล้ว" : "ยกเลิก"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,104 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { trpc } from "@/lib/trpc";
+import { Phone, UserCircle, X } from "lucide-react";
+
+export interface PickedCustomer {
+  id: string;
+  name: string;
+  phone?: string | null;
+  address?: string | null;
+  taxId?: string | null;
+}
+
+interface CustomerPickerProps {
+  selected: PickedCustomer | null;
+  onSelect: (customer: PickedCustomer | null) => void;
+  /**
+   * คำค้นที่พิมพ์อยู่ - ถ้าไม่เลือกจากรายชื่อ ผู้ใช้ใช้เป็นชื่อลูกค้าใหม่ได้ (ขายเชื่อ)
+   */
+  query: string;
+  onQueryChange: (query: string) => void;
+  placeholder?: string;
+}
+
+const MAX_SUGGESTIONS = 5;
+
+export default function CustomerPicker({
+  selected,
+  onSelect,
+  query,
+  onQueryChange,
+  placeholder = "ค้นหาลูกค้า (ชื่อ / เบอร์โทร)",
+}: CustomerPickerProps) {
+  const keyword = query.trim();
+  const { data: customers } = trpc.customers.search.useQuery(
+    { search: keyword, limit: MAX_SUGGESTIONS },
+    { enabled: !selected && keyword.length > 0, placeholderData: (previous) => previous }
+  );
+
+  if (selected) {
+    return (
+      <div className="flex items-center gap-3 rounded-md border border-primary bg-primary/5 px-3 py-2">
+        <UserCircle className="w-6 h-6 text-primary" />
+        <div className="flex-1 min-w-0">
+          <p className="font-semibold truncate">{selected.name}</p>
+          {selected.phone && (
+            <p className="text-xs text-muted-foreground flex items-center gap-1">
+              <Phone className="w-3 h-3" />
+              {selected.phone}
+            </p>
+          )}
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => {
+            onSelect(null);
+            onQueryChange("");
+          }}
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  const suggestions = keyword ? (customers ?? []) : [];
+
+  return (
+    <div className="space-y-1">
+      <Input
+        placeholder={placeholder}
+        value={query}
+        onChange={(e) => onQueryChange(e.target.value)}
+        className="ts-input"
+      />
+      {suggestions.length > 0 && (
+        <div className="rounded-md border border-border divide-y divide-border">
+          {suggestions.map((customer) => (
+            <button
+              key={customer.id}
+              type="button"
+              className="w-full flex items-center justify-between gap-2 px-3 py-2 text-left hover:bg-muted"
+              onClick={() =>
+                onSelect({
+                  id: customer.id,
+                  name: customer.name,
+                  phone: customer.phone ?? null,
+                  address: customer.address ?? null,
+                  taxId: customer.taxId ?? null,
+                })
+              }
+            >
+              <span className="truncate">{customer.name}</span>
+              {customer.phone && (
+                <span className="text-xs text-muted-foreground">{customer.phone}</span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -51,6 +51,10 @@ export default function ShiftControl({ context = "reports" }: ShiftControlProps)
     totalSales: number;
     cashSales: number;
     creditSales: number;
+    transferSales: number;
+    promptPaySales: number;
+    cardSales: number;
+    refundAmount: number;
     saleCount: number;
     startTime: Date;
     endTime: Date;
@@ -303,6 +307,21 @@ export default function ShiftControl({ context = "reports" }: ShiftControlProps)
                         ฿{closeSummary.creditSales.toLocaleString("th-TH")}
                       </span>
                     </div>
+                    {[
+                      { label: "โอนเงิน", amount: closeSummary.transferSales },
+                      { label: "พร้อมเพย์", amount: closeSummary.promptPaySales },
+                      { label: "บัตร", amount: closeSummary.cardSales },
+                      { label: "คืนเงิน/ยกเลิกบิล", amount: closeSummary.refundAmount },
+                    ]
+                      .filter((row) => row.amount !== 0)
+                      .map((row) => (
+                        <div key={row.label} className="flex justify-between">
+                          <span className="text-muted-foreground">{row.label}</span>
+                          <span className="font-semibold">
+                            ฿{row.amount.toLocaleString("th-TH")}
+                          </span>
+                        </div>
+                      ))}
                   </div>
                 </div>
 
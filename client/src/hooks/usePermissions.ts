@@ -0,0 +1,18 @@
+import { trpc } from "@/lib/trpc";
+import type { Permission } from "@shared/permissions";
+
+/**
+ * บทบาทและสิทธิ์ของแคชเชียร์ที่ใช้เครื่องอยู่ - ใช้ซ่อนปุ่ม/เมนูที่ทำไม่ได้
+ * (server ตรวจสิทธิ์ซ้ำทุกครั้ง ส่วนนี้แค่ไม่ให้กดแล้วเจอ error)
+ */
+export function usePermissions(options?: { enabled?: boolean }) {
+  const { data, isLoading } = trpc.staff.me.useQuery(undefined, {
+    enabled: options?.enabled ?? true,
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+  });
+
+  const can = (permission: Permission) => data?.permissions.includes(permission) ?? false;
+
+  return { role: data?.role, cashier: data?.cashier, can, isLoading };
+}
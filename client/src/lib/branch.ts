@@ -0,0 +1,18 @@
+import { MAIN_BRANCH_ID } from "@shared/branch";
+
+const BRANCH_STORAGE_KEY = "current-branch-id";
+
+/**
+ * สาขาที่เครื่องนี้ใช้งานอยู่ (ส่งไปกับทุก request ใน header x-branch-id)
+ */
+export function getCurrentBranchId(): string {
+  try {
+    return localStorage.getItem(BRANCH_STORAGE_KEY) || MAIN_BRANCH_ID;
+  } catch {
+    return MAIN_BRANCH_ID;
+  }
+}
+
+export function setCurrentBranchId(branchId: string) {
+  localStorage.setItem(BRANCH_STORAGE_KEY, branchId);
+}
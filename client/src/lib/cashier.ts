@@ -0,0 +1,41 @@
+const CASHIER_TOKEN_KEY = "cashier-token";
+const DEVICE_LOCKED_KEY = "cashier-locked";
+
+/**
+ * token ของแคชเชียร์ที่ปลดล็อกเครื่องด้วย PIN (ส่งไปกับทุก request ใน header x-cashier-token)
+ * ไม่มี token = ใช้บัญชีที่เข้าสู่ระบบเครื่องนี้
+ */
+export function getCashierToken(): string | null {
+  try {
+    return localStorage.getItem(CASHIER_TOKEN_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function isDeviceLocked(): boolean {
+  try {
+    return localStorage.getItem(DEVICE_LOCKED_KEY) === "1";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * ล็อกเครื่อง - ต้องปลดล็อกด้วย PIN ก่อนใช้งานต่อ (ยังไม่ออกจากระบบ)
+ * flag นี้ใช้แค่พาไปหน้าล็อก - server บังคับล็อกเองหลังเรียก staff.lock
+ */
+export function lockDevice() {
+  localStorage.removeItem(CASHIER_TOKEN_KEY);
+  localStorage.setItem(DEVICE_LOCKED_KEY, "1");
+}
+
+export function unlockDevice(token: string) {
+  localStorage.setItem(CASHIER_TOKEN_KEY, token);
+  localStorage.removeItem(DEVICE_LOCKED_KEY);
+}
+
+export function clearCashier() {
+  localStorage.removeItem(CASHIER_TOKEN_KEY);
+  localStorage.removeItem(DEVICE_LOCKED_KEY);
+}
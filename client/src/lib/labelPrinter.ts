@@ -0,0 +1,115 @@
+/**
+ * Label Printer Utility
+ * แปลงป้ายราคาเป็นคำสั่งเครื่องพิมพ์สติกเกอร์ขนาดเล็ก (TSPL หรือ ESC/POS)
+ * ส่งป้ายเป็นภาพขาวดำ - ภาษาไทยพิมพ์ได้โดยไม่ต้องมีฟอนต์ในเครื่องพิมพ์
+ */
+import { renderLabelCanvas, type LabelData } from "./labelSheet";
+
+export type LabelPrinterLanguage = "tspl" | "escpos";
+
+export const LABEL_PRINTER_LANGUAGE_LABELS: Record<LabelPrinterLanguage, string> = {
+  tspl: "TSPL (เครื่องพิมพ์สติกเกอร์)",
+  escpos: "ESC/POS (เครื่องพิมพ์ใบเสร็จ)",
+};
+
+export interface LabelSize {
+  id: string;
+  width: number; // mm
+  height: number; // mm
+}
+
+export const LABEL_SIZES: LabelSize[] = [
+  { id: "40x30", width: 40, height: 30 },
+  { id: "50x30", width: 50, height: 30 },
+  { id: "58x40", width: 58, height: 40 },
+];
+
+// เครื่องพิมพ์ความร้อนทั่วไป 203 dpi = 8 จุดต่อมม.
+const PRINTER_DOTS_PER_MM = 8;
+
+interface MonochromeBitmap {
+  widthBytes: number;
+  height: number;
+  data: Uint8Array; // 1 bit ต่อจุด, 1 = ดำ
+}
+
+function toMonochrome(canvas: HTMLCanvasElement): MonochromeBitmap {
+  const ctx = canvas.getContext("2d")!;
+  const { data: pixels } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const widthBytes = Math.ceil(canvas.width / 8);
+  const data = new Uint8Array(widthBytes * canvas.height);
+  for (let y = 0; y < canvas.height; y++) {
+    for (let x = 0; x < canvas.width; x++) {
+      const i = (y * canvas.width + x) * 4;
+      const luminance = 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+      if (luminance < 128) {
+        data[y * widthBytes + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+  return { widthBytes, height: canvas.height, data };
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+/**
+ * TSPL: SIZE/GAP/CLS + BITMAP (TSPL ใช้ 0 = ดำ จึงกลับบิต) + PRINT จำนวนใบ
+ */
+function buildTsplLabel(bitmap: MonochromeBitmap, size: LabelSize, copies: number): Uint8Array {
+  const inverted = bitmap.data.map((byte) => ~byte & 0xff);
+  return concatBytes([
+    ascii(
+      `SIZE ${size.width} mm,${size.height} mm\r\nGAP 2 mm,0 mm\r\nDIRECTION 1\r\nCLS\r\n` +
+        `BITMAP 0,0,${bitmap.widthBytes},${bitmap.height},0,`
+    ),
+    inverted,
+    ascii(`\r\nPRINT 1,${copies}\r\n`),
+  ]);
+}
+
+/**
+ * ESC/POS: GS v 0 (raster image) ทีละใบ + เลื่อนกระดาษ
+ */
+function buildEscPosLabel(bitmap: MonochromeBitmap, copies: number): Uint8Array {
+  const raster = concatBytes([
+    new Uint8Array([
+      0x1d, 0x76, 0x30, 0x00,
+      bitmap.widthBytes & 0xff, (bitmap.widthBytes >> 8) & 0xff,
+      bitmap.height & 0xff, (bitmap.height >> 8) & 0xff,
+    ]),
+    bitmap.data,
+    new Uint8Array([0x1b, 0x64, 0x02]), // ESC d 2 - เว้นระหว่างป้าย
+  ]);
+  return concatBytes(Array.from({ length: copies }, () => raster));
+}
+
+/**
+ * สร้างงานพิมพ์ป้ายทั้งหมด (แต่ละสินค้าพิมพ์ copies ใบ)
+ */
+export function buildLabelPrintJob(
+  items: Array<{ label: LabelData; copies: number }>,
+  language: LabelPrinterLanguage,
+  size: LabelSize
+): Uint8Array {
+  const parts: Uint8Array[] = language === "escpos" ? [new Uint8Array([0x1b, 0x40])] : [];
+  for (const { label, copies } of items) {
+    if (copies <= 0) continue;
+    const bitmap = toMonochrome(
+      renderLabelCanvas(label, size.width, size.height, PRINTER_DOTS_PER_MM)
+    );
+    parts.push(
+      language === "tspl" ? buildTsplLabel(bitmap, size, copies) : buildEscPosLabel(bitmap, copies)
+    );
+  }
+  return concatBytes(parts);
+}
@@ -0,0 +1,177 @@
+/**
+ * Label Sheet Utility
+ * วาดป้ายราคา/สติกเกอร์ (ชื่อ ราคา บาร์โค้ด) บน canvas แล้วจัดลงกระดาษ A4 เป็น PDF
+ * วาดเป็นภาพก่อนเพื่อให้ภาษาไทยแสดงถูกต้องโดยไม่ต้องฝังฟอนต์ใน PDF
+ */
+import JsBarcode from "jsbarcode";
+import { jsPDF } from "jspdf";
+import { isValidEan13 } from "@shared/barcode";
+
+export interface LabelData {
+  name: string;
+  price: number;
+  barcode: string;
+  unitName?: string | null;
+}
+
+export interface SheetLayout {
+  id: string;
+  label: string;
+  columns: number;
+  rows: number;
+  labelWidth: number; // mm
+  labelHeight: number; // mm
+  marginTop: number; // mm
+  marginLeft: number; // mm
+  gapX: number; // mm
+  gapY: number; // mm
+}
+
+/**
+ * กระดาษ A4 (210 × 297 มม.) ขนาดตามกระดาษสติกเกอร์สำเร็จรูปทั่วไป
+ */
+export const SHEET_LAYOUTS: SheetLayout[] = [
+  {
+    id: "shelf",
+    label: "ป้ายราคาชั้นวาง (3 × 8)",
+    columns: 3,
+    rows: 8,
+    labelWidth: 70,
+    labelHeight: 37,
+    marginTop: 0.5,
+    marginLeft: 0,
+    gapX: 0,
+    gapY: 0,
+  },
+  {
+    id: "sticker",
+    label: "สติกเกอร์ติดสินค้า (5 × 13)",
+    columns: 5,
+    rows: 13,
+    labelWidth: 38.1,
+    labelHeight: 21.2,
+    marginTop: 10.7,
+    marginLeft: 4.7,
+    gapX: 2.5,
+    gapY: 0,
+  },
+];
+
+// ความละเอียดตอนวาดลง PDF (จุดต่อมม. ≈ 300 dpi)
+const PDF_DOTS_PER_MM = 12;
+
+/**
+ * วาดป้าย 1 ใบบน canvas ขนาด widthMm × heightMm (พื้นขาว ตัวอักษรดำ)
+ */
+export function renderLabelCanvas(
+  label: LabelData,
+  widthMm: number,
+  heightMm: number,
+  dotsPerMm: number
+): HTMLCanvasElement {
+  const width = Math.round(widthMm * dotsPerMm);
+  const height = Math.round(heightMm * dotsPerMm);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = "#000";
+  ctx.textBaseline = "top";
+
+  const padding = Math.round(1.5 * dotsPerMm);
+  const innerWidth = width - padding * 2;
+
+  // ชื่อสินค้า (ยาวเกิน → ตัดท้าย)
+  const nameSize = Math.round(height * 0.14);
+  ctx.font = `bold ${nameSize}px sans-serif`;
+  ctx.textAlign = "left";
+  ctx.fillText(fitText(ctx, label.name, innerWidth), padding, padding);
+
+  // ราคา
+  const priceSize = Math.round(height * 0.22);
+  ctx.font = `bold ${priceSize}px sans-serif`;
+  ctx.textAlign = "right";
+  const price = `฿${label.price.toLocaleString("th-TH", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+  const priceY = padding + nameSize + Math.round(0.5 * dotsPerMm);
+  ctx.fillText(price, width - padding, priceY);
+  if (label.unitName) {
+    ctx.font = `${Math.round(priceSize * 0.5)}px sans-serif`;
+    ctx.textAlign = "left";
+    ctx.fillText(`/${label.unitName}`, padding, priceY + Math.round(priceSize * 0.4));
+  }
+
+  // บาร์โค้ด (EAN-13 ถ้าถูกต้อง ไม่งั้น Code128)
+  const barcodeTop = priceY + priceSize + Math.round(0.5 * dotsPerMm);
+  const barcodeHeight = height - barcodeTop - padding;
+  if (label.barcode && barcodeHeight > 0) {
+    const barcodeCanvas = document.createElement("canvas");
+    JsBarcode(barcodeCanvas, label.barcode, {
+      format: isValidEan13(label.barcode) ? "EAN13" : "CODE128",
+      displayValue: true,
+      margin: 0,
+      width: Math.max(1, Math.floor(dotsPerMm / 4)),
+      height: Math.round(barcodeHeight * 0.7),
+      fontSize: Math.round(barcodeHeight * 0.2),
+    });
+    const scale = Math.min(1, innerWidth / barcodeCanvas.width, barcodeHeight / barcodeCanvas.height);
+    const drawWidth = Math.round(barcodeCanvas.width * scale);
+    const drawHeight = Math.round(barcodeCanvas.height * scale);
+    // ปิด smoothing ให้แท่งบาร์โค้ดคม
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(
+      barcodeCanvas,
+      Math.round((width - drawWidth) / 2),
+      barcodeTop,
+      drawWidth,
+      drawHeight
+    );
+  }
+
+  return canvas;
+}
+
+function fitText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && ctx.measureText(`${text.slice(0, end)}…`).width > maxWidth) end--;
+  return `${text.slice(0, end)}…`;
+}
+
+/**
+ * สร้าง PDF ป้ายทั้งหมด (เรียงซ้าย→ขวา บน→ล่าง ขึ้นหน้าใหม่เมื่อเต็ม)
+ */
+export function buildLabelSheetPdf(labels: LabelData[], layout: SheetLayout): jsPDF {
+  const doc = new jsPDF({ unit: "mm", format: "a4", orientation: "portrait" });
+  const perPage = layout.columns * layout.rows;
+  // ป้ายซ้ำ (หลายใบต่อสินค้า) วาดครั้งเดียว
+  const images = new Map<string, string>();
+
+  labels.forEach((label, index) => {
+    if (index > 0 && index % perPage === 0) doc.addPage();
+    const slot = index % perPage;
+    const column = slot % layout.columns;
+    const row = Math.floor(slot / layout.columns);
+    const x = layout.marginLeft + column * (layout.labelWidth + layout.gapX);
+    const y = layout.marginTop + row * (layout.labelHeight + layout.gapY);
+
+    const key = `${label.name}|${label.price}|${label.barcode}|${label.unitName ?? ""}`;
+    let image = images.get(key);
+    if (!image) {
+      image = renderLabelCanvas(
+        label,
+        layout.labelWidth,
+        layout.labelHeight,
+        PDF_DOTS_PER_MM
+      ).toDataURL("image/png");
+      images.set(key, image);
+    }
+    doc.addImage(image, "PNG", x, y, layout.labelWidth, layout.labelHeight);
+  });
+
+  return doc;
+}
@@ -118,11 +118,35 @@ export class ReceiptPrinter {
     return encoder.encode(text);
   }
 
+  /**
+   * สร้างคำสั่ง ESC/POS สำหรับพิมพ์ QR Code (GS ( k - QR Code Model 2)
+   */
+  private qrCodeCommands(data: string): Uint8Array[] {
+    const dataBytes = this.textToBytes(data);
+    // ความยาวข้อมูล + 3 byte (cn, fn, m)
+    const storeLength = dataBytes.length + 3;
+    const storeHeader = new Uint8Array([
+      0x1d, 0x28, 0x6b, storeLength & 0xff, (storeLength >> 8) & 0xff, 0x31, 0x50, 0x30,
+    ]);
+    const storeData = new Uint8Array(storeHeader.length + dataBytes.length);
+    storeData.set(storeHeader);
+    storeData.set(dataBytes, storeHeader.length);
+
+    return [
+      new Uint8Array([0x1d, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00]), // Model 2
+      new Uint8Array([0x1d, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, 0x06]), // Module size 6 dots
+      new Uint8Array([0x1d, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31]), // Error correction M
+      storeData, // Store data
+      new Uint8Array([0x1d, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30]), // Print
+    ];
+  }
+
   /**
    * พิมพ์ใบเสร็จ - Optimized for 80mm thermal printer
    * ESC/POS commands configured for 80mm paper width
+   * @param options.qrPayload payload PromptPay QR (พิมพ์ท้ายใบเสร็จ ถ้ามี)
    */
-  async printReceipt(receiptText: string): Promise<void> {
+  async printReceipt(receiptText: string, options?: { qrPayload?: string }): Promise<void> {
     if (!this.characteristic) {
       throw new Error("ไม่ได้เชื่อมต่อกับเครื่องพิมพ์");
     }
@@ -157,6 +181,17 @@ export class ReceiptPrinter {
       const textBytes = this.textToBytes(receiptText);
       await this.sendData(textBytes);
 
+      // PromptPay QR (จัดกึ่งกลาง ESC a 1)
+      if (options?.qrPayload) {
+        await this.sendData(new Uint8Array([0x1b, 0x61, 0x01]));
+        for (const command of this.qrCodeCommands(options.qrPayload)) {
+          await this.sendData(command);
+        }
+        await this.sendData(this.textToBytes("\nสแกนจ่ายด้วยพร้อมเพย์\n"));
+        // กลับเป็นชิดซ้าย (ESC a 0)
+        await this.sendData(new Uint8Array([0x1b, 0x61, 0x00]));
+      }
+
       // Feed paper 3 lines before cutting
       const feedLines = new Uint8Array([0x1b, 0x64, 0x03]);
       await this.sendData(feedLines);
@@ -174,6 +209,21 @@ export class ReceiptPrinter {
     }
   }
 
+  /**
+   * ส่งคำสั่งที่สร้างไว้แล้ว (เช่น ป้ายราคา TSPL / ESC/POS) ทีละก้อน
+   * Bluetooth เขียนได้ครั้งละไม่เกิน 512 byte
+   */
+  async printRaw(data: Uint8Array): Promise<void> {
+    if (!this.characteristic) {
+      throw new Error("ไม่ได้เชื่อมต่อกับเครื่องพิมพ์");
+    }
+
+    const chunkSize = 512;
+    for (let offset = 0; offset < data.length; offset += chunkSize) {
+      await this.sendData(data.slice(offset, offset + chunkSize));
+    }
+  }
+
   /**
    * ตรวจสอบว่าเชื่อมต่ออยู่หรือไม่
    */
@@ -1,11 +1,15 @@
 import { trpc } from "@/lib/trpc";
 import { UNAUTHED_ERR_MSG } from '@shared/const';
+import { BRANCH_HEADER } from "@shared/branch";
+import { CASHIER_HEADER, CASHIER_LOCKED_ERR_MSG } from "@shared/cashier";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { httpBatchLink, TRPCClientError } from "@trpc/client";
 import { createRoot } from "react-dom/client";
 import superjson from "superjson";
 import App from "./App";
 import { getLoginUrl } from "./const";
+import { getCurrentBranchId } from "@/lib/branch";
+import { getCashierToken, lockDevice } from "@/lib/cashier";
 import "./index.css";
 
 const queryClient = new QueryClient();
@@ -50,11 +54,24 @@ const redirectToLoginIfUnauthorized = (error: unknown, queryKey?: unknown[]) =>
   window.location.href = getLoginUrl();
 };
 
+// token แคชเชียร์หมดอายุ → ล็อกเครื่องให้ปลดล็อกด้วย PIN ใหม่ (ไม่ต้องเข้าสู่ระบบใหม่)
+const lockIfCashierExpired = (error: unknown) => {
+  if (!(error instanceof TRPCClientError)) return;
+  if (typeof window === "undefined") return;
+  if (error.message !== CASHIER_LOCKED_ERR_MSG) return;
+
+  lockDevice();
+  if (window.location.pathname !== "/lock") {
+    window.location.href = "/lock";
+  }
+};
+
 queryClient.getQueryCache().subscribe(event => {
   if (event.type === "updated" && event.action.type === "error") {
     const error = event.query.state.error;
     const queryKey = event.query.queryKey;
     redirectToLoginIfUnauthorized(error, queryKey);
+    lockIfCashierExpired(error);
     console.error("[API Query Error]", error);
   }
 });
@@ -63,6 +80,7 @@ queryClient.getMutationCache().subscribe(event => {
   if (event.type === "updated" && event.action.type === "error") {
     const error = event.mutation.state.error;
     redirectToLoginIfUnauthorized(error);
+    lockIfCashierExpired(error);
     console.error("[API Mutation Error]", error);
   }
 });
@@ -72,6 +90,13 @@ const trpcClient = trpc.createClient({
     httpBatchLink({
       url: "/api/trpc",
       transformer: superjson,
+      headers() {
+        const cashierToken = getCashierToken();
+        return {
+          [BRANCH_HEADER]: getCurrentBranchId(),
+          ...(cashierToken ? { [CASHIER_HEADER]: cashierToken } : {}),
+        };
+      },
       fetch(input, init) {
         return globalThis.fetch(input, {
           ...(init ?? {}),
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { trpc } from "@/lib/trpc";
+import { AUDIT_ACTION_LABELS, AUDIT_ACTIONS, type AuditAction } from "@shared/audit";
+import { ArrowLeft, ArrowRight, History, Loader2 } from "lucide-react";
+import { Link } from "wouter";
+
+// วันที่แบบ YYYY-MM-DD ตามเวลาเครื่อง
+const toDateString = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// ชื่อ field ที่แสดงในค่าก่อน/หลัง (ไม่มีในนี้ = แสดงชื่อ field ตรงๆ)
+const FIELD_LABELS: Record<string, string> = {
+  name: "ชื่อ",
+  price: "ราคา",
+  costPrice: "ทุน",
+  stock: "สต็อก",
+  reorderPoint: "จุดสั่งซื้อ",
+  barcode: "บาร์โค้ด",
+  categoryId: "หมวดหมู่",
+  archivedAt: "เก็บเข้าคลังเมื่อ",
+  totalDebt: "ยอดค้าง",
+  paidAmount: "ชำระ",
+  status: "สถานะ",
+  buyerName: "ผู้ซื้อ",
+  openingCash: "เงินทอนตั้งต้น",
+  expectedCash: "เงินสดที่ควรมี",
+  closingCash: "เงินสดที่นับได้",
+  cashDifference: "ส่วนต่าง",
+  vatEnabled: "VAT",
+  sellerName: "ชื่อร้าน",
+  sellerAddress: "ที่อยู่ร้าน",
+  sellerTaxId: "เลขผู้เสียภาษี",
+  promptPayId: "PromptPay",
+  costingMethod: "วิธีคิดต้นทุน",
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "-";
+  if (value instanceof Date) return value.toLocaleString("th-TH");
+  if (typeof value === "boolean") return value ? "เปิด" : "ปิด";
+  if (typeof value === "number") return value.toLocaleString("th-TH");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * ประวัติการทำรายการสำคัญ - ใครทำอะไร ค่าก่อน/หลัง (เจ้าของร้านเท่านั้น)
+ */
+export default function AuditLog() {
+  const [action, setAction] = useState<AuditAction | "">("");
+  const [search, setSearch] = useState("");
+  const [from, setFrom] = useState(() => {
+    const now = new Date();
+    return toDateString(new Date(now.getFullYear(), now.getMonth(), 1));
+  });
+  const [to, setTo] = useState(() => toDateString(new Date()));
+
+  const { data: logs, isLoading } = trpc.audit.search.useQuery(
+    {
+      action: action || undefined,
+      search: search.trim() || undefined,
+      from: from || undefined,
+      to: to || undefined,
+    },
+    { placeholderData: (previous) => previous }
+  );
+
+  const selectClassName = "w-full h-12 rounded-md border border-input bg-background px-3 text-base";
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {/* Header */}
+      <header className="bg-secondary text-secondary-foreground p-4 flex items-center gap-4">
+        <Link href="/settings">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-secondary-foreground hover:bg-white/10"
+          >
+            <ArrowLeft className="w-6 h-6" />
+          </Button>
+        </Link>
+        <h1 className="text-xl font-bold flex-1">ประวัติการทำรายการ</h1>
+        <History className="w-6 h-6" />
+      </header>
+
+      <main className="flex-1 p-4 max-w-4xl mx-auto w-full space-y-3">
+        <div className="ts-card space-y-3">
+          <select
+            className={selectClassName}
+            value={action}
+            onChange={(e) => setAction(e.target.value as AuditAction | "")}
+          >
+            <option value="">ทุกรายการ</option>
+            {AUDIT_ACTIONS.map((item) => (
+              <option key={item} value={item}>
+                {AUDIT_ACTION_LABELS[item]}
+              </option>
+            ))}
+          </select>
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="ts-input"
+            placeholder="ค้นหาชื่อผู้ทำรายการ สินค้า ลูกค้า หรือเลขที่เอกสาร"
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">ตั้งแต่</label>
+              <Input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">ถึง</label>
+              <Input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : logs && logs.length > 0 ? (
+          logs.map((log) => {
+            const fields = Array.from(
+              new Set([...Object.keys(log.before ?? {}), ...Object.keys(log.after ?? {})])
+            );
+            return (
+              <div key={log.id} className="ts-card space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold">{AUDIT_ACTION_LABELS[log.action]}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(log.createdAt).toLocaleString("th-TH")}
+                  </span>
+                </div>
+                {log.entityName && <p className="truncate">{log.entityName}</p>}
+                {fields.length > 0 && (
+                  <ul className="text-sm space-y-1">
+                    {fields.map((field) => (
+                      <li key={field} className="flex items-center gap-2 flex-wrap">
+                        <span className="text-muted-foreground">
+                          {FIELD_LABELS[field] ?? field}
+                        </span>
+                        <span className="line-through text-muted-foreground break-all">
+                          {formatValue(log.before?.[field])}
+                        </span>
+                        <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                        <span className="font-medium break-all">
+                          {formatValue(log.after?.[field])}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  โดย {log.actorName}
+                  {log.ip ? ` · IP ${log.ip}` : ""}
+                </p>
+              </div>
+            );
+          })
+        ) : (
+          <div className="text-center py-12">
+            <History className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-lg font-semibold">ไม่พบรายการ</p>
+            <p className="text-sm text-muted-foreground">
+              ลองเปลี่ยนช่วงวันที่หรือคำค้นหา
+            </p>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { trpc } from "@/lib/trpc";
+import { getCurrentBranchId, setCurrentBranchId } from "@/lib/branch";
+import { MAIN_BRANCH_ID, MAIN_BRANCH_NAME } from "@shared/branch";
+import { ArrowLeft, Building2, Plus, Edit2, Check, ArrowLeftRight, Loader2 } from "lucide-react";
+import { Link } from "wouter";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+
+interface BranchForm {
+  name: string;
+  address: string;
+  phone: string;
+}
+
+const EMPTY_FORM: BranchForm = {
+  name: "",
+  address: "",
+  phone: "",
+};
+
+export default function Branches() {
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<BranchForm>(EMPTY_FORM);
+  const [currentBranchId, setCurrentBranch] = useState(getCurrentBranchId);
+
+  const utils = trpc.useUtils();
+  const { data: branches, isLoading } = trpc.branches.list.useQuery();
+
+  const resetForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const createBranch = trpc.branches.create.useMutation({
+    onSuccess: () => {
+      toast.success("เพิ่มสาขาสำเร็จ");
+      resetForm();
+      utils.branches.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "เกิดข้อผิดพลาด"),
+  });
+
+  const updateBranch = trpc.branches.update.useMutation({
+    onSuccess: () => {
+      toast.success("แก้ไขสาขาสำเร็จ");
+      resetForm();
+      utils.branches.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "เกิดข้อผิดพลาด"),
+  });
+
+  // เปลี่ยนสาขาของเครื่องนี้ → สต็อก/ยอดขาย/กะ ทุกหน้าโหลดใหม่เป็นของสาขานั้น
+  const handleSelect = async (branchId: string, name: string) => {
+    setCurrentBranchId(branchId);
+    setCurrentBranch(branchId);
+    await utils.invalidate();
+    toast.success(`เปลี่ยนเป็น ${name} แล้ว`);
+  };
+
+  const handleEdit = (branch: NonNullable<typeof branches>[number]) => {
+    setEditingId(branch.id);
+    setForm({
+      name: branch.name,
+      address: branch.address ?? "",
+      phone: branch.phone ?? "",
+    });
+    setShowForm(true);
+  };
+
+  const handleSubmit = () => {
+    if (!form.name.trim()) {
+      toast.error("กรุณาใส่ชื่อสาขา");
+      return;
+    }
+    const payload = {
+      name: form.name.trim(),
+      address: form.address.trim(),
+      phone: form.phone.trim(),
+    };
+    if (editingId) {
+      updateBranch.mutate({ id: editingId, ...payload });
+    } else {
+      createBranch.mutate(payload);
+    }
+  };
+
+  const isSaving = createBranch.isPending || updateBranch.isPending;
+
+  const renderBranch = (
+    branch: { id: string; name: string; address: string | null; phone: string | null },
+    onEdit?: () => void
+  ) => {
+    const isCurrent = currentBranchId === branch.id;
+    return (
+      <div
+        key={branch.id}
+        className={`ts-card flex items-center justify-between gap-3 ${
+          isCurrent ? "border-primary" : ""
+        }`}
+      >
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold text-lg truncate">{branch.name}</h3>
+          <p className="text-sm text-muted-foreground truncate">
+            {[branch.address, branch.phone].filter(Boolean).join(" · ") ||
+              (onEdit ? "ไม่มีที่อยู่" : "สต็อกและยอดขายเดิมทั้งหมด")}
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          {onEdit && (
+            <Button variant="ghost" size="icon" onClick={onEdit}>
+              <Edit2 className="w-4 h-4" />
+            </Button>
+          )}
+          {isCurrent ? (
+            <span className="flex items-center gap-1 text-sm font-semibold text-primary px-2">
+              <Check className="w-4 h-4" />
+              ใช้อยู่
+            </span>
+          ) : (
+            <Button variant="outline" size="sm" onClick={() => handleSelect(branch.id, branch.name)}>
+              ใช้สาขานี้
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {/* Header */}
+      <header className="bg-secondary text-secondary-foreground p-4 flex items-center gap-4">
+        <Link href="/settings">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-secondary-foreground hover:bg-white/10"
+          >
+            <ArrowLeft className="w-6 h-6" />
+          </Button>
+        </Link>
+        <h1 className="text-xl font-bold flex-1">สาขา</h1>
+        <Link href="/transfers">
+          <Button variant="ghost" size="icon" className="text-secondary-foreground hover:bg-white/10">
+            <ArrowLeftRight className="w-6 h-6" />
+          </Button>
+        </Link>
+      </header>
+
+      <main className="flex-1 p-4 space-y-3">
+        <p className="text-sm text-muted-foreground">
+          สินค้าใช้ร่วมกันทุกสาขา แต่สต็อก ยอดขาย และกะแยกตามสาขาที่เครื่องนี้เลือกไว้
+        </p>
+
+        {renderBranch({ id: MAIN_BRANCH_ID, name: MAIN_BRANCH_NAME, address: null, phone: null })}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : branches && branches.length > 0 ? (
+          branches.map((branch) => renderBranch(branch, () => handleEdit(branch)))
+        ) : (
+          <div className="text-center py-12">
+            <Building2 className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-lg font-semibold">ยังไม่มีสาขาอื่น</p>
+            <p className="text-sm text-muted-foreground">
+              เพิ่มสาขาแล้วโอนสินค้าไปตั้งต้นสต็อกของสาขา
+            </p>
+          </div>
+        )}
+      </main>
+
+      {/* Bottom Action */}
+      <div className="p-4 bg-card border-t border-border">
+        <Button className="ts-btn-primary w-full" onClick={() => setShowForm(true)}>
+          <Plus className="w-5 h-5" />
+          เพิ่มสาขา
+        </Button>
+      </div>
+
+      {/* Form Dialog */}
+      <Dialog open={showForm} onOpenChange={(open) => !open && resetForm()}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle className="text-xl">
+              {editingId ? "แก้ไขสาขา" : "เพิ่มสาขา"}
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">ชื่อสาขา *</label>
+              <Input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="ts-input"
+                placeholder="เช่น สาขาตลาด"
+              />
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">ที่อยู่</label>
+              <Input
+                value={form.address}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+                className="ts-input"
+              />
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">เบอร์โทร</label>
+              <Input
+                type="tel"
+                value={form.phone}
+                onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                className="ts-input"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={resetForm} className="flex-1">
+              ยกเลิก
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSaving} className="flex-1">
+              บันทึก
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { trpc } from "@/lib/trpc";
+import { ArrowLeft, Tags, Plus, Edit2, Trash2, Loader2 } from "lucide-react";
+import { Link } from "wouter";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface CategoryForm {
+  name: string;
+  sortOrder: string;
+}
+
+const EMPTY_FORM: CategoryForm = {
+  name: "",
+  sortOrder: "",
+};
+
+export default function Categories() {
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [form, setForm] = useState<CategoryForm>(EMPTY_FORM);
+
+  const utils = trpc.useUtils();
+  const { data: categories, isLoading } = trpc.categories.list.useQuery();
+
+  const resetForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const createCategory = trpc.categories.create.useMutation({
+    onSuccess: () => {
+      toast.success("เพิ่มหมวดหมู่สำเร็จ");
+      resetForm();
+      utils.categories.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "เกิดข้อผิดพลาด"),
+  });
+
+  const updateCategory = trpc.categories.update.useMutation({
+    onSuccess: () => {
+      toast.success("แก้ไขหมวดหมู่สำเร็จ");
+      resetForm();
+      utils.categories.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "เกิดข้อผิดพลาด"),
+  });
+
+  const deleteCategory = trpc.categories.delete.useMutation({
+    onSuccess: () => {
+      toast.success("ลบหมวดหมู่สำเร็จ");
+      setDeleteId(null);
+      utils.categories.list.invalidate();
+      utils.products.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || "เกิดข้อผิดพลาด");
+      setDeleteId(null);
+    },
+  });
+
+  const handleEdit = (category: NonNullable<typeof categories>[number]) => {
+    setEditingId(category.id);
+    setForm({
+      name: category.name ?? "",
+      sortOrder: category.sortOrder ? String(category.sortOrder) : "",
+    });
+    setShowForm(true);
+  };
+
+  const handleSubmit = () => {
+    if (!form.name.trim()) {
+      toast.error("กรุณาใส่ชื่อหมวดหมู่");
+      return;
+    }
+    const payload = {
+      name: form.name.trim(),
+      sortOrder: form.sortOrder ? parseInt(form.sortOrder) || 0 : 0,
+    };
+    if (editingId) {
+      updateCategory.mutate({ id: editingId, ...payload });
+    } else {
+      createCategory.mutate(payload);
+    }
+  };
+
+  const isSaving = createCategory.isPending || updateCategory.isPending;
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {/* Header */}
+      <header className="bg-secondary text-secondary-foreground p-4 flex items-center gap-4">
+        <Link href="/products">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-secondary-foreground hover:bg-white/10"
+          >
+            <ArrowLeft className="w-6 h-6" />
+          </Button>
+        </Link>
+        <h1 className="text-xl font-bold flex-1">หมวดหมู่สินค้า</h1>
+        <Tags className="w-6 h-6" />
+      </header>
+
+      <main className="flex-1 p-4 space-y-3">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : categories && categories.length > 0 ? (
+          categories.map((category) => (
+            <div key={category.id} className="ts-card flex items-center justify-between gap-3">
+              <div className="flex-1 min-w-0">
+                <h3 className="font-semibold text-lg truncate">{category.name}</h3>
+                <p className="text-sm text-muted-foreground">
+                  สินค้า {category.productCount} รายการ
+                </p>
+              </div>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="icon" onClick={() => handleEdit(category)}>
+                  <Edit2 className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-destructive"
+                  onClick={() => setDeleteId(category.id)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        ) : (
+          <div className="text-center py-12">
+            <Tags className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-lg font-semibold">ยังไม่มีหมวดหมู่</p>
+            <p className="text-sm text-muted-foreground">
+              เช่น เครื่องดื่ม ขนม ของใช้ในบ้าน
+            </p>
+          </div>
+        )}
+      </main>
+
+      {/* Bottom Action */}
+      <div className="p-4 bg-card border-t border-border">
+        <Button className="ts-btn-primary w-full" onClick={() => setShowForm(true)}>
+          <Plus className="w-5 h-5" />
+          เพิ่มหมวดหมู่
+        </Button>
+      </div>
+
+      {/* Form Dialog */}
+      <Dialog open={showForm} onOpenChange={(open) => !open && resetForm()}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle className="text-xl">
+              {editingId ? "แก้ไขหมวดหมู่" : "เพิ่มหมวดหมู่"}
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">
+                ชื่อหมวดหมู่ *
+              </label>
+              <Input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="ts-input"
+                placeholder="เช่น เครื่องดื่ม"
+              />
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">
+                ลำดับการแสดง
+              </label>
+              <Input
+                type="number"
+                inputMode="numeric"
+                value={form.sortOrder}
+                onChange={(e) => setForm({ ...form, sortOrder: e.target.value })}
+                className="ts-input"
+                placeholder="0"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={resetForm} className="flex-1">
+              ยกเลิก
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSaving} className="flex-1">
+              บันทึก
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleteId} onOpenChange={(open) => !open && setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>ลบหมวดหมู่?</AlertDialogTitle>
+            <AlertDialogDescription>
+              สินค้าในหมวดนี้จะไม่ถูกลบ แต่จะกลายเป็น "ไม่มีหมวด"
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>ยกเลิก</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteId && deleteCategory.mutate({ id: deleteId })}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              ลบ
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,298 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/lib/trpc";
+import { ArrowLeft, Contact, Plus, Edit2, Trash2, Phone, Search, Loader2 } from "lucide-react";
+import { Link } from "wouter";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface CustomerForm {
+  name: string;
+  phone: string;
+  address: string;
+  taxId: string;
+  note: string;
+}
+
+const EMPTY_FORM: CustomerForm = {
+  name: "",
+  phone: "",
+  address: "",
+  taxId: "",
+  note: "",
+};
+
+export default function Customers() {
+  const [search, setSearch] = useState("");
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [form, setForm] = useState<CustomerForm>(EMPTY_FORM);
+
+  const utils = trpc.useUtils();
+  const { data: customers, isLoading } = trpc.customers.search.useQuery(
+    { search: search.trim() || undefined, limit: 100 },
+    { placeholderData: (previous) => previous }
+  );
+
+  const resetForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const createCustomer = trpc.customers.create.useMutation({
+    onSuccess: () => {
+      toast.success("เพิ่มลูกค้าสำเร็จ");
+      resetForm();
+      utils.customers.search.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "เกิดข้อผิดพลาด"),
+  });
+
+  const updateCustomer = trpc.customers.update.useMutation({
+    onSuccess: () => {
+      toast.success("แก้ไขลูกค้าสำเร็จ");
+      resetForm();
+      utils.customers.search.invalidate();
+      utils.customers.withDebt.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "เกิดข้อผิดพลาด"),
+  });
+
+  const deleteCustomer = trpc.customers.delete.useMutation({
+    onSuccess: () => {
+      toast.success("ลบลูกค้าสำเร็จ");
+      setDeleteId(null);
+      utils.customers.search.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || "เกิดข้อผิดพลาด");
+      setDeleteId(null);
+    },
+  });
+
+  const handleEdit = (customer: NonNullable<typeof customers>[number]) => {
+    setEditingId(customer.id);
+    setForm({
+      name: customer.name ?? "",
+      phone: customer.phone ?? "",
+      address: customer.address ?? "",
+      taxId: customer.taxId ?? "",
+      note: customer.note ?? "",
+    });
+    setShowForm(true);
+  };
+
+  const handleSubmit = () => {
+    if (!form.name.trim()) {
+      toast.error("กรุณาใส่ชื่อลูกค้า");
+      return;
+    }
+    if (editingId) {
+      updateCustomer.mutate({ id: editingId, ...form });
+    } else {
+      createCustomer.mutate(form);
+    }
+  };
+
+  const isSaving = createCustomer.isPending || updateCustomer.isPending;
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {/* Header */}
+      <header className="bg-secondary text-secondary-foreground p-4 flex items-center gap-4">
+        <Link href="/debtors">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-secondary-foreground hover:bg-white/10"
+          >
+            <ArrowLeft className="w-6 h-6" />
+          </Button>
+        </Link>
+        <h1 className="text-xl font-bold flex-1">ลูกค้า</h1>
+        <Contact className="w-6 h-6" />
+      </header>
+
+      <main className="flex-1 p-4 space-y-3">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="ts-input pl-10"
+            placeholder="ค้นหาชื่อ เบอร์โทร หรือเลขผู้เสียภาษี"
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : customers && customers.length > 0 ? (
+          customers.map((customer) => (
+            <div key={customer.id} className="ts-card flex items-center justify-between gap-3">
+              <div className="flex-1 min-w-0">
+                <h3 className="font-semibold text-lg truncate">{customer.name}</h3>
+                {customer.phone && (
+                  <p className="text-sm text-muted-foreground flex items-center gap-1">
+                    <Phone className="w-3 h-3" />
+                    {customer.phone}
+                  </p>
+                )}
+                {customer.taxId && (
+                  <p className="text-sm text-muted-foreground font-mono">{customer.taxId}</p>
+                )}
+                {Number(customer.totalDebt) > 0 && (
+                  <p className="text-sm font-semibold text-ts-danger">
+                    ค้าง ฿{Number(customer.totalDebt).toLocaleString()}
+                  </p>
+                )}
+              </div>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="icon" onClick={() => handleEdit(customer)}>
+                  <Edit2 className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-destructive"
+                  onClick={() => setDeleteId(customer.id)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        ) : (
+          <div className="text-center py-12">
+            <Contact className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-lg font-semibold">
+              {search.trim() ? "ไม่พบลูกค้า" : "ยังไม่มีลูกค้า"}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              เก็บเบอร์โทร ที่อยู่ และเลขผู้เสียภาษีไว้ใช้ตอนขายเชื่อและออกใบกำกับภาษี
+            </p>
+          </div>
+        )}
+      </main>
+
+      {/* Bottom Action */}
+      <div className="p-4 bg-card border-t border-border">
+        <Button className="ts-btn-primary w-full" onClick={() => setShowForm(true)}>
+          <Plus className="w-5 h-5" />
+          เพิ่มลูกค้า
+        </Button>
+      </div>
+
+      {/* Form Dialog */}
+      <Dialog open={showForm} onOpenChange={(open) => !open && resetForm()}>
+        <DialogContent className="max-w-sm max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-xl">
+              {editingId ? "แก้ไขลูกค้า" : "เพิ่มลูกค้า"}
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">ชื่อลูกค้า *</label>
+              <Input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="ts-input"
+                placeholder="ชื่อคน หรือชื่อบริษัท"
+              />
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">เบอร์โทร</label>
+              <Input
+                type="tel"
+                value={form.phone}
+                onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                className="ts-input"
+              />
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">ที่อยู่</label>
+              <Textarea
+                value={form.address}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">
+                เลขประจำตัวผู้เสียภาษี
+              </label>
+              <Input
+                inputMode="numeric"
+                value={form.taxId}
+                onChange={(e) => setForm({ ...form, taxId: e.target.value })}
+                className="ts-input font-mono"
+                placeholder="13 หลัก (ใช้ออกใบกำกับภาษีเต็ม)"
+              />
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">หมายเหตุ</label>
+              <Input
+                value={form.note}
+                onChange={(e) => setForm({ ...form, note: e.target.value })}
+                placeholder="เช่น รับของทุกวันเสาร์"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={resetForm} className="flex-1">
+              ยกเลิก
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSaving} className="flex-1">
+              บันทึก
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleteId} onOpenChange={(open) => !open && setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>ลบลูกค้า?</AlertDialogTitle>
+            <AlertDialogDescription>
+              ลูกค้าที่ยังค้างเงินหรือมีบิลขายอยู่แล้วจะลบไม่ได้
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>ยกเลิก</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteId && deleteCustomer.mutate({ id: deleteId })}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              ลบ
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -72,7 +72,11 @@ export default function Debtors() {
           </Button>
         </Link>
         <h1 className="text-xl font-bold flex-1">ลูกค้าค้างเงิน</h1>
-        <Users className="w-6 h-6" />
+        <Link href="/customers">
+          <Button variant="ghost" size="icon" className="text-white hover:bg-white/20">
+            <Users className="w-6 h-6" />
+          </Button>
+        </Link>
       </header>
 
       {/* Summary */}
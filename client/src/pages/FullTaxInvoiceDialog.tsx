@@ -8,8 +8,10 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Loader2, FileText, Printer, AlertCircle, Settings, XCircle, Ban, Download } from "lucide-react";
 import { Link } from "wouter";
 import { trpc } from "@/lib/trpc";
+import { usePermissions } from "@/hooks/usePermissions";
 import { toast } from "sonner";
 import { receiptPrinter } from "@/lib/receiptPrinter";
+import CustomerPicker, { type PickedCustomer } from "@/components/CustomerPicker";
 
 interface FullTaxInvoiceDialogProps {
   saleId: string | number;
@@ -27,7 +29,10 @@ export default function FullTaxInvoiceDialog({
   const [buyerName, setBuyerName] = useState("");
   const [buyerAddress, setBuyerAddress] = useState("");
   const [buyerTaxId, setBuyerTaxId] = useState("");
+  const [customer, setCustomer] = useState<PickedCustomer | null>(null);
+  const [customerQuery, setCustomerQuery] = useState("");
   const [step, setStep] = useState<"form" | "view">("form");
+  const { can } = usePermissions();
 
   // ตรวจสอบว่ามีใบกำกับภาษีเต็มอยู่แล้วหรือไม่
   const { data: invoiceExists } = trpc.fullTaxInvoice.checkExists.useQuery(
@@ -62,6 +67,22 @@ export default function FullTaxInvoiceDialog({
     { enabled: !!open && (step === "view" || invoiceExists === true) }
   );
 
+  // เลือกลูกค้า → กรอกชื่อ/ที่อยู่/เลขผู้เสียภาษีให้ (แก้ต่อได้)
+  const fillFromCustomer = (selected: PickedCustomer | null) => {
+    setCustomer(selected);
+    if (!selected) return;
+    setBuyerName(selected.name);
+    setBuyerAddress(selected.address ?? "");
+    setBuyerTaxId(selected.taxId ?? "");
+  };
+
+  // บิลที่เลือกลูกค้าไว้ตอนขาย → ใช้ลูกค้าคนนั้นเป็นค่าเริ่มต้น
+  useEffect(() => {
+    if (saleData?.customer && !customer && !buyerName && !buyerAddress && !buyerTaxId) {
+      fillFromCustomer(saleData.customer);
+    }
+  }, [saleData?.customer, open]);
+
   const createInvoice = trpc.fullTaxInvoice.create.useMutation({
     onSuccess: () => {
       toast.success("สร้างใบกำกับภาษีเต็มสำเร็จ");
@@ -352,9 +373,9 @@ export default function FullTaxInvoiceDialog({
         <tr>
           <td>${index + 1}</td>
           <td>${item.productName}</td>
-          <td class="text-center">${item.quantity}</td>
+          <td class="text-center">${item.quantity}${item.unitName ? ` ${item.unitName}` : ""}</td>
           <td class="text-right">฿${parseFloat(String(item.unitPrice)).toLocaleString("th-TH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
-          <td class="text-right">฿${parseFloat(String(item.totalPrice)).toLocaleString("th-TH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+          <td class="text-right">฿${parseFloat(String(item.totalPrice)).toLocaleString("th-TH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}${item.discountAmount > 0 ? `<br/><small>ส่วนลด -฿${item.discountAmount.toLocaleString("th-TH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</small>` : ""}</td>
         </tr>
         `).join("")}
       </tbody>
@@ -363,6 +384,12 @@ export default function FullTaxInvoiceDialog({
   ` : ""}
 
   <div class="summary">
+    ${saleData?.billDiscountAmount > 0 ? `
+    <div class="summary-row">
+      <span class="summary-label">ส่วนลดท้ายบิล:</span>
+      <span class="summary-value">-฿${saleData.billDiscountAmount.toLocaleString("th-TH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+    </div>
+    ` : ""}
     <div class="summary-row">
       <span class="summary-label">ราคาก่อน VAT:</span>
       <span class="summary-value">฿${invoiceData.subtotal.toLocaleString("th-TH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
@@ -408,6 +435,8 @@ export default function FullTaxInvoiceDialog({
     setBuyerName("");
     setBuyerAddress("");
     setBuyerTaxId("");
+    setCustomer(null);
+    setCustomerQuery("");
     onOpenChange(false);
     if (onClose) {
       onClose();
@@ -473,6 +502,19 @@ export default function FullTaxInvoiceDialog({
                 </div>
 
                 <div className="space-y-4">
+                  <div>
+                    <Label>ลูกค้า</Label>
+                    <div className="mt-1">
+                      <CustomerPicker
+                        selected={customer}
+                        onSelect={fillFromCustomer}
+                        query={customerQuery}
+                        onQueryChange={setCustomerQuery}
+                        placeholder="ค้นหาลูกค้าเพื่อกรอกข้อมูลผู้ซื้อ"
+                      />
+                    </div>
+                  </div>
+
                   <div>
                     <Label htmlFor="buyerName">
                       ชื่อผู้ซื้อ <span className="text-red-500">*</span>
@@ -618,7 +660,7 @@ export default function FullTaxInvoiceDialog({
                   <Button variant="outline" onClick={handleCloseDialog}>
                     ปิด
                   </Button>
-                  {invoiceData.invoiceData.status !== "cancelled" && (
+                  {invoiceData.invoiceData.status !== "cancelled" && can("fullTaxInvoice.cancel") && (
                     <Button
                       variant="destructive"
                       onClick={handleCancelInvoice}
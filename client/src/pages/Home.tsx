@@ -1,11 +1,34 @@
 import { useAuth } from "@/_core/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
 import { Button } from "@/components/ui/button";
-import { ShoppingCart, Package, Users, MessageCircle, LogIn, LogOut, TrendingUp, UserPlus, Settings } from "lucide-react";
-import { Link } from "wouter";
+import { ShoppingCart, Package, Users, MessageCircle, LogIn, LogOut, TrendingUp, UserPlus, Settings, Lock } from "lucide-react";
+import { Link, useLocation } from "wouter";
 import { trpc } from "@/lib/trpc";
+import { getCurrentBranchId } from "@/lib/branch";
+import { lockDevice } from "@/lib/cashier";
+import { MAIN_BRANCH_NAME } from "@shared/branch";
+import { toast } from "sonner";
 
 export default function Home() {
   const { user, isAuthenticated, logout } = useAuth();
+  const { can, cashier } = usePermissions({ enabled: isAuthenticated });
+  const [, navigate] = useLocation();
+
+  // สลับแคชเชียร์ - ล็อกเครื่องไว้จนกว่าจะใส่ PIN (ไม่ออกจากระบบ)
+  const lock = trpc.staff.lock.useMutation({
+    onSuccess: () => {
+      lockDevice();
+      navigate("/lock");
+    },
+    onError: (error) => toast.error(error.message || "ล็อกเครื่องไม่สำเร็จ"),
+  });
+  const handleLock = () => lock.mutate();
+  // แสดงชื่อสาขาเมื่อร้านมีหลายสาขา
+  const { data: branches } = trpc.branches.list.useQuery(undefined, { enabled: isAuthenticated });
+  const currentBranchId = getCurrentBranchId();
+  const branchName = branches?.length
+    ? branches.find((b) => b.id === currentBranchId)?.name ?? MAIN_BRANCH_NAME
+    : null;
 
   // ❌ ลบ loading state - ใช้แค่เช็ก user
   // if (loading) {
@@ -58,17 +81,31 @@ export default function Home() {
           <img src="/mascot.png" alt="Thai Smart" className="w-10 h-10" />
           <div>
             <h1 className="text-lg font-bold">Thai Smart</h1>
-            <p className="text-xs opacity-80">สวัสดี, {user?.name || 'เจ้าของร้าน'}</p>
+            <p className="text-xs opacity-80">
+              สวัสดี, {cashier?.name || user?.name || 'เจ้าของร้าน'}
+              {branchName && ` · ${branchName}`}
+            </p>
           </div>
         </div>
-        <Button 
-          variant="ghost" 
-          className="text-secondary-foreground hover:bg-white/10 px-3"
-          onClick={() => logout()}
-        >
-          <LogOut className="w-4 h-4 mr-2" />
-          <span className="text-sm font-medium">ออกจากระบบ</span>
-        </Button>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            className="text-secondary-foreground hover:bg-white/10 px-3"
+            onClick={handleLock}
+            disabled={lock.isPending}
+          >
+            <Lock className="w-4 h-4 mr-2" />
+            <span className="text-sm font-medium">สลับคน</span>
+          </Button>
+          <Button 
+            variant="ghost" 
+            className="text-secondary-foreground hover:bg-white/10 px-3"
+            onClick={() => logout()}
+          >
+            <LogOut className="w-4 h-4 mr-2" />
+            <span className="text-sm font-medium">ออกจากระบบ</span>
+          </Button>
+        </div>
       </header>
 
       {/* Main Content - 4 Big Buttons */}
@@ -113,10 +150,12 @@ export default function Home() {
           <Package className="w-6 h-6" />
           <span className="text-xs mt-1">สินค้า</span>
         </Link>
-        <Link href="/reports" className="flex flex-col items-center p-2 text-muted-foreground hover:text-primary">
-          <TrendingUp className="w-6 h-6" />
-          <span className="text-xs mt-1">รายงาน</span>
-        </Link>
+        {can("reports.profit") && (
+          <Link href="/reports" className="flex flex-col items-center p-2 text-muted-foreground hover:text-primary">
+            <TrendingUp className="w-6 h-6" />
+            <span className="text-xs mt-1">รายงาน</span>
+          </Link>
+        )}
         <Link href="/chat" className="flex flex-col items-center p-2 text-muted-foreground hover:text-primary">
           <MessageCircle className="w-6 h-6" />
           <span className="text-xs mt-1">ถาม AI</span>
@@ -0,0 +1,242 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { trpc } from "@/lib/trpc";
+import { ArrowLeft, Barcode, FileDown, Printer, Loader2, Wand2 } from "lucide-react";
+import { Link } from "wouter";
+import { toast } from "sonner";
+import { receiptPrinter } from "@/lib/receiptPrinter";
+import { buildLabelSheetPdf, SHEET_LAYOUTS, type LabelData } from "@/lib/labelSheet";
+import {
+  buildLabelPrintJob,
+  LABEL_PRINTER_LANGUAGE_LABELS,
+  LABEL_SIZES,
+  type LabelPrinterLanguage,
+} from "@/lib/labelPrinter";
+
+export default function Labels() {
+  const utils = trpc.useUtils();
+  const { data: products, isLoading } = trpc.products.list.useQuery();
+
+  const [searchTerm, setSearchTerm] = useState("");
+  // productId → จำนวนป้าย
+  const [copies, setCopies] = useState<Record<string, number>>({});
+  const [layoutId, setLayoutId] = useState(SHEET_LAYOUTS[0].id);
+  const [language, setLanguage] = useState<LabelPrinterLanguage>("tspl");
+  const [sizeId, setSizeId] = useState(LABEL_SIZES[0].id);
+  const [isPrinting, setIsPrinting] = useState(false);
+
+  const filteredProducts = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    return (products ?? []).filter(
+      (p) => !term || p.name.toLowerCase().includes(term) || (p.barcode ?? "").includes(term)
+    );
+  }, [products, searchTerm]);
+
+  const selectedProducts = (products ?? []).filter((p) => (copies[p.id] ?? 0) > 0);
+  const missingBarcode = selectedProducts.filter((p) => !p.barcode);
+  const labelCount = selectedProducts.reduce((sum, p) => sum + copies[p.id], 0);
+
+  const generateBarcodes = trpc.products.generateBarcodes.useMutation({
+    onSuccess: async ({ generated }) => {
+      toast.success(`สร้างบาร์โค้ด ${generated.length} รายการ`);
+      await utils.products.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "เกิดข้อผิดพลาด"),
+  });
+
+  const setProductCopies = (productId: string, value: number) => {
+    setCopies((prev) => ({ ...prev, [productId]: Math.max(0, Math.min(999, value)) }));
+  };
+
+  // ป้ายที่จะพิมพ์ (ต้องมีบาร์โค้ดครบ)
+  const getLabelItems = (): Array<{ label: LabelData; copies: number }> | null => {
+    if (selectedProducts.length === 0) {
+      toast.error("กรุณาเลือกสินค้า");
+      return null;
+    }
+    if (missingBarcode.length > 0) {
+      toast.error(`มี ${missingBarcode.length} สินค้ายังไม่มีบาร์โค้ด กดสร้างบาร์โค้ดก่อน`);
+      return null;
+    }
+    return selectedProducts.map((p) => ({
+      label: {
+        name: p.name,
+        price: parseFloat(p.price) || 0,
+        barcode: p.barcode!,
+        unitName: p.soldByMeasure ? p.baseUnit : null,
+      },
+      copies: copies[p.id],
+    }));
+  };
+
+  const handleDownloadPdf = () => {
+    const items = getLabelItems();
+    if (!items) return;
+    const layout = SHEET_LAYOUTS.find((l) => l.id === layoutId) ?? SHEET_LAYOUTS[0];
+    const labels = items.flatMap(({ label, copies }) => Array.from({ length: copies }, () => label));
+    buildLabelSheetPdf(labels, layout).save(`labels-${layout.id}.pdf`);
+  };
+
+  const handlePrint = async () => {
+    const items = getLabelItems();
+    if (!items) return;
+    const size = LABEL_SIZES.find((s) => s.id === sizeId) ?? LABEL_SIZES[0];
+
+    setIsPrinting(true);
+    try {
+      if (!receiptPrinter.isConnected()) {
+        const devices = await receiptPrinter.scanForPrinters();
+        if (devices.length === 0) {
+          toast.info("ไม่พบเครื่องพิมพ์ Bluetooth ที่ใกล้เคียง");
+          return;
+        }
+        await receiptPrinter.connect(devices[0].id);
+      }
+      await receiptPrinter.printRaw(buildLabelPrintJob(items, language, size));
+      toast.success(`ส่งพิมพ์ ${labelCount} ป้ายแล้ว`);
+    } catch (error) {
+      toast.error(`ไม่สามารถพิมพ์: ${(error as Error).message}`);
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="bg-secondary text-secondary-foreground p-4 flex items-center gap-4">
+        <Link href="/products">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-secondary-foreground hover:bg-white/10"
+          >
+            <ArrowLeft className="w-6 h-6" />
+          </Button>
+        </Link>
+        <h1 className="text-xl font-bold flex-1">พิมพ์ป้ายราคา/บาร์โค้ด</h1>
+        <Barcode className="w-6 h-6" />
+      </header>
+
+      <main className="flex-1 p-4 space-y-4">
+        <Input
+          placeholder="ค้นหาสินค้า..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="ts-input"
+        />
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="ts-card divide-y divide-border">
+            {filteredProducts.map((product) => {
+              const count = copies[product.id] ?? 0;
+              return (
+                <div key={product.id} className="py-2 flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    checked={count > 0}
+                    onChange={(e) => setProductCopies(product.id, e.target.checked ? 1 : 0)}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold truncate">{product.name}</p>
+                    <p className="text-xs text-muted-foreground font-mono">
+                      {product.barcode || "ยังไม่มีบาร์โค้ด"} · ฿{product.price}
+                    </p>
+                  </div>
+                  <Input
+                    type="text"
+                    inputMode="numeric"
+                    value={count ? String(count) : ""}
+                    onChange={(e) => {
+                      const v = e.target.value;
+                      if (/^\d*$/.test(v)) setProductCopies(product.id, Number(v || 0));
+                    }}
+                    className="w-16 text-center"
+                    placeholder="0"
+                    aria-label="จำนวนป้าย"
+                  />
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      {/* Bottom Action */}
+      <div className="p-4 bg-card border-t border-border space-y-3">
+        <p className="text-sm text-muted-foreground">
+          เลือก {selectedProducts.length} สินค้า · {labelCount} ป้าย
+        </p>
+
+        {missingBarcode.length > 0 && (
+          <Button
+            variant="outline"
+            className="w-full"
+            disabled={generateBarcodes.isPending}
+            onClick={() =>
+              generateBarcodes.mutate({ productIds: missingBarcode.map((p) => String(p.id)) })
+            }
+          >
+            <Wand2 className="w-4 h-4 mr-2" />
+            สร้างบาร์โค้ดให้ {missingBarcode.length} สินค้าที่ยังไม่มี
+          </Button>
+        )}
+
+        <div className="flex gap-2">
+          <select
+            className="flex-1 h-10 rounded-md border border-input bg-background px-3 text-sm"
+            value={layoutId}
+            onChange={(e) => setLayoutId(e.target.value)}
+          >
+            {SHEET_LAYOUTS.map((layout) => (
+              <option key={layout.id} value={layout.id}>
+                {layout.label}
+              </option>
+            ))}
+          </select>
+          <Button variant="outline" onClick={handleDownloadPdf}>
+            <FileDown className="w-4 h-4 mr-2" />
+            PDF
+          </Button>
+        </div>
+
+        <div className="flex gap-2">
+          <select
+            className="flex-1 h-10 rounded-md border border-input bg-background px-3 text-sm"
+            value={language}
+            onChange={(e) => setLanguage(e.target.value as LabelPrinterLanguage)}
+          >
+            {(Object.keys(LABEL_PRINTER_LANGUAGE_LABELS) as LabelPrinterLanguage[]).map((value) => (
+              <option key={value} value={value}>
+                {LABEL_PRINTER_LANGUAGE_LABELS[value]}
+              </option>
+            ))}
+          </select>
+          <select
+            className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+            value={sizeId}
+            onChange={(e) => setSizeId(e.target.value)}
+          >
+            {LABEL_SIZES.map((size) => (
+              <option key={size.id} value={size.id}>
+                {size.width}×{size.height} มม.
+              </option>
+            ))}
+          </select>
+        </div>
+        <Button className="ts-btn-primary w-full" onClick={handlePrint} disabled={isPrinting}>
+          {isPrinting ? (
+            <Loader2 className="w-5 h-5 animate-spin" />
+          ) : (
+            <Printer className="w-5 h-5" />
+          )}
+          พิมพ์ด้วยเครื่องพิมพ์สติกเกอร์
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { trpc } from "@/lib/trpc";
+import { unlockDevice } from "@/lib/cashier";
+import { SHOP_ROLE_LABELS } from "@shared/permissions";
+import { ArrowLeft, Delete, Lock as LockIcon, LogOut, Loader2, UserCircle } from "lucide-react";
+import { useLocation } from "wouter";
+import { toast } from "sonner";
+
+const PIN_MAX_LENGTH = 6;
+const KEYPAD = ["1", "2", "3", "4", "5", "6", "7", "8", "9"];
+
+/**
+ * หน้าล็อกเครื่อง - เลือกชื่อแล้วใส่ PIN เพื่อสลับแคชเชียร์ (เครื่องยังเข้าสู่ระบบอยู่)
+ */
+export default function Lock() {
+  const [, navigate] = useLocation();
+  const { logout } = useAuth();
+  const utils = trpc.useUtils();
+  const { data: cashiers, isLoading } = trpc.staff.cashiers.useQuery();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [pin, setPin] = useState("");
+
+  const cashiersWithPin = (cashiers ?? []).filter((c) => c.hasPin);
+  const selected = cashiersWithPin.find((c) => c.id === selectedId);
+
+  const unlock = trpc.staff.unlock.useMutation({
+    onSuccess: async ({ token, cashier }) => {
+      unlockDevice(token);
+      await utils.invalidate();
+      toast.success(`สวัสดี ${cashier.name}`);
+      navigate("/");
+    },
+    onError: (error) => {
+      setPin("");
+      toast.error(error.message || "PIN ไม่ถูกต้อง");
+    },
+  });
+
+  const pressDigit = (digit: string) => {
+    if (!selected || unlock.isPending || pin.length >= PIN_MAX_LENGTH) return;
+    setPin(pin + digit);
+  };
+
+  const handleSubmit = () => {
+    if (!selected || pin.length < 4) return;
+    unlock.mutate({ userId: selected.id, pin });
+  };
+
+  const handleLogout = async () => {
+    await logout();
+    navigate("/");
+  };
+
+  return (
+    <div className="min-h-screen bg-secondary text-secondary-foreground flex flex-col items-center justify-center p-6 gap-6">
+      <LockIcon className="w-12 h-12" />
+
+      {isLoading ? (
+        <Loader2 className="w-8 h-8 animate-spin" />
+      ) : cashiersWithPin.length === 0 ? (
+        <div className="text-center space-y-4 max-w-sm">
+          <p className="text-lg font-semibold">ยังไม่มีใครตั้ง PIN</p>
+          <p className="text-sm opacity-80">
+            ออกจากระบบแล้วเข้าสู่ระบบใหม่ จากนั้นตั้ง PIN ที่หน้าตั้งค่า
+          </p>
+          <Button variant="outline" className="text-foreground" onClick={handleLogout}>
+            <LogOut className="w-4 h-4 mr-2" />
+            ออกจากระบบ
+          </Button>
+        </div>
+      ) : !selected ? (
+        <div className="w-full max-w-sm space-y-3">
+          <h1 className="text-xl font-bold text-center">ใครกำลังใช้เครื่อง?</h1>
+          {cashiersWithPin.map((cashier) => (
+            <button
+              key={cashier.id}
+              type="button"
+              className="w-full flex items-center gap-3 rounded-xl bg-white/10 hover:bg-white/20 p-4 text-left"
+              onClick={() => {
+                setSelectedId(cashier.id);
+                setPin("");
+              }}
+            >
+              <UserCircle className="w-8 h-8" />
+              <div>
+                <p className="font-semibold text-lg">{cashier.name}</p>
+                <p className="text-sm opacity-80">{SHOP_ROLE_LABELS[cashier.role]}</p>
+              </div>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="w-full max-w-xs space-y-6">
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-secondary-foreground hover:bg-white/10"
+              onClick={() => setSelectedId(null)}
+            >
+              <ArrowLeft className="w-6 h-6" />
+            </Button>
+            <h1 className="text-xl font-bold flex-1 truncate">{selected.name}</h1>
+          </div>
+
+          <div className="flex justify-center gap-3">
+            {Array.from({ length: PIN_MAX_LENGTH }, (_, index) => (
+              <span
+                key={index}
+                className={`w-4 h-4 rounded-full border-2 border-current ${
+                  index < pin.length ? "bg-current" : ""
+                }`}
+              />
+            ))}
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            {KEYPAD.map((digit) => (
+              <Button
+                key={digit}
+                variant="outline"
+                className="h-16 text-2xl font-bold text-foreground"
+                onClick={() => pressDigit(digit)}
+              >
+                {digit}
+              </Button>
+            ))}
+            <Button
+              variant="outline"
+              className="h-16 text-foreground"
+              onClick={() => setPin(pin.slice(0, -1))}
+            >
+              <Delete className="w-6 h-6" />
+            </Button>
+            <Button
+              variant="outline"
+              className="h-16 text-2xl font-bold text-foreground"
+              onClick={() => pressDigit("0")}
+            >
+              0
+            </Button>
+            <Button
+              className="h-16 ts-btn-primary"
+              disabled={pin.length < 4 || unlock.isPending}
+              onClick={handleSubmit}
+            >
+              {unlock.isPending ? <Loader2 className="w-6 h-6 animate-spin" /> : "ตกลง"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
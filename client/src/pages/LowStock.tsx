@@ -1,10 +1,15 @@
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { trpc } from "@/lib/trpc";
-import { ArrowLeft, Package, AlertTriangle, Plus } from "lucide-react";
+import { ArrowLeft, Package, AlertTriangle, Plus, ClipboardList, CalendarClock } from "lucide-react";
 import { Link } from "wouter";
 
 export default function LowStock() {
-  const { data: products, isLoading } = trpc.products.lowStock.useQuery();
+  // สินค้าที่ต่ำกว่าจุดสั่งซื้อ หรือจะขายหมดก่อนของมาส่ง (จากยอดขายเฉลี่ยต่อวัน)
+  const [allBranches, setAllBranches] = useState(false); // ดูจากสต็อกรวมทุกสาขา
+  const { data: branches } = trpc.branches.list.useQuery();
+  const { data: reorder, isLoading } = trpc.products.reorderSuggestions.useQuery({ allBranches });
+  const products = reorder?.suggestions;
 
   return (
     <div className="min-h-screen bg-background flex flex-col">
@@ -21,6 +26,23 @@ export default function LowStock() {
 
       {/* Content */}
       <main className="flex-1 p-4">
+        {branches && branches.length > 0 && (
+          <div className="grid grid-cols-2 gap-2 mb-3">
+            <Button
+              variant={allBranches ? "outline" : "default"}
+              onClick={() => setAllBranches(false)}
+            >
+              สาขานี้
+            </Button>
+            <Button
+              variant={allBranches ? "default" : "outline"}
+              onClick={() => setAllBranches(true)}
+            >
+              ทุกสาขา
+            </Button>
+          </div>
+        )}
+
         {isLoading ? (
           <div className="text-center py-8 text-muted-foreground">กำลังโหลด...</div>
         ) : products?.length === 0 ? (
@@ -36,7 +58,10 @@ export default function LowStock() {
                 <AlertTriangle className="w-6 h-6 text-ts-warning" />
                 <div>
                   <p className="font-semibold">มี {products?.length} รายการใกล้หมด</p>
-                  <p className="text-sm text-muted-foreground">ควรสั่งซื้อเพิ่มเร็วๆ นี้</p>
+                  <p className="text-sm text-muted-foreground">
+                    ตามยอดขาย {reorder?.options.windowDays} วันที่ผ่านมา · รอของ{" "}
+                    {reorder?.options.leadTimeDays} วัน · สั่งให้พอขาย {reorder?.options.coverDays} วัน
+                  </p>
                 </div>
               </div>
             </div>
@@ -49,6 +74,15 @@ export default function LowStock() {
                     <p className="text-sm text-muted-foreground">
                       ราคา: ฿{parseFloat(product.price).toLocaleString()}
                     </p>
+                    <p className="text-sm text-muted-foreground">
+                      ขายวันละ ~{product.averageDailySales} ·{" "}
+                      {product.daysOfStockLeft === null
+                        ? "ยังไม่มียอดขาย"
+                        : `พอขายอีก ${product.daysOfStockLeft} วัน`}
+                    </p>
+                    <p className="text-sm font-semibold text-primary">
+                      ควรสั่ง {product.suggestedQuantity}
+                    </p>
                   </div>
                   <div className="text-right">
                     <p className={`text-2xl font-bold ${
@@ -88,7 +122,21 @@ export default function LowStock() {
       </main>
 
       {/* Bottom Action */}
-      <div className="p-4 bg-card border-t border-border">
+      <div className="p-4 bg-card border-t border-border space-y-2">
+        {products && products.length > 0 && (
+          <Link href={`/purchase-orders/new?fromLowStock=1${allBranches ? "&allBranches=1" : ""}`}>
+            <Button variant="outline" className="w-full">
+              <ClipboardList className="w-5 h-5 mr-2" />
+              สร้างใบสั่งซื้อจากรายการนี้
+            </Button>
+          </Link>
+        )}
+        <Link href="/near-expiry">
+          <Button variant="outline" className="w-full">
+            <CalendarClock className="w-5 h-5 mr-2" />
+            ของใกล้หมดอายุ
+          </Button>
+        </Link>
         <Link href="/products">
           <Button className="ts-btn-primary w-full">
             <Plus className="w-5 h-5" />
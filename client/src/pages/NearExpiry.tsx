@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { trpc } from "@/lib/trpc";
+import { ArrowLeft, CalendarClock, AlertTriangle, Trash2 } from "lucide-react";
+import { Link } from "wouter";
+import { toast } from "sonner";
+
+const DAY_OPTIONS = [3, 7, 14, 30];
+
+export default function NearExpiry() {
+  const utils = trpc.useUtils();
+  const [days, setDays] = useState(7);
+  const { data: lots, isLoading } = trpc.stock.nearExpiry.useQuery({ days });
+
+  const adjustMutation = trpc.stock.adjust.useMutation({
+    onSuccess: async () => {
+      toast.success("ตัดสต็อกล็อตที่หมดอายุแล้ว");
+      await utils.stock.nearExpiry.invalidate();
+      await utils.products.list.invalidate();
+      await utils.products.lowStock.invalidate();
+      await utils.products.reorderSuggestions.invalidate();
+      await utils.stock.movements.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "เกิดข้อผิดพลาด"),
+  });
+
+  const expired = (lots ?? []).filter((lot) => lot.daysLeft < 0);
+  const upcoming = (lots ?? []).filter((lot) => lot.daysLeft >= 0);
+
+  const handleWriteOff = (lot: NonNullable<typeof lots>[number]) => {
+    if (
+      !confirm(
+        `ตัด ${lot.productName} ${lot.remainingQuantity} ${lot.baseUnit} ออกจากสต็อกเป็นของหมดอายุ?`
+      )
+    ) {
+      return;
+    }
+    adjustMutation.mutate({
+      productId: lot.productId,
+      direction: "out",
+      quantity: lot.remainingQuantity,
+      reason: "expired",
+      note: `ทิ้งของหมดอายุ${lot.lotNumber ? ` ล็อต ${lot.lotNumber}` : ""}`,
+      lotId: lot.id,
+    });
+  };
+
+  const renderLot = (lot: NonNullable<typeof lots>[number]) => (
+    <div key={lot.id} className="ts-card">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold text-lg truncate">{lot.productName}</h3>
+          <p className="text-sm text-muted-foreground">
+            {lot.lotNumber ? `ล็อต ${lot.lotNumber} · ` : ""}
+            หมดอายุ {new Date(lot.expiryDate).toLocaleDateString("th-TH")}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            เหลือ {lot.remainingQuantity} {lot.baseUnit}
+            {lot.costValue !== undefined && ` · ทุน ฿${lot.costValue.toLocaleString()}`}
+          </p>
+        </div>
+        <div className="text-right">
+          <p
+            className={`text-lg font-bold ${
+              lot.daysLeft < 0 ? "text-ts-danger" : "text-ts-warning"
+            }`}
+          >
+            {lot.daysLeft < 0
+              ? `เลย ${-lot.daysLeft} วัน`
+              : lot.daysLeft === 0
+                ? "วันนี้"
+                : `อีก ${lot.daysLeft} วัน`}
+          </p>
+          {lot.daysLeft < 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-2"
+              disabled={adjustMutation.isPending}
+              onClick={() => handleWriteOff(lot)}
+            >
+              <Trash2 className="w-4 h-4 mr-1" />
+              ตัดทิ้ง
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {/* Header */}
+      <header className="bg-ts-warning text-ts-black p-4 flex items-center gap-4">
+        <Link href="/low-stock">
+          <Button variant="ghost" size="icon" className="text-ts-black hover:bg-black/10">
+            <ArrowLeft className="w-6 h-6" />
+          </Button>
+        </Link>
+        <h1 className="text-xl font-bold flex-1">ของใกล้หมดอายุ</h1>
+        <CalendarClock className="w-6 h-6" />
+      </header>
+
+      {/* Content */}
+      <main className="flex-1 p-4 space-y-3">
+        <div className="flex gap-2">
+          {DAY_OPTIONS.map((option) => (
+            <Button
+              key={option}
+              variant={days === option ? "default" : "outline"}
+              size="sm"
+              className="flex-1"
+              onClick={() => setDays(option)}
+            >
+              {option} วัน
+            </Button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">กำลังโหลด...</div>
+        ) : lots?.length === 0 ? (
+          <div className="text-center py-12">
+            <CalendarClock className="w-16 h-16 mx-auto mb-4 text-ts-success" />
+            <h2 className="text-xl font-semibold mb-2">ไม่มีของใกล้หมดอายุ</h2>
+            <p className="text-muted-foreground">ภายใน {days} วันข้างหน้า</p>
+          </div>
+        ) : (
+          <>
+            {expired.length > 0 && (
+              <>
+                <div className="ts-card bg-ts-danger/10 border-ts-danger">
+                  <div className="flex items-center gap-3">
+                    <AlertTriangle className="w-6 h-6 text-ts-danger" />
+                    <div>
+                      <p className="font-semibold">หมดอายุแล้ว {expired.length} ล็อต</p>
+                      <p className="text-sm text-muted-foreground">
+                        ควรเก็บออกจากชั้นวางและตัดออกจากสต็อก
+                      </p>
+                    </div>
+                  </div>
+                </div>
+                {expired.map(renderLot)}
+              </>
+            )}
+
+            {upcoming.length > 0 && (
+              <>
+                <div className="ts-card bg-ts-warning/10 border-ts-warning">
+                  <div className="flex items-center gap-3">
+                    <CalendarClock className="w-6 h-6 text-ts-warning" />
+                    <div>
+                      <p className="font-semibold">
+                        ใกล้หมดอายุใน {days} วัน {upcoming.length} ล็อต
+                      </p>
+                      <p className="text-sm text-muted-foreground">ควรขายก่อน หรือจัดโปรโมชั่น</p>
+                    </div>
+                  </div>
+                </div>
+                {upcoming.map(renderLot)}
+              </>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -51,6 +51,12 @@ export default function PrintReceipt({
     { enabled: true }
   );
 
+  // PromptPay QR ท้ายใบเสร็จ (เฉพาะบิลที่จ่ายพร้อมเพย์ และร้านตั้ง PromptPay ID แล้ว)
+  const { data: promptPayQr } = trpc.receipts.promptPayQr.useQuery(
+    { saleId },
+    { retry: false }
+  );
+
   // ดึงข้อมูล Settings เพื่อตรวจสอบข้อมูลผู้ขาย
   const { data: settings } = trpc.system.settings.get.useQuery();
 
@@ -123,7 +129,9 @@ export default function PrintReceipt({
 
     setIsPrinting(true);
     try {
-      await receiptPrinter.printReceipt(receiptText);
+      await receiptPrinter.printReceipt(receiptText, {
+        qrPayload: promptPayQr?.payload,
+      });
       toast.success("พิมพ์ใบเสร็จสำเร็จ");
       if (onClose) {
         onClose();
@@ -168,6 +176,16 @@ export default function PrintReceipt({
           >
           {receiptText}
         </pre>
+          {promptPayQr && (
+            <div className="flex flex-col items-center pt-2">
+              <img
+                src={promptPayQr.qrDataUrl}
+                alt="PromptPay QR"
+                className="w-40 h-40"
+              />
+              <p className="text-[10px] font-mono">สแกนจ่ายด้วยพร้อมเพย์</p>
+            </div>
+          )}
         </div>
       </Card>
 
@@ -2,6 +2,7 @@ import { useMemo, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { trpc } from "@/lib/trpc";
+import { usePermissions } from "@/hooks/usePermissions";
 import { resolveProductImage } from "@/utils/resolveProductImage";
 import {
   ArrowLeft,
@@ -9,16 +10,25 @@ import {
   Plus,
   Edit2,
   Trash2,
+  Archive,
+  ArchiveRestore,
   Save,
   X,
   Upload,
   FileText,
   PackagePlus,
+  PackageMinus,
   History,
+  ClipboardList,
+  ClipboardCheck,
+  Tags,
+  Camera,
+  Barcode,
   Image as ImageIcon,
 } from "lucide-react";
 import { Link } from "wouter";
 import { toast } from "sonner";
+import BarcodeScanner from "@/components/BarcodeScanner";
 import {
   Dialog,
   DialogContent,
@@ -41,16 +51,50 @@ interface ProductForm {
   name: string;
   barcode: string;
   price: string;
+  costPrice: string;
   stock: string;
   reorderPoint: string;
   imageUrl?: string;
+  categoryId: string; // "" = ไม่มีหมวด
+  tags: string; // คั่นด้วยจุลภาค
+  baseUnit: string;
+  units: UnitForm[];
+  soldByMeasure: boolean; // ขายตามน้ำหนัก/ความยาว
+  quantityPrecision: string;
+  plu: string; // รหัสบนตาชั่ง
 }
 
+// หน่วยขายเพิ่มเติม (แพ็ค/ลัง) - ค่าเป็น string ตาม input
+interface UnitForm {
+  name: string;
+  factor: string;
+  barcode: string;
+  price: string;
+}
+
+const NEW_UNIT: UnitForm = { name: "", factor: "", barcode: "", price: "" };
+
+// "ขวด, เย็น" → ["ขวด", "เย็น"]
+const parseTags = (value?: string | null): string[] =>
+  (value ?? "")
+    .split(/[,|]/)
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+
 export default function Products() {
   const [showForm, setShowForm] = useState(false);
   const [showImportDialog, setShowImportDialog] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [deleteId, setDeleteId] = useState<string | null>(null);
+  // สินค้าที่มีสต็อกอยู่ ทุนคิดจากการรับของเข้า → แก้ราคาทุนตรงๆ ไม่ได้
+  const [costLocked, setCostLocked] = useState(false);
+  const [archiveId, setArchiveId] = useState<string | null>(null);
+  const [purgeId, setPurgeId] = useState<string | null>(null);
+  // ดูสินค้าที่เก็บเข้าคลัง (เลิกขาย)
+  const [showArchived, setShowArchived] = useState(false);
+  const { can } = usePermissions();
+  const canEdit = can("products.edit");
+  const canDelete = can("products.delete");
+  const [showBarcodeScanner, setShowBarcodeScanner] = useState(false);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const previewUrlRef = useRef<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -59,11 +103,26 @@ export default function Products() {
     name: "",
     barcode: "",
     price: "",
+    costPrice: "",
     stock: "",
     reorderPoint: "",
     imageUrl: undefined,
+    categoryId: "",
+    tags: "",
+    baseUnit: "",
+    units: [],
+    soldByMeasure: false,
+    quantityPrecision: "3",
+    plu: "",
   });
-  const { data: products, isLoading, refetch } = trpc.products.list.useQuery();
+  const { data: products, isLoading, refetch } = trpc.products.list.useQuery(
+    showArchived ? { archived: true } : undefined
+  );
+  const { data: categories } = trpc.categories.list.useQuery();
+  const categoryNameById = useMemo(
+    () => new Map((categories ?? []).map((c) => [c.id as string, c.name as string])),
+    [categories]
+  );
 
   const createProduct = trpc.products.create.useMutation({
     onSuccess: () => {
@@ -83,13 +142,33 @@ export default function Products() {
     onError: () => toast.error("เกิดข้อผิดพลาด"),
   });
 
-  const deleteProduct = trpc.products.delete.useMutation({
+  const archiveProduct = trpc.products.archive.useMutation({
     onSuccess: () => {
-      toast.success("ลบสินค้าสำเร็จ");
-      setDeleteId(null);
+      toast.success("เก็บสินค้าเข้าคลังแล้ว");
+      setArchiveId(null);
       refetch();
     },
-    onError: () => toast.error("เกิดข้อผิดพลาด"),
+    onError: (error) => toast.error(error.message || "เกิดข้อผิดพลาด"),
+  });
+
+  const restoreProduct = trpc.products.restore.useMutation({
+    onSuccess: () => {
+      toast.success("นำสินค้ากลับมาขายแล้ว");
+      refetch();
+    },
+    onError: (error) => toast.error(error.message || "เกิดข้อผิดพลาด"),
+  });
+
+  const purgeProduct = trpc.products.purge.useMutation({
+    onSuccess: () => {
+      toast.success("ลบสินค้าถาวรแล้ว");
+      setPurgeId(null);
+      refetch();
+    },
+    onError: (error) => {
+      setPurgeId(null);
+      toast.error(error.message || "เกิดข้อผิดพลาด");
+    },
   });
 
   const importProducts = trpc.products.import.useMutation({
@@ -112,30 +191,54 @@ export default function Products() {
       previewUrlRef.current = null;
     }
     setPreviewUrl(null);
-    setForm({ name: "", barcode: "", price: "", stock: "", reorderPoint: "", imageUrl: undefined });
+    setForm({ name: "", barcode: "", price: "", costPrice: "", stock: "", reorderPoint: "", imageUrl: undefined, categoryId: "", tags: "", baseUnit: "", units: [], soldByMeasure: false, quantityPrecision: "3", plu: "" });
     setShowForm(false);
     setEditingId(null);
+    setCostLocked(false);
   };
 
   const handleEdit = (product: {
     id: string | number;
     name: string;
     price: string;
+    costPrice?: number;
     stock: number;
+    totalStock?: number;
     reorderPoint?: number;
     minStock?: number;
     barcode?: string | null;
     imageUrl?: string | null;
+    categoryId?: string | null;
+    tags?: string[];
+    baseUnit?: string;
+    units?: Array<{ name: string; factor: number; barcode?: string | null; price: number }>;
+    soldByMeasure?: boolean;
+    quantityPrecision?: number;
+    plu?: string | null;
   }) => {
     setForm({
       name: product.name,
       barcode: product.barcode ?? "",
       price: product.price,
+      costPrice: product.costPrice ? String(product.costPrice) : "",
       stock: String(product.stock),
       reorderPoint: String(product.reorderPoint ?? product.minStock ?? 5),
       imageUrl: product.imageUrl ?? undefined,
+      categoryId: product.categoryId ?? "",
+      tags: (product.tags ?? []).join(", "),
+      baseUnit: product.baseUnit ?? "",
+      units: (product.units ?? []).map((unit) => ({
+        name: unit.name,
+        factor: String(unit.factor),
+        barcode: unit.barcode ?? "",
+        price: String(unit.price),
+      })),
+      soldByMeasure: product.soldByMeasure ?? false,
+      quantityPrecision: String(product.quantityPrecision ?? 3),
+      plu: product.plu ?? "",
     });
     setEditingId(String(product.id));
+    setCostLocked((product.totalStock ?? product.stock) > 0);
     setShowForm(true);
     if (previewUrlRef.current) {
       URL.revokeObjectURL(previewUrlRef.current);
@@ -158,6 +261,9 @@ export default function Products() {
     e.target.value = "";
   };
 
+  // สินค้าขายตามน้ำหนัก/ความยาวกรอกทศนิยมได้
+  const quantityPattern = form.soldByMeasure ? /^\d*\.?\d*$/ : /^\d*$/;
+
   const handleSubmit = () => {
     if (!form.name.trim()) {
       toast.error("กรุณาใส่ชื่อสินค้า");
@@ -167,25 +273,53 @@ export default function Products() {
       toast.error("กรุณาใส่ราคาที่ถูกต้อง");
       return;
     }
+    const units = form.units
+      .filter((unit) => unit.name.trim())
+      .map((unit) => ({
+        name: unit.name.trim(),
+        factor: parseFloat(unit.factor) || 0,
+        barcode: unit.barcode.trim() || null,
+        price: parseFloat(unit.price) || 0,
+      }));
+    if (units.some((unit) => unit.factor <= 0 || unit.price <= 0)) {
+      toast.error("กรุณาใส่จำนวนต่อหน่วยและราคาของทุกหน่วย");
+      return;
+    }
 
     if (editingId) {
       updateProduct.mutate({
         id: editingId,
         name: form.name,
         price: form.price,
+        costPrice: !costLocked && form.costPrice ? parseFloat(form.costPrice) : undefined,
         stock: Number(form.stock || 0),
         reorderPoint: Number(form.reorderPoint || 5),
         barcode: form.barcode.trim() || undefined,
         imageUrl: form.imageUrl || undefined,
+        categoryId: form.categoryId || null,
+        tags: parseTags(form.tags),
+        baseUnit: form.baseUnit.trim() || undefined,
+        units,
+        soldByMeasure: form.soldByMeasure,
+        quantityPrecision: Number(form.quantityPrecision),
+        plu: form.plu || null,
       });
     } else {
       createProduct.mutate({
         name: form.name,
         price: form.price,
+        costPrice: form.costPrice ? parseFloat(form.costPrice) : undefined,
         stock: Number(form.stock || 0),
         reorderPoint: Number(form.reorderPoint || 5),
         barcode: form.barcode.trim() || undefined,
         imageUrl: form.imageUrl || undefined,
+        categoryId: form.categoryId || null,
+        tags: parseTags(form.tags),
+        baseUnit: form.baseUnit.trim() || undefined,
+        units,
+        soldByMeasure: form.soldByMeasure,
+        quantityPrecision: Number(form.quantityPrecision),
+        plu: form.plu || null,
       });
     }
   };
@@ -197,6 +331,8 @@ export default function Products() {
     price: string | number;
     stock?: number;
     reorderPoint?: number;
+    category?: string;
+    tags?: string[];
   }> => {
     const lines = text.split('\n').filter(line => line.trim());
     if (lines.length === 0) return [];
@@ -214,6 +350,8 @@ export default function Products() {
         price: parts[1]?.trim() || '0',
         stock: parts[2] ? parseInt(parts[2].trim()) || 0 : undefined,
         reorderPoint: parts[3] ? parseInt(parts[3].trim()) || 5 : undefined,
+        category: parts[4]?.trim() || undefined,
+        tags: parts[5] ? parseTags(parts[5]) : undefined,
       };
     }).filter(p => p.name); // Filter out empty names
   };
@@ -236,6 +374,8 @@ export default function Products() {
         price: string | number;
         stock?: number;
         reorderPoint?: number;
+        category?: string;
+        tags?: string[];
       }> = [];
 
       if (fileExtension === 'csv') {
@@ -249,6 +389,10 @@ export default function Products() {
             stock: item.stock ?? item.จำนวนคงเหลือ,
             reorderPoint:
               item.reorderPoint ?? item.minStock ?? item.แจ้งเตือนเมื่อเหลือ,
+            category: item.category ?? item.หมวดหมู่,
+            tags: Array.isArray(item.tags)
+              ? item.tags
+              : parseTags(item.tags ?? item.แท็ก),
           })).filter((p: any) => p.name);
         } else {
           toast.error("ไฟล์ JSON ต้องเป็น array ของสินค้า");
@@ -302,6 +446,51 @@ export default function Products() {
               <span className="text-sm font-medium">รับสินค้าเข้า</span>
             </Button>
           </Link>
+          <Link href="/stock-adjust">
+            <Button
+              variant="ghost"
+              className="text-secondary-foreground hover:bg-white/10 h-auto py-2 px-3"
+            >
+              <PackageMinus className="w-4 h-4 mr-2" />
+              <span className="text-sm font-medium">ปรับสต็อก</span>
+            </Button>
+          </Link>
+          <Link href="/purchase-orders">
+            <Button
+              variant="ghost"
+              className="text-secondary-foreground hover:bg-white/10 h-auto py-2 px-3"
+            >
+              <ClipboardList className="w-4 h-4 mr-2" />
+              <span className="text-sm font-medium">ใบสั่งซื้อ</span>
+            </Button>
+          </Link>
+          <Link href="/categories">
+            <Button
+              variant="ghost"
+              className="text-secondary-foreground hover:bg-white/10 h-auto py-2 px-3"
+            >
+              <Tags className="w-4 h-4 mr-2" />
+              <span className="text-sm font-medium">หมวดหมู่</span>
+            </Button>
+          </Link>
+          <Link href="/labels">
+            <Button
+              variant="ghost"
+              className="text-secondary-foreground hover:bg-white/10 h-auto py-2 px-3"
+            >
+              <Barcode className="w-4 h-4 mr-2" />
+              <span className="text-sm font-medium">ป้ายราคา</span>
+            </Button>
+          </Link>
+          <Link href="/stocktakes">
+            <Button
+              variant="ghost"
+              className="text-secondary-foreground hover:bg-white/10 h-auto py-2 px-3"
+            >
+              <ClipboardCheck className="w-4 h-4 mr-2" />
+              <span className="text-sm font-medium">นับสต็อก</span>
+            </Button>
+          </Link>
           <Link href="/stock-history">
             <Button
               variant="ghost"
@@ -312,22 +501,26 @@ export default function Products() {
               <span className="text-sm font-medium">ประวัติสต็อก</span>
             </Button>
           </Link>
-          <Button
-            variant="ghost"
-            className="text-secondary-foreground hover:bg-white/10 h-auto py-2 px-3"
-            onClick={() => setShowForm(true)}
-          >
-            <Plus className="w-4 h-4 mr-2" />
-            <span className="text-sm font-medium">เพิ่มสินค้าใหม่</span>
-          </Button>
-          <Button
-            variant="ghost"
-            className="text-secondary-foreground hover:bg-white/10 h-auto py-2 px-3"
-            onClick={() => setShowImportDialog(true)}
-          >
-            <Upload className="w-4 h-4 mr-2" />
-            <span className="text-sm font-medium">นำเข้าสินค้า</span>
-          </Button>
+          {canEdit && (
+            <>
+              <Button
+                variant="ghost"
+                className="text-secondary-foreground hover:bg-white/10 h-auto py-2 px-3"
+                onClick={() => setShowForm(true)}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                <span className="text-sm font-medium">เพิ่มสินค้าใหม่</span>
+              </Button>
+              <Button
+                variant="ghost"
+                className="text-secondary-foreground hover:bg-white/10 h-auto py-2 px-3"
+                onClick={() => setShowImportDialog(true)}
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                <span className="text-sm font-medium">นำเข้าสินค้า</span>
+              </Button>
+            </>
+          )}
         </div>
       </header>
 
@@ -335,21 +528,44 @@ export default function Products() {
       <main className="flex-1 p-4 overflow-y-auto">
         {isLoading ? (
           <div className="text-center py-8 text-muted-foreground">กำลังโหลด...</div>
+        ) : showArchived && productsForUi?.length === 0 ? (
+          <div className="text-center py-12">
+            <Archive className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+            <h2 className="text-xl font-semibold mb-2">ไม่มีสินค้าในคลัง</h2>
+            <Button variant="outline" onClick={() => setShowArchived(false)}>
+              กลับไปดูสินค้าที่ขายอยู่
+            </Button>
+          </div>
         ) : productsForUi?.length === 0 ? (
           <div className="text-center py-12">
             <Package className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
             <h2 className="text-xl font-semibold mb-2">ยังไม่มีสินค้า</h2>
             <p className="text-muted-foreground mb-4">เริ่มต้นเพิ่มสินค้าของคุณ</p>
-            <Button className="ts-btn-primary" onClick={() => setShowForm(true)}>
-              <Plus className="w-5 h-5" />
-              เพิ่มสินค้าใหม่
+            {canEdit && (
+              <Button className="ts-btn-primary" onClick={() => setShowForm(true)}>
+                <Plus className="w-5 h-5" />
+                เพิ่มสินค้าใหม่
+              </Button>
+            )}
+            <Button variant="link" className="block mx-auto mt-2" onClick={() => setShowArchived(true)}>
+              ดูสินค้าในคลัง
             </Button>
           </div>
         ) : (
           <div className="space-y-3">
-            <p className="text-sm text-muted-foreground">
-              สินค้าทั้งหมด {productsForUi?.length} รายการ
-            </p>
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                {showArchived ? "สินค้าในคลัง (เลิกขาย)" : "สินค้าทั้งหมด"} {productsForUi?.length} รายการ
+              </p>
+              <Button
+                variant="ghost"
+                className="h-8 px-2 text-xs"
+                onClick={() => setShowArchived((prev) => !prev)}
+              >
+                <Archive className="w-3 h-3 mr-1" />
+                {showArchived ? "สินค้าที่ขายอยู่" : "สินค้าในคลัง"}
+              </Button>
+            </div>
             {productsForUi?.map((product) => {
               const reorderPoint = product.reorderPoint ?? 5;
               const isLow = Number(product.stock) <= Number(reorderPoint);
@@ -386,8 +602,14 @@ export default function Products() {
                           ฿{parseFloat(product.price).toLocaleString()}
                         </p>
                         <div className="flex flex-wrap gap-3 mt-1 text-sm text-muted-foreground">
-                          <span>คงเหลือ: {product.stock}</span>
+                          {product.costPrice > 0 && <span>ทุน: ฿{product.costPrice.toLocaleString()}</span>}
+                          <span>คงเหลือ: {product.stock} {product.baseUnit ?? "ชิ้น"}</span>
                           <span>จุดสั่งซื้อ: {reorderPoint}</span>
+                          {product.categoryId && (
+                            <span>
+                              หมวด: {categoryNameById.get(product.categoryId) ?? "-"}
+                            </span>
+                          )}
                           <span
                             className={`px-2 py-0.5 rounded-full text-xs ${
                               isLow
@@ -398,35 +620,85 @@ export default function Products() {
                             {isLow ? "ใกล้หมด" : "ปกติ"}
                           </span>
                         </div>
+                        {product.units?.length > 0 && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {product.units
+                              .map(
+                                (unit: { name: string; factor: number; price: number }) =>
+                                  `${unit.name} (${unit.factor} ${product.baseUnit ?? "ชิ้น"}) ฿${unit.price.toLocaleString()}`
+                              )
+                              .join(" · ")}
+                          </p>
+                        )}
+                        {product.tags?.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {product.tags.map((tag: string) => (
+                              <span
+                                key={tag}
+                                className="px-2 py-0.5 rounded-full text-xs bg-muted text-muted-foreground"
+                              >
+                                #{tag}
+                              </span>
+                            ))}
+                          </div>
+                        )}
                       </div>
-                      <div className="flex flex-col md:flex-row flex-wrap gap-1 md:gap-2 justify-end">
-                        <Link href={`/stock-in?productId=${String(product.id)}`}>
-                          <Button
-                            variant="ghost"
-                            className="h-8 px-2 text-xs"
-                            onClick={() => {}}
-                          >
-                            <PackagePlus className="w-3 h-3 mr-1" />
-                            <span>รับเข้า</span>
-                          </Button>
-                        </Link>
-                        <Button
-                          variant="ghost"
-                          className="h-8 px-2 text-xs"
-                          onClick={() => handleEdit(product)}
-                        >
-                          <Edit2 className="w-3 h-3 mr-1" />
-                          <span>แก้ไข</span>
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          className="h-8 px-2 text-xs text-destructive hover:text-destructive"
-                          onClick={() => setDeleteId(String(product.id))}
-                        >
-                          <Trash2 className="w-3 h-3 mr-1" />
-                          <span>ลบ</span>
-                        </Button>
-                      </div>
+                      {showArchived ? (
+                        canDelete && (
+                          <div className="flex flex-col md:flex-row flex-wrap gap-1 md:gap-2 justify-end">
+                            <Button
+                              variant="ghost"
+                              className="h-8 px-2 text-xs"
+                              disabled={restoreProduct.isPending}
+                              onClick={() => restoreProduct.mutate({ id: String(product.id) })}
+                            >
+                              <ArchiveRestore className="w-3 h-3 mr-1" />
+                              <span>นำกลับมาขาย</span>
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              className="h-8 px-2 text-xs text-destructive hover:text-destructive"
+                              onClick={() => setPurgeId(String(product.id))}
+                            >
+                              <Trash2 className="w-3 h-3 mr-1" />
+                              <span>ลบถาวร</span>
+                            </Button>
+                          </div>
+                        )
+                      ) : (
+                        <div className="flex flex-col md:flex-row flex-wrap gap-1 md:gap-2 justify-end">
+                          <Link href={`/stock-in?productId=${String(product.id)}`}>
+                            <Button
+                              variant="ghost"
+                              className="h-8 px-2 text-xs"
+                              onClick={() => {}}
+                            >
+                              <PackagePlus className="w-3 h-3 mr-1" />
+                              <span>รับเข้า</span>
+                            </Button>
+                          </Link>
+                          {canEdit && (
+                            <Button
+                              variant="ghost"
+                              className="h-8 px-2 text-xs"
+                              onClick={() => handleEdit(product)}
+                            >
+                              <Edit2 className="w-3 h-3 mr-1" />
+                              <span>แก้ไข</span>
+                            </Button>
+                          )}
+                          {canDelete && (
+                            <Button
+                              variant="ghost"
+                              className="h-8 px-2 text-xs text-destructive hover:text-destructive"
+                              onClick={() => setArchiveId(String(product.id))}
+                            >
+                              <Archive className="w-3 h-3 mr-1" />
+                              <span>เก็บเข้าคลัง</span>
+                            </Button>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -438,7 +710,7 @@ export default function Products() {
 
       {/* Add/Edit Dialog */}
       <Dialog open={showForm} onOpenChange={(open) => !open && resetForm()}>
-        <DialogContent className="max-w-sm">
+        <DialogContent className="max-w-sm max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle className="text-xl">
               {editingId ? "แก้ไขสินค้า" : "เพิ่มสินค้าใหม่"}
@@ -458,16 +730,77 @@ export default function Products() {
               />
             </div>
             
-            <div>
-              <label className="text-sm text-muted-foreground mb-2 block">
-                บาร์โค้ดสินค้า
-              </label>
-              <Input
-                value={form.barcode}
-                onChange={(e) => setForm({ ...form, barcode: e.target.value })}
-                className="ts-input"
-                placeholder="เช่น 8850123456789"
-              />
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2">
+                <label className="text-sm text-muted-foreground mb-2 block">
+                  บาร์โค้ดสินค้า
+                </label>
+                <div className="flex gap-2">
+                  <Input
+                    value={form.barcode}
+                    onChange={(e) => setForm({ ...form, barcode: e.target.value })}
+                    className="ts-input flex-1"
+                    placeholder="เช่น 8850123456789"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="h-auto"
+                    onClick={() => setShowBarcodeScanner(true)}
+                    aria-label="สแกนด้วยกล้อง"
+                  >
+                    <Camera className="w-5 h-5" />
+                  </Button>
+                </div>
+              </div>
+              <div>
+                <label className="text-sm text-muted-foreground mb-2 block">
+                  PLU ตาชั่ง
+                </label>
+                <Input
+                  type="text"
+                  inputMode="numeric"
+                  maxLength={6}
+                  value={form.plu}
+                  onChange={(e) => {
+                    const v = e.target.value;
+                    if (/^\d*$/.test(v)) setForm({ ...form, plu: v });
+                  }}
+                  className="ts-input"
+                  placeholder="เช่น 123"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm text-muted-foreground mb-2 block">
+                  หมวดหมู่
+                </label>
+                <select
+                  className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm"
+                  value={form.categoryId}
+                  onChange={(e) => setForm({ ...form, categoryId: e.target.value })}
+                >
+                  <option value="">ไม่มีหมวด</option>
+                  {categories?.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="text-sm text-muted-foreground mb-2 block">
+                  แท็ก
+                </label>
+                <Input
+                  value={form.tags}
+                  onChange={(e) => setForm({ ...form, tags: e.target.value })}
+                  className="ts-input"
+                  placeholder="เช่น ขายดี, แช่เย็น"
+                />
+              </div>
             </div>
 
             {/* รูปสินค้า — local เท่านั้น: เลือกไฟล์ → preview ทันที, ไฟล์ต้องอยู่ใน client/public/products/ */}
@@ -544,6 +877,29 @@ export default function Products() {
                 placeholder=""
               />
             </div>
+
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">
+                ราคาทุน (บาท)
+              </label>
+              <Input
+                type="text"
+                inputMode="decimal"
+                value={form.costPrice}
+                onChange={(e) => {
+                  const v = e.target.value;
+                  if (v === "" || /^\d*\.?\d*$/.test(v)) setForm({ ...form, costPrice: v });
+                }}
+                disabled={costLocked}
+                className="ts-input"
+                placeholder="ใช้คิดกำไร (อัปเดตอัตโนมัติเมื่อรับสินค้าเข้า)"
+              />
+              {costLocked && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  สินค้ามีสต็อกอยู่ ทุนคิดจากการรับสินค้าเข้าตามวิธีคิดต้นทุนของร้าน
+                </p>
+              )}
+            </div>
             
             <div className="grid grid-cols-2 gap-4">
               <div>
@@ -552,17 +908,19 @@ export default function Products() {
                 </label>
                 <Input
                   type="text"
-                  inputMode="numeric"
+                  inputMode={form.soldByMeasure ? "decimal" : "numeric"}
                   value={form.stock}
                   onChange={(e) => {
                     const v = e.target.value;
-                    if (/^\d*$/.test(v)) setForm({ ...form, stock: v });
+                    if (quantityPattern.test(v)) setForm({ ...form, stock: v });
                   }}
                   className="ts-input"
                   placeholder=""
                 />
                 <p className="text-xs text-muted-foreground mt-1">
-                  ใส่จำนวนสินค้าที่รับเข้าร้านครั้งแรก ระบบจะใช้เป็นสต๊อกเริ่มต้น
+                  {editingId
+                    ? "แก้จำนวนตรงนี้จะบันทึกในประวัติสต็อกเป็น \"แก้ไขยอดสต็อก\""
+                    : "ใส่จำนวนสินค้าที่รับเข้าร้านครั้งแรก ระบบจะใช้เป็นสต๊อกเริ่มต้น"}
                 </p>
               </div>
               <div>
@@ -571,17 +929,116 @@ export default function Products() {
                 </label>
                 <Input
                   type="text"
-                  inputMode="numeric"
+                  inputMode={form.soldByMeasure ? "decimal" : "numeric"}
                   value={form.reorderPoint}
                   onChange={(e) => {
                     const v = e.target.value;
-                    if (/^\d*$/.test(v)) setForm({ ...form, reorderPoint: v });
+                    if (quantityPattern.test(v)) setForm({ ...form, reorderPoint: v });
                   }}
                   className="ts-input"
                   placeholder=""
                 />
               </div>
             </div>
+
+            {/* หน่วยขาย - สต็อก/ราคาขาย/ราคาทุนด้านบนเป็นของหน่วยฐาน */}
+            <div className="space-y-2">
+              <label className="text-sm text-muted-foreground block">
+                หน่วยนับสต็อก
+              </label>
+              <Input
+                value={form.baseUnit}
+                onChange={(e) => setForm({ ...form, baseUnit: e.target.value })}
+                className="ts-input"
+                placeholder={form.soldByMeasure ? "เช่น กก. / เมตร" : "ชิ้น"}
+              />
+              <div className="flex items-center justify-between gap-2">
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={form.soldByMeasure}
+                    onChange={(e) => setForm({ ...form, soldByMeasure: e.target.checked })}
+                  />
+                  ขายตามน้ำหนัก/ความยาว (ทศนิยมได้)
+                </label>
+                {form.soldByMeasure && (
+                  <select
+                    className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                    value={form.quantityPrecision}
+                    onChange={(e) => setForm({ ...form, quantityPrecision: e.target.value })}
+                  >
+                    <option value="1">0.0</option>
+                    <option value="2">0.00</option>
+                    <option value="3">0.000</option>
+                  </select>
+                )}
+              </div>
+              {form.units.map((unit, index) => {
+                const updateUnit = (patch: Partial<UnitForm>) =>
+                  setForm({
+                    ...form,
+                    units: form.units.map((u, i) => (i === index ? { ...u, ...patch } : u)),
+                  });
+                return (
+                  <div key={index} className="p-3 bg-muted rounded-lg space-y-2">
+                    <div className="flex gap-2">
+                      <Input
+                        value={unit.name}
+                        onChange={(e) => updateUnit({ name: e.target.value })}
+                        placeholder="ชื่อหน่วย เช่น แพ็ค"
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive shrink-0"
+                        onClick={() =>
+                          setForm({ ...form, units: form.units.filter((_, i) => i !== index) })
+                        }
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Input
+                        type="text"
+                        inputMode="decimal"
+                        value={unit.factor}
+                        onChange={(e) => {
+                          const v = e.target.value;
+                          if (v === "" || /^\d*\.?\d*$/.test(v)) updateUnit({ factor: v });
+                        }}
+                        placeholder={`จำนวน${form.baseUnit || "ชิ้น"}`}
+                      />
+                      <Input
+                        type="text"
+                        inputMode="decimal"
+                        value={unit.price}
+                        onChange={(e) => {
+                          const v = e.target.value;
+                          if (v === "" || /^\d*\.?\d*$/.test(v)) updateUnit({ price: v });
+                        }}
+                        placeholder="ราคาขาย"
+                      />
+                    </div>
+                    <Input
+                      value={unit.barcode}
+                      onChange={(e) => updateUnit({ barcode: e.target.value })}
+                      placeholder="บาร์โค้ดของหน่วยนี้"
+                    />
+                  </div>
+                );
+              })}
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={() => setForm({ ...form, units: [...form.units, NEW_UNIT] })}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                เพิ่มหน่วยขาย (แพ็ค/ลัง)
+              </Button>
+            </div>
           </div>
 
           <DialogFooter>
@@ -601,6 +1058,13 @@ export default function Products() {
         </DialogContent>
       </Dialog>
 
+      {/* Camera Scanner - เติมบาร์โค้ดสินค้า */}
+      <BarcodeScanner
+        open={showBarcodeScanner}
+        onOpenChange={setShowBarcodeScanner}
+        onDetected={(code) => setForm((prev) => ({ ...prev, barcode: code }))}
+      />
+
       {/* Import Dialog */}
       <Dialog open={showImportDialog} onOpenChange={setShowImportDialog}>
         <DialogContent className="max-w-md">
@@ -616,11 +1080,13 @@ export default function Products() {
               <p className="text-sm font-medium mb-2">รองรับไฟล์ CSV หรือ JSON</p>
               <p className="text-xs text-muted-foreground mb-3">
                 <strong>รูปแบบ CSV:</strong><br />
-                ชื่อสินค้า,ราคา,จำนวนคงเหลือ,แจ้งเตือนเมื่อเหลือ
+                ชื่อสินค้า,ราคา,จำนวนคงเหลือ,แจ้งเตือนเมื่อเหลือ,หมวดหมู่,แท็ก
+                <br />
+                (แท็กหลายอันคั่นด้วย | เช่น ขายดี|แช่เย็น, หมวดหมู่ที่ยังไม่มีจะสร้างให้)
               </p>
               <p className="text-xs text-muted-foreground">
                 <strong>รูปแบบ JSON:</strong><br />
-                [&#123;"name": "สินค้า1", "price": "100", "stock": 10, "minStock": 5&#125;, ...]
+                [&#123;"name": "สินค้า1", "price": "100", "stock": 10, "minStock": 5, "category": "เครื่องดื่ม", "tags": ["ขายดี"]&#125;, ...]
               </p>
             </div>
 
@@ -668,22 +1134,43 @@ export default function Products() {
         </DialogContent>
       </Dialog>
 
-      {/* Delete Confirmation */}
-      <AlertDialog open={deleteId !== null} onOpenChange={() => setDeleteId(null)}>
+      {/* Archive Confirmation */}
+      <AlertDialog open={archiveId !== null} onOpenChange={() => setArchiveId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>เก็บสินค้าเข้าคลัง</AlertDialogTitle>
+            <AlertDialogDescription>
+              สินค้าจะไม่แสดงในหน้าขายและรายการสินค้า แต่ประวัติการขายและสต็อกยังอยู่ครบ
+              นำกลับมาขายได้ทุกเมื่อ
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>ยกเลิก</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => archiveId && archiveProduct.mutate({ id: archiveId })}
+            >
+              เก็บเข้าคลัง
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Purge Confirmation */}
+      <AlertDialog open={purgeId !== null} onOpenChange={() => setPurgeId(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>ยืนยันการลบ</AlertDialogTitle>
+            <AlertDialogTitle>ยืนยันการลบถาวร</AlertDialogTitle>
             <AlertDialogDescription>
-              คุณต้องการลบสินค้านี้หรือไม่? การลบจะไม่สามารถกู้คืนได้
+              ลบได้เฉพาะสินค้าที่ไม่เคยมีการขายหรือเคลื่อนไหวสต็อก การลบจะไม่สามารถกู้คืนได้
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
             <AlertDialogCancel>ยกเลิก</AlertDialogCancel>
-          <AlertDialogAction
+            <AlertDialogAction
               className="bg-destructive text-destructive-foreground"
-              onClick={() => deleteId && deleteProduct.mutate({ id: deleteId })}
+              onClick={() => purgeId && purgeProduct.mutate({ id: purgeId })}
             >
-              ลบ
+              ลบถาวร
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
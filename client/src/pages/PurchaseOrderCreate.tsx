@@ -0,0 +1,268 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { trpc } from "@/lib/trpc";
+import { ArrowLeft, ClipboardList, Trash2, Truck } from "lucide-react";
+import { Link, useLocation, useSearch } from "wouter";
+import { toast } from "sonner";
+
+interface OrderLine {
+  productId: string;
+  productName: string;
+  stock: number;
+  quantity: string;
+  unitCost: string;
+}
+
+export default function PurchaseOrderCreate() {
+  const [, setLocation] = useLocation();
+  const search = useSearch();
+  const utils = trpc.useUtils();
+
+  const { fromLowStock, allBranches } = useMemo(() => {
+    const params = new URLSearchParams(search);
+    return {
+      fromLowStock: params.get("fromLowStock") === "1",
+      allBranches: params.get("allBranches") === "1", // สั่งให้พอทุกสาขา
+    };
+  }, [search]);
+
+  const { data: suppliers } = trpc.suppliers.list.useQuery();
+  const { data: products } = trpc.products.list.useQuery();
+  const { data: reorder, isLoading: isLoadingLowStock } =
+    trpc.products.reorderSuggestions.useQuery({ allBranches }, { enabled: fromLowStock });
+
+  const [supplierId, setSupplierId] = useState("");
+  const [lines, setLines] = useState<OrderLine[]>([]);
+  const [note, setNote] = useState("");
+  const [prefilled, setPrefilled] = useState(false);
+
+  // เติมรายการจากของที่ควรสั่ง: จำนวนตามคำแนะนำจากยอดขาย (ใบสั่งซื้อสั่งเป็นจำนวนเต็ม)
+  useEffect(() => {
+    if (!fromLowStock || prefilled || !reorder) return;
+    setLines(
+      reorder.suggestions.map((p: any) => ({
+        productId: String(p.id),
+        productName: p.name,
+        stock: p.stock,
+        quantity: String(Math.max(Math.ceil(p.suggestedQuantity), 1)),
+        unitCost: p.costPrice ? String(p.costPrice) : "",
+      }))
+    );
+    setPrefilled(true);
+  }, [fromLowStock, prefilled, reorder]);
+
+  const createOrder = trpc.purchaseOrders.create.useMutation({
+    onSuccess: async (result) => {
+      toast.success(`สร้างใบสั่งซื้อ ${result.poNumber} สำเร็จ`);
+      await utils.purchaseOrders.list.invalidate();
+      setLocation(`/purchase-orders/${result.purchaseOrderId}`);
+    },
+    onError: (error) => toast.error(error.message || "เกิดข้อผิดพลาด"),
+  });
+
+  const addProduct = (productId: string) => {
+    if (!productId) return;
+    if (lines.some((line) => line.productId === productId)) {
+      toast.info("สินค้านี้อยู่ในใบสั่งซื้อแล้ว");
+      return;
+    }
+    const product = products?.find((p) => String(p.id) === productId);
+    if (!product) return;
+    setLines((prev) => [
+      ...prev,
+      {
+        productId,
+        productName: product.name,
+        stock: product.stock,
+        quantity: "1",
+        unitCost: product.costPrice ? String(product.costPrice) : "",
+      },
+    ]);
+  };
+
+  const updateLine = (index: number, patch: Partial<OrderLine>) => {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...patch } : line)));
+  };
+
+  const removeLine = (index: number) => {
+    setLines((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const totalCost = lines.reduce(
+    (sum, line) => sum + (parseInt(line.quantity) || 0) * (parseFloat(line.unitCost) || 0),
+    0
+  );
+
+  const handleSubmit = (markOrdered: boolean) => {
+    if (!supplierId) {
+      toast.error("กรุณาเลือกผู้จำหน่าย");
+      return;
+    }
+    if (lines.length === 0) {
+      toast.error("กรุณาเพิ่มสินค้าอย่างน้อย 1 รายการ");
+      return;
+    }
+    const invalid = lines.find((line) => !(parseInt(line.quantity) > 0));
+    if (invalid) {
+      toast.error(`จำนวนสั่งซื้อของ ${invalid.productName} ต้องมากกว่า 0`);
+      return;
+    }
+
+    createOrder.mutate({
+      supplierId,
+      items: lines.map((line) => ({
+        productId: line.productId,
+        quantity: parseInt(line.quantity),
+        unitCost: parseFloat(line.unitCost) || 0,
+      })),
+      note: note.trim() || undefined,
+      markOrdered,
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="bg-secondary text-secondary-foreground p-4 flex items-center gap-4">
+        <Link href="/purchase-orders">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-secondary-foreground hover:bg-white/10"
+          >
+            <ArrowLeft className="w-6 h-6" />
+          </Button>
+        </Link>
+        <h1 className="text-xl font-bold flex-1">สร้างใบสั่งซื้อ</h1>
+        <ClipboardList className="w-6 h-6" />
+      </header>
+
+      <main className="flex-1 p-4 space-y-4">
+        {/* ผู้จำหน่าย */}
+        <div className="ts-card space-y-2">
+          <label className="text-sm font-medium">ผู้จำหน่าย</label>
+          <select
+            className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm"
+            value={supplierId}
+            onChange={(e) => setSupplierId(e.target.value)}
+          >
+            <option value="">-- เลือกผู้จำหน่าย --</option>
+            {suppliers?.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+          {suppliers?.length === 0 && (
+            <Link href="/suppliers">
+              <Button variant="outline" size="sm" className="w-full">
+                <Truck className="w-4 h-4 mr-1" />
+                เพิ่มผู้จำหน่ายก่อน
+              </Button>
+            </Link>
+          )}
+        </div>
+
+        {/* รายการสินค้า */}
+        <div className="ts-card space-y-3">
+          <label className="text-sm font-medium">รายการสินค้า</label>
+          {fromLowStock && isLoadingLowStock ? (
+            <div className="text-center py-4 text-muted-foreground">กำลังโหลด...</div>
+          ) : lines.length === 0 ? (
+            <p className="text-sm text-muted-foreground">ยังไม่มีรายการ</p>
+          ) : (
+            lines.map((line, index) => (
+              <div key={line.productId} className="border-b border-border pb-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-semibold truncate">{line.productName}</p>
+                    <p className="text-xs text-muted-foreground">คงเหลือ {line.stock}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="w-8 h-8 text-destructive"
+                    onClick={() => removeLine(index)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="text-xs text-muted-foreground">จำนวนสั่ง</label>
+                    <Input
+                      type="text"
+                      inputMode="numeric"
+                      value={line.quantity}
+                      onChange={(e) => {
+                        const v = e.target.value;
+                        if (/^\d*$/.test(v)) updateLine(index, { quantity: v });
+                      }}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs text-muted-foreground">ราคาทุน/หน่วย (บาท)</label>
+                    <Input
+                      type="text"
+                      inputMode="decimal"
+                      value={line.unitCost}
+                      onChange={(e) => {
+                        const v = e.target.value;
+                        if (v === "" || /^\d*\.?\d*$/.test(v)) updateLine(index, { unitCost: v });
+                      }}
+                    />
+                  </div>
+                </div>
+              </div>
+            ))
+          )}
+
+          <select
+            className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm"
+            value=""
+            onChange={(e) => addProduct(e.target.value)}
+          >
+            <option value="">+ เพิ่มสินค้า</option>
+            {products?.map((p) => (
+              <option key={String(p.id)} value={String(p.id)}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="ts-card space-y-2">
+          <label className="text-sm font-medium">หมายเหตุ (ไม่บังคับ)</label>
+          <Input
+            placeholder="เช่น ส่งของภายในวันศุกร์"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+        </div>
+
+        <div className="flex justify-between text-lg font-bold">
+          <span>รวมราคาทุน</span>
+          <span className="text-primary">฿{totalCost.toLocaleString()}</span>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            className="flex-1"
+            onClick={() => handleSubmit(false)}
+            disabled={createOrder.isPending}
+          >
+            บันทึกร่าง
+          </Button>
+          <Button
+            className="ts-btn-primary flex-1"
+            onClick={() => handleSubmit(true)}
+            disabled={createOrder.isPending}
+          >
+            สั่งซื้อ
+          </Button>
+        </div>
+      </main>
+    </div>
+  );
+}
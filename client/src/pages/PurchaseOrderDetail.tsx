@@ -0,0 +1,249 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { trpc } from "@/lib/trpc";
+import { ArrowLeft, ClipboardList, PackageCheck, Send, Trash2, Loader2 } from "lucide-react";
+import { Link, useLocation, useParams } from "wouter";
+import { toast } from "sonner";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { PURCHASE_ORDER_STATUS_LABELS } from "./PurchaseOrders";
+
+export default function PurchaseOrderDetail() {
+  const params = useParams<{ id: string }>();
+  const [, setLocation] = useLocation();
+  const utils = trpc.useUtils();
+
+  const { data: order, isLoading } = trpc.purchaseOrders.get.useQuery(
+    { id: params.id },
+    { retry: false }
+  );
+
+  // จำนวนที่จะรับรอบนี้ ต่อรายการ (ค่าเริ่มต้น = ที่ยังค้างรับ)
+  const [receiveQuantities, setReceiveQuantities] = useState<Record<string, string>>({});
+  const [note, setNote] = useState("");
+  const [showDelete, setShowDelete] = useState(false);
+
+  useEffect(() => {
+    if (!order) return;
+    setReceiveQuantities(
+      Object.fromEntries(
+        order.items.map((item: any) => [item.id, String(item.remainingQuantity)])
+      )
+    );
+  }, [order]);
+
+  const invalidate = async () => {
+    await utils.purchaseOrders.get.invalidate({ id: params.id });
+    await utils.purchaseOrders.list.invalidate();
+  };
+
+  const markOrdered = trpc.purchaseOrders.markOrdered.useMutation({
+    onSuccess: async () => {
+      toast.success("สั่งซื้อแล้ว");
+      await invalidate();
+    },
+    onError: (error) => toast.error(error.message || "เกิดข้อผิดพลาด"),
+  });
+
+  const deleteOrder = trpc.purchaseOrders.delete.useMutation({
+    onSuccess: async () => {
+      toast.success("ลบใบสั่งซื้อแล้ว");
+      await utils.purchaseOrders.list.invalidate();
+      setLocation("/purchase-orders");
+    },
+    onError: (error) => toast.error(error.message || "เกิดข้อผิดพลาด"),
+  });
+
+  const receive = trpc.purchaseOrders.receive.useMutation({
+    onSuccess: async (result) => {
+      toast.success(result.status === "received" ? "รับสินค้าครบแล้ว" : "บันทึกรับสินค้าบางส่วนแล้ว");
+      setNote("");
+      await invalidate();
+      await utils.products.list.invalidate();
+      await utils.products.lowStock.invalidate();
+      await utils.products.reorderSuggestions.invalidate();
+      await utils.stock.movements.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "เกิดข้อผิดพลาด"),
+  });
+
+  const handleReceive = () => {
+    if (!order) return;
+    const lines = order.items
+      .map((item: any) => ({
+        itemId: item.id as string,
+        quantity: parseInt(receiveQuantities[item.id] ?? "") || 0,
+      }))
+      .filter((line: { quantity: number }) => line.quantity > 0);
+    if (lines.length === 0) {
+      toast.error("กรุณาระบุจำนวนที่รับอย่างน้อย 1 รายการ");
+      return;
+    }
+    receive.mutate({ id: params.id, lines, note: note.trim() || undefined });
+  };
+
+  const formatCurrency = (amount: number) => {
+    return amount.toLocaleString("th-TH", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+  };
+
+  const canReceive = order?.status === "ordered" || order?.status === "partially_received";
+  const status = order
+    ? PURCHASE_ORDER_STATUS_LABELS[order.status as keyof typeof PURCHASE_ORDER_STATUS_LABELS]
+    : null;
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="bg-secondary text-secondary-foreground p-4 flex items-center gap-4">
+        <Link href="/purchase-orders">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-secondary-foreground hover:bg-white/10"
+          >
+            <ArrowLeft className="w-6 h-6" />
+          </Button>
+        </Link>
+        <h1 className="text-xl font-bold flex-1">{order?.poNumber ?? "ใบสั่งซื้อ"}</h1>
+        <ClipboardList className="w-6 h-6" />
+      </header>
+
+      <main className="flex-1 p-4 space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : !order ? (
+          <div className="text-center py-12 text-muted-foreground">ไม่พบใบสั่งซื้อ</div>
+        ) : (
+          <>
+            <div className="ts-card space-y-1">
+              <div className="flex items-center justify-between">
+                <p className="font-semibold text-lg">{order.supplierName}</p>
+                {status && (
+                  <span className={`px-2 py-0.5 text-xs font-semibold rounded ${status.className}`}>
+                    {status.label}
+                  </span>
+                )}
+              </div>
+              {order.supplier?.phone && (
+                <p className="text-sm text-muted-foreground">โทร {order.supplier.phone}</p>
+              )}
+              {order.note && <p className="text-sm text-muted-foreground">{order.note}</p>}
+            </div>
+
+            {/* รายการ */}
+            <div className="ts-card space-y-3">
+              {order.items.map((item: any) => (
+                <div key={item.id} className="border-b border-border pb-3 last:border-0 last:pb-0">
+                  <div className="flex justify-between gap-2">
+                    <p className="font-semibold">{item.productName}</p>
+                    <p className="font-semibold">฿{formatCurrency(item.totalCost)}</p>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    สั่ง {item.quantity} × ฿{formatCurrency(item.unitCost)} · รับแล้ว{" "}
+                    {item.receivedQuantity}
+                  </p>
+                  {canReceive && item.remainingQuantity > 0 && (
+                    <div className="flex items-center gap-2 mt-2">
+                      <label className="text-sm text-muted-foreground whitespace-nowrap">
+                        รับรอบนี้
+                      </label>
+                      <Input
+                        type="text"
+                        inputMode="numeric"
+                        value={receiveQuantities[item.id] ?? ""}
+                        onChange={(e) => {
+                          const v = e.target.value;
+                          if (/^\d*$/.test(v)) {
+                            setReceiveQuantities((prev) => ({ ...prev, [item.id]: v }));
+                          }
+                        }}
+                        className="w-24"
+                      />
+                      <span className="text-xs text-muted-foreground">
+                        / ค้าง {item.remainingQuantity}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              ))}
+              <div className="flex justify-between text-lg font-bold pt-2">
+                <span>รวม</span>
+                <span className="text-primary">฿{formatCurrency(order.totalCost)}</span>
+              </div>
+            </div>
+
+            {order.status === "draft" && (
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  className="flex-1 text-destructive"
+                  onClick={() => setShowDelete(true)}
+                >
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  ลบร่าง
+                </Button>
+                <Button
+                  className="ts-btn-primary flex-1"
+                  onClick={() => markOrdered.mutate({ id: params.id })}
+                  disabled={markOrdered.isPending}
+                >
+                  <Send className="w-4 h-4 mr-1" />
+                  สั่งซื้อ
+                </Button>
+              </div>
+            )}
+
+            {canReceive && (
+              <div className="space-y-2">
+                <Input
+                  placeholder="หมายเหตุการรับของ (ไม่บังคับ)"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                />
+                <Button
+                  className="ts-btn-primary w-full"
+                  onClick={handleReceive}
+                  disabled={receive.isPending}
+                >
+                  <PackageCheck className="w-5 h-5" />
+                  รับสินค้าเข้าสต็อก
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+
+      <AlertDialog open={showDelete} onOpenChange={setShowDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>ลบใบสั่งซื้อฉบับร่าง?</AlertDialogTitle>
+            <AlertDialogDescription>ลบแล้วไม่สามารถกู้คืนได้</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>ยกเลิก</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteOrder.mutate({ id: params.id })}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              ลบ
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { trpc } from "@/lib/trpc";
+import { ArrowLeft, ClipboardList, Plus, Truck, Loader2, ChevronRight } from "lucide-react";
+import { Link } from "wouter";
+
+type PurchaseOrderStatus = "draft" | "ordered" | "partially_received" | "received";
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<
+  PurchaseOrderStatus,
+  { label: string; className: string }
+> = {
+  draft: { label: "ร่าง", className: "bg-gray-100 text-gray-700" },
+  ordered: { label: "สั่งแล้ว รอรับของ", className: "bg-blue-100 text-blue-700" },
+  partially_received: { label: "รับบางส่วน", className: "bg-amber-100 text-amber-700" },
+  received: { label: "รับครบแล้ว", className: "bg-green-100 text-green-700" },
+};
+
+const STATUS_FILTERS: Array<{ value: PurchaseOrderStatus | "all"; label: string }> = [
+  { value: "all", label: "ทั้งหมด" },
+  { value: "draft", label: "ร่าง" },
+  { value: "ordered", label: "รอรับของ" },
+  { value: "partially_received", label: "รับบางส่วน" },
+  { value: "received", label: "รับครบ" },
+];
+
+export default function PurchaseOrders() {
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | "all">("all");
+
+  const { data: orders, isLoading } = trpc.purchaseOrders.list.useQuery(
+    statusFilter === "all" ? undefined : { status: statusFilter }
+  );
+
+  const formatCurrency = (amount: number) => {
+    return amount.toLocaleString("th-TH", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+  };
+
+  const formatDate = (date: Date | string) => {
+    const d = typeof date === "string" ? new Date(date) : date;
+    return d.toLocaleDateString("th-TH", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {/* Header */}
+      <header className="bg-secondary text-secondary-foreground p-4">
+        <div className="flex items-center gap-4 mb-3">
+          <Link href="/products">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-secondary-foreground hover:bg-white/10"
+            >
+              <ArrowLeft className="w-6 h-6" />
+            </Button>
+          </Link>
+          <h1 className="text-xl font-bold flex-1">ใบสั่งซื้อ</h1>
+          <ClipboardList className="w-6 h-6" />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Link href="/suppliers">
+            <Button
+              variant="ghost"
+              className="text-secondary-foreground hover:bg-white/10 h-auto py-2 px-3"
+            >
+              <Truck className="w-4 h-4 mr-2" />
+              <span className="text-sm font-medium">ผู้จำหน่าย</span>
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="flex-1 p-4 max-w-4xl mx-auto w-full space-y-4">
+        {/* Status filter */}
+        <div className="flex gap-2 overflow-x-auto">
+          {STATUS_FILTERS.map((filter) => (
+            <Button
+              key={filter.value}
+              size="sm"
+              variant={statusFilter === filter.value ? "default" : "outline"}
+              onClick={() => setStatusFilter(filter.value)}
+            >
+              {filter.label}
+            </Button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : orders && orders.length > 0 ? (
+          <div className="space-y-2">
+            {orders.map((order) => {
+              const status = PURCHASE_ORDER_STATUS_LABELS[order.status as PurchaseOrderStatus];
+              return (
+                <Link key={order.id} href={`/purchase-orders/${order.id}`}>
+                  <Card className="cursor-pointer hover:bg-muted/50">
+                    <CardContent className="p-3 flex items-center justify-between gap-3">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <p className="font-mono font-semibold">{order.poNumber}</p>
+                          {status && (
+                            <span className={`px-2 py-0.5 text-xs font-semibold rounded ${status.className}`}>
+                              {status.label}
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm truncate">{order.supplierName}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDate(order.createdAt)} · {order.items.length} รายการ
+                        </p>
+                      </div>
+                      <p className="font-bold text-primary">฿{formatCurrency(order.totalCost)}</p>
+                      <ChevronRight className="w-5 h-5 text-muted-foreground" />
+                    </CardContent>
+                  </Card>
+                </Link>
+              );
+            })}
+          </div>
+        ) : (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <ClipboardList className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
+              <p className="text-lg font-semibold">ยังไม่มีใบสั่งซื้อ</p>
+              <p className="text-sm text-muted-foreground">
+                สร้างใบสั่งซื้อจากรายการของใกล้หมดได้เลย
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+
+      {/* Bottom Action */}
+      <div className="p-4 bg-card border-t border-border">
+        <Link href="/purchase-orders/new?fromLowStock=1">
+          <Button className="ts-btn-primary w-full">
+            <Plus className="w-5 h-5" />
+            สร้างใบสั่งซื้อ
+          </Button>
+        </Link>
+      </div>
+    </div>
+  );
+}
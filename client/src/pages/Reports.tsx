@@ -3,7 +3,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { trpc } from "@/lib/trpc";
-import { ArrowLeft, TrendingUp, Calendar, Package, Loader2, FileText } from "lucide-react";
+import { ArrowLeft, TrendingUp, Calendar, Package, Loader2, FileText, Receipt, Coins, Boxes, PackageMinus, Tags, UserCircle } from "lucide-react";
 import { Link } from "wouter";
 import ShiftControl from "@/components/ShiftControl";
 import {
@@ -15,15 +15,39 @@ import {
   Tooltip,
   ResponsiveContainer,
   Cell,
+  Legend,
 } from "recharts";
 
 export default function Reports() {
   const [activeTab, setActiveTab] = useState("daily");
+  const [topSortBy, setTopSortBy] = useState<"quantity" | "profit">("quantity");
+  const [categoryFilter, setCategoryFilter] = useState<string>("all"); // all | none | categoryId
+  const [allBranches, setAllBranches] = useState(false); // รวมทุกสาขา
 
-  const { data: summary, isLoading: summaryLoading } = trpc.reports.summary.useQuery();
-  const { data: dailyData, isLoading: dailyLoading } = trpc.reports.daily.useQuery();
-  const { data: monthlyData, isLoading: monthlyLoading } = trpc.reports.monthly.useQuery();
-  const { data: topProducts, isLoading: topLoading } = trpc.reports.topProducts.useQuery();
+  // undefined = ทุกหมวด, null = ไม่มีหมวด
+  const categoryId =
+    categoryFilter === "all" ? undefined : categoryFilter === "none" ? null : categoryFilter;
+
+  const { data: branches } = trpc.branches.list.useQuery();
+  const { data: summary, isLoading: summaryLoading } = trpc.reports.summary.useQuery(
+    { allBranches },
+    { placeholderData: (previous) => previous }
+  );
+  const { data: categories } = trpc.categories.list.useQuery();
+  const { data: dailyData, isLoading: dailyLoading } = trpc.reports.daily.useQuery(
+    { categoryId, allBranches },
+    { placeholderData: (previous) => previous }
+  );
+  const { data: monthlyData, isLoading: monthlyLoading } = trpc.reports.monthly.useQuery(
+    { allBranches },
+    { placeholderData: (previous) => previous }
+  );
+  const { data: topProducts, isLoading: topLoading } = trpc.reports.topProducts.useQuery(
+    { limit: 5, sortBy: topSortBy, categoryId, allBranches },
+    { placeholderData: (previous) => previous } // สลับขายดี/กำไรโดยไม่กระพริบทั้งหน้า
+  );
+  const { data: categorySales } = trpc.reports.byCategory.useQuery({ days: 30, allBranches });
+  const { data: cashierSales } = trpc.reports.byCashier.useQuery({ days: 30, allBranches });
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat("th-TH").format(value);
@@ -58,12 +82,14 @@ export default function Reports() {
   const dailyChartData = dailyData?.map((d) => ({
     name: formatDate(d.date),
     ยอดขาย: d.totalAmount,
+    กำไร: d.grossProfit,
     รายการ: d.saleCount,
   })) || [];
 
   const monthlyChartData = monthlyData?.map((d) => ({
     name: formatMonth(d.month),
     ยอดขาย: d.totalAmount,
+    กำไร: d.grossProfit,
     รายการ: d.saleCount,
   })) || [];
 
@@ -83,6 +109,33 @@ export default function Reports() {
             <p className="text-xs opacity-80">สรุปยอดขายรายวันและรายเดือน</p>
           </div>
         </div>
+        <Link href="/sales">
+          <Button
+            variant="ghost"
+            className="text-secondary-foreground hover:bg-white/10"
+          >
+            <Receipt className="w-5 h-5 mr-2" />
+            <span className="text-sm font-medium">บิลขาย</span>
+          </Button>
+        </Link>
+        <Link href="/stock-valuation">
+          <Button
+            variant="ghost"
+            className="text-secondary-foreground hover:bg-white/10"
+          >
+            <Boxes className="w-5 h-5 mr-2" />
+            <span className="text-sm font-medium">มูลค่าสต็อก</span>
+          </Button>
+        </Link>
+        <Link href="/shrinkage">
+          <Button
+            variant="ghost"
+            className="text-secondary-foreground hover:bg-white/10"
+          >
+            <PackageMinus className="w-5 h-5 mr-2" />
+            <span className="text-sm font-medium">ของเสีย/หาย</span>
+          </Button>
+        </Link>
         <Link href="/full-tax-invoices">
           <Button
             variant="ghost"
@@ -97,6 +150,23 @@ export default function Reports() {
       <div className="p-4 space-y-4 max-w-4xl mx-auto">
         {/* Shift Control */}
         <ShiftControl context="reports" />
+        {/* สาขาที่ใช้งานอยู่ / รวมทุกสาขา (แสดงเมื่อมีสาขาอื่น) */}
+        {branches && branches.length > 0 && (
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              variant={allBranches ? "outline" : "default"}
+              onClick={() => setAllBranches(false)}
+            >
+              สาขานี้
+            </Button>
+            <Button
+              variant={allBranches ? "default" : "outline"}
+              onClick={() => setAllBranches(true)}
+            >
+              ทุกสาขา
+            </Button>
+          </div>
+        )}
         {/* Summary Cards */}
         <div className="grid grid-cols-3 gap-3">
           <Card className="bg-primary/10 border-primary/20">
@@ -108,6 +178,16 @@ export default function Reports() {
               <p className="text-xs text-muted-foreground">
                 {summary?.today.saleCount || 0} รายการ
               </p>
+              {(summary?.today.discountTotal || 0) > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  ส่วนลด {formatCurrency(summary?.today.discountTotal || 0)}
+                </p>
+              )}
+              {(summary?.today.refundAmount || 0) > 0 && (
+                <p className="text-xs text-destructive">
+                  คืน {formatCurrency(summary?.today.refundAmount || 0)}
+                </p>
+              )}
             </CardContent>
           </Card>
           
@@ -136,8 +216,44 @@ export default function Reports() {
           </Card>
         </div>
 
+        {/* Gross Profit Card - ยอดขายสุทธิก่อน VAT หักต้นทุนสินค้าที่ขาย */}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Coins className="w-5 h-5 text-green-600" />
+              กำไรขั้นต้น
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-3 gap-3 text-center">
+              {([
+                ["วันนี้", summary?.today],
+                ["สัปดาห์นี้", summary?.thisWeek],
+                ["เดือนนี้", summary?.thisMonth],
+              ] as const).map(([label, period]) => (
+                <div key={label}>
+                  <p className="text-xs text-muted-foreground mb-1">{label}</p>
+                  <p
+                    className={`text-lg font-bold ${
+                      (period?.grossProfit || 0) < 0 ? "text-destructive" : "text-green-600"
+                    }`}
+                  >
+                    {formatCurrency(period?.grossProfit || 0)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    อัตรากำไร {period?.grossMargin || 0}%
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    ทุน {formatCurrency(period?.costTotal || 0)}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
         {/* VAT Breakdown Card */}
-        {(summary?.today.vatAmount || summary?.thisWeek.vatAmount || summary?.thisMonth.vatAmount) > 0 && (
+        {(summary?.today.vatAmount || summary?.thisWeek.vatAmount || summary?.thisMonth.vatAmount || 0) > 0 && (
           <Card>
             <CardHeader className="pb-2">
               <CardTitle className="text-base">สรุป VAT</CardTitle>
@@ -211,6 +327,26 @@ export default function Reports() {
           </Card>
         )}
 
+        {/* Category filter - มีผลกับกราฟรายวันและสินค้าขายดี */}
+        {categories && categories.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Tags className="w-4 h-4 text-muted-foreground" />
+            <select
+              className="h-9 rounded-md border border-input bg-background px-3 text-sm"
+              value={categoryFilter}
+              onChange={(e) => setCategoryFilter(e.target.value)}
+            >
+              <option value="all">ทุกหมวดหมู่</option>
+              {categories.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+              <option value="none">ไม่มีหมวด</option>
+            </select>
+          </div>
+        )}
+
         {/* Charts */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
           <TabsList className="grid w-full grid-cols-2 bg-muted">
@@ -229,7 +365,7 @@ export default function Reports() {
               <CardHeader className="pb-2">
                 <CardTitle className="text-base flex items-center gap-2">
                   <Calendar className="w-5 h-5 text-primary" />
-                  ยอดขาย 7 วันย้อนหลัง
+                  ยอดขายและกำไร 7 วันย้อนหลัง
                 </CardTitle>
               </CardHeader>
               <CardContent>
@@ -249,7 +385,7 @@ export default function Reports() {
                           tickFormatter={(value) => formatCurrency(value)}
                         />
                         <Tooltip
-                          formatter={(value: number) => [formatCurrency(value) + " บาท", "ยอดขาย"]}
+                          formatter={(value: number, name: string) => [formatCurrency(value) + " บาท", name]}
                           labelStyle={{ color: "#333" }}
                           contentStyle={{ 
                             borderRadius: "8px",
@@ -264,6 +400,8 @@ export default function Reports() {
                             />
                           ))}
                         </Bar>
+                        <Bar dataKey="กำไร" fill="#16a34a" radius={[4, 4, 0, 0]} />
+                        <Legend wrapperStyle={{ fontSize: 12 }} />
                       </BarChart>
                     </ResponsiveContainer>
                   </div>
@@ -281,7 +419,7 @@ export default function Reports() {
               <CardHeader className="pb-2">
                 <CardTitle className="text-base flex items-center gap-2">
                   <TrendingUp className="w-5 h-5 text-primary" />
-                  ยอดขาย 6 เดือนย้อนหลัง
+                  ยอดขายและกำไร 6 เดือนย้อนหลัง
                 </CardTitle>
               </CardHeader>
               <CardContent>
@@ -301,7 +439,7 @@ export default function Reports() {
                           tickFormatter={(value) => formatCurrency(value)}
                         />
                         <Tooltip
-                          formatter={(value: number) => [formatCurrency(value) + " บาท", "ยอดขาย"]}
+                          formatter={(value: number, name: string) => [formatCurrency(value) + " บาท", name]}
                           labelStyle={{ color: "#333" }}
                           contentStyle={{ 
                             borderRadius: "8px",
@@ -316,6 +454,8 @@ export default function Reports() {
                             />
                           ))}
                         </Bar>
+                        <Bar dataKey="กำไร" fill="#15803d" radius={[4, 4, 0, 0]} />
+                        <Legend wrapperStyle={{ fontSize: 12 }} />
                       </BarChart>
                     </ResponsiveContainer>
                   </div>
@@ -332,10 +472,28 @@ export default function Reports() {
         {/* Top Products */}
         <Card>
           <CardHeader className="pb-2">
-            <CardTitle className="text-base flex items-center gap-2">
-              <Package className="w-5 h-5 text-primary" />
-              สินค้าขายดี Top 5
-            </CardTitle>
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <Package className="w-5 h-5 text-primary" />
+                {topSortBy === "profit" ? "สินค้ากำไรสูงสุด Top 5" : "สินค้าขายดี Top 5"}
+              </CardTitle>
+              <div className="flex gap-1">
+                <Button
+                  size="sm"
+                  variant={topSortBy === "quantity" ? "default" : "outline"}
+                  onClick={() => setTopSortBy("quantity")}
+                >
+                  ขายดี
+                </Button>
+                <Button
+                  size="sm"
+                  variant={topSortBy === "profit" ? "default" : "outline"}
+                  onClick={() => setTopSortBy("profit")}
+                >
+                  กำไร
+                </Button>
+              </div>
+            </div>
           </CardHeader>
           <CardContent>
             {topProducts && topProducts.length > 0 ? (
@@ -356,14 +514,14 @@ export default function Reports() {
                     <div className="flex-1">
                       <p className="font-medium">{product.productName}</p>
                       <p className="text-sm text-muted-foreground">
-                        ขายได้ {product.totalQuantity} ชิ้น
+                        ขายได้ {product.totalQuantity} ชิ้น · {formatCurrency(product.totalRevenue)} บาท
                       </p>
                     </div>
                     <div className="text-right">
-                      <p className="font-semibold text-primary">
-                        {formatCurrency(product.totalRevenue)}
+                      <p className={`font-semibold ${product.grossProfit < 0 ? "text-destructive" : "text-green-600"}`}>
+                        {formatCurrency(product.grossProfit)}
                       </p>
-                      <p className="text-xs text-muted-foreground">บาท</p>
+                      <p className="text-xs text-muted-foreground">กำไร {product.grossMargin}%</p>
                     </div>
                   </div>
                 ))}
@@ -376,6 +534,76 @@ export default function Reports() {
             )}
           </CardContent>
         </Card>
+
+        {/* Sales by Category */}
+        {categorySales && categorySales.length > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <Tags className="w-5 h-5 text-primary" />
+                ยอดขายตามหมวดหมู่ 30 วัน
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {categorySales.map((row) => (
+                  <div
+                    key={row.categoryId ?? "none"}
+                    className="flex items-center gap-3 p-3 bg-muted/50 rounded-lg"
+                  >
+                    <div className="flex-1">
+                      <p className="font-medium">{row.categoryName}</p>
+                      <p className="text-sm text-muted-foreground">
+                        ขายได้ {row.totalQuantity} ชิ้น · {formatCurrency(row.totalRevenue)} บาท
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className={`font-semibold ${row.grossProfit < 0 ? "text-destructive" : "text-green-600"}`}>
+                        {formatCurrency(row.grossProfit)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">กำไร {row.grossMargin}%</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Sales by Cashier */}
+        {cashierSales && cashierSales.length > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <UserCircle className="w-5 h-5 text-primary" />
+                ยอดขายตามแคชเชียร์ 30 วัน
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {cashierSales.map((row) => (
+                  <div
+                    key={row.cashierId ?? "none"}
+                    className="flex items-center gap-3 p-3 bg-muted/50 rounded-lg"
+                  >
+                    <div className="flex-1">
+                      <p className="font-medium">{row.cashierName}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {row.saleCount} บิล · {formatCurrency(row.totalAmount)} บาท
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className={`font-semibold ${row.grossProfit < 0 ? "text-destructive" : "text-green-600"}`}>
+                        {formatCurrency(row.grossProfit)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">กำไร {row.grossMargin}%</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,262 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2, Undo2, Ban, FileText, Minus, Plus } from "lucide-react";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+
+interface SaleReturnDialogProps {
+  saleId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function SaleReturnDialog({
+  saleId,
+  open,
+  onOpenChange,
+}: SaleReturnDialogProps) {
+  // จำนวนที่จะคืนต่อ saleItemId
+  const [returnQty, setReturnQty] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState("");
+  const [creditNoteId, setCreditNoteId] = useState<string | null>(null);
+
+  const utils = trpc.useUtils();
+
+  const { data: sale, isLoading } = trpc.sales.detail.useQuery(
+    { saleId },
+    { enabled: !!open }
+  );
+
+  // ใบลดหนี้ที่เพิ่งออก (ถ้าบิลมีใบกำกับภาษีเต็ม)
+  const { data: creditNoteData } = trpc.fullTaxInvoice.getCreditNote.useQuery(
+    { creditNoteId: creditNoteId ?? "" },
+    { enabled: !!open && !!creditNoteId }
+  );
+
+  useEffect(() => {
+    if (!open) {
+      setReturnQty({});
+      setReason("");
+      setCreditNoteId(null);
+    }
+  }, [open]);
+
+  const handleSuccess = async (result: { status: string; creditNoteId: string | null }) => {
+    toast.success(result.status === "voided" ? "ยกเลิกบิลสำเร็จ คืนสต็อกแล้ว" : "คืนสินค้าสำเร็จ คืนสต็อกแล้ว");
+    setReturnQty({});
+    setReason("");
+    await Promise.all([
+      utils.sales.list.invalidate(),
+      utils.sales.detail.invalidate({ saleId }),
+      utils.products.list.invalidate(),
+      utils.reports.summary.invalidate(),
+      utils.shift.today.invalidate(),
+    ]);
+    if (result.creditNoteId) {
+      setCreditNoteId(result.creditNoteId);
+    } else {
+      onOpenChange(false);
+    }
+  };
+
+  const voidSale = trpc.sales.void.useMutation({
+    onSuccess: handleSuccess,
+    onError: (error) => {
+      toast.error(error.message || "ไม่สามารถยกเลิกบิลได้");
+    },
+  });
+
+  const returnItems = trpc.sales.return.useMutation({
+    onSuccess: handleSuccess,
+    onError: (error) => {
+      toast.error(error.message || "ไม่สามารถคืนสินค้าได้");
+    },
+  });
+
+  const isPending = voidSale.isPending || returnItems.isPending;
+
+  const formatCurrency = (amount: number) => {
+    return amount.toLocaleString("th-TH", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+  };
+
+  const setQty = (saleItemId: string, qty: number, max: number) => {
+    setReturnQty((prev) => ({
+      ...prev,
+      [saleItemId]: Math.max(0, Math.min(max, qty)),
+    }));
+  };
+
+  const selectedItems = Object.entries(returnQty)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([saleItemId, quantity]) => ({ saleItemId, quantity }));
+
+  const handleReturn = () => {
+    if (selectedItems.length === 0) {
+      toast.error("กรุณาเลือกสินค้าที่ต้องการคืน");
+      return;
+    }
+    returnItems.mutate({
+      saleId,
+      items: selectedItems,
+      reason: reason.trim() || undefined,
+    });
+  };
+
+  const handleVoid = () => {
+    if (!confirm("ยืนยันยกเลิกทั้งบิล? สต็อกทุกรายการจะถูกคืน")) return;
+    voidSale.mutate({
+      saleId,
+      reason: reason.trim() || undefined,
+    });
+  };
+
+  const isVoided = sale?.status === "voided";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Undo2 className="w-5 h-5" />
+            คืนสินค้า / ยกเลิกบิล
+          </DialogTitle>
+        </DialogHeader>
+
+        {creditNoteData ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <FileText className="w-4 h-4 text-primary" />
+              ออกใบลดหนี้ {creditNoteData.creditNote.creditNoteNumber} แล้ว
+            </div>
+            <pre className="text-xs font-mono bg-muted p-3 rounded whitespace-pre-wrap">
+              {creditNoteData.creditNoteText}
+            </pre>
+            <Button className="w-full" onClick={() => onOpenChange(false)}>
+              ปิด
+            </Button>
+          </div>
+        ) : isLoading || !sale ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="text-sm text-muted-foreground">
+              บิล {sale.id.slice(-8)} · ยอด ฿{formatCurrency(sale.totalWithVat || sale.totalAmount)}
+              {sale.refundedAmount > 0 && (
+                <span className="text-destructive"> · คืนแล้ว ฿{formatCurrency(sale.refundedAmount)}</span>
+              )}
+            </div>
+
+            {isVoided ? (
+              <p className="text-center py-4 font-medium text-destructive">
+                บิลนี้ถูกยกเลิก/คืนสินค้าครบแล้ว
+              </p>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  {sale.items.map((item: any) => {
+                    const remaining = item.quantity - item.returnedQuantity;
+                    const qty = returnQty[item.id] ?? 0;
+                    return (
+                      <div
+                        key={item.id}
+                        className="flex items-center justify-between gap-2 border rounded p-2"
+                      >
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium truncate">{item.productName}</p>
+                          <p className="text-xs text-muted-foreground">
+                            ขาย {item.quantity}{item.unitName ? ` ${item.unitName}` : ""} · คืนแล้ว {item.returnedQuantity} · คืนได้อีก {remaining}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="h-8 w-8"
+                            disabled={remaining <= 0 || qty <= 0}
+                            onClick={() => setQty(item.id, qty - 1, remaining)}
+                          >
+                            <Minus className="w-4 h-4" />
+                          </Button>
+                          <Input
+                            type="number"
+                            inputMode="numeric"
+                            className="w-14 h-8 text-center"
+                            value={qty}
+                            disabled={remaining <= 0}
+                            onChange={(e) => setQty(item.id, parseInt(e.target.value) || 0, remaining)}
+                          />
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="h-8 w-8"
+                            disabled={remaining <= 0 || qty >= remaining}
+                            onClick={() => setQty(item.id, qty + 1, remaining)}
+                          >
+                            <Plus className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="returnReason">เหตุผล (ไม่บังคับ)</Label>
+                  <Textarea
+                    id="returnReason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="เช่น สินค้าชำรุด, ลูกค้าเปลี่ยนใจ, คีย์ผิด"
+                    rows={2}
+                  />
+                </div>
+
+                {sale.paymentType === "credit" && (
+                  <p className="text-xs text-muted-foreground">
+                    บิลขายเชื่อ: ยอดที่คืนจะถูกหักออกจากยอดค้างของลูกค้า
+                  </p>
+                )}
+
+                <div className="flex gap-2">
+                  <Button
+                    className="flex-1"
+                    onClick={handleReturn}
+                    disabled={isPending || selectedItems.length === 0}
+                  >
+                    {returnItems.isPending ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Undo2 className="w-4 h-4 mr-2" />
+                    )}
+                    คืนสินค้าที่เลือก
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    onClick={handleVoid}
+                    disabled={isPending}
+                  >
+                    {voidSale.isPending ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Ban className="w-4 h-4 mr-2" />
+                    )}
+                    ยกเลิกทั้งบิล
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ArrowLeft, Receipt, Search, Undo2, Loader2 } from "lucide-react";
+import { Link } from "wouter";
+import { trpc } from "@/lib/trpc";
+import SaleReturnDialog from "./SaleReturnDialog";
+import { PAYMENT_METHOD_LABELS, type PaymentMethod } from "@shared/payment";
+
+const STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  partially_returned: { label: "คืนบางส่วน", className: "bg-amber-100 text-amber-700" },
+  voided: { label: "ยกเลิก", className: "bg-red-100 text-red-700" },
+};
+
+export default function SalesHistory() {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [selectedSaleId, setSelectedSaleId] = useState<string | null>(null);
+
+  const { data: sales, isLoading } = trpc.sales.list.useQuery({ limit: 100 });
+
+  // ค้นหาด้วยเลขบิล (8 ตัวท้าย)
+  const filteredSales = sales?.filter((sale) => {
+    if (!searchTerm) return true;
+    return sale.id.toLowerCase().includes(searchTerm.trim().toLowerCase());
+  });
+
+  const formatCurrency = (amount: number) => {
+    return amount.toLocaleString("th-TH", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+  };
+
+  // บิลเก่าไม่มี payments → ใช้ paymentType
+  const formatPayments = (sale: { paymentType: PaymentMethod; payments?: { method: PaymentMethod }[] }) => {
+    const methods = sale.payments?.length
+      ? Array.from(new Set(sale.payments.map((p) => p.method)))
+      : [sale.paymentType];
+    return methods.map((method) => PAYMENT_METHOD_LABELS[method]).join(" + ");
+  };
+
+  const formatDate = (date: Date | string) => {
+    const d = typeof date === "string" ? new Date(date) : date;
+    return d.toLocaleDateString("th-TH", {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {/* Header */}
+      <header className="bg-secondary text-secondary-foreground p-4 flex items-center gap-4">
+        <Link href="/reports">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-secondary-foreground hover:bg-white/10"
+          >
+            <ArrowLeft className="w-6 h-6" />
+          </Button>
+        </Link>
+        <h1 className="text-xl font-bold flex-1">บิลขาย</h1>
+        <Receipt className="w-6 h-6" />
+      </header>
+
+      <main className="flex-1 p-4 max-w-4xl mx-auto w-full space-y-4">
+        {/* Search */}
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+          <Input
+            placeholder="ค้นหาด้วยเลขบิล..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : filteredSales && filteredSales.length > 0 ? (
+          <div className="space-y-2">
+            {filteredSales.map((sale) => {
+              const status = STATUS_LABELS[sale.status ?? "completed"];
+              const total = sale.totalWithVat || parseFloat(sale.totalAmount);
+              return (
+                <Card
+                  key={sale.id}
+                  className={sale.status === "voided" ? "border-red-200 bg-red-50/50" : ""}
+                >
+                  <CardContent className="p-3 flex items-center justify-between gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="font-mono font-semibold">#{sale.id.slice(-8)}</p>
+                        {status && (
+                          <span className={`px-2 py-0.5 text-xs font-semibold rounded ${status.className}`}>
+                            {status.label}
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDate(sale.createdAt)} · {formatPayments(sale)}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-bold text-primary">฿{formatCurrency(total)}</p>
+                      {(sale.refundedAmount ?? 0) > 0 && (
+                        <p className="text-xs text-destructive">
+                          คืน ฿{formatCurrency(sale.refundedAmount)}
+                        </p>
+                      )}
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={sale.status === "voided"}
+                      onClick={() => setSelectedSaleId(sale.id)}
+                    >
+                      <Undo2 className="w-4 h-4 mr-1" />
+                      คืน
+                    </Button>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        ) : (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <Receipt className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
+              <p className="text-lg font-semibold">
+                {searchTerm ? "ไม่พบบิลที่ค้นหา" : "ยังไม่มีบิลขาย"}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+
+      {selectedSaleId && (
+        <SaleReturnDialog
+          saleId={selectedSaleId}
+          open={!!selectedSaleId}
+          onOpenChange={(open) => {
+            if (!open) setSelectedSaleId(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
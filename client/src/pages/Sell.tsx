@@ -4,7 +4,7 @@ import { Input } from "@/components/ui/input";
 import { trpc } from "@/lib/trpc";
 import { resolveProductImage } from "@/utils/resolveProductImage";
 import { playBeep, playOutOfStockBeep } from "@/lib/sound";
-import { ArrowLeft, Plus, Minus, ShoppingCart, Trash2, CreditCard, Banknote, Check, Printer, Package } from "lucide-react";
+import { ArrowLeft, Plus, Minus, ShoppingCart, Trash2, Banknote, Check, Printer, Package, Percent, Loader2, Camera } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { toast } from "sonner";
 import {
@@ -16,6 +16,25 @@ import {
 } from "@/components/ui/dialog";
 import PrintReceipt from "./PrintReceipt";
 import ShiftControl from "@/components/ShiftControl";
+import BarcodeScanner from "@/components/BarcodeScanner";
+import CustomerPicker, { type PickedCustomer } from "@/components/CustomerPicker";
+import { calculateDiscountAmount, type DiscountInput, type DiscountType } from "@shared/discount";
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS, type PaymentMethod } from "@shared/payment";
+import {
+  formatQuantity,
+  getQuantityPrecision,
+  getSellingUnits,
+  roundQuantity,
+  type ProductUnit,
+  type SellingUnit,
+} from "@shared/units";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 
 const VAT_RATE = 0.07;
 
@@ -24,28 +43,76 @@ interface CartItem {
   productName: string;
   quantity: number;
   unitPrice: string;
+  unitName?: string | null; // หน่วยที่ขาย (ไม่มี = หน่วยฐาน)
+  quantityPrecision?: number; // > 0 = ขายตามน้ำหนัก/ความยาว (จำนวนทศนิยม)
+  discount?: DiscountInput | null; // ส่วนลดรายการ
 }
 
+type CartProduct = {
+  id: string;
+  name: string;
+  price: string;
+  baseUnit?: string | null;
+  barcode?: string | null;
+  units?: ProductUnit[] | null;
+  soldByMeasure?: boolean;
+  quantityPrecision?: number;
+};
+
+// สินค้าเดียวกันต่างหน่วย = คนละบรรทัดในตะกร้า
+const cartKey = (item: Pick<CartItem, "productId" | "unitName">) =>
+  item.unitName ? `${item.productId}:${item.unitName}` : item.productId;
+
 interface SaleResponse {
   saleId: string;
   totalAmount: number;
+  changeAmount: number;
+}
+
+// 1 รายการชำระเงินใน dialog (amount เป็น string ตาม input)
+interface TenderLine {
+  method: PaymentMethod;
+  amount: string;
+  reference: string;
 }
 
+const NEW_TENDER: TenderLine = { method: "cash", amount: "", reference: "" };
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
 export default function Sell() {
   const [, setLocation] = useLocation();
   const [cart, setCart] = useState<CartItem[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
+  const [categoryFilter, setCategoryFilter] = useState<string>("all"); // all | none | categoryId
   const [barcodeInput, setBarcodeInput] = useState("");
   const barcodeInputRef = useRef<HTMLInputElement>(null);
+  const [showCameraScanner, setShowCameraScanner] = useState(false);
   const [showCheckout, setShowCheckout] = useState(false);
-  const [paymentType, setPaymentType] = useState<"cash" | "credit">("cash");
+  const [tenders, setTenders] = useState<TenderLine[]>([NEW_TENDER]);
   const [customerName, setCustomerName] = useState("");
+  const [customer, setCustomer] = useState<PickedCustomer | null>(null);
   const [useVat, setUseVat] = useState(false);
+  const [billDiscount, setBillDiscount] = useState<DiscountInput | null>(null);
+  // รายการที่กำลังแก้ส่วนลด (cartKey)
+  const [editingDiscountId, setEditingDiscountId] = useState<string | null>(null);
+  // สินค้าที่ขายได้หลายหน่วย → เลือกหน่วยก่อนเพิ่มลงตะกร้า
+  const [unitPickerProduct, setUnitPickerProduct] = useState<any | null>(null);
+  // สินค้าขายตามน้ำหนัก/ความยาว → กรอกจำนวน (key = แก้บรรทัดเดิมในตะกร้า)
+  const [measureEntry, setMeasureEntry] = useState<{
+    product: CartProduct;
+    unit?: SellingUnit | null;
+    key?: string;
+  } | null>(null);
+  const [measureQuantity, setMeasureQuantity] = useState("");
   const [showPrintReceipt, setShowPrintReceipt] = useState(false);
   const [lastSaleId, setLastSaleId] = useState<string | null>(null);
   const [receiptText, setReceiptText] = useState("");
+  // key ต่อ 1 การชำระเงิน - ส่งซ้ำได้ถ้าเน็ตหลุด เซิร์ฟเวอร์จะไม่บันทึกบิลซ้ำ
+  const checkoutKeyRef = useRef<string | null>(null);
 
   const { data: products, isLoading } = trpc.products.list.useQuery();
+  const { data: categories } = trpc.categories.list.useQuery();
   const { data: receiptData } = trpc.receipts.generate.useQuery(
     { saleId: lastSaleId || "" },
     { enabled: !!lastSaleId }
@@ -69,30 +136,51 @@ export default function Sell() {
 
   const createSale = trpc.sales.create.useMutation({
     onSuccess: (data: SaleResponse) => {
-      toast.success(`ขายสำเร็จ! ยอดรวม ${data.totalAmount.toLocaleString()} บาท`);
+      toast.success(
+        data.changeAmount > 0
+          ? `ขายสำเร็จ! เงินทอน ${data.changeAmount.toLocaleString()} บาท`
+          : `ขายสำเร็จ! ยอดรวม ${data.totalAmount.toLocaleString()} บาท`
+      );
       setLastSaleId(data.saleId);
+      checkoutKeyRef.current = null;
       setCart([]);
       setShowCheckout(false);
       setCustomerName("");
-      setPaymentType("cash");
+      setCustomer(null);
+      setTenders([NEW_TENDER]);
+      setBillDiscount(null);
+      setEditingDiscountId(null);
       setUseVat(false); // Reset VAT toggle
     },
-    onError: () => {
-      toast.error("เกิดข้อผิดพลาด กรุณาลองใหม่");
+    onError: (error) => {
+      toast.error(error.message || "เกิดข้อผิดพลาด กรุณาลองใหม่");
     },
   });
 
-  const filteredProducts = products?.filter((p) =>
-    p.name.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const filteredProducts = products?.filter((p) => {
+    if (categoryFilter === "none" && p.categoryId) return false;
+    if (categoryFilter !== "all" && categoryFilter !== "none" && p.categoryId !== categoryFilter) {
+      return false;
+    }
+    const term = searchTerm.toLowerCase();
+    return (
+      p.name.toLowerCase().includes(term) ||
+      (p.tags ?? []).some((tag: string) => tag.toLowerCase().includes(term))
+    );
+  });
 
-  const addToCart = (product: { id: string; name: string; price: string }) => {
+  const addToCart = (product: CartProduct, unit?: SellingUnit | null, quantity = 1) => {
+    // สินค้าที่มีหลายหน่วย/ขายตามน้ำหนัก เก็บชื่อหน่วยทุกบรรทัด (รวมหน่วยฐาน) ให้ใบเสร็จแสดงหน่วย
+    const sellingUnit = unit ?? getSellingUnits(product)[0];
+    const unitName = product.units?.length || product.soldByMeasure ? sellingUnit.name : null;
+    const quantityPrecision = sellingUnit.isBase ? getQuantityPrecision(product) : 0;
+    const key = cartKey({ productId: product.id, unitName });
     setCart((prev) => {
-      const existing = prev.find((item) => item.productId === product.id);
+      const existing = prev.find((item) => cartKey(item) === key);
       if (existing) {
         return prev.map((item) =>
-          item.productId === product.id
-            ? { ...item, quantity: item.quantity + 1 }
+          cartKey(item) === key
+            ? { ...item, quantity: roundQuantity(item.quantity + quantity, quantityPrecision) }
             : item
         );
       }
@@ -101,24 +189,66 @@ export default function Sell() {
         {
           productId: product.id,
           productName: product.name,
-          quantity: 1,
-          unitPrice: product.price,
+          quantity,
+          unitPrice: String(sellingUnit.price),
+          unitName,
+          quantityPrecision,
         },
       ];
     });
   };
 
+  // เพิ่มลงตะกร้า - ขายตามน้ำหนัก/ความยาว (หน่วยฐาน) ต้องกรอกจำนวนก่อน
+  const selectUnit = (product: CartProduct, unit?: SellingUnit | null) => {
+    if (product.soldByMeasure && (!unit || unit.isBase)) {
+      setMeasureQuantity("");
+      setMeasureEntry({ product, unit });
+      return;
+    }
+    addToCart(product, unit);
+  };
+
+  const handleProductClick = (product: any) => {
+    if (product.units?.length) {
+      setUnitPickerProduct(product);
+      return;
+    }
+    selectUnit(product);
+  };
+
+  const handleMeasureConfirm = () => {
+    if (!measureEntry) return;
+    const precision = getQuantityPrecision(measureEntry.product);
+    const quantity = roundQuantity(parseFloat(measureQuantity) || 0, precision);
+    if (quantity <= 0) {
+      toast.error("กรุณากรอกจำนวน");
+      return;
+    }
+    if (measureEntry.key) {
+      const key = measureEntry.key;
+      setCart((prev) => prev.map((item) => (cartKey(item) === key ? { ...item, quantity } : item)));
+    } else {
+      addToCart(measureEntry.product, measureEntry.unit, quantity);
+    }
+    setMeasureEntry(null);
+  };
+
   const handleBarcodeScan = async () => {
     if (!barcodeInput.trim()) return;
 
     const barcode = barcodeInput.trim();
     setBarcodeInput(""); // Clear input immediately for next scan
+    await scanBarcode(barcode);
+  };
 
+  // หาสินค้าจากบาร์โค้ด (เครื่องยิง/กล้อง) แล้วใส่ตะกร้า
+  const scanBarcode = async (barcode: string) => {
     try {
       const product = await utils.products.byBarcode.fetch({ barcode });
       
       if (product) {
-        if (product.stock <= 0) {
+        const unit: SellingUnit | undefined = product.scannedUnit;
+        if (product.stock <= 0 || (unit && product.stock < unit.factor)) {
           playOutOfStockBeep();
           toast.error("สินค้าหมด");
           setTimeout(() => {
@@ -127,13 +257,42 @@ export default function Sell() {
           return;
         }
         
-        addToCart({
+        const cartProduct: CartProduct = {
           id: String(product.id),
           name: product.name,
           price: product.price,
-        });
+          units: product.units,
+          soldByMeasure: product.soldByMeasure,
+          quantityPrecision: product.quantityPrecision,
+        };
+
+        // บาร์โค้ดตาชั่ง → ใส่น้ำหนัก/จำนวนจากฉลากลงตะกร้าเลย
+        if (product.scaleLabel) {
+          const quantity: number | null = product.scaleLabel.quantity;
+          if (!quantity) {
+            playOutOfStockBeep();
+            toast.error("ฉลากตาชั่งนี้ใช้กับสินค้านี้ไม่ได้ (ตรวจการตั้งค่าขายตามน้ำหนัก/ราคา)");
+            setTimeout(() => {
+              barcodeInputRef.current?.focus();
+            }, 100);
+            return;
+          }
+          addToCart(cartProduct, unit, quantity);
+          playBeep();
+          toast.success(
+            `เพิ่ม ${product.name} ${formatQuantity(quantity, getQuantityPrecision(cartProduct))} ${unit?.name ?? ""} ลงตะกร้าแล้ว`
+          );
+          setTimeout(() => {
+            barcodeInputRef.current?.focus();
+          }, 100);
+          return;
+        }
+
+        selectUnit(cartProduct, unit);
         playBeep();
-        toast.success(`เพิ่ม ${product.name} ลงตะกร้าแล้ว`);
+        toast.success(
+          `เพิ่ม ${product.name}${product.units?.length && unit ? ` (${unit.name})` : ""} ลงตะกร้าแล้ว`
+        );
         // Auto focus กลับไปที่ input
         setTimeout(() => {
           barcodeInputRef.current?.focus();
@@ -159,11 +318,11 @@ export default function Sell() {
     }
   };
 
-  const updateQuantity = (productId: string, delta: number) => {
+  const updateQuantity = (key: string, delta: number) => {
     setCart((prev) =>
       prev
         .map((item) =>
-          item.productId === productId
+          cartKey(item) === key
             ? { ...item, quantity: Math.max(0, item.quantity + delta) }
             : item
         )
@@ -171,16 +330,27 @@ export default function Sell() {
     );
   };
 
-  const removeFromCart = (productId: string) => {
-    setCart((prev) => prev.filter((item) => item.productId !== productId));
+  const removeFromCart = (key: string) => {
+    setCart((prev) => prev.filter((item) => cartKey(item) !== key));
   };
 
-  const totalAmount = cart.reduce(
-    (sum, item) => sum + parseFloat(item.unitPrice) * item.quantity,
-    0
-  );
+  const setItemDiscount = (key: string, discount: DiscountInput | null) => {
+    setCart((prev) =>
+      prev.map((item) => (cartKey(item) === key ? { ...item, discount } : item))
+    );
+  };
+
+  // ยอดบรรทัดหลังหักส่วนลดรายการ (คำนวณแบบเดียวกับ server)
+  const getLineTotal = (item: CartItem) => {
+    const gross = parseFloat(item.unitPrice) * item.quantity;
+    return roundMoney(gross - calculateDiscountAmount(gross, item.discount));
+  };
+
+  const itemsTotal = cart.reduce((sum, item) => sum + getLineTotal(item), 0);
+  const billDiscountAmount = calculateDiscountAmount(itemsTotal, billDiscount);
+  const totalAmount = itemsTotal - billDiscountAmount;
 
-  // Calculate VAT breakdown
+  // Calculate VAT breakdown (หลังหักส่วนลด)
   const subtotal = totalAmount;
   const vatAmount = useVat ? subtotal * VAT_RATE : 0;
   const totalWithVat = subtotal + vatAmount;
@@ -190,20 +360,79 @@ export default function Sell() {
       toast.error("กรุณาเลือกสินค้าก่อน");
       return;
     }
+    // ตะกร้าอาจเปลี่ยนหลังปิด dialog → เริ่มการชำระเงินใหม่
+    checkoutKeyRef.current = crypto.randomUUID();
+    setTenders([NEW_TENDER]);
     setShowCheckout(true);
   };
 
+  // ยอดที่ต้องชำระ / ยอดที่รับมา (ช่องว่างของรายการเดียว = จ่ายพอดี)
+  const amountDue = roundMoney(totalWithVat);
+  const tenderAmounts = tenders.map((t) =>
+    tenders.length === 1 && t.amount === "" ? amountDue : parseFloat(t.amount) || 0
+  );
+  const paidTotal = roundMoney(tenderAmounts.reduce((sum, amount) => sum + amount, 0));
+  const cashTendered = tenders.reduce(
+    (sum, t, i) => (t.method === "cash" ? sum + tenderAmounts[i] : sum),
+    0
+  );
+  const remainingDue = roundMoney(Math.max(0, amountDue - paidTotal));
+  const changeAmount = roundMoney(Math.max(0, paidTotal - amountDue));
+  const hasCreditTender = tenders.some((t) => t.method === "credit");
+  const promptPayAmount = roundMoney(
+    tenders.reduce((sum, t, i) => (t.method === "promptpay" ? sum + tenderAmounts[i] : sum), 0)
+  );
+  const hasPromptPayTender = tenders.some((t) => t.method === "promptpay");
+
+  // PromptPay QR ตามยอดที่จ่ายพร้อมเพย์ (null = ร้านยังไม่ตั้ง PromptPay ID)
+  const { data: promptPayQr, isLoading: isLoadingPromptPayQr } = trpc.receipts.promptPayQr.useQuery(
+    { amount: promptPayAmount },
+    { enabled: showCheckout && hasPromptPayTender && promptPayAmount > 0, retry: false }
+  );
+
+  const updateTender = (index: number, patch: Partial<TenderLine>) => {
+    setTenders((prev) => prev.map((t, i) => (i === index ? { ...t, ...patch } : t)));
+  };
+
+  const addTender = () => {
+    // รายการใหม่เติมยอดที่ยังขาดให้อัตโนมัติ
+    setTenders((prev) => [
+      ...prev.map((t, i) => (i === 0 && t.amount === "" ? { ...t, amount: String(amountDue) } : t)),
+      { method: "transfer", amount: remainingDue > 0 ? String(remainingDue) : "", reference: "" },
+    ]);
+  };
+
+  const removeTender = (index: number) => {
+    setTenders((prev) => prev.filter((_, i) => i !== index));
+  };
+
   const handleConfirmSale = () => {
-    if (paymentType === "credit" && !customerName.trim()) {
+    if (hasCreditTender && !customer && !customerName.trim()) {
       toast.error("กรุณาใส่ชื่อลูกค้า");
       return;
     }
+    if (remainingDue > 0) {
+      toast.error(`ยอดชำระยังไม่ครบ ขาดอีก ${remainingDue.toLocaleString()} บาท`);
+      return;
+    }
+    if (changeAmount > cashTendered) {
+      toast.error("ยอดชำระเกิน (ทอนเงินได้เฉพาะส่วนที่จ่ายเงินสด)");
+      return;
+    }
 
     createSale.mutate({
       items: cart,
-      paymentType,
-      customerName: paymentType === "credit" ? customerName : undefined,
+      payments: tenders.map((t, i) => ({
+        method: t.method,
+        amount: tenderAmounts[i],
+        reference: t.reference.trim() || null,
+      })),
+      customerId: customer?.id,
+      // ขายเชื่อให้คนที่ยังไม่มีในรายชื่อ → สร้างลูกค้าใหม่จากชื่อที่พิมพ์
+      customerName: hasCreditTender && !customer ? customerName : undefined,
       vatRate: vatEnabled ? VAT_RATE : (useVat ? VAT_RATE : 0),
+      billDiscount: billDiscount ?? undefined,
+      idempotencyKey: checkoutKeyRef.current ?? undefined,
     });
   };
 
@@ -277,16 +506,24 @@ export default function Sell() {
       </header>
 
       {/* Barcode Scanner */}
-      <div className="p-4 bg-card border-b border-border">
+      <div className="p-4 bg-card border-b border-border flex gap-2">
         <Input
           ref={barcodeInputRef}
           placeholder="ยิงบาร์โค้ดสินค้า..."
           value={barcodeInput}
           onChange={(e) => setBarcodeInput(e.target.value)}
           onKeyDown={handleBarcodeKeyDown}
-          className="ts-input"
+          className="ts-input flex-1"
           autoFocus
         />
+        <Button
+          variant="outline"
+          className="h-auto"
+          onClick={() => setShowCameraScanner(true)}
+          aria-label="สแกนด้วยกล้อง"
+        >
+          <Camera className="w-5 h-5" />
+        </Button>
       </div>
 
       {/* Search */}
@@ -297,6 +534,26 @@ export default function Sell() {
           onChange={(e) => setSearchTerm(e.target.value)}
           className="ts-input"
         />
+        {categories && categories.length > 0 && (
+          <div className="flex gap-2 overflow-x-auto mt-3 pb-1">
+            {[
+              { id: "all", name: "ทั้งหมด" },
+              ...categories.map((c) => ({ id: c.id as string, name: c.name as string })),
+              { id: "none", name: "ไม่มีหมวด" },
+            ].map((chip) => (
+              <Button
+                key={chip.id}
+                type="button"
+                size="sm"
+                variant={categoryFilter === chip.id ? "default" : "outline"}
+                className="shrink-0"
+                onClick={() => setCategoryFilter(chip.id)}
+              >
+                {chip.name}
+              </Button>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Product List */}
@@ -315,7 +572,7 @@ export default function Sell() {
             {filteredProducts?.map((product) => (
               <button
                 key={product.id}
-                onClick={() => addToCart(product)}
+                onClick={() => handleProductClick(product)}
                 className="ts-card text-left hover:border-primary transition-colors flex flex-col items-stretch"
               >
                 {/* Thumbnail */}
@@ -344,7 +601,8 @@ export default function Sell() {
                     ฿{parseFloat(product.price).toLocaleString()}
                   </p>
                   <p className="text-xs text-muted-foreground">
-                    คงเหลือ: {product.stock} ชิ้น
+                    คงเหลือ: {product.stock} {product.baseUnit ?? "ชิ้น"}
+                    {product.units?.length > 0 && ` · ${product.units.length + 1} หน่วย`}
                   </p>
                 </div>
               </button>
@@ -358,36 +616,88 @@ export default function Sell() {
         <div className="bg-card border-t border-border p-4">
           <div className="max-h-40 overflow-y-auto mb-4">
             {cart.map((item) => (
-              <div key={item.productId} className="flex items-center justify-between py-2 border-b border-border last:border-0">
+              <div key={cartKey(item)} className="flex items-center justify-between py-2 border-b border-border last:border-0">
                 <div className="flex-1">
-                  <p className="font-medium truncate">{item.productName}</p>
+                  <p className="font-medium truncate">
+                    {item.productName}
+                    {item.unitName && (
+                      <span className="text-muted-foreground font-normal"> ({item.unitName})</span>
+                    )}
+                  </p>
                   <p className="text-sm text-muted-foreground">
-                    ฿{parseFloat(item.unitPrice).toLocaleString()} x {item.quantity}
+                    ฿{parseFloat(item.unitPrice).toLocaleString()} x {formatQuantity(item.quantity, item.quantityPrecision)}
+                    {item.discount && item.discount.value > 0 && (
+                      <span className="text-destructive">
+                        {" "}ลด {item.discount.type === "percent" ? `${item.discount.value}%` : `฿${item.discount.value}`}
+                        {" "}= ฿{getLineTotal(item).toLocaleString()}
+                      </span>
+                    )}
                   </p>
+                  {editingDiscountId === cartKey(item) && (
+                    <DiscountEditor
+                      value={item.discount ?? null}
+                      onChange={(discount) => setItemDiscount(cartKey(item), discount)}
+                    />
+                  )}
                 </div>
                 <div className="flex items-center gap-2">
                   <Button
-                    variant="outline"
+                    variant={item.discount ? "secondary" : "ghost"}
                     size="icon"
                     className="w-8 h-8"
-                    onClick={() => updateQuantity(item.productId, -1)}
-                  >
-                    <Minus className="w-4 h-4" />
-                  </Button>
-                  <span className="w-8 text-center font-bold">{item.quantity}</span>
-                  <Button
-                    variant="outline"
-                    size="icon"
-                    className="w-8 h-8"
-                    onClick={() => updateQuantity(item.productId, 1)}
+                    onClick={() =>
+                      setEditingDiscountId(editingDiscountId === cartKey(item) ? null : cartKey(item))
+                    }
                   >
-                    <Plus className="w-4 h-4" />
+                    <Percent className="w-4 h-4" />
                   </Button>
+                  {item.quantityPrecision ? (
+                    // ขายตามน้ำหนัก/ความยาว → แตะเพื่อแก้จำนวน
+                    <Button
+                      variant="outline"
+                      className="h-8 px-2 font-bold"
+                      onClick={() => {
+                        setMeasureQuantity(String(item.quantity));
+                        setMeasureEntry({
+                          product: {
+                            id: item.productId,
+                            name: item.productName,
+                            price: item.unitPrice,
+                            soldByMeasure: true,
+                            quantityPrecision: item.quantityPrecision,
+                          },
+                          key: cartKey(item),
+                        });
+                      }}
+                    >
+                      {formatQuantity(item.quantity, item.quantityPrecision)} {item.unitName}
+                    </Button>
+                  ) : (
+                    <>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="w-8 h-8"
+                        onClick={() => updateQuantity(cartKey(item), -1)}
+                      >
+                        <Minus className="w-4 h-4" />
+                      </Button>
+                      <span className="w-8 text-center font-bold">{item.quantity}</span>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="w-8 h-8"
+                        onClick={() => updateQuantity(cartKey(item), 1)}
+                      >
+                        <Plus className="w-4 h-4" />
+                      </Button>
+                    </>
+                  )}
                   <Button
                     variant="ghost"
                     size="icon"
                     className="w-8 h-8 text-destructive"
-                    onClick={() => removeFromCart(item.productId)}
+                    onClick={() => removeFromCart(cartKey(item))}
                   >
                     <Trash2 className="w-4 h-4" />
                   </Button>
@@ -425,16 +735,116 @@ export default function Sell() {
         </div>
       )}
 
+      {/* Unit Picker Dialog */}
+      <Dialog open={!!unitPickerProduct} onOpenChange={(open) => !open && setUnitPickerProduct(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle className="text-xl">{unitPickerProduct?.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            {unitPickerProduct &&
+              getSellingUnits(unitPickerProduct).map((unit) => {
+                const outOfStock = unitPickerProduct.stock < unit.factor;
+                return (
+                  <Button
+                    key={unit.name}
+                    variant="outline"
+                    className="w-full h-auto py-3 justify-between"
+                    disabled={outOfStock}
+                    onClick={() => {
+                      selectUnit(unitPickerProduct, unit);
+                      setUnitPickerProduct(null);
+                    }}
+                  >
+                    <span>
+                      {unit.name}
+                      {!unit.isBase && (
+                        <span className="text-xs text-muted-foreground">
+                          {" "}({unit.factor} {unitPickerProduct.baseUnit ?? "ชิ้น"})
+                        </span>
+                      )}
+                    </span>
+                    <span className="font-bold text-primary">฿{unit.price.toLocaleString()}</span>
+                  </Button>
+                );
+              })}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Camera Scanner - สแกนต่อเนื่องหลายชิ้น */}
+      <BarcodeScanner
+        open={showCameraScanner}
+        onOpenChange={setShowCameraScanner}
+        onDetected={scanBarcode}
+        continuous
+      />
+
+      {/* Measure Quantity Dialog */}
+      <Dialog open={!!measureEntry} onOpenChange={(open) => !open && setMeasureEntry(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle className="text-xl">{measureEntry?.product.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <label className="text-sm text-muted-foreground block">
+              น้ำหนัก/ความยาว{measureEntry?.unit ? ` (${measureEntry.unit.name})` : ""}
+            </label>
+            <Input
+              type="text"
+              inputMode="decimal"
+              autoFocus
+              value={measureQuantity}
+              onChange={(e) => {
+                const v = e.target.value;
+                if (/^\d*\.?\d*$/.test(v)) setMeasureQuantity(v);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleMeasureConfirm();
+              }}
+              className="ts-input text-2xl text-right"
+              placeholder={formatQuantity(0, getQuantityPrecision(measureEntry?.product ?? {}))}
+            />
+            {measureEntry && parseFloat(measureQuantity) > 0 && (
+              <p className="text-right text-muted-foreground">
+                = ฿
+                {roundMoney(
+                  parseFloat(measureEntry.unit ? String(measureEntry.unit.price) : measureEntry.product.price) *
+                    parseFloat(measureQuantity)
+                ).toLocaleString()}
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button className="ts-btn-primary w-full" onClick={handleMeasureConfirm}>
+              ตกลง
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Checkout Dialog */}
       <Dialog open={showCheckout} onOpenChange={setShowCheckout}>
-        <DialogContent className="max-w-sm">
+        <DialogContent className="max-w-sm max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle className="text-xl">เลือกวิธีชำระเงิน</DialogTitle>
           </DialogHeader>
           
           <div className="space-y-4 py-4">
+            {/* Bill Discount */}
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-medium">ส่วนลดท้ายบิล</span>
+              <DiscountEditor value={billDiscount} onChange={setBillDiscount} />
+            </div>
+
             {/* Summary Section */}
             <div className="space-y-2">
+              {billDiscountAmount > 0 && (
+                <div className="flex justify-between text-sm text-destructive">
+                  <span>ส่วนลดท้ายบิล</span>
+                  <span>-฿{billDiscountAmount.toLocaleString()}</span>
+                </div>
+              )}
               {useVat ? (
                 <>
                   <div className="flex justify-between text-sm">
@@ -518,39 +928,123 @@ export default function Sell() {
               </div>
             </div>
 
-            <div className="grid grid-cols-2 gap-4">
-              <button
-                onClick={() => setPaymentType("cash")}
-                className={`p-4 rounded-xl border-2 transition-all ${
-                  paymentType === "cash"
-                    ? "border-primary bg-primary/10"
-                    : "border-border"
-                }`}
-              >
-                <Banknote className="w-8 h-8 mx-auto mb-2" />
-                <p className="font-semibold">เงินสด</p>
-              </button>
-              <button
-                onClick={() => setPaymentType("credit")}
-                className={`p-4 rounded-xl border-2 transition-all ${
-                  paymentType === "credit"
-                    ? "border-primary bg-primary/10"
-                    : "border-border"
-                }`}
-              >
-                <CreditCard className="w-8 h-8 mx-auto mb-2" />
-                <p className="font-semibold">ขายเชื่อ</p>
-              </button>
+            {/* Tenders - จ่ายได้หลายวิธีในบิลเดียว */}
+            <div className="space-y-2">
+              {tenders.map((tender, index) => (
+                <div key={index} className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={tender.method}
+                      onValueChange={(value) => updateTender(index, { method: value as PaymentMethod })}
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PAYMENT_METHODS.map((method) => (
+                          <SelectItem key={method} value={method}>
+                            {PAYMENT_METHOD_LABELS[method]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      inputMode="decimal"
+                      min={0}
+                      placeholder={tenders.length === 1 ? amountDue.toLocaleString() : "0"}
+                      value={tender.amount}
+                      onChange={(e) => updateTender(index, { amount: e.target.value })}
+                      className="flex-1"
+                    />
+                    {tenders.length > 1 && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="w-8 h-8 text-destructive"
+                        onClick={() => removeTender(index)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                  {(tender.method === "transfer" || tender.method === "promptpay" || tender.method === "card") && (
+                    <Input
+                      placeholder="เลขอ้างอิง (ไม่บังคับ)"
+                      value={tender.reference}
+                      onChange={(e) => updateTender(index, { reference: e.target.value })}
+                      className="h-8 text-sm"
+                    />
+                  )}
+                </div>
+              ))}
+
+              {hasPromptPayTender && promptPayAmount > 0 && (
+                <div className="flex flex-col items-center gap-1 rounded-lg border p-3">
+                  {isLoadingPromptPayQr ? (
+                    <Loader2 className="w-8 h-8 animate-spin text-primary" />
+                  ) : promptPayQr ? (
+                    <>
+                      <img src={promptPayQr.qrDataUrl} alt="PromptPay QR" className="w-48 h-48" />
+                      <p className="text-sm font-semibold">
+                        สแกนจ่ายพร้อมเพย์ ฿{promptPayAmount.toLocaleString()}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        PromptPay: {promptPayQr.promptPayIdMasked}
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-sm text-muted-foreground text-center">
+                      ยังไม่ได้ตั้ง PromptPay ID ของร้าน{" "}
+                      <Link href="/settings" className="text-primary underline">
+                        ไปหน้าตั้งค่า
+                      </Link>
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <Button variant="outline" size="sm" className="w-full" onClick={addTender}>
+                <Plus className="w-4 h-4 mr-1" />
+                แบ่งจ่ายหลายวิธี
+              </Button>
+
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">รับชำระ</span>
+                <span>฿{paidTotal.toLocaleString()}</span>
+              </div>
+              {remainingDue > 0 ? (
+                <div className="flex justify-between text-sm font-semibold text-destructive">
+                  <span>ขาดอีก</span>
+                  <span>฿{remainingDue.toLocaleString()}</span>
+                </div>
+              ) : changeAmount > 0 ? (
+                <div className="flex justify-between text-lg font-bold text-green-600">
+                  <span className="flex items-center gap-1">
+                    <Banknote className="w-5 h-5" />
+                    เงินทอน
+                  </span>
+                  <span>฿{changeAmount.toLocaleString()}</span>
+                </div>
+              ) : null}
             </div>
 
-            {paymentType === "credit" && (
-              <Input
-                placeholder="ชื่อลูกค้า"
-                value={customerName}
-                onChange={(e) => setCustomerName(e.target.value)}
-                className="ts-input"
+            <div className="space-y-1">
+              <label className="text-sm text-muted-foreground block">
+                ลูกค้า{hasCreditTender ? " *" : " (ไม่บังคับ)"}
+              </label>
+              <CustomerPicker
+                selected={customer}
+                onSelect={setCustomer}
+                query={customerName}
+                onQueryChange={setCustomerName}
               />
-            )}
+              {hasCreditTender && !customer && customerName.trim() && (
+                <p className="text-xs text-muted-foreground">
+                  ไม่มีในรายชื่อ → เพิ่มเป็นลูกค้าใหม่ชื่อ "{customerName.trim()}"
+                </p>
+              )}
+            </div>
           </div>
 
           <DialogFooter>
@@ -581,3 +1075,48 @@ export default function Sell() {
     </div>
   );
 }
+
+/**
+ * ช่องกรอกส่วนลด: ตัวเลข + เลือกหน่วย % / ฿ (ค่าว่างหรือ 0 = ไม่มีส่วนลด)
+ */
+function DiscountEditor({
+  value,
+  onChange,
+}: {
+  value: DiscountInput | null;
+  onChange: (discount: DiscountInput | null) => void;
+}) {
+  const [type, setType] = useState<DiscountType>(value?.type ?? "amount");
+
+  return (
+    <div className="flex items-center gap-1 mt-1">
+      <Input
+        type="number"
+        inputMode="decimal"
+        min={0}
+        placeholder="0"
+        value={value?.value || ""}
+        onChange={(e) => {
+          const amount = parseFloat(e.target.value);
+          onChange(amount > 0 ? { type, value: amount } : null);
+        }}
+        className="w-20 h-8"
+      />
+      {(["amount", "percent"] as const).map((option) => (
+        <Button
+          key={option}
+          type="button"
+          variant={type === option ? "default" : "outline"}
+          size="sm"
+          className="h-8 px-2"
+          onClick={() => {
+            setType(option);
+            if (value) onChange({ ...value, type: option });
+          }}
+        >
+          {option === "percent" ? "%" : "฿"}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -5,16 +5,43 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { ArrowLeft, Save, AlertCircle, CheckCircle2, Store, MapPin, CreditCard } from "lucide-react";
+import { ArrowLeft, Save, AlertCircle, CheckCircle2, Store, MapPin, CreditCard, QrCode, Calculator, Scale, Plus, Trash2, Barcode, ShoppingCart, Building2, Users, Lock, History } from "lucide-react";
 import { Link } from "wouter";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
 import { Loader2 } from "lucide-react";
+import { usePermissions } from "@/hooks/usePermissions";
+import {
+  SCALE_BARCODE_VALUE_TYPE_LABELS,
+  SCALE_BARCODE_VALUE_TYPES,
+  validateScaleBarcodeRules,
+  type ScaleBarcodeRule,
+  type ScaleBarcodeValueType,
+} from "@shared/scaleBarcode";
+
+// กฎเริ่มต้นที่ตาชั่งส่วนใหญ่ใช้: 20 + PLU 5 หลัก + ราคา 5 หลัก (สตางค์)
+const NEW_SCALE_RULE: ScaleBarcodeRule = {
+  prefix: "20",
+  pluLength: 5,
+  valueType: "price",
+  decimals: 2,
+};
 
 export default function Settings() {
   const [sellerName, setSellerName] = useState("");
   const [sellerAddress, setSellerAddress] = useState("");
   const [sellerTaxId, setSellerTaxId] = useState("");
+  const [promptPayId, setPromptPayId] = useState("");
+  const [costingMethod, setCostingMethod] = useState<"average" | "fifo">("average");
+  const [scaleRules, setScaleRules] = useState<ScaleBarcodeRule[]>([]);
+  const [internalBarcodePrefix, setInternalBarcodePrefix] = useState("29");
+  // คำแนะนำการสั่งซื้อ (จำนวนวัน)
+  const [reorderSalesWindowDays, setReorderSalesWindowDays] = useState("28");
+  const [reorderCoverDays, setReorderCoverDays] = useState("14");
+  const [reorderLeadTimeDays, setReorderLeadTimeDays] = useState("2");
+
+  const { can, cashier } = usePermissions();
+  const [myPin, setMyPin] = useState("");
 
   // ดึงข้อมูล settings ปัจจุบัน
   const { data: settings, isLoading } = trpc.system.settings.get.useQuery();
@@ -29,12 +56,30 @@ export default function Settings() {
     },
   });
 
+  // PIN สลับแคชเชียร์ของคนที่ใช้เครื่องอยู่
+  const setPin = trpc.staff.setPin.useMutation({
+    onSuccess: (_, variables) => {
+      setMyPin("");
+      toast.success(variables.pin ? "ตั้ง PIN แล้ว" : "ลบ PIN แล้ว");
+    },
+    onError: (error) => {
+      toast.error(error.message || "เกิดข้อผิดพลาด");
+    },
+  });
+
   // โหลดข้อมูลเมื่อ settings เปลี่ยน
   useEffect(() => {
     if (settings) {
       setSellerName(settings.sellerName || "");
       setSellerAddress(settings.sellerAddress || "");
       setSellerTaxId(settings.sellerTaxId || "");
+      setPromptPayId(settings.promptPayId || "");
+      setCostingMethod(settings.costingMethod ?? "average");
+      setScaleRules(settings.scaleBarcodeRules ?? []);
+      setInternalBarcodePrefix(settings.internalBarcodePrefix);
+      setReorderSalesWindowDays(String(settings.reorderSalesWindowDays));
+      setReorderCoverDays(String(settings.reorderCoverDays));
+      setReorderLeadTimeDays(String(settings.reorderLeadTimeDays));
     }
   }, [settings]);
 
@@ -97,6 +142,67 @@ export default function Settings() {
     });
   };
 
+  // Validate promptPayId (เบอร์มือถือ 10 หลัก / เลขประจำตัวผู้เสียภาษี 13 หลัก / e-Wallet 15 หลัก)
+  const validatePromptPayId = (value: string): boolean => {
+    const cleaned = value.replace(/\D/g, "");
+    return /^0\d{9}$/.test(cleaned) || cleaned.length === 13 || cleaned.length === 15;
+  };
+
+  // PromptPay ไม่บังคับ → บันทึกแยกจากข้อมูลผู้ขาย (เว้นว่าง = ปิด QR พร้อมเพย์)
+  const handleSavePromptPay = () => {
+    if (promptPayId.trim() && !validatePromptPayId(promptPayId)) {
+      toast.error("PromptPay ID ต้องเป็นเบอร์มือถือ 10 หลัก หรือเลขประจำตัวผู้เสียภาษี 13 หลัก");
+      return;
+    }
+    updateSettings.mutate({
+      promptPayId: promptPayId.replace(/\D/g, ""),
+    });
+  };
+
+  const handleSaveCostingMethod = () => {
+    updateSettings.mutate({ costingMethod });
+  };
+
+  const updateScaleRule = (index: number, patch: Partial<ScaleBarcodeRule>) => {
+    setScaleRules((prev) => prev.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+  };
+
+  const handleSaveScaleRules = () => {
+    const error = validateScaleBarcodeRules(scaleRules);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    if (scaleRules.some((rule) => rule.prefix === internalBarcodePrefix)) {
+      toast.error(`prefix ${internalBarcodePrefix} ใช้เป็นบาร์โค้ดภายในร้านอยู่แล้ว`);
+      return;
+    }
+    updateSettings.mutate({ scaleBarcodeRules: scaleRules });
+  };
+
+  const handleSaveReorder = () => {
+    const windowDays = parseInt(reorderSalesWindowDays);
+    const coverDays = parseInt(reorderCoverDays);
+    const leadTimeDays = parseInt(reorderLeadTimeDays || "0");
+    if (!(windowDays >= 1 && windowDays <= 365)) {
+      toast.error("ดูยอดขายย้อนหลังได้ 1-365 วัน");
+      return;
+    }
+    if (!(coverDays >= 1 && coverDays <= 180)) {
+      toast.error("สั่งให้พอขายได้ 1-180 วัน");
+      return;
+    }
+    if (!(leadTimeDays >= 0 && leadTimeDays <= 90)) {
+      toast.error("ระยะรอของต้องอยู่ระหว่าง 0-90 วัน");
+      return;
+    }
+    updateSettings.mutate({
+      reorderSalesWindowDays: windowDays,
+      reorderCoverDays: coverDays,
+      reorderLeadTimeDays: leadTimeDays,
+    });
+  };
+
   // ตรวจสอบว่าข้อมูลครบถ้วนหรือไม่
   const isComplete =
     sellerName.trim() &&
@@ -130,6 +236,16 @@ export default function Settings() {
 
       {/* Main Content */}
       <main className="flex-1 p-4 max-w-2xl mx-auto w-full">
+        {!can("settings.manage") && (
+          <Alert className="mb-4">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>ดูได้อย่างเดียว</AlertTitle>
+            <AlertDescription>
+              บัญชีนี้แก้ไขตั้งค่าร้านไม่ได้ ให้เจ้าของร้านหรือผู้จัดการแก้ไขแทน
+            </AlertDescription>
+          </Alert>
+        )}
+
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
@@ -254,6 +370,436 @@ export default function Settings() {
           </CardContent>
         </Card>
 
+        {/* PromptPay */}
+        <Card className="mt-4">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <QrCode className="w-5 h-5" />
+              รับเงินพร้อมเพย์
+            </CardTitle>
+            <CardDescription>
+              แสดง QR พร้อมเพย์ตอนคิดเงินและพิมพ์ท้ายใบเสร็จ (ไม่บังคับ)
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="promptPayId" className="flex items-center gap-2">
+                <QrCode className="w-4 h-4" />
+                PromptPay ID
+              </Label>
+              <Input
+                id="promptPayId"
+                value={promptPayId}
+                onChange={(e) => setPromptPayId(e.target.value)}
+                placeholder="เช่น 0812345678 หรือ 1234567890123"
+                inputMode="numeric"
+                maxLength={20}
+                className="ts-input font-mono"
+              />
+              <p className="text-xs text-muted-foreground">
+                เบอร์มือถือ 10 หลัก หรือเลขประจำตัวผู้เสียภาษี 13 หลัก (เว้นว่าง = ไม่ใช้)
+              </p>
+              {promptPayId.trim() && !validatePromptPayId(promptPayId) && (
+                <p className="text-xs text-red-500">
+                  ⚠️ PromptPay ID ไม่ถูกต้อง
+                </p>
+              )}
+            </div>
+            <div className="flex justify-end">
+              <Button
+                type="button"
+                onClick={handleSavePromptPay}
+                disabled={updateSettings.isPending}
+                className="min-w-[120px]"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                บันทึก
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* วิธีคิดต้นทุน */}
+        <Card className="mt-4">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Calculator className="w-5 h-5" />
+              วิธีคิดต้นทุนสินค้า
+            </CardTitle>
+            <CardDescription>
+              ใช้คิดต้นทุนขาย กำไร และมูลค่าสินค้าคงเหลือ
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                type="button"
+                variant={costingMethod === "average" ? "default" : "outline"}
+                onClick={() => setCostingMethod("average")}
+              >
+                ถัวเฉลี่ย
+              </Button>
+              <Button
+                type="button"
+                variant={costingMethod === "fifo" ? "default" : "outline"}
+                onClick={() => setCostingMethod("fifo")}
+              >
+                เข้าก่อนออกก่อน (FIFO)
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {costingMethod === "average"
+                ? "รับของเข้าแต่ละครั้ง ทุนต่อชิ้นจะเฉลี่ยรวมกับของที่มีอยู่"
+                : "ขายของที่รับเข้ามาก่อนออกก่อน ตัดทุนตามล็อตที่รับเข้า"}
+            </p>
+            <div className="flex items-center justify-between gap-2">
+              <Link href="/stock-valuation">
+                <Button type="button" variant="link" className="px-0">
+                  ดูมูลค่าสินค้าคงเหลือ
+                </Button>
+              </Link>
+              <Button
+                type="button"
+                onClick={handleSaveCostingMethod}
+                disabled={updateSettings.isPending}
+                className="min-w-[120px]"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                บันทึก
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* บาร์โค้ดตาชั่ง */}
+        <Card className="mt-4">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Scale className="w-5 h-5" />
+              บาร์โค้ดจากตาชั่ง
+            </CardTitle>
+            <CardDescription>
+              ฉลาก EAN-13 ขึ้นต้น 20-29 ที่มีรหัส PLU + ราคาหรือน้ำหนัก (ตั้ง PLU ที่หน้าสินค้า)
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {scaleRules.map((rule, index) => (
+              <div key={index} className="p-3 bg-muted rounded-lg space-y-2">
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label className="text-xs">ขึ้นต้นด้วย</Label>
+                    <select
+                      className="w-full h-9 rounded-md border border-input bg-background px-2 text-sm"
+                      value={rule.prefix}
+                      onChange={(e) => updateScaleRule(index, { prefix: e.target.value })}
+                    >
+                      {Array.from({ length: 10 }, (_, i) => `2${i}`).map((prefix) => (
+                        <option key={prefix} value={prefix}>
+                          {prefix}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">PLU (หลัก)</Label>
+                    <select
+                      className="w-full h-9 rounded-md border border-input bg-background px-2 text-sm"
+                      value={rule.pluLength}
+                      onChange={(e) => updateScaleRule(index, { pluLength: Number(e.target.value) })}
+                    >
+                      {[4, 5, 6].map((length) => (
+                        <option key={length} value={length}>
+                          {length}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">ค่าที่ฝัง</Label>
+                    <select
+                      className="w-full h-9 rounded-md border border-input bg-background px-2 text-sm"
+                      value={rule.valueType}
+                      onChange={(e) =>
+                        updateScaleRule(index, { valueType: e.target.value as ScaleBarcodeValueType })
+                      }
+                    >
+                      {SCALE_BARCODE_VALUE_TYPES.map((valueType) => (
+                        <option key={valueType} value={valueType}>
+                          {SCALE_BARCODE_VALUE_TYPE_LABELS[valueType]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">ทศนิยม</Label>
+                    <select
+                      className="w-full h-9 rounded-md border border-input bg-background px-2 text-sm"
+                      value={rule.decimals}
+                      onChange={(e) => updateScaleRule(index, { decimals: Number(e.target.value) })}
+                    >
+                      {[0, 1, 2, 3].map((decimals) => (
+                        <option key={decimals} value={decimals}>
+                          {decimals}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs text-muted-foreground font-mono">
+                    {rule.prefix} {"P".repeat(rule.pluLength)} {"V".repeat(10 - rule.pluLength)} C
+                  </p>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive"
+                    onClick={() => setScaleRules((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              P = รหัส PLU, V = ราคา/น้ำหนัก, C = check digit (เช่น น้ำหนักทศนิยม 3 → 01250 = 1.250)
+            </p>
+            <div className="flex items-center justify-between gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                disabled={scaleRules.length >= 10}
+                onClick={() => {
+                  const used = new Set(scaleRules.map((rule) => rule.prefix));
+                  const prefix =
+                    Array.from({ length: 10 }, (_, i) => `2${i}`).find((p) => !used.has(p)) ?? "20";
+                  setScaleRules((prev) => [...prev, { ...NEW_SCALE_RULE, prefix }]);
+                }}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                เพิ่มกฎ
+              </Button>
+              <Button
+                type="button"
+                onClick={handleSaveScaleRules}
+                disabled={updateSettings.isPending}
+                className="min-w-[120px]"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                บันทึก
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* บาร์โค้ดภายในร้าน */}
+        <Card className="mt-4">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Barcode className="w-5 h-5" />
+              บาร์โค้ดภายในร้าน
+            </CardTitle>
+            <CardDescription>
+              บาร์โค้ด EAN-13 ที่สร้างให้สินค้าที่ไม่มีบาร์โค้ด (หน้าพิมพ์ป้ายราคา)
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="internalBarcodePrefix">ขึ้นต้นด้วย</Label>
+              <select
+                id="internalBarcodePrefix"
+                className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm"
+                value={internalBarcodePrefix}
+                onChange={(e) => setInternalBarcodePrefix(e.target.value)}
+              >
+                {Array.from({ length: 10 }, (_, i) => `2${i}`).map((prefix) => (
+                  <option
+                    key={prefix}
+                    value={prefix}
+                    disabled={scaleRules.some((rule) => rule.prefix === prefix)}
+                  >
+                    {prefix}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground">
+                20-29 เป็นเลขที่สงวนไว้ใช้ภายในร้าน ต้องไม่ซ้ำกับบาร์โค้ดตาชั่ง
+              </p>
+            </div>
+            <div className="flex justify-end">
+              <Button
+                type="button"
+                onClick={() => updateSettings.mutate({ internalBarcodePrefix })}
+                disabled={updateSettings.isPending}
+                className="min-w-[120px]"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                บันทึก
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* คำแนะนำการสั่งซื้อ */}
+        <Card className="mt-4">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShoppingCart className="w-5 h-5" />
+              คำแนะนำการสั่งซื้อ
+            </CardTitle>
+            <CardDescription>
+              คำนวณจำนวนที่ควรสั่งจากยอดขายเฉลี่ยต่อวัน (หน้าของใกล้หมด)
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-3 gap-2">
+              {(
+                [
+                  ["reorderSalesWindowDays", "ดูยอดขายย้อนหลัง", reorderSalesWindowDays, setReorderSalesWindowDays],
+                  ["reorderLeadTimeDays", "รอของมาส่ง", reorderLeadTimeDays, setReorderLeadTimeDays],
+                  ["reorderCoverDays", "สั่งให้พอขาย", reorderCoverDays, setReorderCoverDays],
+                ] as const
+              ).map(([id, label, value, setValue]) => (
+                <div key={id} className="space-y-2">
+                  <Label htmlFor={id}>{label} (วัน)</Label>
+                  <Input
+                    id={id}
+                    type="text"
+                    inputMode="numeric"
+                    value={value}
+                    onChange={(e) => {
+                      if (/^\d{0,3}$/.test(e.target.value)) setValue(e.target.value);
+                    }}
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              ควรสั่งเมื่อของจะขายหมดก่อนของมาส่ง หรือต่ำกว่าจุดสั่งซื้อ สั่งให้พอขายช่วงรอของ + จำนวนวันที่ตั้งไว้
+            </p>
+            <div className="flex justify-end">
+              <Button
+                type="button"
+                onClick={handleSaveReorder}
+                disabled={updateSettings.isPending}
+                className="min-w-[120px]"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                บันทึก
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* สาขา */}
+        <Card className="mt-4">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Building2 className="w-5 h-5" />
+              สาขา
+            </CardTitle>
+            <CardDescription>
+              เพิ่มสาขา เลือกสาขาที่เครื่องนี้ใช้ขาย และโอนสินค้าระหว่างสาขา
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex gap-2">
+            <Link href="/branches" className="flex-1">
+              <Button type="button" variant="outline" className="w-full">
+                จัดการสาขา
+              </Button>
+            </Link>
+            <Link href="/transfers" className="flex-1">
+              <Button type="button" variant="outline" className="w-full">
+                โอนสินค้า
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+
+        {/* PIN สลับแคชเชียร์ */}
+        <Card className="mt-4">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Lock className="w-5 h-5" />
+              PIN สลับแคชเชียร์{cashier ? ` (${cashier.name})` : ""}
+            </CardTitle>
+            <CardDescription>
+              ตัวเลข 4-6 หลัก ใช้ปลดล็อกเครื่องที่ใช้ร่วมกันหน้าร้าน โดยไม่ต้องออกจากระบบ
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex gap-2">
+            <Input
+              type="password"
+              inputMode="numeric"
+              maxLength={6}
+              value={myPin}
+              onChange={(e) => setMyPin(e.target.value.replace(/\D/g, ""))}
+              placeholder="PIN ใหม่"
+              className="flex-1"
+            />
+            <Button
+              type="button"
+              disabled={setPin.isPending || myPin.length < 4}
+              onClick={() => setPin.mutate({ pin: myPin })}
+            >
+              <Save className="w-4 h-4 mr-2" />
+              บันทึก
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              disabled={setPin.isPending}
+              onClick={() => setPin.mutate({ pin: null })}
+            >
+              ลบ PIN
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* พนักงาน */}
+        {can("staff.manage") && (
+          <Card className="mt-4">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="w-5 h-5" />
+                พนักงาน
+              </CardTitle>
+              <CardDescription>
+                เพิ่มบัญชีพนักงานที่ใช้ข้อมูลร้านนี้ และกำหนดบทบาทผู้จัดการ/พนักงานขาย
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Link href="/staff">
+                <Button type="button" variant="outline" className="w-full">
+                  จัดการพนักงาน
+                </Button>
+              </Link>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* ประวัติการทำรายการ */}
+        {can("audit.view") && (
+          <Card className="mt-4">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <History className="w-5 h-5" />
+                ประวัติการทำรายการ
+              </CardTitle>
+              <CardDescription>
+                ดูว่าใครแก้ราคา ลบสินค้า รับชำระหนี้ ยกเลิกใบกำกับ แก้ตั้งค่า หรือปิดกะ เมื่อไหร่
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Link href="/audit-log">
+                <Button type="button" variant="outline" className="w-full">
+                  ดูประวัติ
+                </Button>
+              </Link>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Info Card */}
         <Card className="mt-4 border-blue-200 bg-blue-50">
           <CardContent className="pt-6">
@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { trpc } from "@/lib/trpc";
+import { ArrowLeft, PackageMinus, Loader2 } from "lucide-react";
+import { Link } from "wouter";
+import { STOCK_ADJUST_REASON_LABELS, type StockAdjustReason } from "@shared/stockAdjust";
+
+// วันที่แบบ YYYY-MM-DD ตามเวลาเครื่อง
+const toDateString = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export default function Shrinkage() {
+  const [from, setFrom] = useState(() => {
+    const now = new Date();
+    return toDateString(new Date(now.getFullYear(), now.getMonth(), 1));
+  });
+  const [to, setTo] = useState(() => toDateString(new Date()));
+
+  const { data: report, isLoading } = trpc.reports.shrinkage.useQuery(
+    { from: from || undefined, to: to || undefined },
+    { placeholderData: (previous) => previous }
+  );
+
+  const formatCurrency = (amount: number) => {
+    return amount.toLocaleString("th-TH", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="bg-secondary text-secondary-foreground p-4 flex items-center gap-4">
+        <Link href="/reports">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-secondary-foreground hover:bg-white/10"
+          >
+            <ArrowLeft className="w-6 h-6" />
+          </Button>
+        </Link>
+        <h1 className="text-xl font-bold flex-1">ของเสีย/ของหาย</h1>
+        <PackageMinus className="w-6 h-6" />
+      </header>
+
+      <main className="flex-1 p-4 max-w-4xl mx-auto w-full space-y-4">
+        <div className="ts-card grid grid-cols-2 gap-3">
+          <div>
+            <label className="text-sm text-muted-foreground mb-2 block">ตั้งแต่</label>
+            <Input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div>
+            <label className="text-sm text-muted-foreground mb-2 block">ถึง</label>
+            <Input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : report && report.totalQuantity > 0 ? (
+          <>
+            <Card className="bg-destructive/10 border-destructive/20">
+              <CardContent className="p-4 flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-muted-foreground">มูลค่าที่ตัดออก</p>
+                  <p className="text-xs text-muted-foreground">{report.totalQuantity} ชิ้น</p>
+                </div>
+                <p className="text-2xl font-bold text-destructive">
+                  ฿{formatCurrency(report.totalValue)}
+                </p>
+              </CardContent>
+            </Card>
+
+            {/* ตามเหตุผล */}
+            <div className="ts-card space-y-2">
+              <p className="font-semibold">ตามเหตุผล</p>
+              {report.byReason.map((row) => (
+                <div key={row.reason} className="flex justify-between text-sm">
+                  <span>
+                    {STOCK_ADJUST_REASON_LABELS[row.reason as StockAdjustReason]}{" "}
+                    <span className="text-muted-foreground">
+                      ({row.quantity} ชิ้น · {row.count} ครั้ง)
+                    </span>
+                  </span>
+                  <span className="font-semibold">฿{formatCurrency(row.value)}</span>
+                </div>
+              ))}
+            </div>
+
+            {/* ตามสินค้า */}
+            <div className="ts-card divide-y divide-border">
+              <p className="font-semibold pb-2">ตามสินค้า</p>
+              {report.byProduct.map((row) => (
+                <div key={row.productId} className="py-2 flex justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-semibold truncate">{row.productName}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {Object.entries(row.reasons)
+                        .map(
+                          ([reason, quantity]) =>
+                            `${STOCK_ADJUST_REASON_LABELS[reason as StockAdjustReason]} ${quantity}`
+                        )
+                        .join(" · ")}
+                    </p>
+                  </div>
+                  <div className="text-right whitespace-nowrap">
+                    <p className="font-semibold">฿{formatCurrency(row.value)}</p>
+                    <p className="text-xs text-muted-foreground">{row.quantity} ชิ้น</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        ) : (
+          <div className="text-center py-12">
+            <PackageMinus className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-lg font-semibold">ไม่มีของเสีย/ของหายในช่วงนี้</p>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { trpc } from "@/lib/trpc";
+import { SHOP_ROLE_LABELS, STAFF_ROLES, type StaffRole } from "@shared/permissions";
+import { ArrowLeft, Users, Plus, Trash2, Loader2, KeyRound } from "lucide-react";
+import { Link } from "wouter";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+
+interface StaffForm {
+  name: string;
+  email: string;
+  password: string;
+  role: StaffRole;
+}
+
+const EMPTY_FORM: StaffForm = {
+  name: "",
+  email: "",
+  password: "",
+  role: "cashier",
+};
+
+const ROLE_DESCRIPTIONS: Record<StaffRole, string> = {
+  manager: "ทำได้ทุกอย่าง ยกเว้นจัดการพนักงานและดูประวัติการทำรายการ",
+  cashier: "ขาย รับคืน เปิด/ปิดกะ รับของ — แก้ราคา ลบสินค้า ยกเลิกใบกำกับภาษี และดูกำไรไม่ได้",
+};
+
+export default function Staff() {
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<StaffForm>(EMPTY_FORM);
+  const [pinTarget, setPinTarget] = useState<{ userId: string; name: string } | null>(null);
+  const [pin, setPin] = useState("");
+
+  const utils = trpc.useUtils();
+  const { data: members, isLoading } = trpc.staff.list.useQuery();
+
+  const resetForm = () => {
+    setShowForm(false);
+    setForm(EMPTY_FORM);
+  };
+
+  const createMember = trpc.staff.create.useMutation({
+    onSuccess: () => {
+      toast.success("เพิ่มพนักงานสำเร็จ");
+      resetForm();
+      utils.staff.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "เกิดข้อผิดพลาด"),
+  });
+
+  const updateRole = trpc.staff.updateRole.useMutation({
+    onSuccess: () => {
+      toast.success("เปลี่ยนบทบาทแล้ว");
+      utils.staff.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "เกิดข้อผิดพลาด"),
+  });
+
+  const removeMember = trpc.staff.remove.useMutation({
+    onSuccess: () => {
+      toast.success("ลบพนักงานแล้ว");
+      utils.staff.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "เกิดข้อผิดพลาด"),
+  });
+
+  const setMemberPin = trpc.staff.setPin.useMutation({
+    onSuccess: (_, variables) => {
+      toast.success(variables.pin ? "ตั้ง PIN แล้ว" : "ลบ PIN แล้ว");
+      setPinTarget(null);
+      setPin("");
+      utils.staff.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "เกิดข้อผิดพลาด"),
+  });
+
+  const handleSubmit = () => {
+    if (!form.email.trim()) {
+      toast.error("กรุณาใส่อีเมล");
+      return;
+    }
+    if (form.password.length < 6) {
+      toast.error("รหัสผ่านต้องมีอย่างน้อย 6 ตัวอักษร");
+      return;
+    }
+    createMember.mutate({
+      email: form.email.trim(),
+      password: form.password,
+      name: form.name.trim() || undefined,
+      role: form.role,
+    });
+  };
+
+  const handleRemove = (member: NonNullable<typeof members>[number]) => {
+    if (!confirm(`ลบ ${member.name || member.email} ออกจากร้าน? บัญชีนี้จะเข้าสู่ระบบไม่ได้อีก`)) {
+      return;
+    }
+    removeMember.mutate({ id: member.id });
+  };
+
+  const selectClassName = "w-full h-12 rounded-md border border-input bg-background px-3 text-base";
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {/* Header */}
+      <header className="bg-secondary text-secondary-foreground p-4 flex items-center gap-4">
+        <Link href="/settings">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-secondary-foreground hover:bg-white/10"
+          >
+            <ArrowLeft className="w-6 h-6" />
+          </Button>
+        </Link>
+        <h1 className="text-xl font-bold flex-1">พนักงาน</h1>
+        <Users className="w-6 h-6" />
+      </header>
+
+      <main className="flex-1 p-4 space-y-3">
+        <p className="text-sm text-muted-foreground">
+          พนักงานเข้าสู่ระบบด้วยอีเมล/รหัสผ่านของตัวเอง และเห็นข้อมูลร้านเดียวกับเจ้าของร้าน
+        </p>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : members && members.length > 0 ? (
+          members.map((member) => (
+            <div key={member.id} className="ts-card space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex-1 min-w-0">
+                  <h3 className="font-semibold text-lg truncate">{member.name || member.email}</h3>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {member.email} · {member.hasPin ? "ตั้ง PIN แล้ว" : "ยังไม่มี PIN"}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() =>
+                    setPinTarget({ userId: member.userId, name: member.name || member.email || "" })
+                  }
+                >
+                  <KeyRound className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-destructive"
+                  disabled={removeMember.isPending}
+                  onClick={() => handleRemove(member)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              <select
+                className={selectClassName}
+                value={member.role}
+                disabled={updateRole.isPending}
+                onChange={(e) =>
+                  updateRole.mutate({ id: member.id, role: e.target.value as StaffRole })
+                }
+              >
+                {STAFF_ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {SHOP_ROLE_LABELS[role]}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[member.role]}</p>
+            </div>
+          ))
+        ) : (
+          <div className="text-center py-12">
+            <Users className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-lg font-semibold">ยังไม่มีพนักงาน</p>
+            <p className="text-sm text-muted-foreground">
+              เพิ่มบัญชีให้พนักงานขายหน้าร้านโดยไม่ต้องแชร์รหัสผ่านเจ้าของร้าน
+            </p>
+          </div>
+        )}
+      </main>
+
+      {/* Bottom Action */}
+      <div className="p-4 bg-card border-t border-border">
+        <Button className="ts-btn-primary w-full" onClick={() => setShowForm(true)}>
+          <Plus className="w-5 h-5" />
+          เพิ่มพนักงาน
+        </Button>
+      </div>
+
+      {/* Form Dialog */}
+      <Dialog open={showForm} onOpenChange={(open) => !open && resetForm()}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle className="text-xl">เพิ่มพนักงาน</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">ชื่อ</label>
+              <Input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="ts-input"
+              />
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">อีเมล *</label>
+              <Input
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+                className="ts-input"
+              />
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">รหัสผ่าน *</label>
+              <Input
+                type="password"
+                value={form.password}
+                onChange={(e) => setForm({ ...form, password: e.target.value })}
+                className="ts-input"
+                placeholder="อย่างน้อย 6 ตัวอักษร"
+              />
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">บทบาท</label>
+              <select
+                className={selectClassName}
+                value={form.role}
+                onChange={(e) => setForm({ ...form, role: e.target.value as StaffRole })}
+              >
+                {STAFF_ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {SHOP_ROLE_LABELS[role]}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground mt-1">{ROLE_DESCRIPTIONS[form.role]}</p>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={resetForm} className="flex-1">
+              ยกเลิก
+            </Button>
+            <Button onClick={handleSubmit} disabled={createMember.isPending} className="flex-1">
+              บันทึก
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* PIN Dialog */}
+      <Dialog
+        open={!!pinTarget}
+        onOpenChange={(open) => {
+          if (!open) {
+            setPinTarget(null);
+            setPin("");
+          }
+        }}
+      >
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle className="text-xl">PIN ของ {pinTarget?.name}</DialogTitle>
+          </DialogHeader>
+
+          <div className="py-4">
+            <label className="text-sm text-muted-foreground mb-2 block">PIN ใหม่ (ตัวเลข 4-6 หลัก)</label>
+            <Input
+              type="password"
+              inputMode="numeric"
+              maxLength={6}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+              className="ts-input"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              className="flex-1"
+              disabled={setMemberPin.isPending}
+              onClick={() => pinTarget && setMemberPin.mutate({ userId: pinTarget.userId, pin: null })}
+            >
+              ลบ PIN
+            </Button>
+            <Button
+              className="flex-1"
+              disabled={setMemberPin.isPending || pin.length < 4}
+              onClick={() => pinTarget && setMemberPin.mutate({ userId: pinTarget.userId, pin })}
+            >
+              บันทึก
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { trpc } from "@/lib/trpc";
+import { ArrowLeft, PackageMinus } from "lucide-react";
+import { Link, useLocation, useSearch } from "wouter";
+import { toast } from "sonner";
+import {
+  STOCK_ADD_REASONS,
+  STOCK_ADJUST_REASON_LABELS,
+  STOCK_WRITE_OFF_REASONS,
+  type StockAdjustReason,
+} from "@shared/stockAdjust";
+
+type Direction = "in" | "out";
+
+// เหตุผลที่เลือกได้ตามทิศทาง (count/correction มาจากรอบนับ/หน้าสินค้าเท่านั้น)
+const REASONS_BY_DIRECTION: Record<Direction, StockAdjustReason[]> = {
+  out: [...STOCK_WRITE_OFF_REASONS, "other"],
+  in: [...STOCK_ADD_REASONS, "other"],
+};
+
+export default function StockAdjust() {
+  const [, setLocation] = useLocation();
+  const search = useSearch();
+  const utils = trpc.useUtils();
+
+  const { data: products, isLoading } = trpc.products.list.useQuery();
+
+  const initialProductId = useMemo(() => {
+    const params = new URLSearchParams(search);
+    return params.get("productId") ?? "";
+  }, [search]);
+
+  const [productId, setProductId] = useState<string>(initialProductId);
+  const [direction, setDirection] = useState<Direction>("out");
+  const [quantity, setQuantity] = useState<string>("");
+  const [reason, setReason] = useState<StockAdjustReason | "">("");
+  const [note, setNote] = useState<string>("");
+
+  const selectedProduct = useMemo(
+    () => products?.find((p) => String(p.id) === productId),
+    [products, productId]
+  );
+
+  const adjustMutation = trpc.stock.adjust.useMutation({
+    onSuccess: async () => {
+      toast.success("บันทึกการปรับสต็อกสำเร็จ");
+      await utils.products.list.invalidate();
+      await utils.products.lowStock.invalidate();
+      await utils.products.reorderSuggestions.invalidate();
+      await utils.stock.movements.invalidate();
+      setLocation("/products");
+    },
+    onError: (err) => {
+      toast.error(err.message || "เกิดข้อผิดพลาด");
+    },
+  });
+
+  const handleDirectionChange = (value: Direction) => {
+    setDirection(value);
+    setReason("");
+  };
+
+  const handleSubmit = () => {
+    if (!productId) {
+      toast.error("กรุณาเลือกสินค้า");
+      return;
+    }
+    const qty = Number(quantity || 0);
+    if (!Number.isFinite(qty) || qty <= 0) {
+      toast.error("จำนวนต้องมากกว่า 0");
+      return;
+    }
+    if (direction === "out" && selectedProduct && qty > selectedProduct.stock) {
+      toast.error(`ตัดได้ไม่เกินคงเหลือ (${selectedProduct.stock})`);
+      return;
+    }
+    if (!reason) {
+      toast.error("กรุณาเลือกเหตุผล");
+      return;
+    }
+    if (!note.trim()) {
+      toast.error("กรุณาใส่หมายเหตุ");
+      return;
+    }
+    adjustMutation.mutate({
+      productId,
+      direction,
+      quantity: qty,
+      reason,
+      note: note.trim(),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="bg-secondary text-secondary-foreground p-4 flex items-center gap-4">
+        <Link href="/products">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-secondary-foreground hover:bg-white/10"
+          >
+            <ArrowLeft className="w-6 h-6" />
+          </Button>
+        </Link>
+        <h1 className="text-xl font-bold flex-1">ปรับสต็อก</h1>
+        <PackageMinus className="w-6 h-6" />
+      </header>
+
+      <main className="flex-1 p-4 space-y-4">
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">กำลังโหลด...</div>
+        ) : (
+          <>
+            <div className="ts-card space-y-3">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">เลือกสินค้า</label>
+                <select
+                  className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm"
+                  value={productId}
+                  onChange={(e) => setProductId(e.target.value)}
+                >
+                  <option value="">-- เลือกสินค้า --</option>
+                  {products?.map((p) => (
+                    <option key={String(p.id)} value={String(p.id)}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {selectedProduct && (
+                <div className="text-sm text-muted-foreground">
+                  คงเหลือปัจจุบัน:{" "}
+                  <span className="font-semibold text-foreground">
+                    {selectedProduct.stock}
+                  </span>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  type="button"
+                  variant={direction === "out" ? "default" : "outline"}
+                  onClick={() => handleDirectionChange("out")}
+                >
+                  ตัดออก
+                </Button>
+                <Button
+                  type="button"
+                  variant={direction === "in" ? "default" : "outline"}
+                  onClick={() => handleDirectionChange("in")}
+                >
+                  เพิ่มเข้า
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">
+                  {direction === "out" ? "จำนวนที่ตัดออก" : "จำนวนที่เพิ่ม"}
+                </label>
+                <Input
+                  type="text"
+                  inputMode={selectedProduct?.soldByMeasure ? "decimal" : "numeric"}
+                  value={quantity}
+                  onChange={(e) => {
+                    const v = e.target.value;
+                    // สินค้าขายตามน้ำหนัก/ความยาวกรอกทศนิยมได้
+                    const pattern = selectedProduct?.soldByMeasure ? /^\d*\.?\d*$/ : /^\d*$/;
+                    if (pattern.test(v)) setQuantity(v);
+                  }}
+                  className="ts-input"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">เหตุผล</label>
+                <div className="flex flex-wrap gap-2">
+                  {REASONS_BY_DIRECTION[direction].map((value) => (
+                    <Button
+                      key={value}
+                      type="button"
+                      size="sm"
+                      variant={reason === value ? "default" : "outline"}
+                      onClick={() => setReason(value)}
+                    >
+                      {STOCK_ADJUST_REASON_LABELS[value]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">หมายเหตุ</label>
+                <Input
+                  placeholder="เช่น ถุงแตกตอนขนของ"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <Button
+              className="ts-btn-primary w-full"
+              onClick={handleSubmit}
+              disabled={adjustMutation.isPending}
+            >
+              บันทึก
+            </Button>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -4,6 +4,15 @@ import { Input } from "@/components/ui/input";
 import { trpc } from "@/lib/trpc";
 import { ArrowLeft, History } from "lucide-react";
 import { Link } from "wouter";
+import { STOCK_ADJUST_REASON_LABELS } from "@shared/stockAdjust";
+
+// ที่มาของการเคลื่อนไหว + เหตุผล (กรณีปรับสต็อก)
+function sourceLabel(m: { source: string; reason?: string | null }) {
+  if (m.source === "ADJUST" && m.reason) {
+    return STOCK_ADJUST_REASON_LABELS[m.reason as keyof typeof STOCK_ADJUST_REASON_LABELS] ?? m.source;
+  }
+  return m.source;
+}
 
 export default function StockHistory() {
   // STEP 1: keyword สำหรับค้นหาชื่อสินค้า
@@ -35,8 +44,8 @@ export default function StockHistory() {
     [filteredItems]
   );
 
-  const saleItems = useMemo(
-    () => filteredItems.filter((m) => m.type === "OUT" && m.source === "SALE"),
+  const outItems = useMemo(
+    () => filteredItems.filter((m) => m.type === "OUT"),
     [filteredItems]
   );
 
@@ -74,7 +83,7 @@ export default function StockHistory() {
           <div className="text-center py-8 text-muted-foreground">กำลังโหลด...</div>
         ) : (
           <>
-            {/* STEP 2: 2 คอลัมน์ (ซ้าย=IN, ขวา=SALE) */}
+            {/* STEP 2: 2 คอลัมน์ (ซ้าย=IN, ขวา=OUT ทั้งขายและปรับสต็อก) */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-3 items-start">
               {/* ซ้าย: สต็อกเข้า */}
               <section className="space-y-3">
@@ -111,7 +120,7 @@ export default function StockHistory() {
                             +{m.quantity}
                           </div>
                           <div className="text-xs text-muted-foreground">
-                            {m.source}
+                            {sourceLabel(m)}
                           </div>
                         </div>
                       </div>
@@ -120,27 +129,27 @@ export default function StockHistory() {
                 )}
               </section>
 
-              {/* ขวา: ขายออก */}
+              {/* ขวา: สต็อกออก */}
               <section className="space-y-3">
                 <div className="ts-card border border-ts-danger/30">
                   <div className="flex items-center justify-between">
                     <div className="font-semibold text-ts-danger">
-                      สต็อกออก (ขาย) (SALE)
+                      สต็อกออก (OUT)
                     </div>
                     <div className="text-xs text-muted-foreground">
-                      {saleItems.length} รายการ
+                      {outItems.length} รายการ
                     </div>
                   </div>
                 </div>
 
-                {saleItems.length === 0 ? (
+                {outItems.length === 0 ? (
                   <div className="ts-card text-center text-muted-foreground py-8">
                     {keyword.trim()
-                      ? "ไม่พบรายการขายออกที่ตรงกับคำค้นหา"
-                      : "ยังไม่มีรายการขายออก"}
+                      ? "ไม่พบรายการสต็อกออกที่ตรงกับคำค้นหา"
+                      : "ยังไม่มีรายการสต็อกออก"}
                   </div>
                 ) : (
-                  saleItems.map((m) => (
+                  outItems.map((m) => (
                     <div key={m.id} className="ts-card">
                       <div className="flex items-start justify-between gap-3">
                         <div className="flex-1">
@@ -155,7 +164,7 @@ export default function StockHistory() {
                             -{m.quantity}
                           </div>
                           <div className="text-xs text-muted-foreground">
-                            {m.source}
+                            {sourceLabel(m)}
                           </div>
                         </div>
                       </div>
@@ -2,9 +2,10 @@ import { useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { trpc } from "@/lib/trpc";
-import { ArrowLeft, PackagePlus } from "lucide-react";
+import { ArrowLeft, PackagePlus, Camera } from "lucide-react";
 import { Link, useLocation, useSearch } from "wouter";
 import { toast } from "sonner";
+import BarcodeScanner from "@/components/BarcodeScanner";
 
 export default function StockIn() {
   const [, setLocation] = useLocation();
@@ -21,6 +22,10 @@ export default function StockIn() {
   const [productId, setProductId] = useState<string>(initialProductId);
   const [quantity, setQuantity] = useState<string>("");
   const [note, setNote] = useState<string>("");
+  const [unitCost, setUnitCost] = useState<string>("");
+  const [lotNumber, setLotNumber] = useState<string>("");
+  const [expiryDate, setExpiryDate] = useState<string>(""); // YYYY-MM-DD
+  const [showBarcodeScanner, setShowBarcodeScanner] = useState(false);
 
   const selectedProduct = useMemo(
     () => products?.find((p) => String(p.id) === productId),
@@ -32,7 +37,9 @@ export default function StockIn() {
       toast.success("บันทึกรับสินค้าเข้าสำเร็จ");
       await utils.products.list.invalidate();
       await utils.products.lowStock.invalidate();
+      await utils.products.reorderSuggestions.invalidate();
       await utils.stock.movements.invalidate();
+      await utils.stock.nearExpiry.invalidate();
       setLocation("/products");
     },
     onError: (err) => {
@@ -40,6 +47,21 @@ export default function StockIn() {
     },
   });
 
+  // สแกนบาร์โค้ดด้วยกล้อง → เลือกสินค้าให้
+  const handleBarcodeDetected = async (barcode: string) => {
+    try {
+      const product = await utils.products.byBarcode.fetch({ barcode });
+      if (!product) {
+        toast.error("ไม่พบสินค้าที่มีบาร์โค้ดนี้");
+        return;
+      }
+      setProductId(String(product.id));
+      toast.success(`เลือก ${product.name}`);
+    } catch {
+      toast.error("ไม่พบสินค้าที่มีบาร์โค้ดนี้");
+    }
+  };
+
   const handleSubmit = () => {
     if (!productId) {
       toast.error("กรุณาเลือกสินค้า");
@@ -54,6 +76,9 @@ export default function StockIn() {
       productId,
       quantity: qty,
       note: note.trim() || undefined,
+      unitCost: unitCost ? parseFloat(unitCost) : undefined,
+      lotNumber: lotNumber.trim() || undefined,
+      expiryDate: expiryDate || undefined,
     });
   };
 
@@ -81,18 +106,30 @@ export default function StockIn() {
             <div className="ts-card space-y-3">
               <div className="space-y-2">
                 <label className="text-sm font-medium">เลือกสินค้า</label>
-                <select
-                  className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm"
-                  value={productId}
-                  onChange={(e) => setProductId(e.target.value)}
-                >
-                  <option value="">-- เลือกสินค้า --</option>
-                  {products?.map((p) => (
-                    <option key={String(p.id)} value={String(p.id)}>
-                      {p.name}
-                    </option>
-                  ))}
-                </select>
+                <div className="flex gap-2">
+                  <select
+                    className="flex-1 h-10 rounded-md border border-input bg-background px-3 text-sm"
+                    value={productId}
+                    onChange={(e) => setProductId(e.target.value)}
+                  >
+                    <option value="">-- เลือกสินค้า --</option>
+                    {products?.map((p) => (
+                      <option key={String(p.id)} value={String(p.id)}>
+                        {p.name}
+                      </option>
+                    ))}
+                  </select>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    className="h-10 w-10"
+                    onClick={() => setShowBarcodeScanner(true)}
+                    aria-label="สแกนด้วยกล้อง"
+                  >
+                    <Camera className="w-5 h-5" />
+                  </Button>
+                </div>
               </div>
 
               {selectedProduct && (
@@ -108,17 +145,53 @@ export default function StockIn() {
                 <label className="text-sm font-medium">จำนวนรับเข้า</label>
                 <Input
                   type="text"
-                  inputMode="numeric"
+                  inputMode={selectedProduct?.soldByMeasure ? "decimal" : "numeric"}
                   value={quantity}
                   onChange={(e) => {
                     const v = e.target.value;
-                    if (/^\d*$/.test(v)) setQuantity(v);
+                    // สินค้าขายตามน้ำหนัก/ความยาวกรอกทศนิยมได้
+                    const pattern = selectedProduct?.soldByMeasure ? /^\d*\.?\d*$/ : /^\d*$/;
+                    if (pattern.test(v)) setQuantity(v);
                   }}
                   className="ts-input"
                   placeholder=""
                 />
               </div>
 
+              <div className="space-y-2">
+                <label className="text-sm font-medium">ราคาทุนต่อหน่วย (ไม่บังคับ)</label>
+                <Input
+                  type="text"
+                  inputMode="decimal"
+                  value={unitCost}
+                  onChange={(e) => {
+                    const v = e.target.value;
+                    if (v === "" || /^\d*\.?\d*$/.test(v)) setUnitCost(v);
+                  }}
+                  className="ts-input"
+                  placeholder={selectedProduct?.costPrice ? `ทุนเดิม ${selectedProduct.costPrice}` : ""}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">เลขล็อต (ไม่บังคับ)</label>
+                  <Input
+                    value={lotNumber}
+                    onChange={(e) => setLotNumber(e.target.value)}
+                    maxLength={100}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">วันหมดอายุ (ไม่บังคับ)</label>
+                  <Input
+                    type="date"
+                    value={expiryDate}
+                    onChange={(e) => setExpiryDate(e.target.value)}
+                  />
+                </div>
+              </div>
+
               <div className="space-y-2">
                 <label className="text-sm font-medium">หมายเหตุ (ไม่บังคับ)</label>
                 <Input
@@ -139,6 +212,12 @@ export default function StockIn() {
           </>
         )}
       </main>
+
+      <BarcodeScanner
+        open={showBarcodeScanner}
+        onOpenChange={setShowBarcodeScanner}
+        onDetected={handleBarcodeDetected}
+      />
     </div>
   );
 }
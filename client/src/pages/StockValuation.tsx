@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { trpc } from "@/lib/trpc";
+import { ArrowLeft, Boxes, Download, Loader2, AlertCircle } from "lucide-react";
+import { Link } from "wouter";
+
+const COSTING_METHOD_LABELS = {
+  average: "ถัวเฉลี่ย",
+  fifo: "เข้าก่อนออกก่อน (FIFO)",
+} as const;
+
+// วันที่วันนี้แบบ YYYY-MM-DD ตามเวลาเครื่อง
+const todayString = () => {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, "0");
+  const day = String(now.getDate()).padStart(2, "0");
+  return `${now.getFullYear()}-${month}-${day}`;
+};
+
+export default function StockValuation() {
+  const [asOf, setAsOf] = useState(todayString);
+
+  const { data: valuation, isLoading } = trpc.reports.stockValuation.useQuery(
+    { asOf: asOf || undefined },
+    { placeholderData: (previous) => previous }
+  );
+
+  const formatCurrency = (amount: number) => {
+    return amount.toLocaleString("th-TH", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+  };
+
+  // ส่งให้นักบัญชี: CSV (ใส่ BOM ให้ Excel อ่านภาษาไทยได้)
+  const handleDownloadCsv = () => {
+    if (!valuation) return;
+    const escape = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+    const rows = [
+      ["สินค้า", "จำนวนคงเหลือ", "ทุนต่อหน่วย", "มูลค่า"],
+      ...valuation.items.map((item) => [
+        item.productName,
+        item.quantity,
+        item.unitCost.toFixed(2),
+        item.value.toFixed(2),
+      ]),
+      ["รวม", valuation.totalQuantity, "", valuation.totalValue.toFixed(2)],
+    ];
+    const csv = rows.map((row) => row.map(escape).join(",")).join("\r\n");
+    const blob = new Blob(["\uFEFF" + csv], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `stock-valuation-${asOf || todayString()}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="bg-secondary text-secondary-foreground p-4 flex items-center gap-4">
+        <Link href="/reports">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-secondary-foreground hover:bg-white/10"
+          >
+            <ArrowLeft className="w-6 h-6" />
+          </Button>
+        </Link>
+        <div className="flex-1">
+          <h1 className="text-xl font-bold">มูลค่าสินค้าคงเหลือ</h1>
+          {valuation && (
+            <p className="text-xs opacity-80">
+              คิดต้นทุนแบบ{COSTING_METHOD_LABELS[valuation.costingMethod]}
+            </p>
+          )}
+        </div>
+        <Boxes className="w-6 h-6" />
+      </header>
+
+      <main className="flex-1 p-4 max-w-4xl mx-auto w-full space-y-4">
+        <div className="ts-card flex items-end gap-3">
+          <div className="flex-1">
+            <label className="text-sm text-muted-foreground mb-2 block">ณ สิ้นวันที่</label>
+            <Input
+              type="date"
+              value={asOf}
+              max={todayString()}
+              onChange={(e) => setAsOf(e.target.value)}
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleDownloadCsv}
+            disabled={!valuation || valuation.items.length === 0}
+          >
+            <Download className="w-4 h-4 mr-1" />
+            CSV
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : valuation && valuation.items.length > 0 ? (
+          <>
+            <Card className="bg-primary/10 border-primary/20">
+              <CardContent className="p-4 flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-muted-foreground">มูลค่ารวม</p>
+                  <p className="text-xs text-muted-foreground">
+                    {valuation.items.length} รายการ · {valuation.totalQuantity} ชิ้น
+                  </p>
+                </div>
+                <p className="text-2xl font-bold text-primary">
+                  ฿{formatCurrency(valuation.totalValue)}
+                </p>
+              </CardContent>
+            </Card>
+
+            {valuation.hasEstimates && (
+              <div className="flex items-start gap-2 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-3">
+                <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                <p>
+                  รายการที่มี * เป็นค่าประมาณจากสต็อกและทุนปัจจุบัน
+                  เพราะยังไม่มีประวัติต้นทุนก่อนวันที่เลือก
+                </p>
+              </div>
+            )}
+
+            <div className="ts-card divide-y divide-border">
+              {valuation.items.map((item) => (
+                <div key={item.productId} className="py-2 flex justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-semibold truncate">
+                      {item.productName}
+                      {item.estimated && <span className="text-amber-600"> *</span>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {item.quantity} × ฿{formatCurrency(item.unitCost)}
+                    </p>
+                  </div>
+                  <p className="font-semibold whitespace-nowrap">฿{formatCurrency(item.value)}</p>
+                </div>
+              ))}
+            </div>
+          </>
+        ) : (
+          <div className="text-center py-12">
+            <Boxes className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-lg font-semibold">ไม่มีสินค้าคงเหลือ ณ วันที่เลือก</p>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,418 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { trpc } from "@/lib/trpc";
+import { ArrowLeft, ClipboardCheck, Trash2, Loader2, CheckCircle2, XCircle } from "lucide-react";
+import { Link, useParams } from "wouter";
+import { toast } from "sonner";
+import { playBeep, playOutOfStockBeep } from "@/lib/sound";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { STOCKTAKE_STATUS_LABELS } from "./Stocktakes";
+
+export default function StocktakeDetail() {
+  const params = useParams<{ id: string }>();
+  const utils = trpc.useUtils();
+
+  const { data: stocktake, isLoading } = trpc.stocktakes.get.useQuery(
+    { id: params.id },
+    { retry: false }
+  );
+  const { data: products } = trpc.products.list.useQuery();
+
+  const [barcodeInput, setBarcodeInput] = useState("");
+  const barcodeInputRef = useRef<HTMLInputElement>(null);
+  // จำนวนที่กำลังแก้ในช่องกรอก ต่อสินค้า (ยังไม่บันทึก)
+  const [editing, setEditing] = useState<Record<string, string>>({});
+  const [manualProductId, setManualProductId] = useState("");
+  const [manualQuantity, setManualQuantity] = useState("");
+  const [showPost, setShowPost] = useState(false);
+  const [showCancel, setShowCancel] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const invalidate = async () => {
+    await utils.stocktakes.get.invalidate({ id: params.id });
+    await utils.stocktakes.list.invalidate();
+  };
+
+  const focusBarcodeInput = () => {
+    setTimeout(() => {
+      barcodeInputRef.current?.focus();
+    }, 100);
+  };
+
+  const count = trpc.stocktakes.count.useMutation({
+    onSuccess: async () => {
+      await utils.stocktakes.get.invalidate({ id: params.id });
+    },
+    onError: (error) => toast.error(error.message || "เกิดข้อผิดพลาด"),
+  });
+
+  const removeItem = trpc.stocktakes.removeItem.useMutation({
+    onSuccess: invalidate,
+    onError: (error) => toast.error(error.message || "เกิดข้อผิดพลาด"),
+  });
+
+  const post = trpc.stocktakes.post.useMutation({
+    onSuccess: async (result) => {
+      toast.success(`ปรับสต็อกแล้ว ${result.adjustedCount} รายการ`);
+      setShowPost(false);
+      await invalidate();
+      await utils.products.list.invalidate();
+      await utils.products.lowStock.invalidate();
+      await utils.products.reorderSuggestions.invalidate();
+      await utils.stock.movements.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "เกิดข้อผิดพลาด"),
+  });
+
+  const cancel = trpc.stocktakes.cancel.useMutation({
+    onSuccess: async () => {
+      toast.success("ยกเลิกรอบนับแล้ว");
+      setShowCancel(false);
+      await invalidate();
+    },
+    onError: (error) => toast.error(error.message || "เกิดข้อผิดพลาด"),
+  });
+
+  // ยิงบาร์โค้ด 1 ครั้ง = นับเพิ่ม 1 ชิ้น
+  const handleBarcodeScan = async () => {
+    if (!barcodeInput.trim()) return;
+
+    const barcode = barcodeInput.trim();
+    setBarcodeInput(""); // Clear input immediately for next scan
+
+    try {
+      const product = await utils.products.byBarcode.fetch({ barcode });
+      if (!product) {
+        playOutOfStockBeep();
+        toast.error("ไม่พบสินค้าที่มีบาร์โค้ดนี้");
+        focusBarcodeInput();
+        return;
+      }
+      const result = await count.mutateAsync({
+        id: params.id,
+        productId: String(product.id),
+        quantity: 1,
+        mode: "add",
+      });
+      playBeep();
+      toast.success(`${result.productName} นับได้ ${result.countedQuantity}`);
+    } catch (error) {
+      playOutOfStockBeep();
+    }
+    focusBarcodeInput();
+  };
+
+  const handleBarcodeKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      handleBarcodeScan();
+    }
+  };
+
+  const handleSetCount = (productId: string) => {
+    const value = editing[productId];
+    if (value === undefined) return;
+    setEditing((prev) => {
+      const { [productId]: _, ...rest } = prev;
+      return rest;
+    });
+    if (value === "") return;
+    count.mutate({ id: params.id, productId, quantity: Number(value), mode: "set" });
+  };
+
+  const handleManualAdd = () => {
+    if (!manualProductId || manualQuantity === "") {
+      toast.error("กรุณาเลือกสินค้าและกรอกจำนวนที่นับได้");
+      return;
+    }
+    count.mutate(
+      { id: params.id, productId: manualProductId, quantity: Number(manualQuantity), mode: "set" },
+      {
+        onSuccess: () => {
+          setManualProductId("");
+          setManualQuantity("");
+        },
+      }
+    );
+  };
+
+  const handlePost = () => {
+    if (!reason.trim()) {
+      toast.error("กรุณาระบุเหตุผลการปรับสต็อก");
+      return;
+    }
+    post.mutate({ id: params.id, reason: reason.trim() });
+  };
+
+  const formatCurrency = (amount: number) => {
+    return amount.toLocaleString("th-TH", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+  };
+
+  const formatVariance = (variance: number) => (variance > 0 ? `+${variance}` : String(variance));
+
+  const isCounting = stocktake?.status === "counting";
+  const status = stocktake
+    ? STOCKTAKE_STATUS_LABELS[stocktake.status as keyof typeof STOCKTAKE_STATUS_LABELS]
+    : null;
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="bg-secondary text-secondary-foreground p-4 flex items-center gap-4">
+        <Link href="/stocktakes">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-secondary-foreground hover:bg-white/10"
+          >
+            <ArrowLeft className="w-6 h-6" />
+          </Button>
+        </Link>
+        <h1 className="text-xl font-bold flex-1">{stocktake?.stocktakeNumber ?? "นับสต็อก"}</h1>
+        <ClipboardCheck className="w-6 h-6" />
+      </header>
+
+      {isCounting && (
+        <div className="p-4 bg-card border-b border-border">
+          <Input
+            ref={barcodeInputRef}
+            placeholder="ยิงบาร์โค้ดเพื่อนับทีละชิ้น..."
+            value={barcodeInput}
+            onChange={(e) => setBarcodeInput(e.target.value)}
+            onKeyDown={handleBarcodeKeyDown}
+            className="ts-input"
+            autoFocus
+          />
+        </div>
+      )}
+
+      <main className="flex-1 p-4 space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : !stocktake ? (
+          <div className="text-center py-12 text-muted-foreground">ไม่พบรอบนับสต็อก</div>
+        ) : (
+          <>
+            <div className="ts-card space-y-1">
+              <div className="flex items-center justify-between">
+                <p className="font-semibold">{stocktake.items.length} รายการที่นับ</p>
+                {status && (
+                  <span className={`px-2 py-0.5 text-xs font-semibold rounded ${status.className}`}>
+                    {status.label}
+                  </span>
+                )}
+              </div>
+              {stocktake.note && <p className="text-sm text-muted-foreground">{stocktake.note}</p>}
+              {stocktake.reason && (
+                <p className="text-sm text-muted-foreground">เหตุผล: {stocktake.reason}</p>
+              )}
+              <p className="text-sm">
+                ผลต่าง {stocktake.varianceCount} รายการ
+                {stocktake.varianceValue !== undefined && (
+                  <>
+                    {" · มูลค่า "}
+                    <span className={stocktake.varianceValue < 0 ? "text-destructive" : "text-primary"}>
+                      ฿{formatCurrency(stocktake.varianceValue)}
+                    </span>
+                  </>
+                )}
+              </p>
+              {isCounting && (
+                <p className="text-xs text-muted-foreground">
+                  ผลต่างคิดจากสต็อกในระบบตอนนี้ สินค้าที่ไม่ได้นับจะไม่ถูกปรับ
+                </p>
+              )}
+            </div>
+
+            {/* กรอกจำนวนเอง (สินค้าไม่มีบาร์โค้ด) */}
+            {isCounting && (
+              <div className="ts-card space-y-2">
+                <label className="text-sm font-medium">กรอกจำนวนที่นับได้</label>
+                <select
+                  className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm"
+                  value={manualProductId}
+                  onChange={(e) => setManualProductId(e.target.value)}
+                >
+                  <option value="">-- เลือกสินค้า --</option>
+                  {products?.map((p) => (
+                    <option key={String(p.id)} value={String(p.id)}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+                <div className="flex gap-2">
+                  <Input
+                    type="text"
+                    inputMode="decimal"
+                    placeholder="จำนวน"
+                    value={manualQuantity}
+                    onChange={(e) => {
+                      const v = e.target.value;
+                      // ทศนิยมได้เฉพาะสินค้าขายตามน้ำหนัก/ความยาว (สินค้าอื่น server ปัดเป็นจำนวนเต็ม)
+                      if (/^\d*\.?\d*$/.test(v)) setManualQuantity(v);
+                    }}
+                  />
+                  <Button onClick={handleManualAdd} disabled={count.isPending}>
+                    บันทึก
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {/* รายการที่นับ */}
+            {stocktake.items.length > 0 && (
+              <div className="ts-card space-y-3">
+                {stocktake.items.map((item: any) => (
+                  <div
+                    key={item.id}
+                    className="border-b border-border pb-3 last:border-0 last:pb-0 flex items-center gap-2"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="font-semibold truncate">{item.productName}</p>
+                      <p className="text-xs text-muted-foreground">
+                        ในระบบ {item.expectedQuantity ?? "-"}
+                        {item.variance != null && item.variance !== 0 && (
+                          <>
+                            {" · "}
+                            <span className={item.variance < 0 ? "text-destructive" : "text-primary"}>
+                              {formatVariance(item.variance)}
+                              {item.varianceValue !== undefined &&
+                                ` (฿${formatCurrency(item.varianceValue ?? 0)})`}
+                            </span>
+                          </>
+                        )}
+                      </p>
+                    </div>
+                    {isCounting ? (
+                      <>
+                        <Input
+                          type="text"
+                          inputMode="decimal"
+                          className="w-20 text-right"
+                          value={editing[item.productId] ?? String(item.countedQuantity)}
+                          onChange={(e) => {
+                            const v = e.target.value;
+                            if (/^\d*\.?\d*$/.test(v)) {
+                              setEditing((prev) => ({ ...prev, [item.productId]: v }));
+                            }
+                          }}
+                          onBlur={() => handleSetCount(item.productId)}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") handleSetCount(item.productId);
+                          }}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="w-8 h-8 text-destructive"
+                          onClick={() => removeItem.mutate({ id: params.id, itemId: item.id })}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </>
+                    ) : (
+                      <p className="font-semibold">นับได้ {item.countedQuantity}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {isCounting && (
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  className="flex-1 text-destructive"
+                  onClick={() => setShowCancel(true)}
+                >
+                  <XCircle className="w-4 h-4 mr-1" />
+                  ยกเลิกรอบนับ
+                </Button>
+                <Button
+                  className="ts-btn-primary flex-1"
+                  onClick={() => setShowPost(true)}
+                  disabled={stocktake.items.length === 0}
+                >
+                  <CheckCircle2 className="w-4 h-4 mr-1" />
+                  ปรับสต็อก
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+
+      {/* ยืนยันปรับสต็อก */}
+      <Dialog open={showPost} onOpenChange={setShowPost}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>ปรับสต็อกตามผลนับ?</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3 py-2">
+            <p className="text-sm text-muted-foreground">
+              ปรับ {stocktake?.varianceCount ?? 0} รายการ
+              {stocktake?.varianceValue !== undefined &&
+                ` มูลค่าผลต่าง ฿${formatCurrency(stocktake.varianceValue)}`}{" "}
+              ปรับแล้วแก้ไขรอบนับนี้ไม่ได้
+            </p>
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">เหตุผล *</label>
+              <Input
+                placeholder="เช่น นับสต็อกสิ้นเดือน"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowPost(false)} className="flex-1">
+              ยกเลิก
+            </Button>
+            <Button onClick={handlePost} disabled={post.isPending} className="flex-1">
+              ปรับสต็อก
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={showCancel} onOpenChange={setShowCancel}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>ยกเลิกรอบนับนี้?</AlertDialogTitle>
+            <AlertDialogDescription>สต็อกในระบบจะไม่ถูกปรับ</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>กลับ</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => cancel.mutate({ id: params.id })}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              ยกเลิกรอบนับ
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
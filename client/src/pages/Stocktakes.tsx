@@ -0,0 +1,131 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { trpc } from "@/lib/trpc";
+import { ArrowLeft, ClipboardCheck, Plus, Loader2, ChevronRight } from "lucide-react";
+import { Link, useLocation } from "wouter";
+import { toast } from "sonner";
+
+type StocktakeStatus = "counting" | "posted" | "cancelled";
+
+export const STOCKTAKE_STATUS_LABELS: Record<
+  StocktakeStatus,
+  { label: string; className: string }
+> = {
+  counting: { label: "กำลังนับ", className: "bg-blue-100 text-blue-700" },
+  posted: { label: "ปรับสต็อกแล้ว", className: "bg-green-100 text-green-700" },
+  cancelled: { label: "ยกเลิก", className: "bg-gray-100 text-gray-700" },
+};
+
+export default function Stocktakes() {
+  const [, setLocation] = useLocation();
+  const utils = trpc.useUtils();
+  const { data: stocktakes, isLoading } = trpc.stocktakes.list.useQuery();
+
+  const createStocktake = trpc.stocktakes.create.useMutation({
+    onSuccess: async (result) => {
+      toast.success(`เริ่มรอบนับ ${result.stocktakeNumber}`);
+      await utils.stocktakes.list.invalidate();
+      setLocation(`/stocktakes/${result.stocktakeId}`);
+    },
+    onError: (error) => toast.error(error.message || "เกิดข้อผิดพลาด"),
+  });
+
+  const formatCurrency = (amount: number) => {
+    return amount.toLocaleString("th-TH", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+  };
+
+  const formatDate = (date: Date | string) => {
+    const d = typeof date === "string" ? new Date(date) : date;
+    return d.toLocaleDateString("th-TH", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="bg-secondary text-secondary-foreground p-4 flex items-center gap-4">
+        <Link href="/products">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-secondary-foreground hover:bg-white/10"
+          >
+            <ArrowLeft className="w-6 h-6" />
+          </Button>
+        </Link>
+        <h1 className="text-xl font-bold flex-1">นับสต็อก</h1>
+        <ClipboardCheck className="w-6 h-6" />
+      </header>
+
+      <main className="flex-1 p-4 max-w-4xl mx-auto w-full space-y-2">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : stocktakes && stocktakes.length > 0 ? (
+          stocktakes.map((stocktake) => {
+            const status = STOCKTAKE_STATUS_LABELS[stocktake.status as StocktakeStatus];
+            return (
+              <Link key={stocktake.id} href={`/stocktakes/${stocktake.id}`}>
+                <Card className="cursor-pointer hover:bg-muted/50">
+                  <CardContent className="p-3 flex items-center justify-between gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="font-mono font-semibold">{stocktake.stocktakeNumber}</p>
+                        {status && (
+                          <span className={`px-2 py-0.5 text-xs font-semibold rounded ${status.className}`}>
+                            {status.label}
+                          </span>
+                        )}
+                      </div>
+                      {stocktake.note && <p className="text-sm truncate">{stocktake.note}</p>}
+                      <p className="text-xs text-muted-foreground">
+                        {formatDate(stocktake.createdAt)} · {stocktake.itemCount} รายการ
+                      </p>
+                    </div>
+                    {stocktake.status === "posted" && stocktake.varianceValue !== undefined && (
+                      <p
+                        className={`font-bold ${
+                          stocktake.varianceValue < 0 ? "text-destructive" : "text-primary"
+                        }`}
+                      >
+                        ฿{formatCurrency(stocktake.varianceValue)}
+                      </p>
+                    )}
+                    <ChevronRight className="w-5 h-5 text-muted-foreground" />
+                  </CardContent>
+                </Card>
+              </Link>
+            );
+          })
+        ) : (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <ClipboardCheck className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
+              <p className="text-lg font-semibold">ยังไม่เคยนับสต็อก</p>
+              <p className="text-sm text-muted-foreground">
+                นับของจริงบนชั้นแล้วปรับสต็อกในระบบให้ตรง
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+
+      <div className="p-4 bg-card border-t border-border">
+        <Button
+          className="ts-btn-primary w-full"
+          onClick={() => createStocktake.mutate()}
+          disabled={createStocktake.isPending}
+        >
+          <Plus className="w-5 h-5" />
+          เริ่มนับสต็อก
+        </Button>
+      </div>
+    </div>
+  );
+}
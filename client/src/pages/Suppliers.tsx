@@ -0,0 +1,287 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/lib/trpc";
+import { ArrowLeft, Truck, Plus, Edit2, Trash2, Phone, Loader2 } from "lucide-react";
+import { Link } from "wouter";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface SupplierForm {
+  name: string;
+  contactName: string;
+  phone: string;
+  address: string;
+  taxId: string;
+  note: string;
+}
+
+const EMPTY_FORM: SupplierForm = {
+  name: "",
+  contactName: "",
+  phone: "",
+  address: "",
+  taxId: "",
+  note: "",
+};
+
+export default function Suppliers() {
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [form, setForm] = useState<SupplierForm>(EMPTY_FORM);
+
+  const utils = trpc.useUtils();
+  const { data: suppliers, isLoading } = trpc.suppliers.list.useQuery();
+
+  const resetForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const createSupplier = trpc.suppliers.create.useMutation({
+    onSuccess: () => {
+      toast.success("เพิ่มผู้จำหน่ายสำเร็จ");
+      resetForm();
+      utils.suppliers.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "เกิดข้อผิดพลาด"),
+  });
+
+  const updateSupplier = trpc.suppliers.update.useMutation({
+    onSuccess: () => {
+      toast.success("แก้ไขผู้จำหน่ายสำเร็จ");
+      resetForm();
+      utils.suppliers.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "เกิดข้อผิดพลาด"),
+  });
+
+  const deleteSupplier = trpc.suppliers.delete.useMutation({
+    onSuccess: () => {
+      toast.success("ลบผู้จำหน่ายสำเร็จ");
+      setDeleteId(null);
+      utils.suppliers.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || "เกิดข้อผิดพลาด");
+      setDeleteId(null);
+    },
+  });
+
+  const handleEdit = (supplier: NonNullable<typeof suppliers>[number]) => {
+    setEditingId(supplier.id);
+    setForm({
+      name: supplier.name ?? "",
+      contactName: supplier.contactName ?? "",
+      phone: supplier.phone ?? "",
+      address: supplier.address ?? "",
+      taxId: supplier.taxId ?? "",
+      note: supplier.note ?? "",
+    });
+    setShowForm(true);
+  };
+
+  const handleSubmit = () => {
+    if (!form.name.trim()) {
+      toast.error("กรุณาใส่ชื่อผู้จำหน่าย");
+      return;
+    }
+    if (editingId) {
+      updateSupplier.mutate({ id: editingId, ...form });
+    } else {
+      createSupplier.mutate(form);
+    }
+  };
+
+  const isSaving = createSupplier.isPending || updateSupplier.isPending;
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {/* Header */}
+      <header className="bg-secondary text-secondary-foreground p-4 flex items-center gap-4">
+        <Link href="/purchase-orders">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-secondary-foreground hover:bg-white/10"
+          >
+            <ArrowLeft className="w-6 h-6" />
+          </Button>
+        </Link>
+        <h1 className="text-xl font-bold flex-1">ผู้จำหน่าย</h1>
+        <Truck className="w-6 h-6" />
+      </header>
+
+      <main className="flex-1 p-4 space-y-3">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : suppliers && suppliers.length > 0 ? (
+          suppliers.map((supplier) => (
+            <div key={supplier.id} className="ts-card flex items-center justify-between gap-3">
+              <div className="flex-1 min-w-0">
+                <h3 className="font-semibold text-lg truncate">{supplier.name}</h3>
+                {supplier.contactName && (
+                  <p className="text-sm text-muted-foreground">{supplier.contactName}</p>
+                )}
+                {supplier.phone && (
+                  <p className="text-sm text-muted-foreground flex items-center gap-1">
+                    <Phone className="w-3 h-3" />
+                    {supplier.phone}
+                  </p>
+                )}
+              </div>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="icon" onClick={() => handleEdit(supplier)}>
+                  <Edit2 className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-destructive"
+                  onClick={() => setDeleteId(supplier.id)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        ) : (
+          <div className="text-center py-12">
+            <Truck className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-lg font-semibold">ยังไม่มีผู้จำหน่าย</p>
+            <p className="text-sm text-muted-foreground">เพิ่มร้านที่ไปซื้อของมาขาย</p>
+          </div>
+        )}
+      </main>
+
+      {/* Bottom Action */}
+      <div className="p-4 bg-card border-t border-border">
+        <Button className="ts-btn-primary w-full" onClick={() => setShowForm(true)}>
+          <Plus className="w-5 h-5" />
+          เพิ่มผู้จำหน่าย
+        </Button>
+      </div>
+
+      {/* Form Dialog */}
+      <Dialog open={showForm} onOpenChange={(open) => !open && resetForm()}>
+        <DialogContent className="max-w-sm max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-xl">
+              {editingId ? "แก้ไขผู้จำหน่าย" : "เพิ่มผู้จำหน่าย"}
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">
+                ชื่อผู้จำหน่าย *
+              </label>
+              <Input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="ts-input"
+                placeholder="เช่น ร้านส่งเจริญพาณิชย์"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm text-muted-foreground mb-2 block">ผู้ติดต่อ</label>
+                <Input
+                  value={form.contactName}
+                  onChange={(e) => setForm({ ...form, contactName: e.target.value })}
+                  className="ts-input"
+                />
+              </div>
+              <div>
+                <label className="text-sm text-muted-foreground mb-2 block">เบอร์โทร</label>
+                <Input
+                  type="tel"
+                  value={form.phone}
+                  onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                  className="ts-input"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">ที่อยู่</label>
+              <Textarea
+                value={form.address}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">
+                เลขประจำตัวผู้เสียภาษี
+              </label>
+              <Input
+                value={form.taxId}
+                onChange={(e) => setForm({ ...form, taxId: e.target.value })}
+                className="ts-input font-mono"
+              />
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">หมายเหตุ</label>
+              <Input
+                value={form.note}
+                onChange={(e) => setForm({ ...form, note: e.target.value })}
+                placeholder="เช่น ส่งของทุกวันอังคาร"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={resetForm} className="flex-1">
+              ยกเลิก
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSaving} className="flex-1">
+              บันทึก
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleteId} onOpenChange={(open) => !open && setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>ลบผู้จำหน่าย?</AlertDialogTitle>
+            <AlertDialogDescription>
+              ผู้จำหน่ายที่มีใบสั่งซื้ออยู่แล้วจะลบไม่ได้
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>ยกเลิก</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteId && deleteSupplier.mutate({ id: deleteId })}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              ลบ
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { trpc } from "@/lib/trpc";
+import { getCurrentBranchId } from "@/lib/branch";
+import { MAIN_BRANCH_ID, MAIN_BRANCH_NAME } from "@shared/branch";
+import { ArrowLeft, ArrowLeftRight, ArrowRight, Plus, Trash2, Loader2 } from "lucide-react";
+import { Link } from "wouter";
+import { toast } from "sonner";
+
+type TransferLine = { productId: string; quantity: string };
+
+const toBranchId = (value: string) => (value === MAIN_BRANCH_ID ? null : value);
+
+export default function Transfers() {
+  const utils = trpc.useUtils();
+  const { data: branches } = trpc.branches.list.useQuery();
+  const { data: products } = trpc.products.list.useQuery();
+  const { data: transfers, isLoading } = trpc.transfers.list.useQuery();
+
+  const [fromBranch, setFromBranch] = useState(getCurrentBranchId);
+  const [toBranch, setToBranch] = useState("");
+  const [lines, setLines] = useState<TransferLine[]>([{ productId: "", quantity: "" }]);
+  const [note, setNote] = useState("");
+
+  const branchOptions = useMemo(
+    () => [
+      { id: MAIN_BRANCH_ID, name: MAIN_BRANCH_NAME },
+      ...(branches ?? []).map((b) => ({ id: b.id, name: b.name })),
+    ],
+    [branches]
+  );
+
+  const createTransfer = trpc.transfers.create.useMutation({
+    onSuccess: async ({ transferNumber }) => {
+      toast.success(`โอนสินค้าแล้ว (${transferNumber})`);
+      setLines([{ productId: "", quantity: "" }]);
+      setNote("");
+      await utils.transfers.list.invalidate();
+      await utils.products.list.invalidate();
+      await utils.products.lowStock.invalidate();
+      await utils.products.reorderSuggestions.invalidate();
+      await utils.stock.movements.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "เกิดข้อผิดพลาด"),
+  });
+
+  const updateLine = (index: number, patch: Partial<TransferLine>) => {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...patch } : line)));
+  };
+
+  const handleSubmit = () => {
+    if (!toBranch) {
+      toast.error("กรุณาเลือกสาขาปลายทาง");
+      return;
+    }
+    if (fromBranch === toBranch) {
+      toast.error("สาขาต้นทางและปลายทางต้องไม่ใช่สาขาเดียวกัน");
+      return;
+    }
+    const items = lines
+      .filter((line) => line.productId)
+      .map((line) => ({ productId: line.productId, quantity: Number(line.quantity || 0) }));
+    if (items.length === 0) {
+      toast.error("กรุณาเลือกสินค้าอย่างน้อย 1 รายการ");
+      return;
+    }
+    if (items.some((item) => !Number.isFinite(item.quantity) || item.quantity <= 0)) {
+      toast.error("จำนวนต้องมากกว่า 0");
+      return;
+    }
+    createTransfer.mutate({
+      fromBranchId: toBranchId(fromBranch),
+      toBranchId: toBranchId(toBranch),
+      items,
+      note: note.trim() || undefined,
+    });
+  };
+
+  const selectClassName = "w-full h-12 rounded-md border border-input bg-background px-3 text-base";
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {/* Header */}
+      <header className="bg-secondary text-secondary-foreground p-4 flex items-center gap-4">
+        <Link href="/branches">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-secondary-foreground hover:bg-white/10"
+          >
+            <ArrowLeft className="w-6 h-6" />
+          </Button>
+        </Link>
+        <h1 className="text-xl font-bold flex-1">โอนสินค้าระหว่างสาขา</h1>
+        <ArrowLeftRight className="w-6 h-6" />
+      </header>
+
+      <main className="flex-1 p-4 space-y-4">
+        <div className="ts-card space-y-4">
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <label className="text-sm text-muted-foreground mb-2 block">จากสาขา</label>
+              <select
+                className={selectClassName}
+                value={fromBranch}
+                onChange={(e) => setFromBranch(e.target.value)}
+              >
+                {branchOptions.map((branch) => (
+                  <option key={branch.id} value={branch.id}>
+                    {branch.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <ArrowRight className="w-5 h-5 mb-3.5 text-muted-foreground" />
+            <div className="flex-1">
+              <label className="text-sm text-muted-foreground mb-2 block">ไปสาขา</label>
+              <select
+                className={selectClassName}
+                value={toBranch}
+                onChange={(e) => setToBranch(e.target.value)}
+              >
+                <option value="">เลือกสาขา</option>
+                {branchOptions
+                  .filter((branch) => branch.id !== fromBranch)
+                  .map((branch) => (
+                    <option key={branch.id} value={branch.id}>
+                      {branch.name}
+                    </option>
+                  ))}
+              </select>
+            </div>
+          </div>
+
+          {lines.map((line, index) => (
+            <div key={index} className="flex gap-2">
+              <select
+                className={`${selectClassName} flex-1`}
+                value={line.productId}
+                onChange={(e) => updateLine(index, { productId: e.target.value })}
+              >
+                <option value="">เลือกสินค้า</option>
+                {(products ?? []).map((product) => (
+                  <option key={product.id} value={String(product.id)}>
+                    {product.name}
+                  </option>
+                ))}
+              </select>
+              <Input
+                type="number"
+                inputMode="decimal"
+                min="0"
+                value={line.quantity}
+                onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                className="ts-input w-24"
+                placeholder="จำนวน"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-12 text-destructive"
+                disabled={lines.length === 1}
+                onClick={() => setLines((prev) => prev.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => setLines((prev) => [...prev, { productId: "", quantity: "" }])}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            เพิ่มรายการ
+          </Button>
+
+          <Input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            className="ts-input"
+            placeholder="หมายเหตุ (ไม่บังคับ)"
+          />
+
+          <Button
+            className="ts-btn-primary w-full"
+            onClick={handleSubmit}
+            disabled={createTransfer.isPending}
+          >
+            {createTransfer.isPending ? (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            ) : (
+              <ArrowLeftRight className="w-5 h-5" />
+            )}
+            โอนสินค้า
+          </Button>
+        </div>
+
+        <h2 className="text-lg font-semibold">ประวัติการโอน</h2>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : transfers && transfers.length > 0 ? (
+          transfers.map((transfer) => (
+            <div key={transfer.id} className="ts-card space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-mono text-sm">{transfer.transferNumber}</span>
+                <span className="text-xs text-muted-foreground">
+                  {new Date(transfer.createdAt).toLocaleString("th-TH")}
+                </span>
+              </div>
+              <p className="font-semibold">
+                {transfer.fromBranchName} → {transfer.toBranchName}
+              </p>
+              <ul className="text-sm text-muted-foreground">
+                {transfer.items.map((item) => (
+                  <li key={item.productId}>
+                    {item.productName} × {item.quantity}
+                  </li>
+                ))}
+              </ul>
+              {transfer.note && <p className="text-sm">{transfer.note}</p>}
+            </div>
+          ))
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">ยังไม่มีการโอนสินค้า</div>
+        )}
+      </main>
+    </div>
+  );
+}
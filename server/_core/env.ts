@@ -8,4 +8,5 @@ export const ENV = {
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
   cloudinaryUrl: process.env.CLOUDINARY_URL ?? "",
+  trustProxy: process.env.TRUST_PROXY ?? "",
 };
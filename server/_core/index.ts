@@ -7,7 +7,9 @@ import { registerOAuthRoutes } from "./oauth";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
-import { connectMongoDB } from "../mongodb";
+import { connectMongoDB, TransactionsUnsupportedError } from "../mongodb";
+import { migrateLegacySettings } from "../db";
+import { ENV } from "./env";
 
 function isPortAvailable(port: number): Promise<boolean> {
   return new Promise(resolve => {
@@ -28,17 +30,43 @@ async function findAvailablePort(startPort: number = 3000): Promise<number> {
   throw new Error(`No available port found starting from ${startPort}`);
 }
 
+/**
+ * ค่า trust proxy ของ Express จาก TRUST_PROXY (ว่าง = ไม่เชื่อ x-forwarded-for)
+ * - ตัวเลข = จำนวน proxy หน้า server, true/false, หรือ IP/subnet ของ proxy (คั่นด้วย ,)
+ */
+function parseTrustProxy(value: string): boolean | number | string {
+  const trimmed = value.trim();
+  if (!trimmed || trimmed === "false") return false;
+  if (trimmed === "true") return true;
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10);
+  return trimmed;
+}
+
 async function startServer() {
   // Connect to MongoDB
   try {
-    await connectMongoDB();
+    const connection = await connectMongoDB();
+    if (connection) {
+      // Settings เดิมเป็น singleton ทั้งระบบ → ย้ายไปเป็นของร้านแอดมินคนแรก
+      // ย้ายไม่สำเร็จ = index singleton ยังอยู่ ร้านที่สองบันทึก settings ไม่ได้ → ไม่เปิด server
+      await migrateLegacySettings().catch((error) => {
+        console.error("[Server] Failed to migrate legacy settings:", error);
+        process.exit(1);
+      });
+    }
   } catch (error) {
     console.error("[Server] Failed to connect to MongoDB:", error);
+    // standalone MongoDB: ขายสินค้าจะล้มทุกบิล → ไม่เปิด server
+    if (error instanceof TransactionsUnsupportedError) {
+      process.exit(1);
+    }
     // Continue server startup even if MongoDB connection fails
   }
 
   const app = express();
   const server = createServer(app);
+  // req.ip (IP ใน audit log) อ่าน x-forwarded-for เฉพาะ proxy ที่เชื่อถือได้
+  app.set("trust proxy", parseTrustProxy(ENV.trustProxy));
   // Configure body parser with larger size limit for file uploads
   app.use(express.json({ limit: "50mb" }));
   app.use(express.urlencoded({ limit: "50mb", extended: true }));
@@ -24,6 +24,12 @@ export type SessionPayload = {
   name: string;
 };
 
+/**
+ * token ชนิดอื่นที่เซ็นด้วย secret เดียวกัน (ใส่ claim kind)
+ * session cookie ต้องไม่มี kind - กัน token แคชเชียร์ถูกใช้เป็น session เข้าสู่ระบบ
+ */
+const CASHIER_TOKEN_KIND = "cashier";
+
 const EXCHANGE_TOKEN_PATH = `/webdev.v1.WebDevAuthPublicService/ExchangeToken`;
 const GET_USER_INFO_PATH = `/webdev.v1.WebDevAuthPublicService/GetUserInfo`;
 const GET_USER_INFO_WITH_JWT_PATH = `/webdev.v1.WebDevAuthPublicService/GetUserInfoWithJwt`;
@@ -175,7 +181,7 @@ class SDKServer {
    */
   async createSessionToken(
     openIdOrUserId: string,
-    options: { expiresInMs?: number; name?: string } = {}
+    options: { expiresInMs?: number; name?: string; deviceLocked?: boolean } = {}
   ): Promise<string> {
     // For email/password users, openId will be userId
     // For OAuth users, openId will be the actual openId
@@ -196,9 +202,26 @@ class SDKServer {
     );
   }
 
+  /**
+   * token แคชเชียร์ที่ปลดล็อกด้วย PIN (header x-cashier-token) - ใช้เป็น session cookie ไม่ได้
+   */
+  async createCashierToken(
+    userId: string,
+    options: { expiresInMs: number; name?: string }
+  ): Promise<string> {
+    return this.signSession(
+      {
+        openId: userId,
+        appId: ENV.appId || "default-app-id",
+        name: options.name?.trim() || "User",
+      },
+      { expiresInMs: options.expiresInMs, kind: CASHIER_TOKEN_KIND }
+    );
+  }
+
   async signSession(
     payload: SessionPayload,
-    options: { expiresInMs?: number } = {}
+    options: { expiresInMs?: number; kind?: string; deviceLocked?: boolean } = {}
   ): Promise<string> {
     const issuedAt = Date.now();
     const expiresInMs = options.expiresInMs ?? ONE_YEAR_MS;
@@ -209,6 +232,8 @@ class SDKServer {
       openId: payload.openId,
       appId: payload.appId,
       name: payload.name,
+      ...(options.kind ? { kind: options.kind } : {}),
+      ...(options.deviceLocked ? { deviceLocked: true } : {}),
     })
       .setProtectedHeader({ alg: "HS256", typ: "JWT" })
       .setExpirationTime(expirationSeconds)
@@ -217,7 +242,44 @@ class SDKServer {
 
   async verifySession(
     cookieValue: string | undefined | null
-  ): Promise<{ openId: string; appId: string; name: string } | null> {
+  ): Promise<{ openId: string; appId: string; name: string; deviceLocked: boolean } | null> {
+    return this.verifyToken(cookieValue, null);
+  }
+
+  /**
+   * เครื่องที่ล็อกไว้ (claim deviceLocked ใน session cookie) - ทุก request ต้องมี token แคชเชียร์
+   * ลบ cookie ทิ้ง = ออกจากระบบ ไม่ใช่ปลดล็อก
+   */
+  async isDeviceLocked(req: Request): Promise<boolean> {
+    const session = await this.verifySession(this.parseCookies(req.headers.cookie).get(COOKIE_NAME));
+    return session?.deviceLocked ?? false;
+  }
+
+  /**
+   * ออก session cookie ใหม่ของผู้ใช้เดิมพร้อมตั้ง/ล้างสถานะล็อกเครื่อง (null = session ใช้ไม่ได้)
+   */
+  async signDeviceLock(req: Request, deviceLocked: boolean): Promise<string | null> {
+    const session = await this.verifySession(this.parseCookies(req.headers.cookie).get(COOKIE_NAME));
+    if (!session) return null;
+    return this.signSession(
+      { openId: session.openId, appId: session.appId, name: session.name },
+      { deviceLocked }
+    );
+  }
+
+  /**
+   * ตรวจ token แคชเชียร์ - session cookie ปกติใช้แทนไม่ได้
+   */
+  async verifyCashierToken(
+    token: string | undefined | null
+  ): Promise<{ openId: string; appId: string; name: string; deviceLocked: boolean } | null> {
+    return this.verifyToken(token, CASHIER_TOKEN_KIND);
+  }
+
+  private async verifyToken(
+    cookieValue: string | undefined | null,
+    expectedKind: string | null
+  ): Promise<{ openId: string; appId: string; name: string; deviceLocked: boolean } | null> {
     if (!cookieValue) {
       // Don't log warning for missing cookie - it's normal for unauthenticated requests
       return null;
@@ -228,7 +290,12 @@ class SDKServer {
       const { payload } = await jwtVerify(cookieValue, secretKey, {
         algorithms: ["HS256"],
       });
-      const { openId, appId, name } = payload as Record<string, unknown>;
+      const { openId, appId, name, kind, deviceLocked } = payload as Record<string, unknown>;
+
+      if ((kind ?? null) !== expectedKind) {
+        console.warn("[Auth] Token kind mismatch");
+        return null;
+      }
 
       if (
         !isNonEmptyString(openId) ||
@@ -243,6 +310,7 @@ class SDKServer {
         openId,
         appId,
         name,
+        deviceLocked: deviceLocked === true,
       };
     } catch (error) {
       console.warn("[Auth] Session verification failed", String(error));
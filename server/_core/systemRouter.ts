@@ -1,7 +1,31 @@
 import { z } from "zod";
+import { TRPCError } from "@trpc/server";
 import { notifyOwner } from "./notification";
-import { adminProcedure, publicProcedure, protectedProcedure, router } from "./trpc";
+import { adminProcedure, permissionProcedure, publicProcedure, shopProcedure, router } from "./trpc";
 import * as db from "../db";
+import { isValidPromptPayId, sanitizePromptPayId } from "../promptpay";
+import { COSTING_METHODS } from "../costing";
+import { diffFields, recordAudit } from "../audit";
+import {
+  DEFAULT_REORDER_COVER_DAYS,
+  DEFAULT_REORDER_LEAD_TIME_DAYS,
+  DEFAULT_REORDER_SALES_WINDOW_DAYS,
+} from "../reorder";
+import {
+  MAX_PLU_LENGTH,
+  MAX_SCALE_DECIMALS,
+  MIN_PLU_LENGTH,
+  SCALE_BARCODE_VALUE_TYPES,
+  validateScaleBarcodeRules,
+} from "@shared/scaleBarcode";
+import { DEFAULT_INTERNAL_BARCODE_PREFIX } from "@shared/barcode";
+
+const scaleBarcodeRuleSchema = z.object({
+  prefix: z.string().regex(/^2\d$/, "prefix ต้องเป็นเลข 20-29"),
+  pluLength: z.number().int().min(MIN_PLU_LENGTH).max(MAX_PLU_LENGTH),
+  valueType: z.enum(SCALE_BARCODE_VALUE_TYPES),
+  decimals: z.number().int().min(0).max(MAX_SCALE_DECIMALS),
+});
 
 export const systemRouter = router({
   health: publicProcedure
@@ -31,22 +55,29 @@ export const systemRouter = router({
   // ==================== SETTINGS ====================
   settings: router({
     /**
-     * ดึง settings ปัจจุบัน
+     * ดึง settings ของร้านปัจจุบัน
      */
-    get: publicProcedure.query(async () => {
-      const settings = await db.getSettings();
+    get: shopProcedure.query(async ({ ctx }) => {
+      const settings = await db.getSettings(ctx.shop.id);
       return {
         vatEnabled: settings.vatEnabled ?? false,
         sellerName: settings.sellerName ?? "",
         sellerAddress: settings.sellerAddress ?? "",
         sellerTaxId: settings.sellerTaxId ?? "",
+        promptPayId: settings.promptPayId ?? "",
+        costingMethod: settings.costingMethod ?? "average",
+        scaleBarcodeRules: settings.scaleBarcodeRules ?? [],
+        internalBarcodePrefix: settings.internalBarcodePrefix || DEFAULT_INTERNAL_BARCODE_PREFIX,
+        reorderSalesWindowDays: settings.reorderSalesWindowDays ?? DEFAULT_REORDER_SALES_WINDOW_DAYS,
+        reorderCoverDays: settings.reorderCoverDays ?? DEFAULT_REORDER_COVER_DAYS,
+        reorderLeadTimeDays: settings.reorderLeadTimeDays ?? DEFAULT_REORDER_LEAD_TIME_DAYS,
       };
     }),
 
     /**
-     * อัปเดต settings (ผู้ที่ login แล้วสามารถตั้งค่าได้ - ข้อมูลระดับร้าน)
+     * อัปเดต settings ของร้านปัจจุบัน (ไม่กระทบร้านอื่น)
      */
-    update: protectedProcedure
+    update: permissionProcedure("settings.manage")
       .input(
         z.object({
           vatEnabled: z.boolean().optional(),
@@ -66,16 +97,67 @@ export const systemRouter = router({
                 message: "เลขประจำตัวผู้เสียภาษีต้องเป็นตัวเลข 13 หลัก",
               }
             ),
+          promptPayId: z
+            .string()
+            .optional()
+            .refine((val) => !val || val.trim() === "" || isValidPromptPayId(val), {
+              message: "PromptPay ID ต้องเป็นเบอร์มือถือ 10 หลัก หรือเลขประจำตัวผู้เสียภาษี 13 หลัก",
+            }),
+          costingMethod: z.enum(COSTING_METHODS).optional(),
+          scaleBarcodeRules: z
+            .array(scaleBarcodeRuleSchema)
+            .max(10)
+            .optional()
+            .refine((rules) => !rules || validateScaleBarcodeRules(rules) === null, {
+              message: "กฎบาร์โค้ดตาชั่งไม่ถูกต้อง (prefix ซ้ำหรือค่าเกินช่วง)",
+            }),
+          internalBarcodePrefix: z.string().regex(/^2\d$/, "prefix ต้องเป็นเลข 20-29").optional(),
+          reorderSalesWindowDays: z.number().int().min(1).max(365).optional(),
+          reorderCoverDays: z.number().int().min(1).max(180).optional(),
+          reorderLeadTimeDays: z.number().int().min(0).max(90).optional(),
         })
       )
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
         // ถ้ามี sellerTaxId ให้ลบช่องว่างและขีดออกก่อนบันทึก
-        const processedInput = { ...input };
+        const { costingMethod, ...processedInput } = input;
         if (processedInput.sellerTaxId) {
           processedInput.sellerTaxId = processedInput.sellerTaxId.replace(/\s|-/g, "");
         }
+        if (processedInput.promptPayId !== undefined) {
+          processedInput.promptPayId = sanitizePromptPayId(processedInput.promptPayId);
+        }
 
-        const updated = await db.updateSettings(processedInput);
+        const current = await db.getSettings(ctx.shop.id);
+
+        // บาร์โค้ดที่ร้านสร้างเองต้องไม่ถูกอ่านเป็นฉลากตาชั่ง
+        if (processedInput.scaleBarcodeRules || processedInput.internalBarcodePrefix) {
+          const rules = processedInput.scaleBarcodeRules ?? current.scaleBarcodeRules ?? [];
+          const prefix =
+            processedInput.internalBarcodePrefix ||
+            current.internalBarcodePrefix ||
+            DEFAULT_INTERNAL_BARCODE_PREFIX;
+          if (rules.some((rule) => rule.prefix === prefix)) {
+            throw new TRPCError({
+              code: "BAD_REQUEST",
+              message: `prefix ${prefix} ใช้เป็นบาร์โค้ดภายในร้านอยู่แล้ว เลือก prefix อื่นให้ตาชั่ง`,
+            });
+          }
+        }
+
+        // เปลี่ยนวิธีคิดต้นทุน → ตั้งชั้นต้นทุน/ทุนเฉลี่ยยกมาให้ตรงกับวิธีใหม่
+        if (costingMethod) {
+          await db.changeCostingMethod(ctx.shop.id, costingMethod);
+        }
+
+        const updated = await db.updateSettings(ctx.shop.id, processedInput);
+        const changes = diffFields(
+          { ...current, costingMethod: current.costingMethod ?? "average" },
+          { ...updated },
+          Object.keys(input)
+        );
+        if (changes) {
+          await recordAudit(ctx, { action: "settings.update", ...changes });
+        }
         return {
           success: true,
           settings: {
@@ -83,6 +165,13 @@ export const systemRouter = router({
             sellerName: updated.sellerName ?? "",
             sellerAddress: updated.sellerAddress ?? "",
             sellerTaxId: updated.sellerTaxId ?? "",
+            promptPayId: updated.promptPayId ?? "",
+            costingMethod: updated.costingMethod ?? "average",
+            scaleBarcodeRules: updated.scaleBarcodeRules ?? [],
+            internalBarcodePrefix: updated.internalBarcodePrefix || DEFAULT_INTERNAL_BARCODE_PREFIX,
+            reorderSalesWindowDays: updated.reorderSalesWindowDays ?? DEFAULT_REORDER_SALES_WINDOW_DAYS,
+            reorderCoverDays: updated.reorderCoverDays ?? DEFAULT_REORDER_COVER_DAYS,
+            reorderLeadTimeDays: updated.reorderLeadTimeDays ?? DEFAULT_REORDER_LEAD_TIME_DAYS,
           },
         };
       }),
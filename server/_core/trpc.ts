@@ -1,7 +1,11 @@
 import { NOT_ADMIN_ERR_MSG, UNAUTHED_ERR_MSG } from '@shared/const';
+import { CASHIER_HEADER, CASHIER_LOCKED_ERR_MSG } from "@shared/cashier";
+import { hasPermission, type Permission } from "@shared/permissions";
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import type { TrpcContext } from "./context";
+import * as db from "../db";
+import { sdk } from "./sdk";
 
 const t = initTRPC.context<TrpcContext>().create({
   transformer: superjson,
@@ -27,6 +31,71 @@ const requireUser = t.middleware(async opts => {
 
 export const protectedProcedure = t.procedure.use(requireUser);
 
+/**
+ * แคชเชียร์ที่ปลดล็อกเครื่องด้วย PIN (header x-cashier-token)
+ * ไม่มี header = ผู้ใช้ที่เข้าสู่ระบบเครื่องนี้ (เว้นแต่เครื่องล็อกอยู่),
+ * token หมดอายุ/ไม่ใช่คนของร้าน = ต้องปลดล็อกใหม่
+ */
+async function getActiveCashier(
+  req: TrpcContext["req"],
+  shopId: string
+): Promise<db.ShopCashier | null> {
+  const header = req.headers[CASHIER_HEADER];
+  const token = Array.isArray(header) ? header[0] : header;
+  if (!token) {
+    // เครื่องล็อกอยู่ → ใช้สิทธิ์ของบัญชีที่เข้าสู่ระบบไม่ได้ จนกว่าเจ้าของร้านจะปลดล็อกด้วย PIN
+    if (await sdk.isDeviceLocked(req)) {
+      throw new TRPCError({ code: "UNAUTHORIZED", message: CASHIER_LOCKED_ERR_MSG });
+    }
+    return null;
+  }
+
+  const session = await sdk.verifyCashierToken(token);
+  const cashier = session ? await db.getShopCashier(shopId, session.openId) : null;
+  if (!cashier) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: CASHIER_LOCKED_ERR_MSG });
+  }
+  return cashier;
+}
+
+/**
+ * ร้านที่ผู้ใช้ทำงานอยู่ - ข้อมูลร้านทั้งหมดใช้ ctx.shop.id (userId ของเจ้าของร้าน)
+ * พนักงานจะได้ id ของร้านที่สังกัด, เจ้าของร้านได้ id ของตัวเอง
+ * สิทธิ์ (ctx.shop.role) เป็นของแคชเชียร์ที่ใช้เครื่องอยู่ - ctx.cashier คือผู้ทำรายการ
+ */
+export const shopProcedure = protectedProcedure.use(async opts => {
+  const { ctx, next } = opts;
+  const membership = await db.getShopMembership(ctx.user.id);
+  const cashier: db.ShopCashier = (await getActiveCashier(ctx.req, membership.shopId)) ?? {
+    id: String(ctx.user.id),
+    name: ctx.user.name || ctx.user.email || "ไม่มีชื่อ",
+    role: membership.role,
+  };
+
+  return next({
+    ctx: {
+      ...ctx,
+      shop: { id: membership.shopId, role: cashier.role },
+      cashier,
+    },
+  });
+});
+
+/**
+ * shopProcedure ที่ต้องมีสิทธิ์ตามบทบาท (ดู ROLE_PERMISSIONS)
+ */
+export function permissionProcedure(permission: Permission) {
+  return shopProcedure.use(async opts => {
+    const { ctx, next } = opts;
+
+    if (!hasPermission(ctx.shop.role, permission)) {
+      throw new TRPCError({ code: "FORBIDDEN", message: "บัญชีนี้ไม่มีสิทธิ์ทำรายการนี้" });
+    }
+
+    return next();
+  });
+}
+
 export const adminProcedure = t.procedure.use(
   t.middleware(async opts => {
     const { ctx, next } = opts;
@@ -0,0 +1,64 @@
+/**
+ * บันทึก audit log ของรายการสำคัญ (แก้ราคา ลบสินค้า รับชำระหนี้ ยกเลิกใบกำกับ ตั้งค่าร้าน ปิดกะ)
+ *
+ * - ผู้ทำรายการ = แคชเชียร์ที่ปลดล็อกเครื่องอยู่ (ctx.cashier)
+ * - เขียนหลังรายการสำเร็จแล้ว ถ้าเขียน log ไม่ได้จะไม่ทำให้รายการนั้นล้ม
+ */
+import type { AuditAction } from "@shared/audit";
+import type { TrpcContext } from "./_core/context";
+import * as db from "./db";
+
+type AuditContext = Pick<TrpcContext, "req"> & {
+  shop: { id: string };
+  cashier: db.ShopCashier;
+};
+
+export type AuditEntry = {
+  action: AuditAction;
+  entityId?: string | null;
+  entityName?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+};
+
+/**
+ * IP ของเครื่องที่ทำรายการ - ใช้ req.ip ของ Express (อ่าน x-forwarded-for เฉพาะ proxy ที่ตั้งไว้ใน TRUST_PROXY)
+ * ไม่อ่าน header เอง เพราะ client ปลอม x-forwarded-for ได้
+ */
+export function getClientIp(req: TrpcContext["req"]): string | null {
+  return req.ip || req.socket?.remoteAddress || null;
+}
+
+/**
+ * เก็บเฉพาะ field ที่ค่าเปลี่ยน → { before, after } (ไม่มีอะไรเปลี่ยน = null)
+ * @param keys field ที่ต้องการเทียบ (ไม่ระบุ = ทุก field ของ after)
+ */
+export function diffFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  keys: string[] = Object.keys(after)
+): { before: Record<string, unknown>; after: Record<string, unknown> } | null {
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+  for (const key of keys) {
+    if (JSON.stringify(before[key] ?? null) === JSON.stringify(after[key] ?? null)) continue;
+    changedBefore[key] = before[key] ?? null;
+    changedAfter[key] = after[key] ?? null;
+  }
+  if (Object.keys(changedAfter).length === 0) return null;
+  return { before: changedBefore, after: changedAfter };
+}
+
+export async function recordAudit(ctx: AuditContext, entry: AuditEntry): Promise<void> {
+  try {
+    await db.createAuditLog({
+      userId: ctx.shop.id,
+      actorId: ctx.cashier.id,
+      actorName: ctx.cashier.name,
+      ip: getClientIp(ctx.req),
+      ...entry,
+    });
+  } catch (error) {
+    console.error("[Audit] Failed to write audit log:", error);
+  }
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { buildInternalEan13, ean13CheckDigit, isValidEan13 } from "@shared/barcode";
+
+describe("EAN-13", () => {
+  describe("isValidEan13", () => {
+    it("should check the EAN-13 check digit", () => {
+      expect(isValidEan13("8850123456787")).toBe(true);
+      expect(isValidEan13("8850123456780")).toBe(false);
+      expect(isValidEan13("12345")).toBe(false);
+    });
+  });
+
+  describe("buildInternalEan13", () => {
+    it("should pad the sequence and append the check digit", () => {
+      const barcode = buildInternalEan13("29", 15);
+
+      expect(barcode).toBe("2900000000155");
+      expect(isValidEan13(barcode)).toBe(true);
+      expect(ean13CheckDigit(barcode.slice(0, 12))).toBe(5);
+    });
+
+    it("should reject prefixes outside the in-store range", () => {
+      expect(() => buildInternalEan13("88", 1)).toThrow();
+      expect(() => buildInternalEan13("29", 10_000_000_000)).toThrow();
+    });
+  });
+});
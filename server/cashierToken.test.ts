@@ -0,0 +1,37 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { ENV } from "./_core/env";
+import { sdk } from "./_core/sdk";
+
+describe("cashier token", () => {
+  beforeAll(() => {
+    ENV.cookieSecret = "test-secret-for-cashier-tokens";
+  });
+
+  it("verifies a cashier token as a cashier token", async () => {
+    const token = await sdk.createCashierToken("665f1c2e9b1d4a0012345678", {
+      expiresInMs: 60_000,
+      name: "สมชาย",
+    });
+
+    await expect(sdk.verifyCashierToken(token)).resolves.toMatchObject({
+      openId: "665f1c2e9b1d4a0012345678",
+      name: "สมชาย",
+    });
+  });
+
+  it("does not accept a cashier token as a login session", async () => {
+    const token = await sdk.createCashierToken("665f1c2e9b1d4a0012345678", {
+      expiresInMs: 60_000,
+    });
+
+    await expect(sdk.verifySession(token)).resolves.toBeNull();
+  });
+
+  it("does not accept a login session as a cashier token", async () => {
+    const token = await sdk.createSessionToken("665f1c2e9b1d4a0012345678", {
+      expiresInMs: 60_000,
+    });
+
+    await expect(sdk.verifyCashierToken(token)).resolves.toBeNull();
+  });
+});
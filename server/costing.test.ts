@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { consumeFifoLayers, movingAverageCost } from "./costing";
+
+describe("Inventory costing", () => {
+  describe("movingAverageCost", () => {
+    it("should blend existing stock with incoming cost", () => {
+      // 10 ชิ้น @ 10 + 30 ชิ้น @ 12 = 460 / 40
+      expect(movingAverageCost(10, 10, 30, 12)).toBe(11.5);
+    });
+
+    it("should use incoming cost when there is no stock on hand", () => {
+      expect(movingAverageCost(0, 10, 5, 8)).toBe(8);
+      expect(movingAverageCost(-2, 10, 5, 8)).toBe(8);
+    });
+  });
+
+  describe("consumeFifoLayers", () => {
+    const layers = [
+      { id: "a", remainingQuantity: 5, unitCost: 10 },
+      { id: "b", remainingQuantity: 10, unitCost: 12 },
+    ];
+
+    it("should consume oldest layers first", () => {
+      const result = consumeFifoLayers(layers, 8, 0);
+
+      expect(result.consumed).toEqual([
+        { id: "a", quantity: 5 },
+        { id: "b", quantity: 3 },
+      ]);
+      expect(result.totalCost).toBe(86);
+      expect(result.unitCost).toBe(10.75);
+    });
+
+    it("should cost the shortfall at the fallback cost", () => {
+      const result = consumeFifoLayers(layers, 20, 9);
+
+      expect(result.consumed).toHaveLength(2);
+      expect(result.totalCost).toBe(50 + 120 + 45);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * การคิดต้นทุนสินค้าคงเหลือ (inventory costing)
+ *
+ * - average: ถัวเฉลี่ยเคลื่อนที่ (moving weighted average) คิดทุนเฉลี่ยใหม่ทุกครั้งที่รับของเข้า
+ * - fifo: เข้าก่อนออกก่อน ตัดทุนจากชั้นต้นทุน (cost layer) ที่รับเข้าก่อน
+ */
+
+export type CostingMethod = "average" | "fifo";
+
+export const COSTING_METHODS: readonly CostingMethod[] = ["average", "fifo"] as const;
+
+export type CostLayerBalance = {
+  id: string;
+  remainingQuantity: number;
+  unitCost: number;
+};
+
+// ทุนต่อหน่วยเก็บละเอียด 4 ตำแหน่ง (ถัวเฉลี่ยแล้วมักไม่ลงตัวที่สตางค์)
+export function roundUnitCost(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * ทุนถัวเฉลี่ยใหม่หลังรับของเข้า
+ * สต็อกเดิม <= 0 → ใช้ทุนของที่รับเข้าเลย
+ */
+export function movingAverageCost(
+  stockBefore: number,
+  costBefore: number,
+  quantityIn: number,
+  unitCostIn: number
+): number {
+  if (quantityIn <= 0) return roundUnitCost(costBefore);
+  if (stockBefore <= 0) return roundUnitCost(unitCostIn);
+  const totalValue = stockBefore * costBefore + quantityIn * unitCostIn;
+  return roundUnitCost(totalValue / (stockBefore + quantityIn));
+}
+
+/**
+ * ตัดจำนวนออกจากชั้นต้นทุนแบบ FIFO (layers ต้องเรียงจากเก่าไปใหม่)
+ * ชั้นต้นทุนไม่พอ (เช่น สต็อกเก่าก่อนเปิดใช้ FIFO) → ส่วนที่ขาดคิดที่ fallbackCost
+ */
+export function consumeFifoLayers(
+  layers: CostLayerBalance[],
+  quantity: number,
+  fallbackCost: number
+): {
+  consumed: Array<{ id: string; quantity: number }>;
+  unitCost: number;
+  totalCost: number;
+} {
+  const consumed: Array<{ id: string; quantity: number }> = [];
+  let remaining = quantity;
+  let totalCost = 0;
+
+  for (const layer of layers) {
+    if (remaining <= 0) break;
+    if (layer.remainingQuantity <= 0) continue;
+    const take = Math.min(layer.remainingQuantity, remaining);
+    consumed.push({ id: layer.id, quantity: take });
+    totalCost += take * layer.unitCost;
+    remaining -= take;
+  }
+  if (remaining > 0) {
+    totalCost += remaining * fallbackCost;
+  }
+
+  return {
+    consumed,
+    unitCost: quantity > 0 ? roundUnitCost(totalCost / quantity) : 0,
+    totalCost: Math.round(totalCost * 100) / 100,
+  };
+}
@@ -3,7 +3,7 @@ import bcrypt from "bcryptjs";
 import { ENV } from "./_core/env";
 import { User, IUser } from "./models/User";
 import { Product, IProduct } from "./models/Product";
-import { Sale, ISale } from "./models/Sale";
+import { Sale, ISale, type ISalePayment } from "./models/Sale";
 import { SaleItem, ISaleItem } from "./models/SaleItem";
 import { Customer, ICustomer } from "./models/Customer";
 import { ChatLog, IChatLog } from "./models/ChatLog";
@@ -16,6 +16,63 @@ import {
 } from "./models/StockMovement";
 import { Shift, IShift } from "./models/Shift";
 import { FullTaxInvoice, IFullTaxInvoice } from "./models/FullTaxInvoice";
+import { SaleReturn } from "./models/SaleReturn";
+import { CreditNote } from "./models/CreditNote";
+import { Supplier, ISupplier } from "./models/Supplier";
+import { PurchaseOrder, type PurchaseOrderStatus } from "./models/PurchaseOrder";
+import { CostLayer } from "./models/CostLayer";
+import { StockLot } from "./models/StockLot";
+import { Branch } from "./models/Branch";
+import { ShopMember } from "./models/ShopMember";
+import { BranchStock } from "./models/BranchStock";
+import { StockTransfer } from "./models/StockTransfer";
+import { AuditLog } from "./models/AuditLog";
+import { daysUntilExpiry, planLotConsumption } from "./stockLots";
+import {
+  calculateReorderSuggestion,
+  DEFAULT_REORDER_COVER_DAYS,
+  DEFAULT_REORDER_LEAD_TIME_DAYS,
+  DEFAULT_REORDER_SALES_WINDOW_DAYS,
+} from "./reorder";
+import { Stocktake, type StocktakeStatus } from "./models/Stocktake";
+import { Category } from "./models/Category";
+import {
+  consumeFifoLayers,
+  movingAverageCost,
+  roundUnitCost,
+  type CostingMethod,
+  type CostLayerBalance,
+} from "./costing";
+import { calculateDiscountAmount, type DiscountInput } from "@shared/discount";
+import { PAYMENT_METHOD_LABELS, type PaymentMethod } from "@shared/payment";
+import {
+  DEFAULT_BASE_UNIT,
+  findSellingUnit,
+  findUnitByBarcode,
+  formatQuantity,
+  getQuantityPrecision,
+  isValidQuantity,
+  MAX_QUANTITY_PRECISION,
+  roundQuantity,
+  toBaseQuantity,
+  validateProductUnits,
+  type ProductUnit,
+} from "@shared/units";
+import { MAIN_BRANCH_NAME } from "@shared/branch";
+import type { ShopRole, StaffRole } from "@shared/permissions";
+import { PIN_PATTERN } from "@shared/cashier";
+import type { AuditAction } from "@shared/audit";
+import { buildInternalEan13, DEFAULT_INTERNAL_BARCODE_PREFIX } from "@shared/barcode";
+import {
+  getScaleLabelQuantity,
+  normalizePlu,
+  parseScaleBarcode,
+} from "@shared/scaleBarcode";
+import {
+  STOCK_ADD_REASONS,
+  STOCK_WRITE_OFF_REASONS,
+  type StockAdjustReason,
+} from "@shared/stockAdjust";
 
 // Helper function to convert string/number to ObjectId
 function toObjectId(id: string | number | mongoose.Types.ObjectId): mongoose.Types.ObjectId {
@@ -33,6 +90,11 @@ function toUserId(userId: string | number | mongoose.Types.ObjectId): mongoose.T
   return toObjectId(userId);
 }
 
+// ปัดเศษเงินเป็น 2 ตำแหน่ง (สตางค์)
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
 // ==================== USER FUNCTIONS ====================
 
 export type InsertUser = {
@@ -203,33 +265,290 @@ export async function updateUserLastSignedIn(userId: string | number | mongoose.
   );
 }
 
+// ==================== SHOP MEMBER FUNCTIONS ====================
+
+/**
+ * ร้านและบทบาทของผู้ใช้ - ไม่มี record สมาชิก = เจ้าของร้านของตัวเอง (shopId = userId)
+ */
+export async function getShopMembership(
+  userId: string | number | mongoose.Types.ObjectId
+): Promise<{ shopId: string; role: ShopRole }> {
+  const member = await ShopMember.findOne({ userId: toUserId(userId) })
+    .select({ shopId: 1, role: 1 })
+    .lean();
+  if (!member) return { shopId: toUserId(userId).toString(), role: "owner" };
+  return { shopId: member.shopId.toString(), role: member.role };
+}
+
+export async function getShopMembers(shopId: string | number | mongoose.Types.ObjectId) {
+  const members = await ShopMember.find({ shopId: toUserId(shopId) }).sort({ createdAt: 1 }).lean();
+  const users = await User.find({ _id: { $in: members.map((m) => m.userId) } })
+    .select("+pin name email lastSignedIn")
+    .lean();
+  const userById = new Map(users.map((u) => [u._id.toString(), u] as const));
+
+  return members.map((m) => {
+    const user = userById.get(m.userId.toString());
+    return {
+      id: m._id.toString(),
+      userId: m.userId.toString(),
+      name: user?.name ?? null,
+      email: user?.email ?? null,
+      role: m.role,
+      hasPin: !!user?.pin,
+      lastSignedIn: user?.lastSignedIn ?? null,
+      createdAt: m.createdAt,
+    };
+  });
+}
+
+/**
+ * สร้างบัญชีพนักงาน (อีเมล/รหัสผ่าน) ที่เข้าใช้ข้อมูลร้านนี้
+ */
+export async function createShopMember(
+  shopId: string | number | mongoose.Types.ObjectId,
+  input: { email: string; password: string; name?: string; role: StaffRole }
+) {
+  const user = await createUserWithPassword({
+    email: input.email,
+    password: input.password,
+    name: input.name,
+  });
+  try {
+    const member = await ShopMember.create({
+      shopId: toUserId(shopId),
+      userId: toObjectId(user.id),
+      role: input.role,
+    });
+    return member._id.toString();
+  } catch (error) {
+    // ไม่ให้เหลือบัญชีที่ไม่ได้ผูกกับร้าน (จะกลายเป็นร้านใหม่ว่างๆ)
+    await User.deleteOne({ _id: toObjectId(user.id) });
+    throw error;
+  }
+}
+
+export async function updateShopMemberRole(
+  shopId: string | number | mongoose.Types.ObjectId,
+  memberId: string,
+  role: StaffRole
+) {
+  const result = await ShopMember.updateOne(
+    { _id: toObjectId(memberId), shopId: toUserId(shopId) },
+    { $set: { role } }
+  );
+  if (result.matchedCount === 0) throw new Error("ไม่พบพนักงาน");
+}
+
+/**
+ * ลบพนักงานออกจากร้าน - ลบบัญชีที่สร้างให้พนักงานด้วย (ประวัติการขายยังอยู่กับร้าน)
+ */
+export async function removeShopMember(
+  shopId: string | number | mongoose.Types.ObjectId,
+  memberId: string
+) {
+  const member = await ShopMember.findOneAndDelete({
+    _id: toObjectId(memberId),
+    shopId: toUserId(shopId),
+  }).lean();
+  if (!member) throw new Error("ไม่พบพนักงาน");
+  await User.deleteOne({ _id: member.userId });
+}
+
+// ==================== CASHIER PIN FUNCTIONS ====================
+
+export type ShopCashier = { id: string; name: string; role: ShopRole };
+
+// ใส่ PIN ผิดครบจำนวนนี้ → ล็อกการปลดล็อกด้วย PIN ของคนนั้นชั่วคราว
+const PIN_MAX_ATTEMPTS = 5;
+const PIN_LOCKOUT_MS = 1000 * 60 * 15;
+
+/**
+ * ตั้ง/ล้าง PIN สลับแคชเชียร์ (hash แบบเดียวกับรหัสผ่าน)
+ */
+export async function setUserPin(
+  userId: string | number | mongoose.Types.ObjectId,
+  pin: string | null
+) {
+  if (pin !== null && !PIN_PATTERN.test(pin)) {
+    throw new Error("PIN ต้องเป็นตัวเลข 4-6 หลัก");
+  }
+  const hashedPin = pin === null ? null : await bcrypt.hash(pin, 10);
+  await User.updateOne(
+    { _id: toObjectId(userId) },
+    { $set: { pin: hashedPin, pinFailedAttempts: 0, pinLockedUntil: null } }
+  );
+}
+
+/**
+ * ทุกคนที่ใช้เครื่องขายของร้านได้ (เจ้าของร้าน + พนักงาน) - ใช้แสดงในหน้าล็อก
+ */
+export async function getShopCashiers(shopId: string | number | mongoose.Types.ObjectId) {
+  const ownerId = toUserId(shopId);
+  const members = await ShopMember.find({ shopId: ownerId }).select({ userId: 1, role: 1 }).lean();
+  const roleByUserId = new Map<string, ShopRole>([
+    [ownerId.toString(), "owner"],
+    ...members.map((m) => [m.userId.toString(), m.role] as [string, ShopRole]),
+  ]);
+  const users = await User.find({ _id: { $in: Array.from(roleByUserId.keys(), (id) => toObjectId(id)) } })
+    .select("+pin name email")
+    .lean();
+
+  return users
+    .map((u) => ({
+      id: u._id.toString(),
+      name: u.name || u.email || "ไม่มีชื่อ",
+      role: roleByUserId.get(u._id.toString())!,
+      hasPin: !!u.pin,
+    }))
+    .sort((a, b) => Number(b.role === "owner") - Number(a.role === "owner") || a.name.localeCompare(b.name, "th"));
+}
+
+/**
+ * แคชเชียร์ของร้านนี้ (null = ไม่ใช่คนของร้าน)
+ */
+export async function getShopCashier(
+  shopId: string | number | mongoose.Types.ObjectId,
+  userId: string | number | mongoose.Types.ObjectId
+): Promise<ShopCashier | null> {
+  if (!mongoose.Types.ObjectId.isValid(String(userId))) return null;
+  const cashiers = await getShopCashiers(shopId);
+  const cashier = cashiers.find((c) => c.id === toObjectId(userId).toString());
+  return cashier ? { id: cashier.id, name: cashier.name, role: cashier.role } : null;
+}
+
+/**
+ * ตรวจ PIN ของแคชเชียร์ในร้าน - ผิด/ไม่ได้ตั้ง PIN = null
+ * จองสิทธิ์ลอง 1 ครั้งก่อนเทียบ PIN (กันยิงพร้อมกันหลาย request) ผิดครบ PIN_MAX_ATTEMPTS → ล็อก 15 นาที (throw)
+ */
+export async function verifyCashierPin(
+  shopId: string | number | mongoose.Types.ObjectId,
+  userId: string,
+  pin: string
+): Promise<ShopCashier | null> {
+  if (!mongoose.Types.ObjectId.isValid(userId)) return null;
+  const cashier = await getShopCashier(shopId, userId);
+  if (!cashier) return null;
+
+  const id = toObjectId(userId);
+  // ล็อกหมดเวลาแล้ว → เริ่มนับใหม่
+  await User.updateOne(
+    { _id: id, pinLockedUntil: { $lte: new Date() } },
+    { $set: { pinLockedUntil: null, pinFailedAttempts: 0 } }
+  );
+  const user = await User.findOneAndUpdate(
+    { _id: id, pinLockedUntil: null, pinFailedAttempts: { $not: { $gte: PIN_MAX_ATTEMPTS } } },
+    { $inc: { pinFailedAttempts: 1 } },
+    { new: true }
+  )
+    .select("+pin +pinFailedAttempts")
+    .lean();
+  if (!user) {
+    throw new Error("ใส่ PIN ผิดหลายครั้ง กรุณารอ 15 นาทีแล้วลองใหม่ หรือให้เจ้าของร้านตั้ง PIN ใหม่");
+  }
+  if (!user.pin) return null;
+
+  let matched = false;
+  try {
+    matched = await bcrypt.compare(pin, user.pin);
+  } catch (error) {
+    console.error("[Database] PIN verification error:", error);
+  }
+
+  if (matched) {
+    await User.updateOne({ _id: id }, { $set: { pinFailedAttempts: 0 } });
+    return cashier;
+  }
+  if ((user.pinFailedAttempts ?? 0) >= PIN_MAX_ATTEMPTS) {
+    await User.updateOne(
+      { _id: id },
+      { $set: { pinLockedUntil: new Date(Date.now() + PIN_LOCKOUT_MS) } }
+    );
+  }
+  return null;
+}
+
 // ==================== PRODUCT FUNCTIONS ====================
 
 export type InsertProduct = {
   userId: string | number | mongoose.Types.ObjectId;
   name: string;
   price: number | string;
+  costPrice?: number; // ราคาทุนต่อหน่วย
   stock?: number;
   reorderPoint?: number;
   minStock?: number; // legacy alias
   barcode?: string | null;
   imageUrl?: string | null;
+  categoryId?: string | null;
+  categoryName?: string | null; // ใช้ตอนนำเข้า: ชื่อหมวดหมู่ (ยังไม่มี = สร้างใหม่)
+  tags?: string[];
+  baseUnit?: string; // หน่วยฐานที่นับสต็อก (ไม่ระบุ = "ชิ้น")
+  units?: ProductUnit[]; // หน่วยขายเพิ่มเติม (แพ็ค/ลัง)
+  soldByMeasure?: boolean; // ขายตามน้ำหนัก/ความยาว (จำนวนทศนิยมได้)
+  quantityPrecision?: number; // ทศนิยมของจำนวน (1-3)
+  plu?: string | null; // รหัส PLU บนตาชั่ง
 };
 
 export type Product = IProduct & { id: number | string };
 
+/**
+ * ตรวจและจัดรูปหน่วยขายเพิ่มเติมก่อนบันทึก
+ */
+function normalizeProductUnits(baseUnit: string, units?: ProductUnit[] | null) {
+  const normalized = (units ?? []).map((unit) => ({
+    name: unit.name.trim(),
+    factor: unit.factor,
+    barcode: unit.barcode?.trim() || null,
+    price: typeof unit.price === "string" ? parseFloat(unit.price) : unit.price,
+  }));
+  const error = validateProductUnits(baseUnit, normalized);
+  if (error) throw new Error(error);
+  return normalized;
+}
+
+/**
+ * จัดรูป PLU และตรวจว่าไม่ซ้ำกับสินค้าอื่นของร้าน (ว่าง → null)
+ */
+async function resolveProductPlu(
+  userId: string | number | mongoose.Types.ObjectId,
+  plu: string | null | undefined,
+  excludeProductId?: string | number
+): Promise<string | null> {
+  const normalized = plu ? normalizePlu(plu) : "";
+  if (!normalized) return null;
+  const duplicate = await Product.findOne({
+    userId: toUserId(userId),
+    plu: normalized,
+    ...(excludeProductId ? { _id: { $ne: toObjectId(excludeProductId) } } : {}),
+  })
+    .select({ name: 1 })
+    .lean();
+  if (duplicate) throw new Error(`PLU ${normalized} ซ้ำกับสินค้า "${duplicate.name}"`);
+  return normalized;
+}
+
 export async function createProduct(product: InsertProduct) {
+  const baseUnit = product.baseUnit?.trim() || DEFAULT_BASE_UNIT;
   const reorderPoint =
     product.reorderPoint ?? product.minStock ?? 5;
   const newProduct = new Product({
     userId: toUserId(product.userId),
     name: product.name,
     price: typeof product.price === "string" ? parseFloat(product.price) : product.price,
+    costPrice: product.costPrice ?? 0,
     stock: product.stock ?? 0,
     reorderPoint,
     minStock: reorderPoint, // keep in sync for older UI/queries
     barcode: product.barcode ?? null,
     imageUrl: product.imageUrl ?? null,
+    categoryId: product.categoryId ? toObjectId(product.categoryId) : null,
+    tags: normalizeTags(product.tags),
+    baseUnit,
+    units: normalizeProductUnits(baseUnit, product.units),
+    soldByMeasure: product.soldByMeasure ?? false,
+    quantityPrecision: product.quantityPrecision ?? MAX_QUANTITY_PRECISION,
+    plu: await resolveProductPlu(product.userId, product.plu),
   });
 
   const saved = await newProduct.save();
@@ -237,14 +556,29 @@ export async function createProduct(product: InsertProduct) {
 }
 
 export async function createProductsBulk(products: InsertProduct[]) {
+  // หมวดหมู่ตามชื่อในไฟล์นำเข้า (ยังไม่มี → สร้างให้)
+  const categoryIdByName = products.length
+    ? await findOrCreateCategories(
+        products[0].userId,
+        products.map((product) => product.categoryName ?? "")
+      )
+    : new Map<string, mongoose.Types.ObjectId>();
+
   const productsToInsert = products.map((product) => ({
     userId: toUserId(product.userId),
     name: product.name.trim(),
     price: typeof product.price === "string" ? parseFloat(product.price) : product.price,
+    costPrice: product.costPrice ?? 0,
     stock: product.stock ?? 0,
     reorderPoint: product.reorderPoint ?? product.minStock ?? 5,
     minStock: product.reorderPoint ?? product.minStock ?? 5,
     imageUrl: product.imageUrl ?? null,
+    categoryId: product.categoryName?.trim()
+      ? categoryIdByName.get(product.categoryName.trim()) ?? null
+      : product.categoryId
+        ? toObjectId(product.categoryId)
+        : null,
+    tags: normalizeTags(product.tags),
   }));
 
   // Validate all products before inserting
@@ -261,62 +595,211 @@ export async function createProductsBulk(products: InsertProduct[]) {
   return result.map((p) => p._id.toString());
 }
 
-export async function getProductsByUser(userId: string | number | mongoose.Types.ObjectId) {
-  const products = await Product.find({ userId: toUserId(userId) })
-    .sort({ updatedAt: -1 })
-    .lean();
+/**
+ * เงื่อนไขสินค้าที่ยังขายอยู่ (ไม่ได้เก็บเข้าคลัง) - ข้อมูลเก่าไม่มี archivedAt
+ */
+const ACTIVE_PRODUCT_FILTER = { archivedAt: null };
+
+/**
+ * @param options.archived true = เฉพาะสินค้าที่เก็บเข้าคลัง, ไม่ระบุ = เฉพาะที่ยังขายอยู่
+ * @param options.branchId stock = สต็อกของสาขานี้ (ไม่ระบุ = สต็อกรวมทุกสาขา)
+ */
+export async function getProductsByUser(
+  userId: string | number | mongoose.Types.ObjectId,
+  options: { archived?: boolean; branchId?: BranchScope } = {}
+) {
+  const products = await withBranchStock(
+    await Product.find({
+      userId: toUserId(userId),
+      archivedAt: options.archived ? { $ne: null } : null,
+    })
+      .sort({ updatedAt: -1 })
+      .lean(),
+    options.branchId
+  );
 
   return products.map((p) => ({
     ...p,
     id: p._id.toString(),
     price: String(p.price),
     reorderPoint: (p as any).reorderPoint ?? (p as any).minStock ?? 5,
+    categoryId: p.categoryId ? p.categoryId.toString() : null,
+    tags: p.tags ?? [],
+    archivedAt: p.archivedAt ?? null,
   })) as any[];
 }
 
-export async function getProductById(id: string | number, userId: string | number | mongoose.Types.ObjectId) {
-  const product = await Product.findOne({
+/**
+ * @param branchId ระบุ = stock เป็นสต็อกของสาขานั้น (ไม่ระบุ = สต็อกรวม)
+ */
+export async function getProductById(
+  id: string | number,
+  userId: string | number | mongoose.Types.ObjectId,
+  branchId?: BranchScope
+) {
+  const found = await Product.findOne({
     _id: toObjectId(id),
     userId: toUserId(userId),
   }).lean();
 
-  if (!product) return undefined;
+  if (!found) return undefined;
+  const [product] = await withBranchStock([found], branchId);
 
   return {
     ...product,
     id: product._id.toString(),
     price: String(product.price),
     reorderPoint: (product as any).reorderPoint ?? (product as any).minStock ?? 5,
+    categoryId: product.categoryId ? product.categoryId.toString() : null,
+    tags: product.tags ?? [],
   } as any;
 }
 
+/**
+ * หาสินค้าจากบาร์โค้ด - ตรงกับบาร์โค้ดสินค้า (หน่วยฐาน) หรือบาร์โค้ดของหน่วยขายเพิ่มเติม
+ * scannedUnit = หน่วยที่ยิงได้ (ใช้ราคาและจำนวนตัดสต็อกของหน่วยนั้น)
+ * ไม่ตรง → ลองอ่านเป็นบาร์โค้ดตาชั่งตามกฎของร้าน (หาสินค้าจาก PLU)
+ * scaleLabel.quantity = จำนวนหน่วยฐานจากฉลาก (null = ใช้กับสินค้านี้ไม่ได้)
+ */
 export async function getProductByBarcode(
   userId: string | number | mongoose.Types.ObjectId,
-  barcode: string
+  barcode: string,
+  branchId?: BranchScope
 ) {
-  const product = await Product.findOne({
+  const found = await Product.findOne({
+    userId: toUserId(userId),
+    ...ACTIVE_PRODUCT_FILTER,
+    $or: [{ barcode }, { "units.barcode": barcode }],
+  }).lean();
+
+  if (!found) return getProductByScaleBarcode(userId, barcode, branchId);
+  const [product] = await withBranchStock([found], branchId);
+
+  return {
+    ...product,
+    id: product._id.toString(),
+    price: String(product.price),
+    reorderPoint: (product as any).reorderPoint ?? (product as any).minStock ?? 5,
+    scannedUnit: findUnitByBarcode(product, barcode) ?? findSellingUnit(product)!,
+    scaleLabel: null,
+  } as any;
+}
+
+async function getProductByScaleBarcode(
+  userId: string | number | mongoose.Types.ObjectId,
+  barcode: string,
+  branchId?: BranchScope
+) {
+  const settings = await Settings.findOne({ userId: toUserId(userId) })
+    .select({ scaleBarcodeRules: 1 })
+    .lean();
+  const label = parseScaleBarcode(barcode, settings?.scaleBarcodeRules ?? []);
+  if (!label) return undefined;
+
+  const found = await Product.findOne({
     userId: toUserId(userId),
-    barcode,
+    plu: label.plu,
+    ...ACTIVE_PRODUCT_FILTER,
   }).lean();
+  if (!found) return undefined;
+  const [product] = await withBranchStock([found], branchId);
 
-  if (!product) return undefined;
+  // ฉลากน้ำหนักใช้ได้กับสินค้าที่ขายตามน้ำหนักเท่านั้น (สินค้านับชิ้นจะปัดน้ำหนักทิ้ง)
+  const quantity =
+    label.rule.valueType === "weight" && !product.soldByMeasure
+      ? null
+      : getScaleLabelQuantity(label, product.price, getQuantityPrecision(product));
 
   return {
     ...product,
     id: product._id.toString(),
     price: String(product.price),
     reorderPoint: (product as any).reorderPoint ?? (product as any).minStock ?? 5,
+    scannedUnit: findSellingUnit(product)!,
+    scaleLabel: {
+      plu: label.plu,
+      valueType: label.rule.valueType,
+      value: label.value,
+      quantity: quantity && quantity > 0 ? quantity : null,
+    },
   } as any;
 }
 
-export async function updateProduct(id: string | number, userId: string | number | mongoose.Types.ObjectId, data: Partial<InsertProduct>) {
+/**
+ * สร้างบาร์โค้ดภายในร้าน (EAN-13) ให้สินค้าที่ยังไม่มีบาร์โค้ด
+ * productIds ไม่ระบุ = ทุกสินค้าที่ยังไม่มี - ลำดับเดินต่อจาก settings ของร้าน (ข้ามเลขที่ถูกใช้แล้ว)
+ */
+export async function generateProductBarcodes(
+  userId: string | number | mongoose.Types.ObjectId,
+  productIds?: Array<string | number>
+): Promise<Array<{ id: string; barcode: string }>> {
+  const products = await Product.find({
+    userId: toUserId(userId),
+    $or: [{ barcode: null }, { barcode: "" }],
+    ...(productIds ? { _id: { $in: productIds.map((id) => toObjectId(id)) } } : ACTIVE_PRODUCT_FILTER),
+  })
+    .select({ _id: 1 })
+    .lean();
+  if (products.length === 0) return [];
+
+  await getSettings(userId); // ให้มี record ก่อน $inc
+  const generated: Array<{ id: string; barcode: string }> = [];
+  for (const product of products) {
+    let barcode = "";
+    do {
+      const settings = await Settings.findOneAndUpdate(
+        { userId: toUserId(userId) },
+        { $inc: { internalBarcodeSequence: 1 } },
+        { new: true }
+      ).lean();
+      barcode = buildInternalEan13(
+        settings?.internalBarcodePrefix || DEFAULT_INTERNAL_BARCODE_PREFIX,
+        settings?.internalBarcodeSequence ?? 1
+      );
+    } while (
+      await Product.exists({
+        userId: toUserId(userId),
+        $or: [{ barcode }, { "units.barcode": barcode }],
+      })
+    );
+
+    const result = await Product.updateOne(
+      { _id: product._id, $or: [{ barcode: null }, { barcode: "" }] },
+      { $set: { barcode } }
+    );
+    if (result.modifiedCount > 0) {
+      generated.push({ id: product._id.toString(), barcode });
+    }
+  }
+  return generated;
+}
+
+export async function updateProduct(
+  id: string | number,
+  userId: string | number | mongoose.Types.ObjectId,
+  data: Partial<InsertProduct>,
+  branchId: string | null = null,
+  cashierId: string | null = null
+) {
   const updateData: any = {};
   
   if (data.name !== undefined) updateData.name = data.name;
   if (data.price !== undefined) {
     updateData.price = typeof data.price === "string" ? parseFloat(data.price) : data.price;
   }
-  if (data.stock !== undefined) updateData.stock = data.stock;
+  // ทุนคิดจากการรับของตามวิธีคิดต้นทุนของร้าน (เฉลี่ย/FIFO) - ตั้งเองได้เฉพาะตอนยังไม่มีสต็อก
+  // (เป็นทุนตั้งต้นของการรับของครั้งถัดไป) มีสต็อกแล้วแก้ตรงๆ จะทำให้มูลค่าสต็อก/ชั้นต้นทุนไม่ตรง
+  if (data.costPrice !== undefined) {
+    const current = await Product.findOne({ _id: toObjectId(id), userId: toUserId(userId) })
+      .select({ stock: 1, costPrice: 1 })
+      .lean();
+    if (current && roundUnitCost(data.costPrice) !== roundUnitCost(current.costPrice ?? 0)) {
+      if (current.stock > 0) {
+        throw new Error("สินค้ามีสต็อกอยู่ แก้ราคาทุนไม่ได้ (ทุนคิดจากการรับสินค้าเข้า)");
+      }
+      updateData.costPrice = data.costPrice;
+    }
+  }
   const reorderPoint =
     data.reorderPoint ?? data.minStock;
   if (reorderPoint !== undefined) {
@@ -325,32 +808,150 @@ export async function updateProduct(id: string | number, userId: string | number
   }
   if (data.barcode !== undefined) updateData.barcode = data.barcode ?? null;
   if (data.imageUrl !== undefined) updateData.imageUrl = data.imageUrl ?? null;
+  if (data.categoryId !== undefined) {
+    updateData.categoryId = data.categoryId ? toObjectId(data.categoryId) : null;
+  }
+  if (data.tags !== undefined) updateData.tags = normalizeTags(data.tags);
+  if (data.baseUnit !== undefined || data.units !== undefined) {
+    const current = await Product.findOne({ _id: toObjectId(id), userId: toUserId(userId) })
+      .select({ baseUnit: 1, units: 1 })
+      .lean();
+    const baseUnit = data.baseUnit?.trim() || current?.baseUnit || DEFAULT_BASE_UNIT;
+    updateData.baseUnit = baseUnit;
+    updateData.units = normalizeProductUnits(baseUnit, data.units ?? current?.units);
+  }
+  if (data.soldByMeasure !== undefined) updateData.soldByMeasure = data.soldByMeasure;
+  if (data.quantityPrecision !== undefined) updateData.quantityPrecision = data.quantityPrecision;
+  if (data.plu !== undefined) updateData.plu = await resolveProductPlu(userId, data.plu, id);
 
   await Product.updateOne(
     { _id: toObjectId(id), userId: toUserId(userId) },
     { $set: updateData }
   );
+
+  // แก้ยอดสต็อกจากหน้าสินค้า → บันทึกเป็น ADJUST (ไม่เขียนทับ stock ตรงๆ)
+  // ยอดที่แก้เป็นสต็อกของสาขาที่ใช้งานอยู่ (อ่านยอดเดิมและปรับใน transaction เดียว)
+  if (data.stock !== undefined) {
+    const stock = data.stock;
+    const session = await mongoose.startSession();
+    try {
+      await session.withTransaction(async () => {
+        const found = await Product.findOne({ _id: toObjectId(id), userId: toUserId(userId) })
+          .select({ _id: 1, stock: 1 })
+          .session(session)
+          .lean();
+        const [product] = found ? await withBranchStock([found], branchId, session) : [];
+        const quantityChange = product
+          ? roundQuantity(stock - product.stock, MAX_QUANTITY_PRECISION)
+          : 0;
+        if (quantityChange !== 0) {
+          await adjustProductStock({
+            productId: id,
+            quantityChange,
+            source: "ADJUST",
+            reason: "correction",
+            note: "แก้ไขยอดสต็อกจากหน้าสินค้า",
+            branchId,
+            cashierId,
+            session,
+          });
+        }
+      });
+    } finally {
+      await session.endSession();
+    }
+  }
 }
 
-export async function deleteProduct(id: string | number, userId: string | number | mongoose.Types.ObjectId) {
-  await Product.deleteOne({
-    _id: toObjectId(id),
-    userId: toUserId(userId),
-  });
+/**
+ * เก็บสินค้าเข้าคลัง (เลิกขาย) แทนการลบ - ประวัติการขาย/สต็อกยังอ้างถึงสินค้าได้
+ */
+export async function archiveProduct(id: string | number, userId: string | number | mongoose.Types.ObjectId) {
+  const result = await Product.updateOne(
+    { _id: toObjectId(id), userId: toUserId(userId), ...ACTIVE_PRODUCT_FILTER },
+    { $set: { archivedAt: new Date() } }
+  );
+  if (result.matchedCount === 0) {
+    throw new Error("ไม่พบสินค้า หรือสินค้าถูกเก็บเข้าคลังแล้ว");
+  }
 }
 
-export async function getLowStockProducts(userId: string | number | mongoose.Types.ObjectId) {
-  const products = await Product.find({
-    userId: toUserId(userId),
-    $expr: {
-      $lte: [
-        "$stock",
-        { $ifNull: ["$reorderPoint", "$minStock"] },
-      ],
-    },
-  })
-    .sort({ stock: 1 })
+/**
+ * นำสินค้าที่เก็บเข้าคลังกลับมาขาย
+ */
+export async function restoreProduct(id: string | number, userId: string | number | mongoose.Types.ObjectId) {
+  const result = await Product.updateOne(
+    { _id: toObjectId(id), userId: toUserId(userId), archivedAt: { $ne: null } },
+    { $set: { archivedAt: null } }
+  );
+  if (result.matchedCount === 0) {
+    throw new Error("ไม่พบสินค้าในคลังที่เก็บไว้");
+  }
+}
+
+/**
+ * ลบสินค้าถาวร - ได้เฉพาะสินค้าที่เก็บเข้าคลังแล้ว และไม่เคยมีการเคลื่อนไหวสต็อก/การขาย
+ */
+export async function purgeProduct(id: string | number, userId: string | number | mongoose.Types.ObjectId) {
+  const product = await Product.findOne({ _id: toObjectId(id), userId: toUserId(userId) })
+    .select({ archivedAt: 1 })
     .lean();
+  if (!product) throw new Error("ไม่พบสินค้า");
+  if (!product.archivedAt) {
+    throw new Error("ต้องเก็บสินค้าเข้าคลังก่อนจึงจะลบถาวรได้");
+  }
+
+  const [hasMovements, hasSales] = await Promise.all([
+    StockMovement.exists({ productId: product._id }),
+    SaleItem.exists({ productId: product._id }),
+  ]);
+  if (hasMovements || hasSales) {
+    throw new Error("ลบถาวรไม่ได้ เพราะสินค้านี้มีประวัติสต็อกหรือการขายแล้ว");
+  }
+
+  await Promise.all([
+    CostLayer.deleteMany({ productId: product._id }),
+    StockLot.deleteMany({ productId: product._id }),
+  ]);
+  await Product.deleteOne({ _id: product._id });
+}
+
+/**
+ * @param branchId สต็อกต่ำของสาขานี้ (ไม่ระบุ = ดูจากสต็อกรวมทุกสาขา)
+ */
+export async function getLowStockProducts(
+  userId: string | number | mongoose.Types.ObjectId,
+  branchId?: BranchScope
+) {
+  let products;
+  if (branchId === undefined) {
+    products = await withBranchStock(
+      await Product.find({
+        userId: toUserId(userId),
+        ...ACTIVE_PRODUCT_FILTER,
+        $expr: {
+          $lte: [
+            // ปัดเศษทศนิยมจากการบวกลบสต็อกสินค้าที่ขายตามน้ำหนัก/ความยาว
+            { $round: ["$stock", MAX_QUANTITY_PRECISION] },
+            { $ifNull: ["$reorderPoint", "$minStock"] },
+          ],
+        },
+      })
+        .sort({ stock: 1 })
+        .lean(),
+      undefined
+    );
+  } else {
+    // สต็อกของสาขาอยู่คนละ collection → กรองหลังแทนสต็อกสาขาแล้ว
+    products = (
+      await withBranchStock(
+        await Product.find({ userId: toUserId(userId), ...ACTIVE_PRODUCT_FILTER }).lean(),
+        branchId
+      )
+    )
+      .filter((p) => p.stock <= ((p as any).reorderPoint ?? (p as any).minStock ?? 5))
+      .sort((a, b) => a.stock - b.stock);
+  }
 
   return products.map((p) => ({
     ...p,
@@ -360,32 +961,386 @@ export async function getLowStockProducts(userId: string | number | mongoose.Typ
   })) as any[];
 }
 
+/**
+ * ระยะเวลาที่ใช้คำนวณคำแนะนำการสั่งซื้อของร้าน (ไม่มี settings = ค่าเริ่มต้น)
+ */
+export async function getReorderOptions(userId: string | number | mongoose.Types.ObjectId) {
+  const settings = await Settings.findOne({ userId: toUserId(userId) })
+    .select({ reorderSalesWindowDays: 1, reorderCoverDays: 1, reorderLeadTimeDays: 1 })
+    .lean();
+  return {
+    windowDays: settings?.reorderSalesWindowDays ?? DEFAULT_REORDER_SALES_WINDOW_DAYS,
+    coverDays: settings?.reorderCoverDays ?? DEFAULT_REORDER_COVER_DAYS,
+    leadTimeDays: settings?.reorderLeadTimeDays ?? DEFAULT_REORDER_LEAD_TIME_DAYS,
+  };
+}
+
+/**
+ * คำแนะนำการสั่งซื้อจากยอดขายเฉลี่ยต่อวัน (ดู calculateReorderSuggestion)
+ * คืนเฉพาะสินค้าที่ควรสั่ง เรียงจากวันที่เหลือขายได้น้อยสุด
+ */
+export async function getReorderSuggestions(
+  userId: string | number | mongoose.Types.ObjectId,
+  branchId?: BranchScope
+) {
+  const options = await getReorderOptions(userId);
+  const since = new Date();
+  since.setHours(0, 0, 0, 0);
+  since.setDate(since.getDate() - options.windowDays);
+
+  const [products, sold] = await Promise.all([
+    Product.find({ userId: toUserId(userId), ...ACTIVE_PRODUCT_FILTER })
+      .lean()
+      .then((found) => withBranchStock(found, branchId)),
+    SaleItem.aggregate([
+      ...saleItemsWithCategoryPipeline(userId, since, branchId),
+      { $group: { _id: "$productId", soldQuantity: { $sum: NET_SOLD_BASE_QUANTITY } } },
+    ]),
+  ]);
+  const soldByProductId = new Map<string, number>(
+    sold.map((row) => [row._id.toString(), row.soldQuantity] as [string, number])
+  );
+
+  const suggestions = products.flatMap((p) => {
+    const reorderPoint = (p as any).reorderPoint ?? (p as any).minStock ?? 5;
+    const soldQuantity = soldByProductId.get(p._id.toString()) ?? 0;
+    const suggestion = calculateReorderSuggestion(
+      { stock: p.stock, soldQuantity, reorderPoint, precision: getQuantityPrecision(p) },
+      options
+    );
+    if (!suggestion.needsReorder) return [];
+    return [
+      {
+        ...p,
+        id: p._id.toString(),
+        price: String(p.price),
+        reorderPoint,
+        soldQuantity,
+        ...suggestion,
+      },
+    ];
+  });
+
+  suggestions.sort(
+    (a, b) => (a.daysOfStockLeft ?? Infinity) - (b.daysOfStockLeft ?? Infinity) || a.stock - b.stock
+  );
+  return { options, suggestions: suggestions as any[] };
+}
+
 type AdjustStockInput = {
   productId: string | number;
   quantityChange: number; // positive = IN, negative = OUT
   source: StockMovementSource;
   note?: string | null;
+  session?: mongoose.ClientSession | null; // ใช้ภายใน transaction (เช่น recordSale) - ไม่ระบุ = เปิด transaction เอง
+  purchaseOrderId?: string | mongoose.Types.ObjectId | null; // รับของตามใบสั่งซื้อ
+  stocktakeId?: string | mongoose.Types.ObjectId | null; // ปรับยอดตามรอบนับสต็อก
+  reason?: StockAdjustReason | null; // เหตุผลการปรับสต็อก (source = ADJUST)
+  unitCost?: number | null; // ราคาทุนต่อหน่วยฐานของของที่รับเข้า (ไม่ระบุ = ใช้ทุนปัจจุบันของสินค้า)
+  unitFactor?: number; // quantityChange เป็นหน่วยขาย (แพ็ค/ลัง) → ตัดสต็อก quantityChange × unitFactor หน่วยฐาน
+  lot?: { lotNumber?: string | null; expiryDate?: Date | null } | null; // รับเข้าเป็นล็อต (มีเลขล็อต/วันหมดอายุ)
+  lotId?: string | null; // ตัดออกจากล็อตนี้ก่อน (เช่น ทิ้งล็อตที่หมดอายุ)
+  branchId?: string | null; // สาขาที่สต็อกเปลี่ยน (ไม่ระบุ = สาขาหลัก)
+  stockTransferId?: string | mongoose.Types.ObjectId | null; // โอนระหว่างสาขา
+  cashierId?: string | null; // ผู้ทำรายการ (แคชเชียร์ที่ปลดล็อกเครื่องอยู่)
 };
 
-export async function adjustProductStock(input: AdjustStockInput) {
-  const { productId, quantityChange, source, note } = input;
-  if (!Number.isFinite(quantityChange) || quantityChange === 0) {
-    throw new Error("quantityChange must be a non-zero number");
-  }
+/**
+ * วิธีคิดต้นทุนของร้าน (ไม่มี settings = average)
+ */
+async function getCostingMethod(
+  userId: string | number | mongoose.Types.ObjectId,
+  session?: mongoose.ClientSession | null
+): Promise<CostingMethod> {
+  const settings = await Settings.findOne({ userId: toUserId(userId) })
+    .select({ costingMethod: 1 })
+    .session(session ?? null)
+    .lean();
+  return settings?.costingMethod ?? "average";
+}
 
-  const type: StockMovementType = quantityChange > 0 ? "IN" : "OUT";
+/**
+ * มูลค่าคงเหลือตามชั้นต้นทุน FIFO
+ * สต็อกส่วนที่ไม่มีชั้นต้นทุนรองรับ (ข้อมูลเก่า) คิดที่ fallbackCost
+ */
+async function getFifoBalanceValue(
+  productId: mongoose.Types.ObjectId,
+  stock: number,
+  fallbackCost: number,
+  session?: mongoose.ClientSession | null
+): Promise<number> {
+  const [layers] = await CostLayer.aggregate([
+    { $match: { productId, remainingQuantity: { $gt: 0 } } },
+    {
+      $group: {
+        _id: null,
+        quantity: { $sum: "$remainingQuantity" },
+        value: { $sum: { $multiply: ["$remainingQuantity", "$unitCost"] } },
+      },
+    },
+  ]).session(session ?? null);
+  const layeredQuantity = layers?.quantity ?? 0;
+  const unlayeredQuantity = Math.max(0, stock - layeredQuantity);
+  return roundMoney((layers?.value ?? 0) + unlayeredQuantity * fallbackCost);
+}
+
+/**
+ * คิดต้นทุนของการเคลื่อนไหวสต็อกตามวิธีของร้าน (เรียกหลังอัปเดต stock แล้ว)
+ * - average: รับเข้า → คิดทุนเฉลี่ยใหม่, ตัดออก → ใช้ทุนเฉลี่ยปัจจุบัน
+ * - fifo: รับเข้า → สร้างชั้นต้นทุน, ตัดออก → ตัดจากชั้นที่เก่าที่สุดก่อน
+ */
+async function applyInventoryCost(params: {
+  product: any; // สินค้าหลังอัปเดต stock
+  quantityChange: number;
+  unitCost?: number | null;
+  movementId: mongoose.Types.ObjectId;
+  branchId?: string | null; // ชั้นต้นทุน FIFO แยกตามสาขา (null = สาขาหลัก)
+  branchStock: number; // สต็อกของสาขาหลังอัปเดต
+  session?: mongoose.ClientSession | null;
+}) {
+  const { product, quantityChange, movementId, session } = params;
+  const branchId = params.branchId ? toObjectId(params.branchId) : null;
   const quantity = Math.abs(quantityChange);
+  const stockAfter: number = product.stock;
+  const stockBefore = stockAfter - quantityChange;
+  const currentCost: number = product.costPrice ?? 0;
+  const incomingCost =
+    params.unitCost != null && params.unitCost > 0 ? params.unitCost : currentCost;
+  const method = await getCostingMethod(product.userId, session);
+
+  let unitCost = currentCost;
+  let costPrice = currentCost;
+  let balanceValue = 0;
+
+  if (method === "fifo") {
+    if (quantityChange > 0) {
+      unitCost = roundUnitCost(incomingCost);
+      await CostLayer.create(
+        [
+          {
+            userId: product.userId,
+            productId: product._id,
+            quantity,
+            remainingQuantity: quantity,
+            unitCost,
+            movementId,
+            branchId,
+          },
+        ],
+        { session: session ?? undefined }
+      );
+      // FIFO: ราคาทุนบนสินค้า = ทุนรับเข้าล่าสุด (ใช้เป็นค่าตั้งต้นตอนสั่งซื้อ)
+      costPrice = unitCost;
+    } else {
+      const layers = await CostLayer.find({
+        productId: product._id,
+        branchId,
+        remainingQuantity: { $gt: 0 },
+      })
+        .sort({ createdAt: 1, _id: 1 })
+        .session(session ?? null)
+        .lean();
+      // สต็อกเก่าที่ไม่มีชั้นต้นทุน ถือว่าเข้ามาก่อนทุกชั้น → ตัดออกก่อนที่ทุนปัจจุบัน
+      const layeredQuantity = layers.reduce((sum, l) => sum + l.remainingQuantity, 0);
+      const unlayeredQuantity = Math.max(0, params.branchStock + quantity - layeredQuantity);
+      const fifoLayers: CostLayerBalance[] = [
+        ...(unlayeredQuantity > 0
+          ? [{ id: "", remainingQuantity: unlayeredQuantity, unitCost: currentCost }]
+          : []),
+        ...layers.map((l) => ({
+          id: l._id.toString(),
+          remainingQuantity: l.remainingQuantity,
+          unitCost: l.unitCost,
+        })),
+      ];
+      const result = consumeFifoLayers(fifoLayers, quantity, currentCost);
+      for (const consumed of result.consumed) {
+        if (!consumed.id) continue;
+        await CostLayer.updateOne(
+          { _id: toObjectId(consumed.id) },
+          { $inc: { remainingQuantity: -consumed.quantity } },
+          { session: session ?? undefined }
+        );
+      }
+      unitCost = result.unitCost;
+    }
+    balanceValue = await getFifoBalanceValue(product._id, stockAfter, costPrice, session);
+  } else {
+    if (quantityChange > 0) {
+      unitCost = roundUnitCost(incomingCost);
+      costPrice = movingAverageCost(stockBefore, currentCost, quantity, unitCost);
+    }
+    balanceValue = roundMoney(Math.max(0, stockAfter) * costPrice);
+  }
 
-  // Prevent negative stock for OUT movements.
-  const filter: any = { _id: toObjectId(productId) };
+  if (costPrice !== currentCost) {
+    await Product.updateOne(
+      { _id: product._id },
+      { $set: { costPrice } },
+      { session: session ?? undefined }
+    );
+  }
+
+  return {
+    unitCost,
+    totalCost: roundMoney(unitCost * quantity),
+    costPrice,
+    balanceValue,
+  };
+}
+
+/**
+ * อัปเดตล็อตของการเคลื่อนไหวสต็อก (เรียกหลังอัปเดต stock แล้ว)
+ * - รับเข้าพร้อมเลขล็อต/วันหมดอายุ → สร้างล็อตใหม่ (ไม่ระบุ = ของไม่ระบุล็อต)
+ * - ตัดออก → ขายตัดแบบ FEFO, อย่างอื่นตัดของไม่ระบุล็อตก่อน (ดู planLotConsumption)
+ */
+async function applyStockLots(params: {
+  product: any; // สินค้าหลังอัปเดต stock
+  quantityChange: number;
+  source: StockMovementSource;
+  lot?: AdjustStockInput["lot"];
+  lotId?: string | null;
+  movementId: mongoose.Types.ObjectId;
+  branchId?: string | null; // ล็อตแยกตามสาขา (null = สาขาหลัก)
+  branchStock: number; // สต็อกของสาขาหลังอัปเดต
+  session?: mongoose.ClientSession | null;
+}) {
+  const { product, quantityChange, movementId, session } = params;
+  const quantity = Math.abs(quantityChange);
+  const branchId = params.branchId ? toObjectId(params.branchId) : null;
+
+  if (quantityChange > 0) {
+    const lotNumber = params.lot?.lotNumber?.trim() || null;
+    const expiryDate = params.lot?.expiryDate ?? null;
+    if (!lotNumber && !expiryDate) return [];
+    const [created] = await StockLot.create(
+      [
+        {
+          userId: product.userId,
+          productId: product._id,
+          lotNumber,
+          expiryDate,
+          quantity,
+          remainingQuantity: quantity,
+          movementId,
+          branchId,
+        },
+      ],
+      { session: session ?? undefined }
+    );
+    return [{ lotId: created._id, lotNumber, expiryDate, quantity }];
+  }
+
+  const lots = await StockLot.find({ productId: product._id, branchId, remainingQuantity: { $gt: 0 } })
+    .session(session ?? null)
+    .lean();
+  if (lots.length === 0) return [];
+
+  const lotQuantity = lots.reduce((sum, lot) => sum + lot.remainingQuantity, 0);
+  const untrackedQuantity = Math.max(
+    0,
+    roundQuantity(params.branchStock + quantity - lotQuantity, MAX_QUANTITY_PRECISION)
+  );
+  const plan = planLotConsumption(
+    lots.map((lot) => ({
+      id: lot._id.toString(),
+      remainingQuantity: lot.remainingQuantity,
+      expiryDate: lot.expiryDate ?? null,
+      createdAt: lot.createdAt,
+    })),
+    untrackedQuantity,
+    quantity,
+    { lotsFirst: params.source === "SALE", lotId: params.lotId }
+  );
+
+  const lotById = new Map(lots.map((lot) => [lot._id.toString(), lot] as const));
+  const consumed = [];
+  for (const entry of plan) {
+    const lot = lotById.get(entry.id)!;
+    await StockLot.updateOne(
+      { _id: lot._id },
+      { $set: { remainingQuantity: roundQuantity(lot.remainingQuantity - entry.quantity, MAX_QUANTITY_PRECISION) } },
+      { session: session ?? undefined }
+    );
+    consumed.push({
+      lotId: lot._id,
+      lotNumber: lot.lotNumber ?? null,
+      expiryDate: lot.expiryDate ?? null,
+      quantity: entry.quantity,
+    });
+  }
+  return consumed;
+}
+
+export async function adjustProductStock(input: AdjustStockInput) {
+  if (input.session) return adjustProductStockInSession(input, input.session);
+
+  // สต็อกสาขา สต็อกรวม ต้นทุน ล็อต และ movement ต้องสำเร็จพร้อมกัน
+  const session = await mongoose.startSession();
+  try {
+    let result: Awaited<ReturnType<typeof adjustProductStockInSession>>;
+    await session.withTransaction(async () => {
+      result = await adjustProductStockInSession(input, session);
+    });
+    return result!;
+  } finally {
+    await session.endSession();
+  }
+}
+
+async function adjustProductStockInSession(
+  input: AdjustStockInput,
+  session: mongoose.ClientSession
+) {
+  const {
+    productId,
+    source,
+    note,
+    purchaseOrderId,
+    stocktakeId,
+    reason,
+    unitCost,
+    lot,
+    lotId,
+    branchId,
+    stockTransferId,
+    cashierId,
+  } = input;
+  if (!Number.isFinite(input.quantityChange) || input.quantityChange === 0) {
+    throw new Error("quantityChange must be a non-zero number");
+  }
+  if (input.unitFactor !== undefined && !(input.unitFactor > 0)) {
+    throw new Error("unitFactor must be a positive number");
+  }
+  const quantityChange = toBaseQuantity(input.quantityChange, input.unitFactor ?? 1);
+
+  const type: StockMovementType = quantityChange > 0 ? "IN" : "OUT";
+  const quantity = Math.abs(quantityChange);
+
+  // สต็อกรวมทุกสาขาอยู่ที่ Product.stock - สาขาอื่นเก็บแยกใน BranchStock
+  const productUserId = branchId
+    ? (await Product.findById(toObjectId(productId)).select({ userId: 1 }).session(session ?? null).lean())
+        ?.userId
+    : undefined;
+  if (branchId && !productUserId) throw new Error("ไม่พบสินค้า");
+  const otherBranchesStock = await applyBranchStockChange({
+    productId,
+    branchId,
+    quantityChange,
+    userId: productUserId,
+    session,
+  });
+
+  // Prevent negative stock for OUT movements.
+  const filter: any = { _id: toObjectId(productId) };
   if (quantityChange < 0) {
-    filter.stock = { $gte: quantity };
+    filter.stock = { $gte: roundQuantity(quantity + otherBranchesStock, MAX_QUANTITY_PRECISION) };
   }
 
   const updatedProduct = await Product.findOneAndUpdate(
     filter,
     { $inc: { stock: quantityChange } },
-    { new: true }
+    { new: true, session: session ?? undefined }
   ).lean();
 
   if (!updatedProduct) {
@@ -395,19 +1350,72 @@ export async function adjustProductStock(input: AdjustStockInput) {
     throw new Error("ไม่พบสินค้า");
   }
 
-  await StockMovement.create({
-    productId: toObjectId(productId),
-    type,
-    quantity,
+  // จำนวนทศนิยม (ขายตามน้ำหนัก) บวกลบแล้วอาจมีเศษ floating point → ปัดเก็บ
+  const roundedStock = roundQuantity(updatedProduct.stock, MAX_QUANTITY_PRECISION);
+  if (roundedStock !== updatedProduct.stock) {
+    await Product.updateOne(
+      { _id: updatedProduct._id },
+      { $set: { stock: roundedStock } },
+      { session: session ?? undefined }
+    );
+    updatedProduct.stock = roundedStock;
+  }
+
+  const movementId = new mongoose.Types.ObjectId();
+  const branchStock = await getBranchStockLevel(productId, branchId, updatedProduct.stock, session);
+  const cost = await applyInventoryCost({
+    product: updatedProduct,
+    quantityChange,
+    unitCost,
+    movementId,
+    branchId,
+    branchStock,
+    session,
+  });
+  const lots = await applyStockLots({
+    product: updatedProduct,
+    quantityChange,
     source,
-    note: note ?? null,
+    lot,
+    lotId,
+    movementId,
+    branchId,
+    branchStock,
+    session,
   });
 
+  await StockMovement.create(
+    [
+      {
+        _id: movementId,
+        productId: toObjectId(productId),
+        type,
+        quantity,
+        source,
+        note: note ?? null,
+        purchaseOrderId: purchaseOrderId ? toObjectId(purchaseOrderId) : null,
+        stocktakeId: stocktakeId ? toObjectId(stocktakeId) : null,
+        stockTransferId: stockTransferId ? toObjectId(stockTransferId) : null,
+        branchId: branchId ? toObjectId(branchId) : null,
+        cashierId: cashierId ? toObjectId(cashierId) : null,
+        reason: reason ?? null,
+        unitCost: cost.unitCost,
+        totalCost: cost.totalCost,
+        balanceQuantity: updatedProduct.stock,
+        balanceValue: cost.balanceValue,
+        lots,
+      },
+    ],
+    { session: session ?? undefined }
+  );
+
   return {
     ...updatedProduct,
     id: (updatedProduct as any)._id.toString(),
     price: String((updatedProduct as any).price),
     reorderPoint: (updatedProduct as any).reorderPoint ?? (updatedProduct as any).minStock ?? 5,
+    costPrice: cost.costPrice,
+    movementUnitCost: cost.unitCost, // ทุนต่อหน่วยที่ตัดออก/รับเข้าในครั้งนี้
   } as any;
 }
 
@@ -421,18 +1429,142 @@ export async function updateProductStock(
   await adjustProductStock({ productId, quantityChange, source, note });
 }
 
+/**
+ * ข้อความเมื่อจำนวนไม่ตรงกับทศนิยมที่สินค้ารองรับ
+ */
+function invalidQuantityMessage(product: {
+  name?: string;
+  soldByMeasure?: boolean | null;
+  quantityPrecision?: number | null;
+}): string {
+  const precision = getQuantityPrecision(product);
+  const label = product.name ? `"${product.name}" ` : "";
+  return precision > 0
+    ? `จำนวน${label}ต้องมากกว่า 0 และมีทศนิยมไม่เกิน ${precision} ตำแหน่ง`
+    : `จำนวน${label}ต้องเป็นจำนวนเต็มมากกว่า 0`;
+}
+
+/**
+ * ปรับสต็อกด้วยมือ (ตัดของเสีย/หาย/ใช้เอง หรือเพิ่มของที่เจอ) ต้องมีเหตุผลและหมายเหตุ
+ */
+export async function adjustStock(input: {
+  userId: string | number | mongoose.Types.ObjectId;
+  productId: string | number;
+  quantityChange: number;
+  reason: StockAdjustReason;
+  note: string;
+  lotId?: string | null; // ตัดออกจากล็อตนี้ก่อน
+  branchId?: string | null; // สาขาที่ปรับ (ไม่ระบุ = สาขาหลัก)
+  cashierId?: string | null; // ผู้ทำรายการ
+}) {
+  const note = input.note.trim();
+  if (!note) throw new Error("กรุณาใส่หมายเหตุ");
+  if (input.quantityChange > 0 && STOCK_WRITE_OFF_REASONS.includes(input.reason)) {
+    throw new Error("เหตุผลนี้ใช้ได้เฉพาะการตัดสต็อกออก");
+  }
+  if (input.quantityChange < 0 && STOCK_ADD_REASONS.includes(input.reason)) {
+    throw new Error("เหตุผลนี้ใช้ได้เฉพาะการเพิ่มสต็อก");
+  }
+
+  const product = await Product.findOne({
+    _id: toObjectId(input.productId),
+    userId: toUserId(input.userId),
+  })
+    .select({ soldByMeasure: 1, quantityPrecision: 1 })
+    .lean();
+  if (!product) throw new Error("ไม่พบสินค้า");
+  if (!isValidQuantity(Math.abs(input.quantityChange), getQuantityPrecision(product))) {
+    throw new Error(invalidQuantityMessage(product));
+  }
+
+  return adjustProductStock({
+    productId: input.productId,
+    quantityChange: input.quantityChange,
+    source: "ADJUST",
+    reason: input.reason,
+    note,
+    lotId: input.quantityChange < 0 ? input.lotId ?? null : null,
+    branchId: input.branchId ?? null,
+    cashierId: input.cashierId ?? null,
+  });
+}
+
 export async function stockInPurchase(input: {
   productId: string | number;
   quantity: number;
   note?: string | null;
+  unitCost?: number | null;
+  lotNumber?: string | null;
+  expiryDate?: Date | null;
+  branchId?: string | null; // สาขาที่รับของ (ไม่ระบุ = สาขาหลัก)
+  cashierId?: string | null; // ผู้ทำรายการ
 }) {
-  const qty = Math.floor(input.quantity);
+  const product = await Product.findById(toObjectId(input.productId))
+    .select({ soldByMeasure: 1, quantityPrecision: 1 })
+    .lean();
+  const precision = product ? getQuantityPrecision(product) : 0;
+  // สินค้าทั่วไปปัดลงเป็นจำนวนเต็ม (ตามเดิม), ขายตามน้ำหนักปัดตามทศนิยมของสินค้า
+  const qty = precision > 0 ? roundQuantity(input.quantity, precision) : Math.floor(input.quantity);
   if (!Number.isFinite(qty) || qty <= 0) throw new Error("จำนวนต้องมากกว่า 0");
   return adjustProductStock({
     productId: input.productId,
     quantityChange: qty,
     source: "PURCHASE",
     note: input.note ?? null,
+    unitCost: input.unitCost ?? null,
+    lot: { lotNumber: input.lotNumber, expiryDate: input.expiryDate },
+    branchId: input.branchId ?? null,
+    cashierId: input.cashierId ?? null,
+  });
+}
+
+/**
+ * ล็อตที่หมดอายุแล้ว/จะหมดอายุภายใน withinDays วัน (เรียงวันหมดอายุใกล้สุดก่อน)
+ * จำนวนคงเหลือไม่เกินสต็อกปัจจุบันของสินค้าในสาขา (branchId = undefined → ทุกสาขา)
+ */
+export async function getNearExpiryLots(
+  userId: string | number | mongoose.Types.ObjectId,
+  withinDays: number,
+  branchId?: BranchScope
+) {
+  const now = new Date();
+  const until = new Date(now.getFullYear(), now.getMonth(), now.getDate() + withinDays, 23, 59, 59, 999);
+  const lots = await StockLot.find({
+    userId: toUserId(userId),
+    remainingQuantity: { $gt: 0 },
+    expiryDate: { $ne: null, $lte: until },
+    ...branchFilter(branchId),
+  })
+    .sort({ expiryDate: 1, createdAt: 1 })
+    .lean();
+  if (lots.length === 0) return [];
+
+  const products = await Product.find({ _id: { $in: lots.map((lot) => lot.productId) } })
+    .select({ name: 1, stock: 1, baseUnit: 1, costPrice: 1, price: 1 })
+    .lean();
+  const productById = new Map(
+    (await withBranchStock(products, branchId)).map((p) => [p._id.toString(), p] as const)
+  );
+
+  return lots.flatMap((lot) => {
+    const product = productById.get(lot.productId.toString());
+    if (!product) return [];
+    const remainingQuantity = Math.min(lot.remainingQuantity, product.stock);
+    if (remainingQuantity <= 0) return [];
+    return [
+      {
+        id: lot._id.toString(),
+        productId: product._id.toString(),
+        productName: product.name,
+        baseUnit: product.baseUnit || DEFAULT_BASE_UNIT,
+        lotNumber: lot.lotNumber ?? null,
+        expiryDate: lot.expiryDate!,
+        daysLeft: daysUntilExpiry(lot.expiryDate!, now),
+        remainingQuantity,
+        costValue: roundMoney(remainingQuantity * (product.costPrice ?? 0)),
+        salesValue: roundMoney(remainingQuantity * product.price),
+      },
+    ];
   });
 }
 
@@ -537,6 +1669,320 @@ export async function createSaleItems(items: InsertSaleItem[]) {
   await SaleItem.insertMany(saleItems);
 }
 
+export type RecordSaleInput = {
+  userId: string | number | mongoose.Types.ObjectId;
+  items: Array<{
+    productId: string | number;
+    productName: string;
+    quantity: number; // จำนวนตามหน่วยที่ขาย
+    unitPrice: number | string; // ราคาต่อหน่วยที่ขาย
+    unitName?: string | null; // หน่วยที่ขาย (ไม่ระบุ = หน่วยฐาน)
+    discount?: DiscountInput | null; // ส่วนลดรายการ
+  }>;
+  billDiscount?: DiscountInput | null; // ส่วนลดท้ายบิล (หักก่อน VAT)
+  /**
+   * รายการชำระเงิน (หลายวิธีได้) - ถ้าไม่ส่งมาจะถือว่าจ่ายเต็มจำนวนด้วย paymentType
+   */
+  payments?: Array<{ method: PaymentMethod; amount: number; reference?: string | null }>;
+  paymentType?: "cash" | "credit"; // legacy: client เก่าที่ยังไม่ส่ง payments
+  customerId?: string | null; // ลูกค้าที่เลือกจากรายชื่อ (มาก่อน customerName)
+  customerName?: string | null; // ขายเชื่อให้ลูกค้าที่ยังไม่มีในรายชื่อ → สร้าง/หาจากชื่อ
+  vatRate?: number;
+  /**
+   * key ที่ client สร้างต่อ 1 การกดชำระเงิน
+   * ถ้าส่งซ้ำ (เน็ตหลุดแล้ว retry) จะคืนบิลเดิม ไม่บันทึกซ้ำ
+   */
+  idempotencyKey?: string | null;
+  branchId?: string | null; // สาขาที่ขาย (ไม่ระบุ = สาขาหลัก) - ตัดสต็อกของสาขานี้
+  cashierId?: string | null; // แคชเชียร์ที่ขาย
+};
+
+/**
+ * บันทึกการขายทั้งบิลใน transaction เดียว
+ * - ตรวจสต็อกทุกรายการก่อนเริ่ม
+ * - ลูกหนี้ / Sale / SaleItem / ตัดสต็อก สำเร็จทั้งหมดหรือไม่บันทึกเลย
+ * - idempotencyKey ซ้ำ → คืนบิลเดิม
+ */
+export async function recordSale(input: RecordSaleInput) {
+  const userId = toUserId(input.userId);
+  const idempotencyKey = input.idempotencyKey || null;
+
+  const findExisting = async () => {
+    if (!idempotencyKey) return null;
+    const existing = await Sale.findOne({ userId, idempotencyKey }).lean();
+    if (!existing) return null;
+    return {
+      saleId: existing._id.toString(),
+      totalAmount: existing.totalAmount,
+      changeAmount: existing.changeAmount ?? 0,
+      duplicate: true,
+    };
+  };
+
+  const existing = await findExisting();
+  if (existing) return existing;
+
+  if (input.items.length === 0) {
+    throw new Error("ไม่มีรายการสินค้า");
+  }
+
+  // ยอดบรรทัดหลังหักส่วนลดรายการ
+  const items = input.items.map((item) => {
+    const unitPrice = typeof item.unitPrice === "string" ? parseFloat(item.unitPrice) : item.unitPrice;
+    const grossPrice = unitPrice * item.quantity;
+    const discountAmount = calculateDiscountAmount(grossPrice, item.discount);
+    return {
+      ...item,
+      unitPrice,
+      discountAmount,
+      totalPrice: roundMoney(grossPrice - discountAmount),
+    };
+  });
+
+  // ตรวจสต็อกทุกรายการก่อน (รวมจำนวนหน่วยฐานกรณีสินค้าเดียวกันหลายบรรทัด/หลายหน่วย)
+  const productIds = Array.from(new Set(items.map((item) => String(item.productId))));
+  const products = await Product.find({
+    _id: { $in: productIds.map((id) => toObjectId(id)) },
+    userId,
+  })
+    .select({
+      _id: 1,
+      name: 1,
+      stock: 1,
+      price: 1,
+      barcode: 1,
+      baseUnit: 1,
+      units: 1,
+      soldByMeasure: 1,
+      quantityPrecision: 1,
+      archivedAt: 1,
+    })
+    .lean();
+  const branchId = input.branchId ?? null;
+  const productById = new Map(
+    (await withBranchStock(products, branchId)).map((p) => [p._id.toString(), p] as const)
+  );
+
+  // หน่วยที่ขายของแต่ละบรรทัด (สินค้าที่มีหลายหน่วย/ขายตามน้ำหนัก → เก็บชื่อหน่วยไว้แสดงในใบเสร็จ)
+  const itemUnits = items.map((item) => {
+    const product = productById.get(String(item.productId));
+    if (!product) {
+      throw new Error(`ไม่พบสินค้า "${item.productName ?? item.productId}"`);
+    }
+    if (product.archivedAt) {
+      throw new Error(`สินค้า "${product.name}" ถูกเก็บเข้าคลัง (เลิกขาย) แล้ว`);
+    }
+    const unit = findSellingUnit(product, item.unitName);
+    if (!unit) {
+      throw new Error(`สินค้า "${product.name}" ไม่มีหน่วย "${item.unitName}"`);
+    }
+    // ขายตามน้ำหนัก/ความยาวได้ทศนิยมเฉพาะหน่วยฐาน หน่วยอื่น (ถุง/ม้วน) ขายเป็นจำนวนเต็ม
+    const quantityPrecision = unit.isBase ? getQuantityPrecision(product) : 0;
+    if (!isValidQuantity(item.quantity, quantityPrecision)) {
+      throw new Error(invalidQuantityMessage({ ...product, soldByMeasure: quantityPrecision > 0 }));
+    }
+    return {
+      unitName: product.units?.length || product.soldByMeasure ? unit.name : null,
+      unitFactor: unit.factor,
+      quantityPrecision,
+    };
+  });
+
+  const requestedQty = new Map<string, number>();
+  items.forEach((item, index) => {
+    const key = String(item.productId);
+    const baseQuantity = toBaseQuantity(item.quantity, itemUnits[index].unitFactor);
+    requestedQty.set(key, (requestedQty.get(key) ?? 0) + baseQuantity);
+  });
+
+  const shortages: string[] = [];
+  for (const [productId, quantity] of Array.from(requestedQty.entries())) {
+    const product = productById.get(productId)!;
+    if (product.stock < quantity) {
+      shortages.push(`${product.name} (เหลือ ${product.stock} ${product.baseUnit || DEFAULT_BASE_UNIT})`);
+    }
+  }
+  if (shortages.length > 0) {
+    throw new Error(`สต็อกไม่พอ: ${shortages.join(", ")}`);
+  }
+
+  // Calculate totals - ส่วนลดท้ายบิลคิดจากยอดหลังส่วนลดรายการ แล้วจึงคิด VAT
+  const itemsTotal = items.reduce((sum, item) => sum + item.totalPrice, 0);
+  const billDiscountAmount = calculateDiscountAmount(itemsTotal, input.billDiscount);
+  const discountTotal = roundMoney(
+    items.reduce((sum, item) => sum + item.discountAmount, 0) + billDiscountAmount
+  );
+  const totalAmount = roundMoney(itemsTotal - billDiscountAmount);
+  const vatRate = input.vatRate ?? 0;
+  const subtotal = totalAmount;
+  const vatAmount = roundMoney(subtotal * vatRate);
+  const totalWithVat = roundMoney(subtotal + vatAmount);
+
+  // รายการชำระเงิน (client เก่าส่งแค่ paymentType → จ่ายเต็มจำนวนด้วยวิธีนั้น)
+  const amountDue = totalWithVat;
+  const payments: ISalePayment[] = input.payments?.length
+    ? input.payments
+        .map((p) => ({
+          method: p.method,
+          amount: roundMoney(p.amount),
+          reference: p.reference?.trim() || null,
+        }))
+        .filter((p) => p.amount > 0)
+    : [{ method: input.paymentType ?? "cash", amount: amountDue, reference: null }];
+
+  const sumOf = (method?: PaymentMethod) =>
+    roundMoney(
+      payments
+        .filter((p) => !method || p.method === method)
+        .reduce((sum, p) => sum + p.amount, 0)
+    );
+  const paidTotal = sumOf();
+  const cashTendered = sumOf("cash");
+  const creditAmount = sumOf("credit");
+
+  if (paidTotal < amountDue) {
+    throw new Error(`ยอดชำระไม่ครบ ขาดอีก ${roundMoney(amountDue - paidTotal)} บาท`);
+  }
+  // ทอนได้เฉพาะเงินสด
+  const changeAmount = roundMoney(paidTotal - amountDue);
+  if (changeAmount > cashTendered) {
+    throw new Error("ยอดชำระเกิน (ทอนเงินได้เฉพาะส่วนที่จ่ายเงินสด)");
+  }
+  if (creditAmount > 0 && !input.customerId && !input.customerName?.trim()) {
+    throw new Error("กรุณาใส่ชื่อลูกค้าสำหรับขายเชื่อ");
+  }
+  const paymentType = creditAmount > 0 ? "credit" : "cash";
+
+  const session = await mongoose.startSession();
+  let saleId = "";
+  try {
+    await session.withTransaction(async () => {
+      let customerId: mongoose.Types.ObjectId | null = null;
+
+      if (input.customerId) {
+        // ลูกค้าที่เลือกไว้ - ผูกกับบิลเสมอ ขายเชื่อเพิ่มหนี้เฉพาะส่วนที่ขายเชื่อ
+        // (updatedAt ใหม่ = ขึ้นก่อนในรายชื่อที่ใช้ล่าสุด)
+        const customer = await Customer.findOneAndUpdate(
+          { _id: toObjectId(input.customerId), userId },
+          creditAmount > 0 ? { $inc: { totalDebt: creditAmount } } : { $set: { updatedAt: new Date() } },
+          { new: true, session }
+        ).lean();
+        if (!customer) {
+          throw new Error("ไม่พบลูกค้าที่เลือก");
+        }
+        customerId = customer._id;
+      } else if (creditAmount > 0 && input.customerName) {
+        // Credit sale - create or find customer (เพิ่มหนี้เฉพาะส่วนที่ขายเชื่อ)
+        const customer = await Customer.findOneAndUpdate(
+          { userId, name: input.customerName.trim() },
+          { $inc: { totalDebt: creditAmount } },
+          { new: true, upsert: true, session }
+        ).lean();
+        customerId = customer!._id;
+      }
+
+      const saleObjectId = new mongoose.Types.ObjectId();
+      saleId = saleObjectId.toString();
+
+      // ตัดสต็อก (เงื่อนไข stock >= qty ใน adjustProductStock กันกรณีมีคนขายตัดหน้า)
+      // ต้นทุนที่ตัดออก (ตามวิธีคิดต้นทุนของร้าน) snapshot ไว้ที่ SaleItem ให้กำไรย้อนหลังไม่เปลี่ยน
+      // unitCost ของ SaleItem เป็นทุนต่อหน่วยที่ขาย (แพ็ค = ทุนต่อขวด × 6)
+      const unitCosts: number[] = [];
+      for (let index = 0; index < items.length; index++) {
+        const item = items[index];
+        const { unitFactor } = itemUnits[index];
+        const adjusted = await adjustProductStock({
+          productId: item.productId,
+          quantityChange: -item.quantity,
+          unitFactor,
+          source: "SALE",
+          note: `sale:${saleId}`,
+          branchId,
+          cashierId: input.cashierId ?? null,
+          session,
+        });
+        unitCosts.push(roundUnitCost((adjusted.movementUnitCost ?? 0) * unitFactor));
+      }
+      const costTotal = roundMoney(
+        items.reduce((sum, item, index) => sum + unitCosts[index] * item.quantity, 0)
+      );
+
+      await Sale.create(
+        [
+          {
+            _id: saleObjectId,
+            userId,
+            customerId,
+            totalAmount, // เก็บ totalAmount เดิมไว้ (backward compatible)
+            paymentType,
+            payments,
+            changeAmount,
+            vatRate,
+            vatAmount,
+            subtotal,
+            totalWithVat,
+            billDiscountType: input.billDiscount?.type ?? null,
+            billDiscountValue: input.billDiscount?.value ?? 0,
+            billDiscountAmount,
+            discountTotal,
+            costTotal,
+            idempotencyKey,
+            branchId: branchId ? toObjectId(branchId) : null,
+            cashierId: input.cashierId ? toObjectId(input.cashierId) : null,
+          },
+        ],
+        { session }
+      );
+
+      await SaleItem.insertMany(
+        items.map((item, index) => ({
+          saleId: saleObjectId,
+          productId: toObjectId(item.productId),
+          productName: item.productName,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          totalPrice: item.totalPrice,
+          unitCost: unitCosts[index],
+          unitName: itemUnits[index].unitName,
+          unitFactor: itemUnits[index].unitFactor,
+          quantityPrecision: itemUnits[index].quantityPrecision,
+          discountType: item.discount?.type ?? null,
+          discountValue: item.discount?.value ?? 0,
+          discountAmount: item.discountAmount,
+        })),
+        { session }
+      );
+    });
+  } catch (error: any) {
+    // request ซ้ำที่มาพร้อมกัน → ชน unique index ของ idempotencyKey
+    if (error?.code === 11000 && idempotencyKey) {
+      const duplicate = await findExisting();
+      if (duplicate) return duplicate;
+    }
+    throw error;
+  } finally {
+    await session.endSession();
+  }
+
+  return { saleId, totalAmount, changeAmount, duplicate: false };
+}
+
+/**
+ * รายการชำระเงินของบิล - บิลเก่าที่ไม่มี payments ถือว่าจ่ายเต็มจำนวนด้วย paymentType
+ */
+export function getSalePayments(
+  sale: Pick<ISale, "paymentType" | "payments" | "totalAmount" | "totalWithVat">
+): ISalePayment[] {
+  if (sale.payments && sale.payments.length > 0) return sale.payments;
+  return [
+    {
+      method: sale.paymentType,
+      amount: sale.totalWithVat || sale.totalAmount,
+      reference: null,
+    },
+  ];
+}
+
 export async function getSalesByUser(userId: string | number | mongoose.Types.ObjectId, limit = 50) {
   const sales = await Sale.find({ userId: toUserId(userId) })
     .sort({ createdAt: -1 })
@@ -583,8 +2029,11 @@ export async function getTodaySales(userId: string | number | mongoose.Types.Obj
     },
   ]);
 
+  // หักยอดคืนสินค้าวันนี้
+  const returns = await getReturnTotals(userId, today, tomorrow);
+
   return {
-    totalSales: result[0]?.totalSales ?? 0,
+    totalSales: (result[0]?.totalSales ?? 0) - returns.subtotal,
     saleCount: result[0]?.saleCount ?? 0,
   };
 }
@@ -629,10 +2078,13 @@ export async function getTodaySoldItems(
     {
       $group: {
         _id: "$productName",
-        totalQuantity: { $sum: "$quantity" },
-        totalAmount: { $sum: "$totalPrice" },
+        totalQuantity: { $sum: NET_SOLD_BASE_QUANTITY },
+        totalAmount: { $sum: NET_SOLD_AMOUNT },
       },
     },
+    {
+      $match: { totalQuantity: { $gt: 0 } }, // คืนครบแล้วไม่ต้องแสดง
+    },
     {
       $project: {
         _id: 0,
@@ -659,16 +2111,50 @@ export type InsertCustomer = {
   userId: string | number | mongoose.Types.ObjectId;
   name: string;
   phone?: string | null;
+  address?: string | null;
+  taxId?: string | null;
+  note?: string | null;
   totalDebt?: number | string;
 };
 
+export type CustomerInput = Partial<
+  Pick<ICustomer, "name" | "phone" | "address" | "taxId" | "note">
+>;
+
 export type Customer = ICustomer & { id: number | string };
 
+// เลขผู้เสียภาษีเก็บเป็นตัวเลขล้วน (ตัดช่องว่าง/ขีดออก)
+const normalizeTaxId = (taxId?: string | null) => taxId?.replace(/\s|-/g, "") || null;
+
+/**
+ * ชื่อลูกค้าต้องไม่ซ้ำในร้าน (ขายเชื่อแบบพิมพ์ชื่อเองจะหาลูกค้าจากชื่อ)
+ */
+async function assertCustomerNameAvailable(
+  userId: string | number | mongoose.Types.ObjectId,
+  name: string,
+  excludeId?: string | number
+) {
+  const duplicate = await Customer.exists({
+    userId: toUserId(userId),
+    name,
+    ...(excludeId !== undefined ? { _id: { $ne: toObjectId(excludeId) } } : {}),
+  });
+  if (duplicate) {
+    throw new Error(`มีลูกค้าชื่อ "${name}" อยู่แล้ว`);
+  }
+}
+
 export async function createCustomer(customer: InsertCustomer) {
+  const name = customer.name.trim();
+  await assertCustomerNameAvailable(customer.userId, name);
+
   const newCustomer = new Customer({
     userId: toUserId(customer.userId),
-    name: customer.name,
-    phone: customer.phone ?? null,
+    name,
+    phone: customer.phone?.trim() || null,
+    address: customer.address?.trim() || null,
+    taxId: normalizeTaxId(customer.taxId),
+    note: customer.note?.trim() || null,
     totalDebt: typeof customer.totalDebt === "string" ? parseFloat(customer.totalDebt) : customer.totalDebt ?? 0,
   });
 
@@ -676,6 +2162,79 @@ export async function createCustomer(customer: InsertCustomer) {
   return saved._id.toString();
 }
 
+export async function updateCustomer(
+  id: string | number,
+  userId: string | number | mongoose.Types.ObjectId,
+  data: CustomerInput
+) {
+  const updateData: any = {};
+  for (const key of ["name", "phone", "address", "note"] as const) {
+    if (data[key] !== undefined) {
+      updateData[key] = key === "name" ? data[key]!.trim() : data[key]?.trim() || null;
+    }
+  }
+  if (data.taxId !== undefined) {
+    updateData.taxId = normalizeTaxId(data.taxId);
+  }
+  if (updateData.name) {
+    await assertCustomerNameAvailable(userId, updateData.name, id);
+  }
+
+  const result = await Customer.updateOne(
+    { _id: toObjectId(id), userId: toUserId(userId) },
+    { $set: updateData }
+  );
+  if (result.matchedCount === 0) throw new Error("ไม่พบลูกค้า");
+}
+
+/**
+ * ลบลูกค้า - ไม่ให้ลบถ้ายังค้างเงิน หรือมีบิลขายอ้างอิงอยู่ (ประวัติการขายจะหาย)
+ */
+export async function deleteCustomer(
+  id: string | number,
+  userId: string | number | mongoose.Types.ObjectId
+) {
+  const customer = await Customer.findOne({
+    _id: toObjectId(id),
+    userId: toUserId(userId),
+  }).lean();
+  if (!customer) throw new Error("ไม่พบลูกค้า");
+  if (customer.totalDebt > 0) {
+    throw new Error("ลบไม่ได้ เพราะลูกค้ายังค้างชำระอยู่");
+  }
+
+  const inUse = await Sale.exists({ userId: toUserId(userId), customerId: customer._id });
+  if (inUse) {
+    throw new Error("ลบไม่ได้ เพราะมีบิลขายของลูกค้านี้อยู่");
+  }
+
+  await Customer.deleteOne({ _id: customer._id });
+}
+
+/**
+ * ค้นหาลูกค้าจากชื่อ / เบอร์โทร / เลขผู้เสียภาษี (ไม่ใส่คำค้น = ที่ใช้ล่าสุด)
+ */
+export async function searchCustomers(
+  userId: string | number | mongoose.Types.ObjectId,
+  search?: string,
+  limit = 20
+) {
+  const query: any = { userId: toUserId(userId) };
+  const keyword = search?.trim();
+  if (keyword) {
+    const pattern = { $regex: keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), $options: "i" };
+    query.$or = [{ name: pattern }, { phone: pattern }, { taxId: pattern }];
+  }
+
+  const customers = await Customer.find(query).sort({ updatedAt: -1 }).limit(limit).lean();
+
+  return customers.map((c) => ({
+    ...c,
+    id: c._id.toString(),
+    totalDebt: String(c.totalDebt),
+  })) as any[];
+}
+
 export async function getCustomersByUser(userId: string | number | mongoose.Types.ObjectId) {
   const customers = await Customer.find({ userId: toUserId(userId) })
     .sort({ updatedAt: -1 })
@@ -751,6 +2310,7 @@ export async function payDebt(customerId: string | number | mongoose.Types.Objec
 
 export type InsertChatLog = {
   userId: string | number | mongoose.Types.ObjectId;
+  actorId: string | number | mongoose.Types.ObjectId; // ผู้ที่คุยกับผู้ช่วย (แคชเชียร์ที่ใช้เครื่องอยู่)
   role: "user" | "assistant";
   content: string;
 };
@@ -760,6 +2320,7 @@ export type ChatLog = IChatLog & { id: number | string };
 export async function createChatLog(log: InsertChatLog) {
   const newLog = new ChatLog({
     userId: toUserId(log.userId),
+    actorId: toObjectId(log.actorId),
     role: log.role,
     content: log.content,
   });
@@ -767,8 +2328,20 @@ export async function createChatLog(log: InsertChatLog) {
   await newLog.save();
 }
 
-export async function getChatLogs(userId: string | number | mongoose.Types.ObjectId, limit = 20) {
-  const logs = await ChatLog.find({ userId: toUserId(userId) })
+/**
+ * บทสนทนาของผู้ใช้คนนี้ในร้าน - log เก่าที่ไม่มี actorId ถือเป็นของเจ้าของร้าน
+ */
+export async function getChatLogs(
+  userId: string | number | mongoose.Types.ObjectId,
+  actorId: string | number | mongoose.Types.ObjectId,
+  limit = 20
+) {
+  const shopId = toUserId(userId);
+  const actor = toObjectId(actorId);
+  const logs = await ChatLog.find({
+    userId: shopId,
+    actorId: actor.equals(shopId) ? { $in: [actor, null] } : actor,
+  })
     .sort({ createdAt: -1 })
     .limit(limit)
     .lean();
@@ -801,22 +2374,164 @@ export async function getAnalytics(userId: string | number | mongoose.Types.Obje
 
 // ==================== REPORT FUNCTIONS ====================
 
-export async function getDailySales(userId: string | number | mongoose.Types.ObjectId, days = 7) {
-  const startDate = new Date();
-  startDate.setDate(startDate.getDate() - days);
-  startDate.setHours(0, 0, 0, 0);
+/**
+ * จำนวน/มูลค่าที่ขายสุทธิต่อ SaleItem (หักส่วนที่คืนแล้ว)
+ * ใช้ใน $group ของ SaleItem aggregate
+ */
+const NET_SOLD_QUANTITY = {
+  $subtract: ["$quantity", { $ifNull: ["$returnedQuantity", 0] }],
+};
+const NET_SOLD_AMOUNT = {
+  $multiply: [
+    "$totalPrice",
+    { $divide: [NET_SOLD_QUANTITY, "$quantity"] },
+  ],
+};
+const NET_SOLD_COST = {
+  $multiply: [{ $ifNull: ["$unitCost", 0] }, NET_SOLD_QUANTITY],
+};
+// จำนวนสุทธิเป็นหน่วยฐาน (ขาย 1 แพ็ค = 6 ขวด)
+const NET_SOLD_BASE_QUANTITY = {
+  $multiply: [NET_SOLD_QUANTITY, { $ifNull: ["$unitFactor", 1] }],
+};
 
-  const result = await Sale.aggregate([
-    {
-      $match: {
-        userId: toUserId(userId),
-        createdAt: { $gte: startDate },
-      },
-    },
-    {
+/**
+ * อัตรากำไรขั้นต้น (%) ทศนิยม 1 ตำแหน่ง
+ */
+function grossMarginPercent(revenue: number, grossProfit: number): number {
+  if (!(revenue > 0)) return 0;
+  return Math.round((grossProfit / revenue) * 1000) / 10;
+}
+
+/**
+ * รวมยอดคืนสินค้า/ยกเลิกบิล (SaleReturn) ในช่วงเวลา - ใช้หักออกจากยอดขาย
+ * นับตามวันที่คืน ไม่ใช่วันที่ขาย
+ */
+async function getReturnTotals(
+  userId: string | number | mongoose.Types.ObjectId,
+  start: Date,
+  end?: Date,
+  branchId?: BranchScope
+) {
+  const createdAt: Record<string, Date> = { $gte: start };
+  if (end) createdAt.$lt = end;
+
+  const result = await SaleReturn.aggregate([
+    { $match: { userId: toUserId(userId), createdAt, ...branchFilter(branchId) } },
+    {
+      $group: {
+        _id: null,
+        subtotal: { $sum: "$subtotal" },
+        vatAmount: { $sum: "$vatAmount" },
+        totalWithVat: { $sum: "$totalWithVat" },
+        costTotal: { $sum: { $ifNull: ["$costTotal", 0] } },
+        returnCount: { $sum: 1 },
+      },
+    },
+  ]);
+
+  return {
+    subtotal: result[0]?.subtotal ?? 0,
+    vatAmount: result[0]?.vatAmount ?? 0,
+    totalWithVat: result[0]?.totalWithVat ?? 0,
+    costTotal: result[0]?.costTotal ?? 0,
+    returnCount: result[0]?.returnCount ?? 0,
+  };
+}
+
+/**
+ * ยอดคืนสินค้า (ก่อน VAT) และต้นทุนของที่คืน จัดกลุ่มตาม format วันที่ของ $dateToString
+ */
+async function getReturnTotalsByPeriod(
+  userId: string | number | mongoose.Types.ObjectId,
+  startDate: Date,
+  format: string,
+  branchId?: BranchScope
+): Promise<Map<string, { subtotal: number; costTotal: number }>> {
+  const result = await SaleReturn.aggregate([
+    {
+      $match: { userId: toUserId(userId), createdAt: { $gte: startDate }, ...branchFilter(branchId) },
+    },
+    {
+      $group: {
+        _id: { $dateToString: { format, date: "$createdAt" } },
+        subtotal: { $sum: "$subtotal" },
+        costTotal: { $sum: { $ifNull: ["$costTotal", 0] } },
+      },
+    },
+  ]);
+
+  return new Map(
+    result.map((r) => [r._id as string, { subtotal: r.subtotal as number, costTotal: r.costTotal as number }])
+  );
+}
+
+/**
+ * ยอดขายสุทธิ / ต้นทุน / กำไรขั้นต้นของแต่ละช่วง (หักของที่คืนในช่วงเดียวกัน)
+ */
+function toProfitPeriod(
+  sales: { totalAmount: number; costTotal: number },
+  returns?: { subtotal: number; costTotal: number }
+) {
+  const totalAmount = sales.totalAmount - (returns?.subtotal ?? 0);
+  const costTotal = sales.costTotal - (returns?.costTotal ?? 0);
+  const grossProfit = totalAmount - costTotal;
+  return {
+    totalAmount,
+    costTotal,
+    grossProfit,
+    grossMargin: grossMarginPercent(totalAmount, grossProfit),
+  };
+}
+
+export async function getDailySales(
+  userId: string | number | mongoose.Types.ObjectId,
+  days = 7,
+  categoryId?: string | null,
+  branchId?: BranchScope
+) {
+  const startDate = new Date();
+  startDate.setDate(startDate.getDate() - days);
+  startDate.setHours(0, 0, 0, 0);
+
+  // เลือกหมวดหมู่ → คิดจากรายการสินค้าในหมวด (ยอดบรรทัดหลังหักคืน ก่อนส่วนลดท้ายบิล)
+  if (categoryId !== undefined) {
+    const byCategory = await SaleItem.aggregate([
+      ...saleItemsWithCategoryPipeline(userId, startDate, branchId),
+      { $match: { categoryId: categoryId ? toObjectId(categoryId) : null } },
+      {
+        $group: {
+          _id: { $dateToString: { format: "%Y-%m-%d", date: "$sale.createdAt" } },
+          totalAmount: { $sum: NET_SOLD_AMOUNT },
+          costTotal: { $sum: NET_SOLD_COST },
+          totalQuantity: { $sum: NET_SOLD_BASE_QUANTITY },
+          saleIds: { $addToSet: "$saleId" },
+        },
+      },
+      { $sort: { _id: 1 } },
+    ]);
+
+    return byCategory.map((r) => ({
+      date: r._id as string,
+      ...toProfitPeriod(r),
+      saleCount: r.saleIds.length as number,
+      totalQuantity: r.totalQuantity as number,
+    }));
+  }
+
+  const result = await Sale.aggregate([
+    {
+      $match: {
+        userId: toUserId(userId),
+        createdAt: { $gte: startDate },
+        ...branchFilter(branchId),
+      },
+    },
+    {
       $group: {
         _id: { $dateToString: { format: "%Y-%m-%d", date: "$createdAt" } },
         totalAmount: { $sum: "$totalAmount" },
+        costTotal: { $sum: { $ifNull: ["$costTotal", 0] } },
         saleCount: { $sum: 1 },
       },
     },
@@ -825,14 +2540,175 @@ export async function getDailySales(userId: string | number | mongoose.Types.Obj
     },
   ]);
 
+  const returnsByDate = await getReturnTotalsByPeriod(userId, startDate, "%Y-%m-%d", branchId);
+
   return result.map((r) => ({
-    date: r._id,
-    totalAmount: r.totalAmount,
-    saleCount: r.saleCount,
+    date: r._id as string,
+    ...toProfitPeriod(r, returnsByDate.get(r._id)),
+    saleCount: r.saleCount as number,
+    totalQuantity: null as number | null, // ยอดรวมทั้งร้านไม่ได้นับจำนวนชิ้น
   }));
 }
 
-export async function getMonthlySales(userId: string | number | mongoose.Types.ObjectId, months = 6) {
+/**
+ * stage ร่วม: รายการขายของร้าน (ตั้งแต่ startDate) พร้อม sale และหมวดหมู่ปัจจุบันของสินค้า
+ * สินค้าที่ถูกลบ/ไม่มีหมวด → categoryId = null
+ */
+function saleItemsWithCategoryPipeline(
+  userId: string | number | mongoose.Types.ObjectId,
+  startDate?: Date,
+  branchId?: BranchScope
+): any[] {
+  const saleMatch: any = {
+    "sale.userId": toUserId(userId),
+    ...branchFilter(branchId, "sale.branchId"),
+  };
+  if (startDate) saleMatch["sale.createdAt"] = { $gte: startDate };
+
+  return [
+    {
+      $lookup: {
+        from: "sales",
+        localField: "saleId",
+        foreignField: "_id",
+        as: "sale",
+      },
+    },
+    { $unwind: "$sale" },
+    { $match: saleMatch },
+    {
+      $lookup: {
+        from: "products",
+        localField: "productId",
+        foreignField: "_id",
+        as: "product",
+        pipeline: [{ $project: { categoryId: 1 } }],
+      },
+    },
+    {
+      $addFields: {
+        categoryId: { $ifNull: [{ $arrayElemAt: ["$product.categoryId", 0] }, null] },
+      },
+    },
+  ];
+}
+
+/**
+ * ยอดขาย จำนวนชิ้น และกำไรขั้นต้นแยกตามหมวดหมู่ (ตั้งแต่ days วันก่อน)
+ */
+export async function getSalesByCategory(
+  userId: string | number | mongoose.Types.ObjectId,
+  days = 30,
+  branchId?: BranchScope
+) {
+  const startDate = new Date();
+  startDate.setDate(startDate.getDate() - days);
+  startDate.setHours(0, 0, 0, 0);
+
+  const [rows, categories] = await Promise.all([
+    SaleItem.aggregate([
+      ...saleItemsWithCategoryPipeline(userId, startDate, branchId),
+      {
+        $group: {
+          _id: "$categoryId",
+          totalQuantity: { $sum: NET_SOLD_BASE_QUANTITY },
+          totalRevenue: { $sum: NET_SOLD_AMOUNT },
+          totalCost: { $sum: NET_SOLD_COST },
+        },
+      },
+      { $match: { totalQuantity: { $gt: 0 } } },
+      { $sort: { totalRevenue: -1 } },
+    ]),
+    Category.find({ userId: toUserId(userId) }).select({ _id: 1, name: 1 }).lean(),
+  ]);
+  const categoryNameById = new Map(categories.map((c) => [c._id.toString(), c.name] as const));
+
+  return rows.map((r) => {
+    const categoryId = r._id ? r._id.toString() : null;
+    const grossProfit = roundMoney(r.totalRevenue - r.totalCost);
+    return {
+      categoryId,
+      categoryName: categoryId
+        ? categoryNameById.get(categoryId) ?? "หมวดที่ถูกลบ"
+        : "ไม่มีหมวด",
+      totalQuantity: r.totalQuantity as number,
+      totalRevenue: roundMoney(r.totalRevenue),
+      totalCost: roundMoney(r.totalCost),
+      grossProfit,
+      grossMargin: grossMarginPercent(r.totalRevenue, grossProfit),
+    };
+  });
+}
+
+/**
+ * ยอดขายแยกตามแคชเชียร์ - ของที่คืนหักจากคนที่ขายบิลนั้น
+ * บิลเก่าที่ยังไม่ได้บันทึกแคชเชียร์รวมอยู่ในแถว cashierId = null
+ */
+export async function getSalesByCashier(
+  userId: string | number | mongoose.Types.ObjectId,
+  days = 30,
+  branchId?: BranchScope
+) {
+  const startDate = new Date();
+  startDate.setDate(startDate.getDate() - days);
+  startDate.setHours(0, 0, 0, 0);
+  const match = { userId: toUserId(userId), createdAt: { $gte: startDate }, ...branchFilter(branchId) };
+
+  const [salesRows, returnRows] = await Promise.all([
+    Sale.aggregate([
+      { $match: match },
+      {
+        $group: {
+          _id: { $ifNull: ["$cashierId", null] },
+          totalAmount: { $sum: "$totalAmount" },
+          costTotal: { $sum: { $ifNull: ["$costTotal", 0] } },
+          saleCount: { $sum: 1 },
+        },
+      },
+    ]),
+    SaleReturn.aggregate([
+      { $match: match },
+      { $lookup: { from: "sales", localField: "saleId", foreignField: "_id", as: "sale" } },
+      {
+        $group: {
+          _id: { $ifNull: [{ $arrayElemAt: ["$sale.cashierId", 0] }, null] },
+          subtotal: { $sum: "$subtotal" },
+          costTotal: { $sum: { $ifNull: ["$costTotal", 0] } },
+        },
+      },
+    ]),
+  ]);
+
+  const returnsByCashier = new Map(
+    returnRows.map((r) => [String(r._id), { subtotal: r.subtotal as number, costTotal: r.costTotal as number }])
+  );
+  const users = await User.find({ _id: { $in: salesRows.filter((r) => r._id).map((r) => r._id) } })
+    .select({ _id: 1, name: 1, email: 1 })
+    .lean();
+  const nameById = new Map(users.map((u) => [u._id.toString(), u.name || u.email || "ไม่มีชื่อ"] as const));
+
+  return salesRows
+    .map((r) => {
+      const cashierId = r._id ? r._id.toString() : null;
+      const period = toProfitPeriod(r, returnsByCashier.get(String(r._id)));
+      return {
+        cashierId,
+        cashierName: cashierId ? nameById.get(cashierId) ?? "บัญชีที่ถูกลบ" : "ไม่ระบุ",
+        saleCount: r.saleCount as number,
+        totalAmount: roundMoney(period.totalAmount),
+        costTotal: roundMoney(period.costTotal),
+        grossProfit: roundMoney(period.grossProfit),
+        grossMargin: period.grossMargin,
+      };
+    })
+    .sort((a, b) => b.totalAmount - a.totalAmount);
+}
+
+export async function getMonthlySales(
+  userId: string | number | mongoose.Types.ObjectId,
+  months = 6,
+  branchId?: BranchScope
+) {
   const startDate = new Date();
   startDate.setMonth(startDate.getMonth() - months);
   startDate.setDate(1);
@@ -843,6 +2719,7 @@ export async function getMonthlySales(userId: string | number | mongoose.Types.O
       $match: {
         userId: toUserId(userId),
         createdAt: { $gte: startDate },
+        ...branchFilter(branchId),
       },
     },
     {
@@ -850,6 +2727,7 @@ export async function getMonthlySales(userId: string | number | mongoose.Types.O
         _id: { $dateToString: { format: "%Y-%m", date: "$createdAt" } },
         monthName: { $first: { $dateToString: { format: "%b %Y", date: "$createdAt" } } },
         totalAmount: { $sum: "$totalAmount" },
+        costTotal: { $sum: { $ifNull: ["$costTotal", 0] } },
         saleCount: { $sum: 1 },
       },
     },
@@ -858,41 +2736,48 @@ export async function getMonthlySales(userId: string | number | mongoose.Types.O
     },
   ]);
 
+  const returnsByMonth = await getReturnTotalsByPeriod(userId, startDate, "%Y-%m", branchId);
+
   return result.map((r) => ({
     month: r._id,
     monthName: r.monthName,
-    totalAmount: r.totalAmount,
+    ...toProfitPeriod(r, returnsByMonth.get(r._id)),
     saleCount: r.saleCount,
   }));
 }
 
-export async function getTopSellingProducts(userId: string | number | mongoose.Types.ObjectId, limit = 5) {
+/**
+ * สินค้าขายดี - เรียงตามจำนวนที่ขาย (quantity) หรือกำไรขั้นต้น (profit)
+ */
+export async function getTopSellingProducts(
+  userId: string | number | mongoose.Types.ObjectId,
+  limit = 5,
+  sortBy: "quantity" | "profit" = "quantity",
+  categoryId?: string | null, // undefined = ทุกหมวด, null = ไม่มีหมวด
+  branchId?: BranchScope
+) {
   const result = await SaleItem.aggregate([
+    ...saleItemsWithCategoryPipeline(userId, undefined, branchId),
+    ...(categoryId !== undefined
+      ? [{ $match: { categoryId: categoryId ? toObjectId(categoryId) : null } }]
+      : []),
     {
-      $lookup: {
-        from: "sales",
-        localField: "saleId",
-        foreignField: "_id",
-        as: "sale",
+      $group: {
+        _id: { productId: "$productId", productName: "$productName" },
+        categoryId: { $first: "$categoryId" },
+        totalQuantity: { $sum: NET_SOLD_BASE_QUANTITY },
+        totalRevenue: { $sum: NET_SOLD_AMOUNT },
+        totalCost: { $sum: NET_SOLD_COST },
       },
     },
     {
-      $unwind: "$sale",
-    },
-    {
-      $match: {
-        "sale.userId": toUserId(userId),
-      },
+      $match: { totalQuantity: { $gt: 0 } },
     },
     {
-      $group: {
-        _id: { productId: "$productId", productName: "$productName" },
-        totalQuantity: { $sum: "$quantity" },
-        totalRevenue: { $sum: "$totalPrice" },
-      },
+      $addFields: { grossProfit: { $subtract: ["$totalRevenue", "$totalCost"] } },
     },
     {
-      $sort: { totalQuantity: -1 },
+      $sort: sortBy === "profit" ? { grossProfit: -1 } : { totalQuantity: -1 },
     },
     {
       $limit: limit,
@@ -902,12 +2787,19 @@ export async function getTopSellingProducts(userId: string | number | mongoose.T
   return result.map((r) => ({
     productId: r._id.productId.toString(),
     productName: r._id.productName,
+    categoryId: r.categoryId ? r.categoryId.toString() : null,
     totalQuantity: r.totalQuantity,
     totalRevenue: r.totalRevenue,
+    totalCost: r.totalCost,
+    grossProfit: r.grossProfit,
+    grossMargin: grossMarginPercent(r.totalRevenue, r.grossProfit),
   }));
 }
 
-export async function getSalesSummary(userId: string | number | mongoose.Types.ObjectId) {
+export async function getSalesSummary(
+  userId: string | number | mongoose.Types.ObjectId,
+  branchId?: BranchScope
+) {
   const today = new Date();
   today.setHours(0, 0, 0, 0);
   const tomorrow = new Date(today);
@@ -929,6 +2821,7 @@ export async function getSalesSummary(userId: string | number | mongoose.Types.O
         $match: {
           userId: toUserId(userId),
           createdAt: { $gte: today, $lt: tomorrow },
+          ...branchFilter(branchId),
         },
       },
       {
@@ -938,6 +2831,8 @@ export async function getSalesSummary(userId: string | number | mongoose.Types.O
           subtotal: { $sum: { $ifNull: ["$subtotal", 0] } },
           vatAmount: { $sum: { $ifNull: ["$vatAmount", 0] } },
           totalWithVat: { $sum: { $ifNull: ["$totalWithVat", 0] } },
+          discountTotal: { $sum: { $ifNull: ["$discountTotal", 0] } },
+          costTotal: { $sum: { $ifNull: ["$costTotal", 0] } },
           saleCount: { $sum: 1 },
         },
       },
@@ -947,6 +2842,7 @@ export async function getSalesSummary(userId: string | number | mongoose.Types.O
         $match: {
           userId: toUserId(userId),
           createdAt: { $gte: weekStart },
+          ...branchFilter(branchId),
         },
       },
       {
@@ -956,6 +2852,8 @@ export async function getSalesSummary(userId: string | number | mongoose.Types.O
           subtotal: { $sum: { $ifNull: ["$subtotal", 0] } },
           vatAmount: { $sum: { $ifNull: ["$vatAmount", 0] } },
           totalWithVat: { $sum: { $ifNull: ["$totalWithVat", 0] } },
+          discountTotal: { $sum: { $ifNull: ["$discountTotal", 0] } },
+          costTotal: { $sum: { $ifNull: ["$costTotal", 0] } },
           saleCount: { $sum: 1 },
         },
       },
@@ -965,6 +2863,7 @@ export async function getSalesSummary(userId: string | number | mongoose.Types.O
         $match: {
           userId: toUserId(userId),
           createdAt: { $gte: monthStart },
+          ...branchFilter(branchId),
         },
       },
       {
@@ -974,34 +2873,207 @@ export async function getSalesSummary(userId: string | number | mongoose.Types.O
           subtotal: { $sum: { $ifNull: ["$subtotal", 0] } },
           vatAmount: { $sum: { $ifNull: ["$vatAmount", 0] } },
           totalWithVat: { $sum: { $ifNull: ["$totalWithVat", 0] } },
+          discountTotal: { $sum: { $ifNull: ["$discountTotal", 0] } },
+          costTotal: { $sum: { $ifNull: ["$costTotal", 0] } },
           saleCount: { $sum: 1 },
         },
       },
     ]),
   ]);
 
+  // ยอดคืนสินค้าในแต่ละช่วง → หักออกเป็นยอดสุทธิ
+  const [todayReturns, weekReturns, monthReturns] = await Promise.all([
+    getReturnTotals(userId, today, tomorrow, branchId),
+    getReturnTotals(userId, weekStart, undefined, branchId),
+    getReturnTotals(userId, monthStart, undefined, branchId),
+  ]);
+
+  const toPeriodSummary = (
+    sales: any,
+    returns: Awaited<ReturnType<typeof getReturnTotals>>
+  ) => ({
+    ...toProfitPeriod(
+      { totalAmount: sales?.totalAmount ?? 0, costTotal: sales?.costTotal ?? 0 },
+      returns
+    ),
+    subtotal: (sales?.subtotal ?? 0) - returns.subtotal,
+    vatAmount: (sales?.vatAmount ?? 0) - returns.vatAmount,
+    totalWithVat: (sales?.totalWithVat ?? 0) - returns.totalWithVat,
+    saleCount: sales?.saleCount ?? 0,
+    discountTotal: sales?.discountTotal ?? 0, // ส่วนลดที่ให้ลูกค้า (รายการ + ท้ายบิล)
+    refundAmount: returns.totalWithVat,
+    returnCount: returns.returnCount,
+  });
+
+  return {
+    today: toPeriodSummary(todayResult[0], todayReturns),
+    thisWeek: toPeriodSummary(weekResult[0], weekReturns),
+    thisMonth: toPeriodSummary(monthResult[0], monthReturns),
+  };
+}
+
+/**
+ * มูลค่าสินค้าคงเหลือ ณ สิ้นวันที่กำหนด (สำหรับปิดงวดบัญชี) - รวมทุกสาขา (ต้นทุนคิดทั้งร้าน)
+ * - ใช้ยอดคงเหลือ (balanceQuantity/balanceValue) ของการเคลื่อนไหวล่าสุดก่อนเวลา asOf
+ * - สินค้าที่ไม่มีประวัติที่บันทึกยอดคงเหลือ (ข้อมูลเก่า) → ย้อนจำนวนจากสต็อกปัจจุบัน
+ *   หักการเคลื่อนไหวหลัง asOf แล้วคูณทุนปัจจุบัน (estimated = true)
+ */
+export async function getStockValuation(
+  userId: string | number | mongoose.Types.ObjectId,
+  asOf: Date = new Date()
+) {
+  const products = await Product.find({
+    userId: toUserId(userId),
+    createdAt: { $lte: asOf },
+  })
+    .select({ _id: 1, name: 1, stock: 1, costPrice: 1 })
+    .sort({ name: 1 })
+    .lean();
+  const productIds = products.map((p) => p._id);
+
+  const [lastBalances, laterMovements, costingMethod] = await Promise.all([
+    StockMovement.aggregate([
+      { $match: { productId: { $in: productIds }, createdAt: { $lte: asOf } } },
+      { $sort: { productId: 1, createdAt: -1, _id: -1 } },
+      {
+        $group: {
+          _id: "$productId",
+          balanceQuantity: { $first: "$balanceQuantity" },
+          balanceValue: { $first: "$balanceValue" },
+        },
+      },
+    ]),
+    StockMovement.aggregate([
+      { $match: { productId: { $in: productIds }, createdAt: { $gt: asOf } } },
+      {
+        $group: {
+          _id: "$productId",
+          netQuantity: {
+            $sum: {
+              $cond: [{ $eq: ["$type", "IN"] }, "$quantity", { $multiply: ["$quantity", -1] }],
+            },
+          },
+        },
+      },
+    ]),
+    getCostingMethod(userId),
+  ]);
+  const balanceByProduct = new Map(lastBalances.map((b: any) => [b._id.toString(), b] as const));
+  const laterNetByProduct = new Map(
+    laterMovements.map((m: any) => [m._id.toString(), m.netQuantity as number] as const)
+  );
+
+  const items = products
+    .map((p) => {
+      const id = p._id.toString();
+      const balance = balanceByProduct.get(id);
+      const hasBalance = balance?.balanceQuantity != null && balance?.balanceValue != null;
+      const quantity: number = hasBalance
+        ? balance.balanceQuantity
+        : p.stock - (laterNetByProduct.get(id) ?? 0);
+      const value = hasBalance
+        ? roundMoney(balance.balanceValue)
+        : roundMoney(Math.max(0, quantity) * (p.costPrice ?? 0));
+      return {
+        productId: id,
+        productName: p.name,
+        quantity,
+        unitCost: quantity > 0 ? roundUnitCost(value / quantity) : 0,
+        value,
+        estimated: !hasBalance,
+      };
+    })
+    .filter((item) => item.quantity !== 0)
+    .sort((a, b) => b.value - a.value);
+
   return {
-    today: {
-      totalAmount: todayResult[0]?.totalAmount ?? 0,
-      subtotal: todayResult[0]?.subtotal ?? 0,
-      vatAmount: todayResult[0]?.vatAmount ?? 0,
-      totalWithVat: todayResult[0]?.totalWithVat ?? 0,
-      saleCount: todayResult[0]?.saleCount ?? 0,
-    },
-    thisWeek: {
-      totalAmount: weekResult[0]?.totalAmount ?? 0,
-      subtotal: weekResult[0]?.subtotal ?? 0,
-      vatAmount: weekResult[0]?.vatAmount ?? 0,
-      totalWithVat: weekResult[0]?.totalWithVat ?? 0,
-      saleCount: weekResult[0]?.saleCount ?? 0,
+    asOf,
+    costingMethod,
+    items,
+    totalQuantity: items.reduce((sum, item) => sum + item.quantity, 0),
+    totalValue: roundMoney(items.reduce((sum, item) => sum + item.value, 0)),
+    hasEstimates: items.some((item) => item.estimated),
+  };
+}
+
+/**
+ * รายงานของหาย/ตัดทิ้ง (shrinkage): รวมการปรับสต็อกออก (ADJUST OUT) ตามเหตุผลและสินค้า
+ * มูลค่าคิดจากทุนที่ตัดออกตอนปรับ (ข้อมูลเก่าที่ไม่มีทุน = 0)
+ */
+export async function getShrinkageReport(
+  userId: string | number | mongoose.Types.ObjectId,
+  from: Date,
+  to: Date,
+  branchId?: BranchScope
+) {
+  const products = await Product.find({ userId: toUserId(userId) })
+    .select({ _id: 1, name: 1 })
+    .lean();
+  const productNameById = new Map(products.map((p) => [p._id.toString(), p.name] as const));
+
+  const rows: Array<{
+    _id: { productId: mongoose.Types.ObjectId; reason: StockAdjustReason };
+    quantity: number;
+    value: number;
+    count: number;
+  }> = await StockMovement.aggregate([
+    {
+      $match: {
+        productId: { $in: products.map((p) => p._id) },
+        source: "ADJUST",
+        type: "OUT",
+        createdAt: { $gte: from, $lte: to },
+        ...branchFilter(branchId),
+      },
     },
-    thisMonth: {
-      totalAmount: monthResult[0]?.totalAmount ?? 0,
-      subtotal: monthResult[0]?.subtotal ?? 0,
-      vatAmount: monthResult[0]?.vatAmount ?? 0,
-      totalWithVat: monthResult[0]?.totalWithVat ?? 0,
-      saleCount: monthResult[0]?.saleCount ?? 0,
+    {
+      $group: {
+        _id: { productId: "$productId", reason: { $ifNull: ["$reason", "other"] } },
+        quantity: { $sum: "$quantity" },
+        value: { $sum: { $ifNull: ["$totalCost", 0] } },
+        count: { $sum: 1 },
+      },
     },
+  ]);
+
+  const byReason = new Map<StockAdjustReason, { quantity: number; value: number; count: number }>();
+  const byProduct = new Map<
+    string,
+    { quantity: number; value: number; reasons: Partial<Record<StockAdjustReason, number>> }
+  >();
+  for (const row of rows) {
+    const reason = row._id.reason;
+    const productId = row._id.productId.toString();
+
+    const reasonTotal = byReason.get(reason) ?? { quantity: 0, value: 0, count: 0 };
+    reasonTotal.quantity += row.quantity;
+    reasonTotal.value += row.value;
+    reasonTotal.count += row.count;
+    byReason.set(reason, reasonTotal);
+
+    const productTotal = byProduct.get(productId) ?? { quantity: 0, value: 0, reasons: {} };
+    productTotal.quantity += row.quantity;
+    productTotal.value += row.value;
+    productTotal.reasons[reason] = (productTotal.reasons[reason] ?? 0) + row.quantity;
+    byProduct.set(productId, productTotal);
+  }
+
+  return {
+    from,
+    to,
+    totalQuantity: rows.reduce((sum, row) => sum + row.quantity, 0),
+    totalValue: roundMoney(rows.reduce((sum, row) => sum + row.value, 0)),
+    byReason: Array.from(byReason.entries())
+      .map(([reason, total]) => ({ reason, ...total, value: roundMoney(total.value) }))
+      .sort((a, b) => b.value - a.value || b.quantity - a.quantity),
+    byProduct: Array.from(byProduct.entries())
+      .map(([productId, total]) => ({
+        productId,
+        productName: productNameById.get(productId) ?? "ไม่ทราบชื่อสินค้า",
+        ...total,
+        value: roundMoney(total.value),
+      }))
+      .sort((a, b) => b.value - a.value || b.quantity - a.quantity),
   };
 }
 
@@ -1035,15 +3107,18 @@ export type InsertShift = {
   creditSales: number;
   saleCount: number;
   status: "open" | "closed";
+  branchId?: string | null; // สาขาของกะ (ไม่ระบุ = สาขาหลัก)
+  cashierId?: string | null; // แคชเชียร์ที่เปิดกะ
 };
 
 export type Shift = IShift & { id: string };
 
 /**
- * Find open shift for today
+ * Find open shift for today (กะแยกตามสาขา - ไม่ระบุ = สาขาหลัก)
  */
 export async function getOpenShiftToday(
-  userId: string | number | mongoose.Types.ObjectId
+  userId: string | number | mongoose.Types.ObjectId,
+  branchId: string | null = null
 ): Promise<Shift | null> {
   const today = getTodayDate();
   
@@ -1051,6 +3126,7 @@ export async function getOpenShiftToday(
     userId: toUserId(userId),
     shiftDate: today,
     status: "open",
+    ...branchFilter(branchId),
   }).lean();
 
   if (!shift) return null;
@@ -1065,13 +3141,15 @@ export async function getOpenShiftToday(
  * Get latest shift for today (any status)
  */
 export async function getTodayShift(
-  userId: string | number | mongoose.Types.ObjectId
+  userId: string | number | mongoose.Types.ObjectId,
+  branchId: string | null = null
 ): Promise<Shift | null> {
   const today = getTodayDate();
   
   const shift = await Shift.findOne({
     userId: toUserId(userId),
     shiftDate: today,
+    ...branchFilter(branchId),
   })
     .sort({ startTime: -1 })
     .lean();
@@ -1088,7 +3166,8 @@ export async function getTodayShift(
  * Get max shift number for today
  */
 export async function getMaxShiftNumberToday(
-  userId: string | number | mongoose.Types.ObjectId
+  userId: string | number | mongoose.Types.ObjectId,
+  branchId: string | null = null
 ): Promise<number> {
   const today = getTodayDate();
   
@@ -1097,6 +3176,7 @@ export async function getMaxShiftNumberToday(
       $match: {
         userId: toUserId(userId),
         shiftDate: today,
+        ...branchFilter(branchId),
       },
     },
     {
@@ -1126,6 +3206,8 @@ export async function createShift(shift: InsertShift): Promise<Shift> {
     creditSales: shift.creditSales,
     saleCount: shift.saleCount,
     status: shift.status,
+    branchId: shift.branchId ? toObjectId(shift.branchId) : null,
+    cashierId: shift.cashierId ? toObjectId(shift.cashierId) : null,
   });
 
   const saved = await newShift.save();
@@ -1141,60 +3223,79 @@ export async function createShift(shift: InsertShift): Promise<Shift> {
 export async function getSalesSummaryForShift(
   userId: string | number | mongoose.Types.ObjectId,
   startTime: Date,
-  endTime: Date
+  endTime: Date,
+  branchId: string | null = null
 ) {
-  const [cashResult, creditResult, totalResult] = await Promise.all([
-    // Cash sales
-    Sale.aggregate([
-      {
-        $match: {
-          userId: toUserId(userId),
-          paymentType: "cash",
-          createdAt: { $gte: startTime, $lt: endTime },
-        },
-      },
-      {
-        $group: {
-          _id: null,
-          total: { $sum: "$totalAmount" },
-          count: { $sum: 1 },
-        },
-      },
-    ]),
-    // Credit sales
-    Sale.aggregate([
+  const [sales, returnResult] = await Promise.all([
+    Sale.find({
+      userId: toUserId(userId),
+      createdAt: { $gte: startTime, $lt: endTime },
+      ...branchFilter(branchId),
+    })
+      .select({ paymentType: 1, payments: 1, totalAmount: 1, totalWithVat: 1, changeAmount: 1 })
+      .lean(),
+    // Returns / voids ในกะนี้ (แยกตามวิธีคืนเงิน)
+    SaleReturn.aggregate([
       {
         $match: {
           userId: toUserId(userId),
-          paymentType: "credit",
           createdAt: { $gte: startTime, $lt: endTime },
+          ...branchFilter(branchId),
         },
       },
       {
         $group: {
-          _id: null,
-          total: { $sum: "$totalAmount" },
-          count: { $sum: 1 },
+          _id: "$paymentType",
+          total: { $sum: "$totalWithVat" },
+          creditAmount: { $sum: RETURN_CREDIT_AMOUNT_EXPR },
         },
       },
     ]),
-    // Total sales count
-    Sale.countDocuments({
-      userId: toUserId(userId),
-      createdAt: { $gte: startTime, $lt: endTime },
-    }),
   ]);
 
-  const cashSales = cashResult[0]?.total ?? 0;
-  const creditSales = creditResult[0]?.total ?? 0;
-  const totalSales = cashSales + creditSales;
-  const saleCount = totalResult;
+  // ยอดรับจริงแยกตามวิธีชำระ (เงินสดหักเงินทอนแล้ว)
+  const byMethod: Record<PaymentMethod, number> = {
+    cash: 0,
+    transfer: 0,
+    promptpay: 0,
+    card: 0,
+    credit: 0,
+  };
+  for (const sale of sales) {
+    for (const payment of getSalePayments(sale)) {
+      byMethod[payment.method] += payment.amount;
+    }
+    byMethod.cash -= sale.changeAmount ?? 0;
+  }
+
+  // เงินที่คืนลูกค้า / ยอดเชื่อที่ถูกลดหนี้
+  // (ส่วนที่ลดหนี้หักจากยอดเชื่อ ที่เหลือหักจากช่องทางที่คืนเงิน)
+  let refundAmount = 0;
+  for (const r of returnResult) {
+    const method = r._id as PaymentMethod;
+    byMethod.credit -= r.creditAmount;
+    if (method in byMethod) byMethod[method] -= r.total - r.creditAmount;
+    refundAmount += r.total;
+  }
+
+  const cashSales = roundMoney(byMethod.cash);
+  const creditSales = roundMoney(byMethod.credit);
+  const transferSales = roundMoney(byMethod.transfer);
+  const promptPaySales = roundMoney(byMethod.promptpay);
+  const cardSales = roundMoney(byMethod.card);
+  const totalSales = roundMoney(
+    cashSales + creditSales + transferSales + promptPaySales + cardSales
+  );
 
   return {
     totalSales,
     cashSales,
     creditSales,
-    saleCount,
+    transferSales,
+    promptPaySales,
+    cardSales,
+    saleCount: sales.length,
+    refundAmount: roundMoney(refundAmount),
   };
 }
 
@@ -1212,6 +3313,9 @@ export async function closeShift(
     totalSales: number;
     cashSales: number;
     creditSales: number;
+    transferSales?: number;
+    promptPaySales?: number;
+    cardSales?: number;
     saleCount: number;
     notes?: string | null;
   }
@@ -1227,6 +3331,9 @@ export async function closeShift(
       totalSales: data.totalSales,
       cashSales: data.cashSales,
       creditSales: data.creditSales,
+      transferSales: data.transferSales ?? 0,
+      promptPaySales: data.promptPaySales ?? 0,
+      cardSales: data.cardSales ?? 0,
       saleCount: data.saleCount,
       status: "closed",
       notes: data.notes ?? null,
@@ -1265,16 +3372,27 @@ export async function getReceiptData(saleId: string | number | mongoose.Types.Ob
     items: items.map((item) => ({
       productName: item.productName,
       quantity: item.quantity,
+      unitName: item.unitName ?? null,
+      quantityPrecision: item.quantityPrecision ?? 0,
       unitPrice: String(item.unitPrice),
       totalPrice: String(item.totalPrice),
+      discountAmount: item.discountAmount ?? 0,
     })),
     totalAmount: sale.totalAmount,
     paymentType: sale.paymentType,
+    payments: getSalePayments(sale),
+    changeAmount: sale.changeAmount ?? 0,
+    // Discount fields (บิลเก่าไม่มีส่วนลด)
+    billDiscountAmount: sale.billDiscountAmount ?? 0,
+    discountTotal: sale.discountTotal ?? 0,
     // VAT fields (backward compatible)
     subtotal: (sale as any).subtotal ?? sale.totalAmount,
     vatRate: (sale as any).vatRate ?? 0,
     vatAmount: (sale as any).vatAmount ?? 0,
     totalWithVat: (sale as any).totalWithVat ?? sale.totalAmount,
+    // Return / void fields (บิลเก่าไม่มี field เหล่านี้)
+    status: sale.status ?? "completed",
+    refundedAmount: sale.refundedAmount ?? 0,
   };
 }
 
@@ -1349,6 +3467,12 @@ export function formatReceiptText(receiptData: Awaited<ReturnType<typeof getRece
   }
   
   lines.push(separator("="));
+
+  // บิลที่ถูกยกเลิกแล้ว (พิมพ์ซ้ำ)
+  const saleStatus = (receiptData as any).status ?? "completed";
+  if (saleStatus === "voided") {
+    lines.push(centerText("*** ยกเลิกบิลแล้ว ***"));
+  }
   lines.push("");
 
   // Date and receipt number
@@ -1376,7 +3500,7 @@ export function formatReceiptText(receiptData: Awaited<ReturnType<typeof getRece
   // Items with proper wrapping
   for (const item of receiptData.items) {
     const productNameLines = wrapText(item.productName, PRODUCT_NAME_WIDTH);
-    const qty = String(item.quantity);
+    const qty = formatQuantity(item.quantity, (item as any).quantityPrecision ?? 0);
     const price = `฿${parseFloat(String(item.totalPrice)).toLocaleString("th-TH", { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
     
     // First line: product name + qty + price
@@ -1389,6 +3513,19 @@ export function formatReceiptText(receiptData: Awaited<ReturnType<typeof getRece
     for (let i = 1; i < productNameLines.length; i++) {
       lines.push(productNameLines[i]);
     }
+
+    // หน่วยที่ขาย (สินค้าที่ขายได้หลายหน่วย เช่น แพ็ค/ลัง)
+    const unitName = (item as any).unitName;
+    if (unitName) {
+      const unitPrice = parseFloat(String(item.unitPrice)).toLocaleString("th-TH", { maximumFractionDigits: 2 });
+      lines.push(`  ${qty} ${unitName} x ฿${unitPrice}`);
+    }
+
+    // ส่วนลดรายการ (ราคาบรรทัดด้านบนหักส่วนลดแล้ว)
+    const itemDiscount = (item as any).discountAmount ?? 0;
+    if (itemDiscount > 0) {
+      lines.push(`  ส่วนลด -${itemDiscount.toLocaleString("th-TH", { maximumFractionDigits: 2 })}`);
+    }
   }
 
   lines.push(separator("-"));
@@ -1399,6 +3536,12 @@ export function formatReceiptText(receiptData: Awaited<ReturnType<typeof getRece
     return `฿${amount.toLocaleString("th-TH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
   };
 
+  // ส่วนลดท้ายบิล (หักก่อน VAT)
+  const billDiscountAmount = (receiptData as any).billDiscountAmount ?? 0;
+  if (billDiscountAmount > 0) {
+    lines.push(`ส่วนลดท้ายบิล    -${formatAmount(billDiscountAmount)}`);
+  }
+
   if (vatRate > 0) {
     // มี VAT - แสดง breakdown
     const subtotal = (receiptData as any).subtotal ?? receiptData.totalAmount;
@@ -1421,11 +3564,40 @@ export function formatReceiptText(receiptData: Awaited<ReturnType<typeof getRece
   }
   lines.push("");
 
-  // Payment method
-  const paymentMethod = receiptData.paymentType === "credit" ? "ขายเชื่อ" : "เงินสด";
-  lines.push(`วิธีชำระ: ${paymentMethod}`);
+  const discountTotal = (receiptData as any).discountTotal ?? 0;
+  if (discountTotal > 0) {
+    lines.push(`ประหยัดไป ${formatAmount(discountTotal)}`);
+  }
 
-  lines.push("");
+  // Payment method
+  const payments: Array<{ method: PaymentMethod; amount: number; reference?: string | null }> =
+    (receiptData as any).payments ?? [];
+  const changeAmount = (receiptData as any).changeAmount ?? 0;
+  if (payments.length > 0) {
+    const methodLabels = Array.from(new Set(payments.map((p) => PAYMENT_METHOD_LABELS[p.method])));
+    lines.push(`วิธีชำระ: ${methodLabels.join(" + ")}`);
+    // แสดงรายละเอียดเมื่อจ่ายหลายวิธีหรือมีเงินทอน
+    if (payments.length > 1 || changeAmount > 0) {
+      for (const payment of payments) {
+        const ref = payment.reference ? ` (${payment.reference})` : "";
+        lines.push(`  ${PAYMENT_METHOD_LABELS[payment.method]}${ref}  ${formatAmount(payment.amount)}`);
+      }
+    }
+    if (changeAmount > 0) {
+      lines.push(`เงินทอน          ${formatAmount(changeAmount)}`);
+    }
+  } else {
+    const paymentMethod = receiptData.paymentType === "credit" ? "ขายเชื่อ" : "เงินสด";
+    lines.push(`วิธีชำระ: ${paymentMethod}`);
+  }
+
+  // ยอดคืนสินค้า (ถ้ามีการคืนบางรายการ)
+  const refundedAmount = (receiptData as any).refundedAmount ?? 0;
+  if (saleStatus === "partially_returned" && refundedAmount > 0) {
+    lines.push(`คืนสินค้าแล้ว: ${formatAmount(refundedAmount)}`);
+  }
+
+  lines.push("");
   lines.push(separator("="));
   lines.push(centerText("ขอบคุณที่ใช้บริการ"));
   lines.push(separator("="));
@@ -1452,7 +3624,9 @@ export function formatFullTaxInvoiceText(invoiceData: {
     quantity: number;
     unitPrice: number | string;
     totalPrice: number | string;
+    discountAmount?: number; // ส่วนลดรายการ (totalPrice หักแล้ว)
   }>;
+  billDiscountAmount?: number; // ส่วนลดท้ายบิล (หักก่อน VAT)
   subtotal: number;
   vatAmount: number;
   totalWithVat: number;
@@ -1534,9 +3708,15 @@ export function formatFullTaxInvoiceText(invoiceData: {
       qty.padStart(6) + 
       price.padStart(10)
     );
+    if (item.discountAmount && item.discountAmount > 0) {
+      lines.push(`  ส่วนลด -${formatAmount(item.discountAmount)}`);
+    }
   }
   
   lines.push(separator("-"));
+  if (invoiceData.billDiscountAmount && invoiceData.billDiscountAmount > 0) {
+    lines.push(`ส่วนลดท้ายบิล    -${formatAmount(invoiceData.billDiscountAmount)}`);
+  }
   lines.push("");
   
   // สรุปภาษี
@@ -1559,53 +3739,170 @@ export function formatFullTaxInvoiceText(invoiceData: {
 // ==================== SETTINGS FUNCTIONS ====================
 
 /**
- * ดึง settings (singleton - มีแค่ 1 record)
+ * ดึง settings ของร้าน (1 ร้าน = 1 record)
  * ถ้ายังไม่มี → สร้างใหม่ด้วย default values
  */
-export async function getSettings(): Promise<ISettings> {
-  // Try to find by singleton field first, then fallback to any document (for migration)
-  let settings = await Settings.findOne({ singleton: "settings" }).lean();
-  
-  if (!settings) {
-    // Check if there's an old document without singleton field (migration case)
-    const oldSettings = await Settings.findOne().lean();
-    if (oldSettings) {
-      // Update old document to include singleton field
-      await Settings.updateOne(
-        { _id: oldSettings._id },
-        { $set: { singleton: "settings" } }
-      );
-      settings = { ...oldSettings, singleton: "settings" } as any;
-    } else {
-      // สร้าง settings ใหม่ด้วย default values
-      const newSettings = new Settings({
-        singleton: "settings",
-        vatEnabled: false,
-      });
-      await newSettings.save();
-      settings = newSettings.toObject();
-    }
-  }
-  
+export async function getSettings(
+  userId: string | number | mongoose.Types.ObjectId
+): Promise<ISettings> {
+  const settings = await Settings.findOneAndUpdate(
+    { userId: toUserId(userId) },
+    { $setOnInsert: { userId: toUserId(userId), vatEnabled: false } },
+    { new: true, upsert: true }
+  ).lean();
+
   return settings as ISettings;
 }
 
 /**
- * อัปเดต settings
+ * อัปเดต settings ของร้าน
  */
-export async function updateSettings(updates: Partial<Pick<ISettings, "vatEnabled" | "sellerName" | "sellerAddress" | "sellerTaxId">>): Promise<ISettings> {
-  // Ensure settings exists
-  await getSettings();
-  
+export async function updateSettings(
+  userId: string | number | mongoose.Types.ObjectId,
+  updates: Partial<
+    Pick<
+      ISettings,
+      | "vatEnabled"
+      | "sellerName"
+      | "sellerAddress"
+      | "sellerTaxId"
+      | "promptPayId"
+      | "scaleBarcodeRules"
+      | "internalBarcodePrefix"
+      | "reorderSalesWindowDays"
+      | "reorderCoverDays"
+      | "reorderLeadTimeDays"
+    >
+  >
+): Promise<ISettings> {
   const updated = await Settings.findOneAndUpdate(
-    { singleton: "settings" },
-    { $set: updates },
+    { userId: toUserId(userId) },
+    { $set: updates, $setOnInsert: { userId: toUserId(userId) } },
     { new: true, upsert: true }
   ).lean();
-  
+
   return updated as ISettings;
 }
 
+/**
+ * เปลี่ยนวิธีคิดต้นทุนของร้าน
+ * - เป็น fifo → ตั้งชั้นต้นทุนยกมา (สต็อกปัจจุบัน × ทุนปัจจุบัน) แทนชั้นเดิมทั้งหมด
+ * - เป็น average → ตั้งทุนเฉลี่ยจากมูลค่าคงเหลือตามชั้นต้นทุน FIFO
+ */
+export async function changeCostingMethod(
+  userId: string | number | mongoose.Types.ObjectId,
+  costingMethod: CostingMethod
+): Promise<void> {
+  const current = await getCostingMethod(userId);
+  if (current === costingMethod) return;
+
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      const products = await Product.find({ userId: toUserId(userId) })
+        .select({ _id: 1, stock: 1, costPrice: 1 })
+        .session(session)
+        .lean();
+
+      if (costingMethod === "fifo") {
+        await CostLayer.deleteMany({ userId: toUserId(userId) }, { session });
+        // ชั้นยกมาแยกตามสาขา: สาขาอื่นตาม BranchStock ที่เหลือเป็นของสาขาหลัก
+        const branchStocks = await BranchStock.find({
+          productId: { $in: products.map((p) => p._id) },
+          stock: { $gt: 0 },
+        })
+          .select({ productId: 1, branchId: 1, stock: 1 })
+          .session(session)
+          .lean();
+        const mainStocks = await withBranchStock(products, null, session);
+        const openingLayers = [
+          ...mainStocks.map((p) => ({ product: p, branchId: null, stock: p.stock })),
+          ...branchStocks.map((row) => ({
+            product: products.find((p) => p._id.equals(row.productId))!,
+            branchId: row.branchId,
+            stock: row.stock,
+          })),
+        ]
+          .filter((entry) => entry.product && entry.stock > 0)
+          .map((entry) => ({
+            userId: toUserId(userId),
+            productId: entry.product._id,
+            quantity: entry.stock,
+            remainingQuantity: entry.stock,
+            unitCost: entry.product.costPrice ?? 0,
+            movementId: null,
+            branchId: entry.branchId,
+          }));
+        if (openingLayers.length > 0) {
+          await CostLayer.insertMany(openingLayers, { session });
+        }
+      } else {
+        for (const p of products) {
+          if (p.stock <= 0) continue;
+          const value = await getFifoBalanceValue(p._id, p.stock, p.costPrice ?? 0, session);
+          const costPrice = roundUnitCost(value / p.stock);
+          if (costPrice !== (p.costPrice ?? 0)) {
+            await Product.updateOne({ _id: p._id }, { $set: { costPrice } }, { session });
+          }
+        }
+      }
+
+      await Settings.updateOne(
+        { userId: toUserId(userId) },
+        { $set: { costingMethod }, $setOnInsert: { userId: toUserId(userId) } },
+        { upsert: true, session }
+      );
+    });
+  } finally {
+    await session.endSession();
+  }
+}
+
+/**
+ * ย้าย settings singleton เดิม (ก่อนแยกตามร้าน) ไปเป็นของร้านแอดมินคนแรก
+ * - เรียกครั้งเดียวตอน server start, เรียกซ้ำได้ (ถ้าไม่มี record เก่าจะไม่ทำอะไร)
+ * - ถ้าแอดมินคนแรกมี settings ของตัวเองแล้ว → ไม่ทับ, เก็บ record เก่าไว้ตามเดิม
+ */
+export async function migrateLegacySettings(): Promise<void> {
+  // unique index เดิมของ singleton ทำให้สร้าง settings หลายร้านไม่ได้ (ไม่มี index/collection = ไม่ต้องทำ)
+  try {
+    await Settings.collection.dropIndex("singleton_1");
+    console.log("[Settings] Dropped legacy singleton index");
+  } catch (error: any) {
+    if (error?.codeName !== "IndexNotFound" && error?.codeName !== "NamespaceNotFound") {
+      throw error;
+    }
+  }
+
+  const legacy = await Settings.findOne({
+    $or: [{ userId: null }, { userId: { $exists: false } }],
+  }).lean();
+  if (!legacy) return;
+
+  const firstAdmin = await User.findOne({ role: "admin" })
+    .sort({ createdAt: 1 })
+    .select("_id")
+    .lean();
+  if (!firstAdmin) {
+    console.warn("[Settings] Legacy settings found but no admin user to migrate them to");
+    return;
+  }
+
+  const existing = await Settings.findOne({ userId: firstAdmin._id }).lean();
+  if (existing) {
+    console.warn(
+      `[Settings] Admin ${firstAdmin._id.toString()} already has settings, legacy settings left untouched`
+    );
+    return;
+  }
+
+  await Settings.updateOne(
+    { _id: legacy._id },
+    { $set: { userId: firstAdmin._id }, $unset: { singleton: "" } }
+  );
+  console.log(`[Settings] Migrated legacy settings to admin ${firstAdmin._id.toString()}`);
+}
+
 // ==================== FULL TAX INVOICE FUNCTIONS ====================
 
 /**
@@ -1659,8 +3956,11 @@ export type InsertFullTaxInvoice = {
 export async function createFullTaxInvoice(
   data: InsertFullTaxInvoice
 ): Promise<string> {
-  // ตรวจสอบว่า Sale มี VAT หรือไม่
-  const sale = await Sale.findById(toObjectId(data.saleId)).lean();
+  // ตรวจสอบว่า Sale เป็นของร้านนี้และมี VAT หรือไม่
+  const sale = await Sale.findOne({
+    _id: toObjectId(data.saleId),
+    userId: toUserId(data.userId),
+  }).lean();
   if (!sale) {
     throw new Error("Sale not found");
   }
@@ -1679,8 +3979,8 @@ export async function createFullTaxInvoice(
     throw new Error("บิลนี้มีใบกำกับภาษีเต็มอยู่แล้ว (1 บิล = 1 ใบกำกับภาษีเต็มเท่านั้น)");
   }
   
-  // ดึงข้อมูลผู้ขายจาก Settings
-  const settings = await getSettings();
+  // ดึงข้อมูลผู้ขายจาก Settings ของร้าน
+  const settings = await getSettings(data.userId);
   const missingFields: string[] = [];
   if (!settings.sellerName || !settings.sellerName.trim()) {
     missingFields.push("ชื่อร้าน");
@@ -1737,7 +4037,7 @@ export async function createFullTaxInvoice(
 export async function cancelFullTaxInvoice(
   invoiceId: string | number | mongoose.Types.ObjectId,
   userId: string | number | mongoose.Types.ObjectId
-): Promise<void> {
+): Promise<{ invoiceNumber: string; buyerName: string }> {
   const invoice = await FullTaxInvoice.findOne({
     _id: toObjectId(invoiceId),
     userId: toUserId(userId),
@@ -1754,6 +4054,7 @@ export async function cancelFullTaxInvoice(
   // เปลี่ยนสถานะเป็น cancelled (ไม่ลบข้อมูล)
   invoice.status = "cancelled";
   await invoice.save();
+  return { invoiceNumber: invoice.invoiceNumber, buyerName: invoice.buyerName };
 }
 
 /**
@@ -1791,6 +4092,7 @@ export async function getSaleForFullTaxInvoice(
   }
   
   const items = await SaleItem.find({ saleId: toObjectId(saleId) }).lean();
+  const customer = sale.customerId ? await Customer.findById(sale.customerId).lean() : null;
   
   return {
     saleId: sale._id.toString(),
@@ -1800,13 +4102,24 @@ export async function getSaleForFullTaxInvoice(
       quantity: item.quantity,
       unitPrice: item.unitPrice,
       totalPrice: item.totalPrice,
+      discountAmount: item.discountAmount ?? 0,
     })),
+    billDiscountAmount: sale.billDiscountAmount ?? 0,
     subtotal: (sale as any).subtotal ?? sale.totalAmount,
     vatRate,
     vatAmount: (sale as any).vatAmount ?? 0,
     totalWithVat: (sale as any).totalWithVat ?? sale.totalAmount,
     totalAmount: sale.totalAmount,
     paymentType: sale.paymentType,
+    // ลูกค้าของบิล → ใช้กรอกข้อมูลผู้ซื้อให้อัตโนมัติ
+    customer: customer
+      ? {
+          id: customer._id.toString(),
+          name: customer.name,
+          address: customer.address ?? null,
+          taxId: customer.taxId ?? null,
+        }
+      : null,
   };
 }
 
@@ -1831,3 +4144,1778 @@ export async function getFullTaxInvoices(
     userId: invoice.userId.toString(),
   })) as any[];
 }
+
+// ==================== SALE RETURN / VOID FUNCTIONS ====================
+
+export type ReturnSaleInput = {
+  userId: string | number | mongoose.Types.ObjectId;
+  saleId: string | number | mongoose.Types.ObjectId;
+  /**
+   * void   = ยกเลิกทั้งบิล (คืนทุกรายการที่ยังไม่ได้คืน)
+   * return = คืนเฉพาะรายการใน items
+   */
+  type: "void" | "return";
+  items?: Array<{ saleItemId: string | number; quantity: number }>;
+  reason?: string | null;
+  cashierId?: string | null; // ผู้ทำรายการ
+};
+
+/**
+ * ยอดที่ลดหนี้ของ SaleReturn แต่ละใบ (สำหรับ $group)
+ * ข้อมูลเก่าไม่มี creditAmount → paymentType = credit คือลดหนี้ทั้งก้อน
+ */
+const RETURN_CREDIT_AMOUNT_EXPR = {
+  $ifNull: [
+    "$creditAmount",
+    { $cond: [{ $eq: ["$paymentType", "credit"] }, "$totalWithVat", 0] },
+  ],
+};
+
+/**
+ * คืนสินค้า / ยกเลิกบิล
+ * - บันทึก SaleReturn
+ * - คืนสต็อกด้วย StockMovement source = "RETURN"
+ * - บิลขายเชื่อ → ลดยอดค้างของลูกค้าเฉพาะส่วนที่ขายเชื่อ
+ * - บิลที่มีใบกำกับภาษีเต็ม → ออกใบลดหนี้
+ */
+export async function returnSale(input: ReturnSaleInput) {
+  const session = await mongoose.startSession();
+  try {
+    let result!: Awaited<ReturnType<typeof returnSaleInSession>>;
+    // อ่านและเขียนทั้งหมดใน transaction เดียว - คืนพร้อมกัน 2 เครื่องจะไม่คืนเกินจำนวนที่ขาย
+    await session.withTransaction(async () => {
+      result = await returnSaleInSession(input, session);
+    });
+    return result;
+  } finally {
+    await session.endSession();
+  }
+}
+
+async function returnSaleInSession(input: ReturnSaleInput, session: mongoose.ClientSession) {
+  const sale = await Sale.findOne({
+    _id: toObjectId(input.saleId),
+    userId: toUserId(input.userId),
+  })
+    .session(session)
+    .lean();
+  if (!sale) {
+    throw new Error("ไม่พบบิลขาย");
+  }
+  if (sale.status === "voided") {
+    throw new Error("บิลนี้ถูกยกเลิก/คืนสินค้าครบแล้ว");
+  }
+
+  const saleItems = await SaleItem.find({ saleId: sale._id }).session(session).lean();
+  const remainingOf = (item: (typeof saleItems)[number]) =>
+    item.quantity - (item.returnedQuantity ?? 0);
+
+  // รวมจำนวนที่ขอคืนต่อ saleItem
+  const requested = new Map<string, number>();
+  if (input.type === "void") {
+    for (const item of saleItems) {
+      if (remainingOf(item) > 0) requested.set(item._id.toString(), remainingOf(item));
+    }
+  } else {
+    for (const line of input.items ?? []) {
+      const saleItem = saleItems.find((i) => i._id.toString() === String(line.saleItemId));
+      if (!isValidQuantity(line.quantity, saleItem?.quantityPrecision ?? 0)) {
+        throw new Error(
+          (saleItem?.quantityPrecision ?? 0) > 0
+            ? `จำนวนที่คืนต้องมากกว่า 0 และมีทศนิยมไม่เกิน ${saleItem!.quantityPrecision} ตำแหน่ง`
+            : "จำนวนที่คืนต้องเป็นจำนวนเต็มมากกว่า 0"
+        );
+      }
+      const key = String(line.saleItemId);
+      requested.set(key, (requested.get(key) ?? 0) + line.quantity);
+    }
+  }
+
+  if (requested.size === 0) {
+    throw new Error("ไม่มีรายการที่คืนได้");
+  }
+
+  const returnItems = Array.from(requested.entries()).map(([saleItemId, quantity]) => {
+    const item = saleItems.find((i) => i._id.toString() === saleItemId);
+    if (!item) {
+      throw new Error("ไม่พบรายการสินค้าในบิลนี้");
+    }
+    if (quantity > remainingOf(item)) {
+      throw new Error(`"${item.productName}" คืนได้อีกไม่เกิน ${remainingOf(item)} ชิ้น`);
+    }
+    return {
+      saleItemId: item._id,
+      productId: item.productId,
+      productName: item.productName,
+      quantity,
+      unitPrice: item.unitPrice,
+      // คืนตามสัดส่วนมูลค่าบรรทัดจริง
+      totalPrice: roundMoney((item.totalPrice * quantity) / item.quantity),
+    };
+  });
+
+  // คืนครบทุกรายการหรือไม่ (→ สถานะ voided)
+  const isFullyReturned = saleItems.every(
+    (item) => remainingOf(item) - (requested.get(item._id.toString()) ?? 0) <= 0
+  );
+
+  // ส่วนลดท้ายบิลเฉลี่ยคืนตามสัดส่วนยอดบรรทัด
+  const itemsTotal = saleItems.reduce((sum, item) => sum + item.totalPrice, 0);
+  const billDiscountRatio =
+    itemsTotal > 0 ? 1 - (sale.billDiscountAmount ?? 0) / itemsTotal : 1;
+
+  const vatRate = sale.vatRate ?? 0;
+  let subtotal = roundMoney(
+    returnItems.reduce((sum, item) => sum + item.totalPrice, 0) * billDiscountRatio
+  );
+  let vatAmount = roundMoney(subtotal * vatRate);
+  let totalWithVat = roundMoney(subtotal + vatAmount);
+
+  // ยอดที่คืนไปแล้วของบิลนี้ (ข้อมูลเก่าไม่มี creditAmount → คืนแบบ credit ทั้งก้อน = ลดหนี้ทั้งหมด)
+  const [previous] = await SaleReturn.aggregate([
+    { $match: { saleId: sale._id } },
+    {
+      $group: {
+        _id: null,
+        subtotal: { $sum: "$subtotal" },
+        vatAmount: { $sum: "$vatAmount" },
+        totalWithVat: { $sum: "$totalWithVat" },
+        creditAmount: { $sum: RETURN_CREDIT_AMOUNT_EXPR },
+      },
+    },
+  ]).session(session);
+
+  if (isFullyReturned) {
+    // รายการสุดท้าย: ใช้ยอดคงเหลือของบิลเพื่อไม่ให้เศษสตางค์ค้าง
+    const saleSubtotal = sale.subtotal || sale.totalAmount;
+    const saleVatAmount = sale.vatAmount ?? 0;
+    const saleTotalWithVat = sale.totalWithVat || sale.totalAmount;
+    subtotal = roundMoney(Math.max(0, saleSubtotal - (previous?.subtotal ?? 0)));
+    vatAmount = roundMoney(Math.max(0, saleVatAmount - (previous?.vatAmount ?? 0)));
+    totalWithVat = roundMoney(Math.max(0, saleTotalWithVat - (previous?.totalWithVat ?? 0)));
+  }
+
+  // วิธีคืนเงิน: ส่วนที่ขายเชื่อ → ลดหนี้ก่อน (ไม่เกินยอดเชื่อที่ยังไม่ได้ลด)
+  // ที่เหลือ → คืนเงินสดถ้าบิลมีเงินสด นอกนั้นคืนผ่านช่องทางเดิม
+  const salePayments = getSalePayments(sale);
+  const otherPayments = salePayments.filter((p) => p.method !== "credit");
+  const refundMethod: PaymentMethod = otherPayments.some((p) => p.method === "cash")
+    ? "cash"
+    : (otherPayments[0]?.method ?? "credit");
+  const saleCreditAmount = salePayments
+    .filter((p) => p.method === "credit")
+    .reduce((sum, p) => sum + p.amount, 0);
+  const creditAmount =
+    refundMethod === "credit"
+      ? totalWithVat
+      : roundMoney(
+          Math.min(totalWithVat, Math.max(0, saleCreditAmount - (previous?.creditAmount ?? 0)))
+        );
+
+  const [saleReturn] = await SaleReturn.create(
+    [
+      {
+        userId: toUserId(input.userId),
+        saleId: sale._id,
+        type: input.type,
+        items: returnItems,
+        subtotal,
+        vatRate,
+        vatAmount,
+        totalWithVat,
+        // ต้นทุนของที่คืน (ตามทุนที่ snapshot ไว้ตอนขาย)
+        costTotal: roundMoney(
+          returnItems.reduce((sum, item) => {
+            const saleItem = saleItems.find((i) => i._id.equals(item.saleItemId));
+            return sum + (saleItem?.unitCost ?? 0) * item.quantity;
+          }, 0)
+        ),
+        paymentType: creditAmount >= totalWithVat ? "credit" : refundMethod,
+        creditAmount,
+        customerId: sale.customerId ?? null,
+        reason: input.reason ?? null,
+        branchId: sale.branchId ?? null,
+      },
+    ],
+    { session }
+  );
+
+  // คืนสต็อก (ข้ามสินค้าที่ถูกลบไปแล้ว)
+  const existingProductIds = new Set(
+    (
+      await Product.find({ _id: { $in: returnItems.map((item) => item.productId) } })
+        .select("_id")
+        .session(session)
+        .lean()
+    ).map((p) => p._id.toString())
+  );
+  for (const item of returnItems) {
+    // คืนได้ไม่เกินจำนวนที่ยังไม่ได้คืน (กันคืนซ้อนกันจากหลายเครื่อง)
+    const updated = await SaleItem.updateOne(
+      {
+        _id: item.saleItemId,
+        $expr: {
+          $lte: [{ $add: [{ $ifNull: ["$returnedQuantity", 0] }, item.quantity] }, "$quantity"],
+        },
+      },
+      { $inc: { returnedQuantity: item.quantity } },
+      { session }
+    );
+    if (updated.matchedCount === 0) {
+      throw new Error(`"${item.productName}" ถูกคืนไปแล้ว กรุณาโหลดบิลใหม่`);
+    }
+    if (existingProductIds.has(item.productId.toString())) {
+      // ของคืนกลับเข้าสต็อกที่ทุนเดิมตอนขาย
+      const saleItem = saleItems.find((i) => i._id.equals(item.saleItemId));
+      const unitFactor = saleItem?.unitFactor ?? 1;
+      await adjustProductStock({
+        productId: item.productId.toString(),
+        quantityChange: item.quantity,
+        unitFactor,
+        source: "RETURN",
+        note: `${input.type}:${sale._id.toString()}`,
+        branchId: sale.branchId ? sale.branchId.toString() : null, // คืนเข้าสาขาที่ขาย
+        cashierId: input.cashierId ?? null,
+        unitCost: saleItem?.unitCost != null ? saleItem.unitCost / unitFactor : null,
+        session,
+      });
+    }
+  }
+
+  const status = isFullyReturned ? "voided" : "partially_returned";
+  const updatedSale = await Sale.updateOne(
+    { _id: sale._id, status: { $ne: "voided" } },
+    { $set: { status }, $inc: { refundedAmount: totalWithVat } },
+    { session }
+  );
+  if (updatedSale.matchedCount === 0) {
+    throw new Error("บิลนี้ถูกยกเลิก/คืนสินค้าครบแล้ว");
+  }
+
+  // ขายเชื่อ → ลดยอดค้างเฉพาะส่วนที่ขายเชื่อ (ไม่ให้ติดลบ)
+  if (creditAmount > 0 && sale.customerId) {
+    await Customer.updateOne(
+      { _id: sale.customerId },
+      [{ $set: { totalDebt: { $max: [0, { $subtract: ["$totalDebt", creditAmount] }] } } }],
+      { session }
+    );
+  }
+
+  // มีใบกำกับภาษีเต็ม → ออกใบลดหนี้
+  let creditNoteId: string | null = null;
+  const invoice = await FullTaxInvoice.findOne({ saleId: sale._id, status: "issued" })
+    .session(session)
+    .lean();
+  if (invoice) {
+    creditNoteId = await createCreditNote({
+      userId: input.userId,
+      saleReturnId: saleReturn._id,
+      invoice,
+      subtotal,
+      vatAmount,
+      totalWithVat,
+      reason: input.reason ?? null,
+      session,
+    });
+    await SaleReturn.updateOne(
+      { _id: saleReturn._id },
+      { $set: { creditNoteId: toObjectId(creditNoteId) } },
+      { session }
+    );
+  }
+
+  return {
+    saleReturnId: saleReturn._id.toString(),
+    status,
+    subtotal,
+    vatAmount,
+    totalWithVat,
+    creditNoteId,
+  };
+}
+
+/**
+ * ดึงบิลขายพร้อมรายการ (สำหรับหน้าคืนสินค้า)
+ */
+export async function getSaleDetail(
+  saleId: string | number | mongoose.Types.ObjectId,
+  userId: string | number | mongoose.Types.ObjectId
+) {
+  const sale = await Sale.findOne({
+    _id: toObjectId(saleId),
+    userId: toUserId(userId),
+  }).lean();
+  if (!sale) return undefined;
+
+  const items = await SaleItem.find({ saleId: sale._id }).lean();
+  const returns = await SaleReturn.find({ saleId: sale._id }).sort({ createdAt: 1 }).lean();
+
+  return {
+    ...sale,
+    id: sale._id.toString(),
+    status: sale.status ?? "completed",
+    refundedAmount: sale.refundedAmount ?? 0,
+    items: items.map((item) => ({
+      id: item._id.toString(),
+      productId: item.productId.toString(),
+      productName: item.productName,
+      quantity: item.quantity,
+      unitName: item.unitName ?? null,
+      returnedQuantity: item.returnedQuantity ?? 0,
+      unitPrice: item.unitPrice,
+      totalPrice: item.totalPrice,
+    })),
+    returns: returns.map((r) => ({
+      ...r,
+      id: r._id.toString(),
+      creditNoteId: r.creditNoteId ? r.creditNoteId.toString() : null,
+    })),
+  } as any;
+}
+
+/**
+ * สร้างเลขที่ใบลดหนี้ (ไม่ซ้ำ, เรียงลำดับ, แยกตามร้าน)
+ * Format: CN-YYYY-NNNNNN (เช่น CN-2026-000001)
+ */
+export async function generateCreditNoteNumber(
+  userId: string | number | mongoose.Types.ObjectId,
+  session?: mongoose.ClientSession | null
+): Promise<string> {
+  const year = new Date().getFullYear();
+  const prefix = `CN-${year}-`;
+  const last = await CreditNote.findOne({
+    userId: toUserId(userId),
+    creditNoteNumber: { $regex: `^${prefix}` },
+  })
+    .sort({ creditNoteNumber: -1 })
+    .session(session ?? null)
+    .lean();
+
+  let sequence = 1;
+  const match = last?.creditNoteNumber.match(/^CN-\d{4}-(\d+)$/);
+  if (match && match[1]) {
+    sequence = parseInt(match[1], 10) + 1;
+  }
+
+  return `${prefix}${String(sequence).padStart(6, "0")}`;
+}
+
+async function createCreditNote(data: {
+  userId: string | number | mongoose.Types.ObjectId;
+  saleReturnId: mongoose.Types.ObjectId;
+  invoice: Pick<
+    IFullTaxInvoice,
+    | "_id"
+    | "saleId"
+    | "invoiceNumber"
+    | "sellerName"
+    | "sellerAddress"
+    | "sellerTaxId"
+    | "buyerName"
+    | "buyerAddress"
+    | "buyerTaxId"
+  >;
+  subtotal: number;
+  vatAmount: number;
+  totalWithVat: number;
+  reason?: string | null;
+  session?: mongoose.ClientSession | null;
+}): Promise<string> {
+  const creditNoteNumber = await generateCreditNoteNumber(data.userId, data.session);
+
+  const [saved] = await CreditNote.create(
+    [
+      {
+        userId: toUserId(data.userId),
+        saleId: data.invoice.saleId,
+        saleReturnId: data.saleReturnId,
+        invoiceId: data.invoice._id,
+        creditNoteNumber,
+        originalInvoiceNumber: data.invoice.invoiceNumber,
+        sellerName: data.invoice.sellerName,
+        sellerAddress: data.invoice.sellerAddress,
+        sellerTaxId: data.invoice.sellerTaxId,
+        buyerName: data.invoice.buyerName,
+        buyerAddress: data.invoice.buyerAddress,
+        buyerTaxId: data.invoice.buyerTaxId ?? null,
+        subtotal: data.subtotal,
+        vatAmount: data.vatAmount,
+        totalWithVat: data.totalWithVat,
+        reason: data.reason ?? null,
+        issuedDate: new Date(),
+      },
+    ],
+    { session: data.session ?? undefined }
+  );
+
+  return saved._id.toString();
+}
+
+/**
+ * ดึงใบลดหนี้พร้อมรายการสินค้าที่คืน
+ */
+export async function getCreditNoteById(
+  creditNoteId: string | number | mongoose.Types.ObjectId,
+  userId: string | number | mongoose.Types.ObjectId
+) {
+  const creditNote = await CreditNote.findOne({
+    _id: toObjectId(creditNoteId),
+    userId: toUserId(userId),
+  }).lean();
+  if (!creditNote) return undefined;
+
+  const saleReturn = await SaleReturn.findById(creditNote.saleReturnId).lean();
+
+  return {
+    ...creditNote,
+    id: creditNote._id.toString(),
+    saleId: creditNote.saleId.toString(),
+    items: (saleReturn?.items ?? []).map((item) => ({
+      productName: item.productName,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      totalPrice: item.totalPrice,
+    })),
+  } as any;
+}
+
+/**
+ * ดึงรายการใบลดหนี้ (สำหรับบัญชี/ตรวจสอบ)
+ */
+export async function getCreditNotes(
+  userId: string | number | mongoose.Types.ObjectId,
+  limit = 50
+) {
+  const creditNotes = await CreditNote.find({ userId: toUserId(userId) })
+    .sort({ issuedDate: -1, createdAt: -1 })
+    .limit(limit)
+    .lean();
+
+  return creditNotes.map((cn) => ({
+    ...cn,
+    id: cn._id.toString(),
+    saleId: cn.saleId.toString(),
+  })) as any[];
+}
+
+/**
+ * Format credit note text (ใบลดหนี้)
+ * รูปแบบเดียวกับใบกำกับภาษีเต็ม
+ */
+export function formatCreditNoteText(data: {
+  creditNoteNumber: string;
+  originalInvoiceNumber: string;
+  issuedDate: Date;
+  sellerName: string;
+  sellerAddress: string;
+  sellerTaxId: string;
+  buyerName: string;
+  buyerAddress: string;
+  buyerTaxId?: string | null;
+  items: Array<{
+    productName: string;
+    quantity: number;
+    totalPrice: number | string;
+  }>;
+  subtotal: number;
+  vatAmount: number;
+  totalWithVat: number;
+  reason?: string | null;
+}): string {
+  const lines: string[] = [];
+  const MAX_LINE_WIDTH = 42;
+
+  function centerText(text: string, width: number = MAX_LINE_WIDTH): string {
+    const padding = Math.max(0, Math.floor((width - text.length) / 2));
+    return " ".repeat(padding) + text;
+  }
+
+  function separator(char: string = "-"): string {
+    return char.repeat(MAX_LINE_WIDTH);
+  }
+
+  function formatAmount(amount: number): string {
+    return amount.toLocaleString("th-TH", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  }
+
+  lines.push(separator("="));
+  lines.push(centerText("ใบลดหนี้"));
+  lines.push(separator("="));
+  lines.push("");
+
+  lines.push("ข้อมูลผู้ขาย:");
+  lines.push(`ชื่อ: ${data.sellerName}`);
+  lines.push(`ที่อยู่: ${data.sellerAddress}`);
+  lines.push(`เลขประจำตัวผู้เสียภาษี: ${data.sellerTaxId}`);
+  lines.push("");
+
+  lines.push("ข้อมูลผู้ซื้อ:");
+  lines.push(`ชื่อ: ${data.buyerName}`);
+  lines.push(`ที่อยู่: ${data.buyerAddress}`);
+  if (data.buyerTaxId) {
+    lines.push(`เลขประจำตัวผู้เสียภาษี: ${data.buyerTaxId}`);
+  }
+  lines.push("");
+
+  lines.push(separator("-"));
+  lines.push(`เลขที่ใบลดหนี้: ${data.creditNoteNumber}`);
+  lines.push(`อ้างอิงใบกำกับภาษี: ${data.originalInvoiceNumber}`);
+  const dateStr = new Date(data.issuedDate).toLocaleDateString("th-TH", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  });
+  lines.push(`วันที่ออกเอกสาร: ${dateStr}`);
+  if (data.reason) {
+    lines.push(`เหตุผล: ${data.reason}`);
+  }
+  lines.push(separator("-"));
+  lines.push("");
+
+  lines.push("รายการที่ลดหนี้:");
+  lines.push(separator("-"));
+  lines.push("สินค้า".padEnd(24) + "จำนวน".padStart(6) + "ราคา".padStart(10));
+  lines.push(separator("-"));
+  for (const item of data.items) {
+    const productName = item.productName.length > 24
+      ? item.productName.substring(0, 21) + "..."
+      : item.productName;
+    lines.push(
+      productName.padEnd(24) +
+      String(item.quantity).padStart(6) +
+      formatAmount(parseFloat(String(item.totalPrice))).padStart(10)
+    );
+  }
+  lines.push(separator("-"));
+  lines.push("");
+
+  lines.push(`มูลค่าที่ลดก่อน VAT ${formatAmount(data.subtotal)}`);
+  lines.push(`VAT 7%            ${formatAmount(data.vatAmount)}`);
+  lines.push(separator("-"));
+  lines.push(`รวมลดหนี้ทั้งสิ้น   ${formatAmount(data.totalWithVat)}`);
+  lines.push("");
+  lines.push(separator("="));
+  lines.push("");
+
+  return lines.join("\n");
+}
+
+// ==================== SUPPLIER FUNCTIONS ====================
+
+export type SupplierInput = Partial<
+  Pick<ISupplier, "name" | "contactName" | "phone" | "address" | "taxId" | "note">
+>;
+
+export async function getSuppliersByUser(userId: string | number | mongoose.Types.ObjectId) {
+  const suppliers = await Supplier.find({ userId: toUserId(userId) })
+    .sort({ name: 1 })
+    .lean();
+
+  return suppliers.map((s) => ({
+    ...s,
+    id: s._id.toString(),
+  })) as any[];
+}
+
+export async function getSupplierById(
+  id: string | number,
+  userId: string | number | mongoose.Types.ObjectId
+) {
+  const supplier = await Supplier.findOne({
+    _id: toObjectId(id),
+    userId: toUserId(userId),
+  }).lean();
+
+  if (!supplier) return undefined;
+  return { ...supplier, id: supplier._id.toString() } as any;
+}
+
+export async function createSupplier(
+  userId: string | number | mongoose.Types.ObjectId,
+  data: SupplierInput & { name: string }
+) {
+  const supplier = await Supplier.create({
+    userId: toUserId(userId),
+    name: data.name.trim(),
+    contactName: data.contactName?.trim() || null,
+    phone: data.phone?.trim() || null,
+    address: data.address?.trim() || null,
+    taxId: data.taxId?.trim() || null,
+    note: data.note?.trim() || null,
+  });
+  return supplier._id.toString();
+}
+
+export async function updateSupplier(
+  id: string | number,
+  userId: string | number | mongoose.Types.ObjectId,
+  data: SupplierInput
+) {
+  const updateData: any = {};
+  for (const key of ["name", "contactName", "phone", "address", "taxId", "note"] as const) {
+    if (data[key] !== undefined) {
+      updateData[key] = key === "name" ? data[key]!.trim() : data[key]?.trim() || null;
+    }
+  }
+
+  await Supplier.updateOne(
+    { _id: toObjectId(id), userId: toUserId(userId) },
+    { $set: updateData }
+  );
+}
+
+/**
+ * ลบผู้จำหน่าย - ไม่ให้ลบถ้ามีใบสั่งซื้ออ้างอิงอยู่ (ประวัติการซื้อจะหาย)
+ */
+export async function deleteSupplier(
+  id: string | number,
+  userId: string | number | mongoose.Types.ObjectId
+) {
+  const inUse = await PurchaseOrder.exists({
+    userId: toUserId(userId),
+    supplierId: toObjectId(id),
+  });
+  if (inUse) {
+    throw new Error("ลบไม่ได้ เพราะมีใบสั่งซื้อของผู้จำหน่ายนี้อยู่");
+  }
+
+  await Supplier.deleteOne({
+    _id: toObjectId(id),
+    userId: toUserId(userId),
+  });
+}
+
+// ==================== PURCHASE ORDER FUNCTIONS ====================
+
+/**
+ * Generate เลขที่ใบสั่งซื้อ (PO-YYYY-XXXXXX)
+ */
+export async function generatePurchaseOrderNumber(
+  userId: string | number | mongoose.Types.ObjectId
+): Promise<string> {
+  const year = new Date().getFullYear();
+  const prefix = `PO-${year}-`;
+  const last = await PurchaseOrder.findOne({
+    userId: toUserId(userId),
+    poNumber: { $regex: `^${prefix}` },
+  })
+    .sort({ poNumber: -1 })
+    .lean();
+
+  let sequence = 1;
+  const match = last?.poNumber.match(/^PO-\d{4}-(\d+)$/);
+  if (match && match[1]) {
+    sequence = parseInt(match[1], 10) + 1;
+  }
+
+  return `${prefix}${String(sequence).padStart(6, "0")}`;
+}
+
+function serializePurchaseOrder(po: any, supplierName?: string) {
+  return {
+    ...po,
+    id: po._id.toString(),
+    supplierId: po.supplierId.toString(),
+    supplierName: supplierName ?? "ไม่ทราบชื่อผู้จำหน่าย",
+    items: (po.items ?? []).map((item: any) => ({
+      ...item,
+      id: item._id.toString(),
+      productId: item.productId.toString(),
+      remainingQuantity: Math.max(0, item.quantity - (item.receivedQuantity ?? 0)),
+    })),
+  };
+}
+
+export async function getPurchaseOrders(
+  userId: string | number | mongoose.Types.ObjectId,
+  options?: { status?: PurchaseOrderStatus; limit?: number }
+) {
+  const filter: any = { userId: toUserId(userId) };
+  if (options?.status) filter.status = options.status;
+
+  const orders = await PurchaseOrder.find(filter)
+    .sort({ createdAt: -1 })
+    .limit(Math.min(Math.max(options?.limit ?? 100, 1), 500))
+    .lean();
+
+  const supplierIds = Array.from(new Set(orders.map((o) => o.supplierId.toString())));
+  const suppliers = await Supplier.find({ _id: { $in: supplierIds.map((id) => toObjectId(id)) } })
+    .select({ _id: 1, name: 1 })
+    .lean();
+  const supplierNameById = new Map(suppliers.map((s) => [s._id.toString(), s.name] as const));
+
+  return orders.map((o) =>
+    serializePurchaseOrder(o, supplierNameById.get(o.supplierId.toString()))
+  ) as any[];
+}
+
+export async function getPurchaseOrderById(
+  id: string | number,
+  userId: string | number | mongoose.Types.ObjectId
+) {
+  const order = await PurchaseOrder.findOne({
+    _id: toObjectId(id),
+    userId: toUserId(userId),
+  }).lean();
+  if (!order) return undefined;
+
+  const supplier = await Supplier.findById(order.supplierId).lean();
+  return {
+    ...serializePurchaseOrder(order, supplier?.name),
+    supplier: supplier ? { ...supplier, id: supplier._id.toString() } : null,
+  } as any;
+}
+
+export type CreatePurchaseOrderInput = {
+  userId: string | number | mongoose.Types.ObjectId;
+  supplierId: string | number;
+  items: Array<{ productId: string | number; quantity: number; unitCost: number }>;
+  note?: string | null;
+  /** true = สั่งซื้อทันที (status = ordered), false = บันทึกเป็นร่าง */
+  markOrdered?: boolean;
+};
+
+/**
+ * สร้างใบสั่งซื้อ - ตรวจว่าผู้จำหน่ายและสินค้าเป็นของร้านนี้
+ */
+export async function createPurchaseOrder(input: CreatePurchaseOrderInput) {
+  const userId = toUserId(input.userId);
+
+  const supplier = await getSupplierById(input.supplierId, userId);
+  if (!supplier) {
+    throw new Error("ไม่พบผู้จำหน่าย");
+  }
+  if (input.items.length === 0) {
+    throw new Error("ใบสั่งซื้อต้องมีสินค้าอย่างน้อย 1 รายการ");
+  }
+
+  const productIds = input.items.map((item) => toObjectId(item.productId));
+  const products = await Product.find({ _id: { $in: productIds }, userId })
+    .select({ _id: 1, name: 1 })
+    .lean();
+  const productNameById = new Map(products.map((p) => [p._id.toString(), p.name] as const));
+
+  const items = input.items.map((item) => {
+    const productName = productNameById.get(String(item.productId));
+    if (!productName) {
+      throw new Error("ไม่พบสินค้าในใบสั่งซื้อ");
+    }
+    const quantity = Math.floor(item.quantity);
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      throw new Error(`จำนวนสั่งซื้อของ ${productName} ต้องมากกว่า 0`);
+    }
+    const unitCost = roundMoney(item.unitCost);
+    return {
+      productId: toObjectId(item.productId),
+      productName,
+      quantity,
+      unitCost,
+      totalCost: roundMoney(unitCost * quantity),
+      receivedQuantity: 0,
+    };
+  });
+
+  const poNumber = await generatePurchaseOrderNumber(userId);
+  const order = await PurchaseOrder.create({
+    userId,
+    supplierId: toObjectId(input.supplierId),
+    poNumber,
+    status: input.markOrdered ? "ordered" : "draft",
+    items,
+    totalCost: roundMoney(items.reduce((sum, item) => sum + item.totalCost, 0)),
+    note: input.note?.trim() || null,
+    orderedAt: input.markOrdered ? new Date() : null,
+  });
+
+  return { purchaseOrderId: order._id.toString(), poNumber };
+}
+
+/**
+ * เปลี่ยนใบร่างเป็น "สั่งซื้อแล้ว"
+ */
+export async function markPurchaseOrderOrdered(
+  id: string | number,
+  userId: string | number | mongoose.Types.ObjectId
+) {
+  const result = await PurchaseOrder.updateOne(
+    { _id: toObjectId(id), userId: toUserId(userId), status: "draft" },
+    { $set: { status: "ordered", orderedAt: new Date() } }
+  );
+  if (result.matchedCount === 0) {
+    throw new Error("ใบสั่งซื้อนี้ไม่ใช่ฉบับร่าง");
+  }
+}
+
+/**
+ * ลบใบสั่งซื้อ - ลบได้เฉพาะฉบับร่าง
+ */
+export async function deletePurchaseOrder(
+  id: string | number,
+  userId: string | number | mongoose.Types.ObjectId
+) {
+  const result = await PurchaseOrder.deleteOne({
+    _id: toObjectId(id),
+    userId: toUserId(userId),
+    status: "draft",
+  });
+  if (result.deletedCount === 0) {
+    throw new Error("ลบได้เฉพาะใบสั่งซื้อฉบับร่าง");
+  }
+}
+
+export type ReceivePurchaseOrderInput = {
+  userId: string | number | mongoose.Types.ObjectId;
+  purchaseOrderId: string | number;
+  lines: Array<{ itemId: string | number; quantity: number }>;
+  note?: string | null;
+  cashierId?: string | null; // ผู้ทำรายการ
+};
+
+/**
+ * รับสินค้าตามใบสั่งซื้อ (รับเข้าสาขาหลัก - ส่งต่อให้สาขาอื่นด้วยการโอนสินค้า)
+ * - รับได้ไม่เกินจำนวนที่ยังค้างรับของแต่ละรายการ
+ * - เพิ่มสต็อกด้วย StockMovement source = "PURCHASE" ผูกกับใบสั่งซื้อ
+ * - อัปเดตสถานะเป็น partially_received / received
+ * ทั้งหมดอยู่ใน transaction เดียว
+ */
+export async function receivePurchaseOrder(input: ReceivePurchaseOrderInput) {
+  const lines = input.lines.filter((line) => line.quantity > 0);
+  if (lines.length === 0) {
+    throw new Error("กรุณาระบุจำนวนที่รับอย่างน้อย 1 รายการ");
+  }
+
+  const session = await mongoose.startSession();
+  let status = "ordered" as PurchaseOrderStatus;
+  try {
+    await session.withTransaction(async () => {
+      const order = await PurchaseOrder.findOne({
+        _id: toObjectId(input.purchaseOrderId),
+        userId: toUserId(input.userId),
+      }).session(session);
+      if (!order) {
+        throw new Error("ไม่พบใบสั่งซื้อ");
+      }
+      if (order.status === "draft") {
+        throw new Error("กรุณากดสั่งซื้อก่อนรับสินค้า");
+      }
+      if (order.status === "received") {
+        throw new Error("ใบสั่งซื้อนี้รับสินค้าครบแล้ว");
+      }
+
+      for (const line of lines) {
+        const item = order.items.find((i) => i._id.toString() === String(line.itemId));
+        if (!item) {
+          throw new Error("ไม่พบรายการในใบสั่งซื้อ");
+        }
+        const quantity = Math.floor(line.quantity);
+        const remaining = item.quantity - item.receivedQuantity;
+        if (quantity > remaining) {
+          throw new Error(`${item.productName} รับได้อีกไม่เกิน ${remaining}`);
+        }
+
+        await adjustProductStock({
+          productId: item.productId.toString(),
+          quantityChange: quantity,
+          source: "PURCHASE",
+          note: input.note?.trim() || `รับสินค้าตาม ${order.poNumber}`,
+          purchaseOrderId: order._id,
+          unitCost: item.unitCost,
+          cashierId: input.cashierId ?? null,
+          session,
+        });
+        item.receivedQuantity += quantity;
+      }
+
+      const allReceived = order.items.every((i) => i.receivedQuantity >= i.quantity);
+      status = allReceived ? "received" : "partially_received";
+      order.status = status;
+      if (allReceived) order.receivedAt = new Date();
+      await order.save({ session });
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  return { status };
+}
+
+// ==================== STOCKTAKE FUNCTIONS ====================
+
+/**
+ * Generate เลขที่รอบนับสต็อก (STK-YYYY-XXXXXX)
+ */
+export async function generateStocktakeNumber(
+  userId: string | number | mongoose.Types.ObjectId
+): Promise<string> {
+  const year = new Date().getFullYear();
+  const prefix = `STK-${year}-`;
+  const last = await Stocktake.findOne({
+    userId: toUserId(userId),
+    stocktakeNumber: { $regex: `^${prefix}` },
+  })
+    .sort({ stocktakeNumber: -1 })
+    .lean();
+
+  let sequence = 1;
+  const match = last?.stocktakeNumber.match(/^STK-\d{4}-(\d+)$/);
+  if (match && match[1]) {
+    sequence = parseInt(match[1], 10) + 1;
+  }
+
+  return `${prefix}${String(sequence).padStart(6, "0")}`;
+}
+
+// ปัดเศษทศนิยมของสินค้าชั่งน้ำหนัก (0.1 + 0.2 → 0.3) กันปรับสต็อกจากเศษ float
+function stocktakeVariance(countedQuantity: number, expectedQuantity: number): number {
+  return roundQuantity(countedQuantity - expectedQuantity, MAX_QUANTITY_PRECISION);
+}
+
+// สาขาของรอบนับ (ข้อมูลเก่าไม่มี branchId = สาขาหลัก)
+function stocktakeBranchId(stocktake: { branchId?: mongoose.Types.ObjectId | null }): string | null {
+  return stocktake.branchId ? stocktake.branchId.toString() : null;
+}
+
+/**
+ * รอบที่ยังนับอยู่ → ผลต่างคิดจากสต็อกปัจจุบัน (stockById)
+ * รอบที่ post แล้ว → ใช้ผลต่างที่บันทึกไว้ตอน post
+ */
+function serializeStocktake(stocktake: any, stockById?: Map<string, { stock: number; costPrice: number }>) {
+  const items = (stocktake.items ?? []).map((item: any) => {
+    const productId = item.productId.toString();
+    if (stocktake.status === "counting") {
+      const product = stockById?.get(productId);
+      const expectedQuantity = product?.stock ?? null;
+      const variance =
+        expectedQuantity == null ? null : stocktakeVariance(item.countedQuantity, expectedQuantity);
+      return {
+        ...item,
+        id: item._id.toString(),
+        productId,
+        expectedQuantity,
+        variance,
+        unitCost: product?.costPrice ?? 0,
+        varianceValue: variance == null ? null : roundMoney(variance * (product?.costPrice ?? 0)),
+      };
+    }
+    return { ...item, id: item._id.toString(), productId };
+  });
+
+  return {
+    ...stocktake,
+    id: stocktake._id.toString(),
+    items,
+    varianceCount: items.filter((item: any) => item.variance).length,
+    varianceValue: roundMoney(
+      items.reduce((sum: number, item: any) => sum + (item.varianceValue ?? 0), 0)
+    ),
+  };
+}
+
+export async function getStocktakes(
+  userId: string | number | mongoose.Types.ObjectId,
+  options?: { status?: StocktakeStatus; limit?: number }
+) {
+  const filter: any = { userId: toUserId(userId) };
+  if (options?.status) filter.status = options.status;
+
+  const stocktakes = await Stocktake.find(filter)
+    .sort({ createdAt: -1 })
+    .limit(Math.min(Math.max(options?.limit ?? 100, 1), 500))
+    .lean();
+
+  return stocktakes.map((st) => {
+    const { items, ...rest } = serializeStocktake(st);
+    return { ...rest, itemCount: items.length };
+  }) as any[];
+}
+
+export async function getStocktakeById(
+  id: string | number,
+  userId: string | number | mongoose.Types.ObjectId
+) {
+  const stocktake = await Stocktake.findOne({
+    _id: toObjectId(id),
+    userId: toUserId(userId),
+  }).lean();
+  if (!stocktake) return undefined;
+
+  let stockById: Map<string, { stock: number; costPrice: number }> | undefined;
+  if (stocktake.status === "counting") {
+    const products = await withBranchStock(
+      await Product.find({
+        _id: { $in: stocktake.items.map((item) => item.productId) },
+        userId: toUserId(userId),
+      })
+        .select({ _id: 1, stock: 1, costPrice: 1 })
+        .lean(),
+      stocktakeBranchId(stocktake)
+    );
+    stockById = new Map(
+      products.map((p) => [p._id.toString(), { stock: p.stock, costPrice: p.costPrice ?? 0 }] as const)
+    );
+  }
+
+  return serializeStocktake(stocktake, stockById) as any;
+}
+
+export async function createStocktake(input: {
+  userId: string | number | mongoose.Types.ObjectId;
+  note?: string | null;
+  branchId?: string | null; // สาขาที่นับ (ไม่ระบุ = สาขาหลัก)
+}) {
+  const stocktakeNumber = await generateStocktakeNumber(input.userId);
+  const stocktake = await Stocktake.create({
+    userId: toUserId(input.userId),
+    branchId: input.branchId ? toObjectId(input.branchId) : null,
+    stocktakeNumber,
+    status: "counting",
+    items: [],
+    note: input.note?.trim() || null,
+  });
+  return { stocktakeId: stocktake._id.toString(), stocktakeNumber };
+}
+
+async function findCountingStocktake(
+  stocktakeId: string | number,
+  userId: string | number | mongoose.Types.ObjectId
+) {
+  const stocktake = await Stocktake.findOne({
+    _id: toObjectId(stocktakeId),
+    userId: toUserId(userId),
+  });
+  if (!stocktake) {
+    throw new Error("ไม่พบรอบนับสต็อก");
+  }
+  if (stocktake.status !== "counting") {
+    throw new Error("รอบนับสต็อกนี้ปิดไปแล้ว");
+  }
+  return stocktake;
+}
+
+/**
+ * บันทึกจำนวนนับของสินค้า 1 รายการ
+ * - mode "add" = บวกเพิ่มจากที่นับไว้ (ยิงบาร์โค้ดทีละชิ้น)
+ * - mode "set" = แทนที่ด้วยจำนวนที่กรอก
+ */
+export async function countStocktakeItem(input: {
+  userId: string | number | mongoose.Types.ObjectId;
+  stocktakeId: string | number;
+  productId: string | number;
+  quantity: number;
+  mode: "add" | "set";
+}) {
+  const stocktake = await findCountingStocktake(input.stocktakeId, input.userId);
+  const product = await Product.findOne({
+    _id: toObjectId(input.productId),
+    userId: toUserId(input.userId),
+  })
+    .select({ _id: 1, name: 1, soldByMeasure: 1, quantityPrecision: 1 })
+    .lean();
+  if (!product) {
+    throw new Error("ไม่พบสินค้า");
+  }
+
+  // สินค้าขายตามน้ำหนัก/ความยาวนับเป็นทศนิยมได้
+  const precision = getQuantityPrecision(product);
+  const quantity =
+    precision > 0 ? roundQuantity(input.quantity, precision) : Math.floor(input.quantity);
+  if (!Number.isFinite(quantity) || quantity < 0) {
+    throw new Error("จำนวนนับต้องไม่ติดลบ");
+  }
+
+  const existing = stocktake.items.find((item) => item.productId.equals(product._id));
+  let countedQuantity = quantity;
+  if (existing) {
+    countedQuantity =
+      input.mode === "add"
+        ? roundQuantity(existing.countedQuantity + quantity, MAX_QUANTITY_PRECISION)
+        : quantity;
+    existing.countedQuantity = countedQuantity;
+    existing.countedAt = new Date();
+  } else {
+    stocktake.items.push({
+      productId: product._id,
+      productName: product.name,
+      countedQuantity,
+      countedAt: new Date(),
+    } as any);
+  }
+  await stocktake.save();
+
+  return { productName: product.name, countedQuantity };
+}
+
+export async function removeStocktakeItem(input: {
+  userId: string | number | mongoose.Types.ObjectId;
+  stocktakeId: string | number;
+  itemId: string;
+}) {
+  const stocktake = await findCountingStocktake(input.stocktakeId, input.userId);
+  stocktake.items = stocktake.items.filter(
+    (item) => item._id.toString() !== input.itemId
+  ) as any;
+  await stocktake.save();
+}
+
+/**
+ * ปรับสต็อกตามผลนับ (ADJUST) แล้วปิดรอบนับ
+ * - ผลต่างคิดจากสต็อกในระบบ ณ ตอน post (ขายระหว่างนับจะถูกนับรวมแล้ว)
+ * - ปรับเฉพาะสินค้าที่อยู่ในรอบนับ สินค้าที่ไม่ได้นับไม่ถูกแตะ
+ */
+export async function postStocktake(input: {
+  userId: string | number | mongoose.Types.ObjectId;
+  stocktakeId: string | number;
+  reason: string;
+  cashierId?: string | null; // ผู้ทำรายการ
+}) {
+  const reason = input.reason.trim();
+  if (!reason) {
+    throw new Error("กรุณาระบุเหตุผลการปรับสต็อก");
+  }
+
+  const session = await mongoose.startSession();
+  let adjustedCount = 0;
+  let varianceValue = 0;
+  try {
+    await session.withTransaction(async () => {
+      adjustedCount = 0;
+      varianceValue = 0;
+
+      const stocktake = await Stocktake.findOne({
+        _id: toObjectId(input.stocktakeId),
+        userId: toUserId(input.userId),
+      }).session(session);
+      if (!stocktake) {
+        throw new Error("ไม่พบรอบนับสต็อก");
+      }
+      if (stocktake.status !== "counting") {
+        throw new Error("รอบนับสต็อกนี้ปิดไปแล้ว");
+      }
+      if (stocktake.items.length === 0) {
+        throw new Error("ยังไม่มีรายการที่นับ");
+      }
+
+      // ปรับสต็อกของสาขาที่เปิดรอบนับ ไม่ใช่สาขาที่เลือกอยู่ตอน post
+      const branchId = stocktakeBranchId(stocktake);
+      const products = await withBranchStock(
+        await Product.find({
+          _id: { $in: stocktake.items.map((item) => item.productId) },
+          userId: toUserId(input.userId),
+        })
+          .select({ _id: 1, stock: 1, costPrice: 1 })
+          .session(session)
+          .lean(),
+        branchId,
+        session
+      );
+      const productById = new Map(products.map((p) => [p._id.toString(), p] as const));
+
+      for (const item of stocktake.items) {
+        const product = productById.get(item.productId.toString());
+        if (!product) {
+          throw new Error(`ไม่พบสินค้า "${item.productName}" กรุณาลบออกจากรอบนับ`);
+        }
+        const variance = stocktakeVariance(item.countedQuantity, product.stock);
+        let unitCost = product.costPrice ?? 0;
+        if (variance !== 0) {
+          const adjusted = await adjustProductStock({
+            productId: item.productId.toString(),
+            quantityChange: variance,
+            source: "ADJUST",
+            note: `นับสต็อก ${stocktake.stocktakeNumber}: ${reason}`,
+            stocktakeId: stocktake._id,
+            reason: "count",
+            cashierId: input.cashierId ?? null,
+            branchId,
+            session,
+          });
+          unitCost = adjusted.movementUnitCost ?? unitCost;
+          adjustedCount += 1;
+        }
+        item.expectedQuantity = product.stock;
+        item.variance = variance;
+        item.unitCost = unitCost;
+        item.varianceValue = roundMoney(variance * unitCost);
+        varianceValue += item.varianceValue;
+      }
+
+      stocktake.status = "posted";
+      stocktake.reason = reason;
+      stocktake.postedAt = new Date();
+      await stocktake.save({ session });
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  return { adjustedCount, varianceValue: roundMoney(varianceValue) };
+}
+
+export async function cancelStocktake(
+  stocktakeId: string | number,
+  userId: string | number | mongoose.Types.ObjectId
+) {
+  const stocktake = await findCountingStocktake(stocktakeId, userId);
+  stocktake.status = "cancelled";
+  stocktake.cancelledAt = new Date();
+  await stocktake.save();
+}
+
+// ==================== CATEGORY FUNCTIONS ====================
+
+// แท็ก: ตัดช่องว่าง, ตัดซ้ำ, ไม่เอาค่าว่าง
+function normalizeTags(tags?: string[] | null): string[] {
+  if (!tags) return [];
+  return Array.from(new Set(tags.map((tag) => tag.trim()).filter(Boolean))).slice(0, 20);
+}
+
+export async function getCategoriesByUser(userId: string | number | mongoose.Types.ObjectId) {
+  const [categories, counts] = await Promise.all([
+    Category.find({ userId: toUserId(userId) })
+      .sort({ sortOrder: 1, name: 1 })
+      .lean(),
+    Product.aggregate([
+      { $match: { userId: toUserId(userId), categoryId: { $ne: null } } },
+      { $group: { _id: "$categoryId", count: { $sum: 1 } } },
+    ]),
+  ]);
+  const countById = new Map(counts.map((c: any) => [c._id.toString(), c.count as number] as const));
+
+  return categories.map((c) => ({
+    ...c,
+    id: c._id.toString(),
+    productCount: countById.get(c._id.toString()) ?? 0,
+  })) as any[];
+}
+
+export async function createCategory(
+  userId: string | number | mongoose.Types.ObjectId,
+  data: { name: string; sortOrder?: number }
+) {
+  const name = data.name.trim();
+  const exists = await Category.exists({ userId: toUserId(userId), name });
+  if (exists) {
+    throw new Error(`มีหมวดหมู่ "${name}" อยู่แล้ว`);
+  }
+  const category = await Category.create({
+    userId: toUserId(userId),
+    name,
+    sortOrder: data.sortOrder ?? 0,
+  });
+  return category._id.toString();
+}
+
+export async function updateCategory(
+  id: string | number,
+  userId: string | number | mongoose.Types.ObjectId,
+  data: { name?: string; sortOrder?: number }
+) {
+  const updateData: any = {};
+  if (data.name !== undefined) {
+    const name = data.name.trim();
+    const exists = await Category.exists({
+      userId: toUserId(userId),
+      name,
+      _id: { $ne: toObjectId(id) },
+    });
+    if (exists) {
+      throw new Error(`มีหมวดหมู่ "${name}" อยู่แล้ว`);
+    }
+    updateData.name = name;
+  }
+  if (data.sortOrder !== undefined) updateData.sortOrder = data.sortOrder;
+
+  await Category.updateOne(
+    { _id: toObjectId(id), userId: toUserId(userId) },
+    { $set: updateData }
+  );
+}
+
+/**
+ * ลบหมวดหมู่ - สินค้าในหมวดนี้จะกลายเป็น "ไม่มีหมวด"
+ */
+export async function deleteCategory(
+  id: string | number,
+  userId: string | number | mongoose.Types.ObjectId
+) {
+  await Product.updateMany(
+    { userId: toUserId(userId), categoryId: toObjectId(id) },
+    { $set: { categoryId: null } }
+  );
+  await Category.deleteOne({
+    _id: toObjectId(id),
+    userId: toUserId(userId),
+  });
+}
+
+/**
+ * หา id หมวดหมู่จากชื่อ (ยังไม่มี → สร้างใหม่) ใช้ตอนนำเข้าสินค้า
+ */
+async function findOrCreateCategories(
+  userId: string | number | mongoose.Types.ObjectId,
+  names: string[]
+): Promise<Map<string, mongoose.Types.ObjectId>> {
+  const uniqueNames = Array.from(new Set(names.map((name) => name.trim()).filter(Boolean)));
+  if (uniqueNames.length === 0) return new Map();
+
+  const existing = await Category.find({ userId: toUserId(userId), name: { $in: uniqueNames } })
+    .select({ _id: 1, name: 1 })
+    .lean();
+  const idByName = new Map(existing.map((c) => [c.name, c._id] as const));
+
+  const missing = uniqueNames.filter((name) => !idByName.has(name));
+  if (missing.length > 0) {
+    const created = await Category.insertMany(
+      missing.map((name) => ({ userId: toUserId(userId), name }))
+    );
+    for (const category of created) {
+      idByName.set(category.name, category._id);
+    }
+  }
+
+  return idByName;
+}
+
+// ==================== BRANCH FUNCTIONS ====================
+
+/**
+ * ขอบเขตสาขาของข้อมูล
+ * - string    = สาขานั้น
+ * - null      = สาขาหลัก (ข้อมูลที่ไม่มี branchId รวมข้อมูลเก่าทั้งหมด)
+ * - undefined = ทุกสาขารวมกัน (ภาพรวมของเจ้าของร้าน)
+ */
+export type BranchScope = string | null | undefined;
+
+/**
+ * เงื่อนไข branchId สำหรับ find/$match ({} = ทุกสาขา)
+ */
+function branchFilter(branchId: BranchScope, field = "branchId"): Record<string, any> {
+  if (branchId === undefined) return {};
+  return { [field]: branchId ? toObjectId(branchId) : null };
+}
+
+function serializeBranch(branch: any) {
+  return {
+    id: branch._id.toString(),
+    name: branch.name as string,
+    address: (branch.address ?? null) as string | null,
+    phone: (branch.phone ?? null) as string | null,
+    createdAt: branch.createdAt as Date,
+  };
+}
+
+export async function getBranchesByUser(userId: string | number | mongoose.Types.ObjectId) {
+  const branches = await Branch.find({ userId: toUserId(userId) }).sort({ createdAt: 1 }).lean();
+  return branches.map(serializeBranch);
+}
+
+export async function getBranchById(
+  id: string | number,
+  userId: string | number | mongoose.Types.ObjectId
+) {
+  if (!mongoose.Types.ObjectId.isValid(String(id))) return undefined;
+  const branch = await Branch.findOne({ _id: toObjectId(id), userId: toUserId(userId) }).lean();
+  return branch ? serializeBranch(branch) : undefined;
+}
+
+export async function createBranch(
+  userId: string | number | mongoose.Types.ObjectId,
+  input: { name: string; address?: string | null; phone?: string | null }
+) {
+  const name = input.name.trim();
+  const duplicate = await Branch.exists({ userId: toUserId(userId), name });
+  if (duplicate) throw new Error(`มีสาขาชื่อ "${name}" อยู่แล้ว`);
+
+  const branch = await Branch.create({
+    userId: toUserId(userId),
+    name,
+    address: input.address?.trim() || null,
+    phone: input.phone?.trim() || null,
+  });
+  return branch._id.toString();
+}
+
+export async function updateBranch(
+  id: string | number,
+  userId: string | number | mongoose.Types.ObjectId,
+  input: { name?: string; address?: string | null; phone?: string | null }
+) {
+  const updates: Record<string, unknown> = {};
+  if (input.name !== undefined) {
+    const name = input.name.trim();
+    const duplicate = await Branch.exists({
+      userId: toUserId(userId),
+      name,
+      _id: { $ne: toObjectId(id) },
+    });
+    if (duplicate) throw new Error(`มีสาขาชื่อ "${name}" อยู่แล้ว`);
+    updates.name = name;
+  }
+  if (input.address !== undefined) updates.address = input.address?.trim() || null;
+  if (input.phone !== undefined) updates.phone = input.phone?.trim() || null;
+
+  const result = await Branch.updateOne(
+    { _id: toObjectId(id), userId: toUserId(userId) },
+    { $set: updates }
+  );
+  if (result.matchedCount === 0) throw new Error("ไม่พบสาขา");
+}
+
+/**
+ * สต็อกอื่นนอกสาขาหลักรวมกัน (ใช้หาสต็อกสาขาหลัก = Product.stock - ค่านี้)
+ */
+async function getOtherBranchesStock(
+  productId: string | number | mongoose.Types.ObjectId,
+  session?: mongoose.ClientSession | null
+): Promise<number> {
+  const rows = await BranchStock.find({ productId: toObjectId(String(productId)) })
+    .select({ stock: 1 })
+    .session(session ?? null)
+    .lean();
+  return roundQuantity(
+    rows.reduce((sum, row) => sum + row.stock, 0),
+    MAX_QUANTITY_PRECISION
+  );
+}
+
+/**
+ * สต็อกของสินค้าที่สาขาหนึ่ง (สาขาหลัก = สต็อกรวม - สต็อกสาขาอื่น)
+ */
+async function getBranchStockLevel(
+  productId: string | number | mongoose.Types.ObjectId,
+  branchId: string | null | undefined,
+  totalStock: number,
+  session?: mongoose.ClientSession | null
+): Promise<number> {
+  if (!branchId) {
+    const otherBranchesStock = await getOtherBranchesStock(productId, session);
+    return Math.max(0, roundQuantity(totalStock - otherBranchesStock, MAX_QUANTITY_PRECISION));
+  }
+  const row = await BranchStock.findOne({
+    branchId: toObjectId(branchId),
+    productId: toObjectId(String(productId)),
+  })
+    .select({ stock: 1 })
+    .session(session ?? null)
+    .lean();
+  return row?.stock ?? 0;
+}
+
+/**
+ * แทน stock ของสินค้าด้วยสต็อกของสาขา (totalStock = สต็อกรวมทุกสาขา)
+ * branchId = undefined → คงสต็อกรวมไว้
+ */
+async function withBranchStock<T extends { _id: mongoose.Types.ObjectId; stock: number }>(
+  products: T[],
+  branchId: BranchScope,
+  session?: mongoose.ClientSession | null
+): Promise<Array<T & { totalStock: number }>> {
+  if (branchId === undefined || products.length === 0) {
+    return products.map((p) => ({ ...p, totalStock: p.stock }));
+  }
+
+  const rows = await BranchStock.find({ productId: { $in: products.map((p) => p._id) } })
+    .select({ productId: 1, branchId: 1, stock: 1 })
+    .session(session ?? null)
+    .lean();
+  const otherStockByProduct = new Map<string, number>();
+  const branchStockByProduct = new Map<string, number>();
+  for (const row of rows) {
+    const key = row.productId.toString();
+    otherStockByProduct.set(key, (otherStockByProduct.get(key) ?? 0) + row.stock);
+    if (branchId && row.branchId.toString() === branchId) {
+      branchStockByProduct.set(key, row.stock);
+    }
+  }
+
+  return products.map((p) => {
+    const key = p._id.toString();
+    const stock = branchId
+      ? branchStockByProduct.get(key) ?? 0
+      : Math.max(
+          0,
+          roundQuantity(p.stock - (otherStockByProduct.get(key) ?? 0), MAX_QUANTITY_PRECISION)
+        );
+    return { ...p, stock, totalStock: p.stock };
+  });
+}
+
+/**
+ * ปรับสต็อกของสาขา (เรียกจาก adjustProductStock)
+ * - สาขาอื่น: ตัด/เพิ่ม BranchStock (ตัดออกต้องมีพอ)
+ * - สาขาหลัก: ตัดออกได้ไม่เกิน Product.stock - สต็อกสาขาอื่น
+ * คืนเงื่อนไขเพิ่มเติมของ Product.stock สำหรับการตัดออกที่สาขาหลัก
+ */
+async function applyBranchStockChange(params: {
+  productId: string | number;
+  branchId?: string | null;
+  quantityChange: number;
+  userId?: mongoose.Types.ObjectId;
+  session?: mongoose.ClientSession | null;
+}): Promise<number> {
+  const { productId, branchId, quantityChange, session } = params;
+  const quantity = Math.abs(quantityChange);
+
+  if (!branchId) {
+    return quantityChange < 0 ? getOtherBranchesStock(productId, session) : 0;
+  }
+
+  const filter: any = { branchId: toObjectId(branchId), productId: toObjectId(productId) };
+  if (quantityChange < 0) {
+    filter.stock = { $gte: quantity };
+    const updated = await BranchStock.findOneAndUpdate(
+      filter,
+      { $inc: { stock: quantityChange } },
+      { new: true, session: session ?? undefined }
+    ).lean();
+    if (!updated) throw new Error("สต็อกของสาขานี้ไม่พอสำหรับการขาย/ตัดสต็อก");
+    const rounded = roundQuantity(updated.stock, MAX_QUANTITY_PRECISION);
+    if (rounded !== updated.stock) {
+      await BranchStock.updateOne(
+        { _id: updated._id },
+        { $set: { stock: rounded } },
+        { session: session ?? undefined }
+      );
+    }
+  } else {
+    await BranchStock.findOneAndUpdate(
+      filter,
+      { $inc: { stock: quantityChange }, $setOnInsert: { userId: params.userId } },
+      { upsert: true, session: session ?? undefined }
+    );
+  }
+  return 0;
+}
+
+// ==================== STOCK TRANSFER FUNCTIONS ====================
+
+export async function generateStockTransferNumber(
+  userId: string | number | mongoose.Types.ObjectId
+): Promise<string> {
+  const year = new Date().getFullYear();
+  const prefix = `TRF-${year}-`;
+  const last = await StockTransfer.findOne({
+    userId: toUserId(userId),
+    transferNumber: { $regex: `^${prefix}` },
+  })
+    .sort({ transferNumber: -1 })
+    .lean();
+
+  let sequence = 1;
+  const match = last?.transferNumber.match(/^TRF-\d{4}-(\d+)$/);
+  if (match && match[1]) {
+    sequence = parseInt(match[1], 10) + 1;
+  }
+
+  return `${prefix}${String(sequence).padStart(6, "0")}`;
+}
+
+/**
+ * โอนสินค้าระหว่างสาขา - ตัด OUT ที่ต้นทาง แล้วรับ IN ที่ปลายทางด้วยทุนเดียวกัน
+ * (สต็อกรวมและมูลค่าคงเหลือของทั้งร้านไม่เปลี่ยน)
+ */
+export async function createStockTransfer(input: {
+  userId: string | number | mongoose.Types.ObjectId;
+  fromBranchId: string | null;
+  toBranchId: string | null;
+  items: Array<{ productId: string | number; quantity: number }>;
+  note?: string | null;
+  cashierId?: string | null; // ผู้ทำรายการ
+}) {
+  const userId = toUserId(input.userId);
+  if ((input.fromBranchId ?? null) === (input.toBranchId ?? null)) {
+    throw new Error("สาขาต้นทางและปลายทางต้องไม่ใช่สาขาเดียวกัน");
+  }
+  for (const branchId of [input.fromBranchId, input.toBranchId]) {
+    if (branchId && !(await getBranchById(branchId, userId))) {
+      throw new Error("ไม่พบสาขา");
+    }
+  }
+  if (input.items.length === 0) {
+    throw new Error("กรุณาเพิ่มสินค้าอย่างน้อย 1 รายการ");
+  }
+
+  const productIds = Array.from(new Set(input.items.map((item) => String(item.productId))));
+  if (productIds.length !== input.items.length) {
+    throw new Error("มีสินค้าซ้ำในใบโอน");
+  }
+  const products = await Product.find({
+    _id: { $in: productIds.map((id) => toObjectId(id)) },
+    userId,
+  })
+    .select({ _id: 1, name: 1, soldByMeasure: 1, quantityPrecision: 1 })
+    .lean();
+  const productById = new Map(products.map((p) => [p._id.toString(), p] as const));
+  for (const item of input.items) {
+    const product = productById.get(String(item.productId));
+    if (!product) throw new Error("ไม่พบสินค้า");
+    if (!isValidQuantity(item.quantity, getQuantityPrecision(product)) || item.quantity <= 0) {
+      throw new Error(invalidQuantityMessage(product));
+    }
+  }
+
+  const transferNumber = await generateStockTransferNumber(userId);
+  const transferId = new mongoose.Types.ObjectId();
+  const note = input.note?.trim() || null;
+
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      const items = [];
+      for (const item of input.items) {
+        const product = productById.get(String(item.productId))!;
+        const out = await adjustProductStock({
+          productId: item.productId,
+          quantityChange: -item.quantity,
+          source: "TRANSFER",
+          note: `โอนออก ${transferNumber}`,
+          branchId: input.fromBranchId,
+          stockTransferId: transferId,
+          cashierId: input.cashierId ?? null,
+          session,
+        });
+        await adjustProductStock({
+          productId: item.productId,
+          quantityChange: item.quantity,
+          source: "TRANSFER",
+          note: `รับโอน ${transferNumber}`,
+          branchId: input.toBranchId,
+          stockTransferId: transferId,
+          unitCost: out.movementUnitCost ?? null,
+          cashierId: input.cashierId ?? null,
+          session,
+        });
+        items.push({
+          productId: product._id,
+          productName: product.name,
+          quantity: item.quantity,
+          unitCost: out.movementUnitCost ?? null,
+        });
+      }
+
+      await StockTransfer.create(
+        [
+          {
+            _id: transferId,
+            userId,
+            transferNumber,
+            fromBranchId: input.fromBranchId ? toObjectId(input.fromBranchId) : null,
+            toBranchId: input.toBranchId ? toObjectId(input.toBranchId) : null,
+            items,
+            note,
+          },
+        ],
+        { session }
+      );
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  return { transferId: transferId.toString(), transferNumber };
+}
+
+export async function getStockTransfersByUser(
+  userId: string | number | mongoose.Types.ObjectId,
+  limit = 50
+) {
+  const [transfers, branches] = await Promise.all([
+    StockTransfer.find({ userId: toUserId(userId) }).sort({ createdAt: -1 }).limit(limit).lean(),
+    Branch.find({ userId: toUserId(userId) }).select({ _id: 1, name: 1 }).lean(),
+  ]);
+  const branchNameById = new Map(branches.map((b) => [b._id.toString(), b.name] as const));
+  const branchName = (id?: mongoose.Types.ObjectId | null) =>
+    id ? branchNameById.get(id.toString()) ?? "สาขาที่ถูกลบ" : MAIN_BRANCH_NAME;
+
+  return transfers.map((t) => ({
+    id: t._id.toString(),
+    transferNumber: t.transferNumber,
+    fromBranchId: t.fromBranchId ? t.fromBranchId.toString() : null,
+    fromBranchName: branchName(t.fromBranchId),
+    toBranchId: t.toBranchId ? t.toBranchId.toString() : null,
+    toBranchName: branchName(t.toBranchId),
+    items: t.items.map((item) => ({
+      productId: item.productId.toString(),
+      productName: item.productName,
+      quantity: item.quantity,
+      unitCost: item.unitCost ?? null,
+    })),
+    note: t.note ?? null,
+    createdAt: t.createdAt,
+  }));
+}
+
+// ==================== AUDIT LOG FUNCTIONS ====================
+
+export type InsertAuditLog = {
+  userId: string | number | mongoose.Types.ObjectId;
+  actorId?: string | null;
+  actorName: string;
+  action: AuditAction;
+  entityId?: string | null;
+  entityName?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  ip?: string | null;
+};
+
+export async function createAuditLog(entry: InsertAuditLog) {
+  await AuditLog.create({
+    userId: toUserId(entry.userId),
+    actorId: entry.actorId && mongoose.Types.ObjectId.isValid(entry.actorId) ? toObjectId(entry.actorId) : null,
+    actorName: entry.actorName,
+    action: entry.action,
+    entityId: entry.entityId ?? null,
+    entityName: entry.entityName ?? null,
+    before: entry.before ?? null,
+    after: entry.after ?? null,
+    ip: entry.ip ?? null,
+  });
+}
+
+/**
+ * ค้นหา audit log ของร้าน (ใหม่สุดก่อน)
+ * @param search ค้นจากชื่อผู้ทำรายการ / ชื่อสินค้า-ลูกค้า-เลขที่เอกสาร
+ */
+export async function searchAuditLogs(
+  userId: string | number | mongoose.Types.ObjectId,
+  filters: {
+    action?: AuditAction;
+    search?: string;
+    from?: Date;
+    to?: Date;
+    limit?: number;
+  } = {}
+) {
+  const query: any = { userId: toUserId(userId) };
+  if (filters.action) query.action = filters.action;
+  if (filters.from || filters.to) {
+    query.createdAt = {
+      ...(filters.from ? { $gte: filters.from } : {}),
+      ...(filters.to ? { $lte: filters.to } : {}),
+    };
+  }
+  const search = filters.search?.trim();
+  if (search) {
+    const pattern = { $regex: search.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), $options: "i" };
+    query.$or = [{ actorName: pattern }, { entityName: pattern }];
+  }
+
+  const logs = await AuditLog.find(query)
+    .sort({ createdAt: -1 })
+    .limit(filters.limit ?? 100)
+    .lean();
+
+  return logs.map((log) => ({
+    id: log._id.toString(),
+    actorId: log.actorId ? log.actorId.toString() : null,
+    actorName: log.actorName,
+    action: log.action,
+    entityId: log.entityId ?? null,
+    entityName: log.entityName ?? null,
+    before: (log.before ?? null) as Record<string, unknown> | null,
+    after: (log.after ?? null) as Record<string, unknown> | null,
+    ip: log.ip ?? null,
+    createdAt: log.createdAt,
+  }));
+}
@@ -0,0 +1,116 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { appRouter } from "./routers";
+import * as db from "./db";
+import { ENV } from "./_core/env";
+import { sdk } from "./_core/sdk";
+import { CASHIER_HEADER, CASHIER_LOCKED_ERR_MSG } from "@shared/cashier";
+import { COOKIE_NAME } from "@shared/const";
+import type { TrpcContext } from "./_core/context";
+
+const OWNER_ID = "665f1c2e9b1d4a0012345678";
+const CASHIER_ID = "665f1c2e9b1d4a0087654321";
+
+vi.mock("./db", () => ({
+  getShopMembership: vi.fn().mockResolvedValue({ shopId: "665f1c2e9b1d4a0012345678", role: "owner" }),
+  getShopCashier: vi.fn(),
+  verifyCashierPin: vi.fn(),
+  getProductsByUser: vi.fn().mockResolvedValue([]),
+}));
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createAuthContext(sessionToken: string, headers: Record<string, string> = {}) {
+  const user: AuthenticatedUser = {
+    id: OWNER_ID,
+    openId: OWNER_ID,
+    email: "owner@example.com",
+    name: "เจ้าของร้าน",
+    loginMethod: "email",
+    role: "user",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+  } as unknown as AuthenticatedUser;
+  const cookie = vi.fn();
+
+  const ctx: TrpcContext = {
+    user,
+    req: {
+      protocol: "https",
+      headers: { cookie: `${COOKIE_NAME}=${sessionToken}`, ...headers },
+    } as TrpcContext["req"],
+    res: { cookie, clearCookie: vi.fn() } as unknown as TrpcContext["res"],
+  };
+  return { ctx, cookie };
+}
+
+// cookie session ที่ server ออกให้ใหม่ล่าสุด
+async function issuedSession(cookie: ReturnType<typeof vi.fn>) {
+  const [name, token] = cookie.mock.calls.at(-1)!;
+  expect(name).toBe(COOKIE_NAME);
+  return sdk.verifySession(token);
+}
+
+describe("device lock", () => {
+  beforeAll(() => {
+    ENV.cookieSecret = "test-secret-for-device-lock";
+  });
+
+  beforeEach(() => {
+    vi.mocked(db.getShopCashier).mockReset();
+    vi.mocked(db.verifyCashierPin).mockReset();
+  });
+
+  it("stores the lock in the session cookie", async () => {
+    const { ctx, cookie } = createAuthContext(await sdk.createSessionToken(OWNER_ID));
+
+    await appRouter.createCaller(ctx).staff.lock();
+
+    await expect(issuedSession(cookie)).resolves.toMatchObject({
+      openId: OWNER_ID,
+      deviceLocked: true,
+    });
+  });
+
+  it("rejects calls without a cashier token while the device is locked", async () => {
+    const lockedSession = await sdk.createSessionToken(OWNER_ID, { deviceLocked: true });
+    const { ctx } = createAuthContext(lockedSession);
+
+    await expect(appRouter.createCaller(ctx).products.list()).rejects.toMatchObject({
+      code: "UNAUTHORIZED",
+      message: CASHIER_LOCKED_ERR_MSG,
+    });
+  });
+
+  it("uses the cashier's role while the device is locked", async () => {
+    vi.mocked(db.getShopCashier).mockResolvedValue({ id: CASHIER_ID, name: "สมชาย", role: "cashier" });
+    const lockedSession = await sdk.createSessionToken(OWNER_ID, { deviceLocked: true });
+    const cashierToken = await sdk.createCashierToken(CASHIER_ID, { expiresInMs: 60_000 });
+    const { ctx } = createAuthContext(lockedSession, { [CASHIER_HEADER]: cashierToken });
+
+    await expect(appRouter.createCaller(ctx).staff.me()).resolves.toMatchObject({
+      role: "cashier",
+      cashier: { id: CASHIER_ID },
+    });
+  });
+
+  it("keeps the device locked when a cashier unlocks it", async () => {
+    vi.mocked(db.verifyCashierPin).mockResolvedValue({ id: CASHIER_ID, name: "สมชาย", role: "cashier" });
+    const lockedSession = await sdk.createSessionToken(OWNER_ID, { deviceLocked: true });
+    const { ctx, cookie } = createAuthContext(lockedSession);
+
+    await appRouter.createCaller(ctx).staff.unlock({ userId: CASHIER_ID, pin: "1234" });
+
+    expect(cookie).not.toHaveBeenCalled();
+  });
+
+  it("clears the lock when the owner unlocks with their PIN", async () => {
+    vi.mocked(db.verifyCashierPin).mockResolvedValue({ id: OWNER_ID, name: "เจ้าของร้าน", role: "owner" });
+    const lockedSession = await sdk.createSessionToken(OWNER_ID, { deviceLocked: true });
+    const { ctx, cookie } = createAuthContext(lockedSession);
+
+    await appRouter.createCaller(ctx).staff.unlock({ userId: OWNER_ID, pin: "1234" });
+
+    await expect(issuedSession(cookie)).resolves.toMatchObject({ deviceLocked: false });
+  });
+});
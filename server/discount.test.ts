@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { calculateDiscountAmount } from "@shared/discount";
+
+describe("calculateDiscountAmount", () => {
+  it("should return 0 when there is no discount", () => {
+    expect(calculateDiscountAmount(100, null)).toBe(0);
+    expect(calculateDiscountAmount(100, { type: "amount", value: 0 })).toBe(0);
+  });
+
+  it("should calculate fixed amount discount", () => {
+    expect(calculateDiscountAmount(350, { type: "amount", value: 10 })).toBe(10);
+  });
+
+  it("should calculate percent discount rounded to satang", () => {
+    expect(calculateDiscountAmount(199, { type: "percent", value: 10 })).toBe(19.9);
+    expect(calculateDiscountAmount(33.33, { type: "percent", value: 15 })).toBe(5);
+  });
+
+  it("should not discount more than the base amount", () => {
+    expect(calculateDiscountAmount(50, { type: "amount", value: 80 })).toBe(50);
+    expect(calculateDiscountAmount(50, { type: "percent", value: 150 })).toBe(50);
+  });
+});
@@ -0,0 +1,96 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { AUDIT_ACTIONS, type AuditAction } from "@shared/audit";
+
+/**
+ * AuditLog Model - ประวัติการทำรายการสำคัญ (ใครทำ ทำอะไร ค่าก่อน/หลัง จาก IP ไหน)
+ *
+ * append-only: เพิ่มได้อย่างเดียว แก้ไข/ลบผ่าน model นี้ไม่ได้
+ * before / after เก็บเฉพาะ field ที่เกี่ยวข้องกับรายการนั้น
+ */
+export interface IAuditLog extends Document {
+  userId: mongoose.Types.ObjectId; // ร้าน (userId ของเจ้าของร้าน)
+  actorId?: mongoose.Types.ObjectId | null; // ผู้ทำรายการ (แคชเชียร์ที่ใช้เครื่องอยู่)
+  actorName: string; // snapshot ชื่อผู้ทำรายการ
+  action: AuditAction;
+  entityId?: string | null; // id ของสินค้า/ลูกค้า/ใบกำกับ/กะ (ตั้งค่าร้าน = null)
+  entityName?: string | null; // snapshot ชื่อ/เลขที่เอกสาร ใช้ค้นหาและแสดงผล
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  ip?: string | null;
+  createdAt: Date;
+}
+
+const AuditLogSchema = new Schema<IAuditLog>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: "User",
+    },
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+    actorName: {
+      type: String,
+      required: true,
+      maxlength: 255,
+    },
+    action: {
+      type: String,
+      enum: AUDIT_ACTIONS,
+      required: true,
+    },
+    entityId: {
+      type: String,
+      default: null,
+    },
+    entityName: {
+      type: String,
+      default: null,
+      maxlength: 255,
+    },
+    before: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    after: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    ip: {
+      type: String,
+      default: null,
+      maxlength: 100,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    minimize: false,
+  }
+);
+
+AuditLogSchema.index({ userId: 1, createdAt: -1 });
+AuditLogSchema.index({ userId: 1, action: 1, createdAt: -1 });
+
+// append-only: กันแก้ไข/ลบ log ผ่าน model
+const blockMutation = function () {
+  throw new Error("AuditLog is append-only");
+};
+for (const operation of [
+  "updateOne",
+  "updateMany",
+  "findOneAndUpdate",
+  "replaceOne",
+  "deleteOne",
+  "deleteMany",
+  "findOneAndDelete",
+] as const) {
+  AuditLogSchema.pre(operation, blockMutation);
+}
+AuditLogSchema.pre("save", function () {
+  if (!this.isNew) blockMutation();
+});
+
+export const AuditLog = mongoose.model<IAuditLog>("AuditLog", AuditLogSchema);
@@ -0,0 +1,47 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * Branch Model - สาขาของร้าน (ใช้แคตตาล็อกสินค้าร่วมกัน แยกสต็อก/ยอดขาย/กะ)
+ *
+ * สาขาหลักไม่มี record - ข้อมูลที่ branchId = null (รวมข้อมูลเก่าทั้งหมด) เป็นของสาขาหลัก
+ */
+export interface IBranch extends Document {
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  address?: string | null;
+  phone?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BranchSchema = new Schema<IBranch>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: "User",
+    },
+    name: {
+      type: String,
+      required: true,
+      maxlength: 100,
+    },
+    address: {
+      type: String,
+      default: null,
+      maxlength: 500,
+    },
+    phone: {
+      type: String,
+      default: null,
+      maxlength: 20,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+BranchSchema.index({ userId: 1, name: 1 });
+
+export const Branch = mongoose.model<IBranch>("Branch", BranchSchema);
@@ -0,0 +1,48 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * BranchStock Model - สต็อกของสินค้าที่สาขาอื่น (ไม่ใช่สาขาหลัก)
+ *
+ * Product.stock = สต็อกรวมทุกสาขา (ใช้คิดต้นทุน/มูลค่าคงเหลือของทั้งร้าน)
+ * สต็อกสาขาหลัก = Product.stock - ผลรวม BranchStock ของสินค้านั้น
+ */
+export interface IBranchStock extends Document {
+  userId: mongoose.Types.ObjectId;
+  branchId: mongoose.Types.ObjectId;
+  productId: mongoose.Types.ObjectId;
+  stock: number;
+  updatedAt: Date;
+}
+
+const BranchStockSchema = new Schema<IBranchStock>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: "User",
+    },
+    branchId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: "Branch",
+    },
+    productId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: "Product",
+    },
+    stock: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+  },
+  {
+    timestamps: { createdAt: false, updatedAt: true },
+  }
+);
+
+BranchStockSchema.index({ branchId: 1, productId: 1 }, { unique: true });
+BranchStockSchema.index({ productId: 1 });
+
+export const BranchStock = mongoose.model<IBranchStock>("BranchStock", BranchStockSchema);
@@ -0,0 +1,39 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * Category Model - หมวดหมู่สินค้าของร้าน (เช่น เครื่องดื่ม ขนม ของใช้)
+ */
+export interface ICategory extends Document {
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  sortOrder: number; // ลำดับการแสดงผล (น้อยอยู่ก่อน)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CategorySchema = new Schema<ICategory>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: "User",
+    },
+    name: {
+      type: String,
+      required: true,
+      maxlength: 100,
+    },
+    sortOrder: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ชื่อหมวดหมู่ไม่ซ้ำภายในร้าน
+CategorySchema.index({ userId: 1, name: 1 }, { unique: true });
+
+export const Category = mongoose.model<ICategory>("Category", CategorySchema);
@@ -2,6 +2,11 @@ import mongoose, { Schema, Document } from "mongoose";
 
 export interface IChatLog extends Document {
   userId: mongoose.Types.ObjectId;
+  /**
+   * ผู้ที่คุยกับผู้ช่วย (เจ้าของร้าน/พนักงาน) - ประวัติแชทแยกตามคน
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= เจ้าของร้าน)
+   */
+  actorId?: mongoose.Types.ObjectId | null;
   role: "user" | "assistant";
   content: string;
   createdAt: Date;
@@ -14,6 +19,11 @@ const ChatLogSchema = new Schema<IChatLog>(
       required: true,
       ref: "User",
     },
+    actorId: {
+      type: Schema.Types.ObjectId,
+      default: null,
+      ref: "User",
+    },
     role: {
       type: String,
       enum: ["user", "assistant"],
@@ -29,4 +39,7 @@ const ChatLogSchema = new Schema<IChatLog>(
   }
 );
 
+// userId + actorId + createdAt: ประวัติแชทของแต่ละคน
+ChatLogSchema.index({ userId: 1, actorId: 1, createdAt: -1 });
+
 export const ChatLog = mongoose.model<IChatLog>("ChatLog", ChatLogSchema);
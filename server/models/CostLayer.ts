@@ -0,0 +1,68 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * CostLayer Model - ชั้นต้นทุนสำหรับวิธี FIFO
+ * รับของเข้า 1 ครั้ง = 1 ชั้น, ขาย/ตัดสต็อกจะลด remainingQuantity จากชั้นที่เก่าที่สุดก่อน
+ */
+export interface ICostLayer extends Document {
+  userId: mongoose.Types.ObjectId;
+  productId: mongoose.Types.ObjectId;
+  quantity: number; // จำนวนที่รับเข้าในชั้นนี้
+  remainingQuantity: number; // จำนวนที่ยังเหลือ (ยังไม่ถูกตัดทุน)
+  unitCost: number;
+  movementId?: mongoose.Types.ObjectId | null; // StockMovement ที่สร้างชั้นนี้ (null = ยอดยกมาตอนเปลี่ยนเป็น FIFO)
+  /**
+   * สาขาที่ชั้นต้นทุนนี้อยู่ (ตัดออกเฉพาะชั้นต้นทุนของสาขาที่ตัดสต็อก)
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= สาขาหลัก)
+   */
+  branchId?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+}
+
+const CostLayerSchema = new Schema<ICostLayer>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: "User",
+    },
+    productId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: "Product",
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    remainingQuantity: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    unitCost: {
+      type: Number,
+      required: true,
+      min: 0,
+      default: 0,
+    },
+    movementId: {
+      type: Schema.Types.ObjectId,
+      ref: "StockMovement",
+      default: null,
+    },
+    branchId: {
+      type: Schema.Types.ObjectId,
+      default: null,
+      ref: "Branch",
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+CostLayerSchema.index({ productId: 1, branchId: 1, remainingQuantity: 1, createdAt: 1 });
+
+export const CostLayer = mongoose.model<ICostLayer>("CostLayer", CostLayerSchema);
@@ -0,0 +1,126 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * Credit Note Model - ใบลดหนี้
+ * ออกอัตโนมัติเมื่อคืนสินค้า/ยกเลิกบิลที่ออกใบกำกับภาษีเต็มไปแล้ว
+ */
+export interface ICreditNote extends Document {
+  userId: mongoose.Types.ObjectId;
+  saleId: mongoose.Types.ObjectId;
+  saleReturnId: mongoose.Types.ObjectId; // เอกสารคืนสินค้าที่เป็นที่มา
+  invoiceId: mongoose.Types.ObjectId; // ใบกำกับภาษีเต็มที่อ้างอิง
+  creditNoteNumber: string; // เลขที่ใบลดหนี้ (ต้องไม่ซ้ำ, เรียงลำดับ)
+  originalInvoiceNumber: string; // เลขที่ใบกำกับภาษีเดิม
+
+  // ข้อมูลผู้ขาย/ผู้ซื้อ (คัดลอกจากใบกำกับภาษีเดิม)
+  sellerName: string;
+  sellerAddress: string;
+  sellerTaxId: string;
+  buyerName: string;
+  buyerAddress: string;
+  buyerTaxId?: string | null;
+
+  // มูลค่าที่ลดหนี้
+  subtotal: number; // ก่อน VAT
+  vatAmount: number;
+  totalWithVat: number;
+
+  reason?: string | null;
+  issuedDate: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CreditNoteSchema = new Schema<ICreditNote>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: "User",
+      index: true,
+    },
+    saleId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: "Sale",
+      index: true,
+    },
+    saleReturnId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: "SaleReturn",
+      unique: true, // 1 เอกสารคืน = 1 ใบลดหนี้
+    },
+    invoiceId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: "FullTaxInvoice",
+    },
+    creditNoteNumber: {
+      type: String,
+      required: true,
+    },
+    originalInvoiceNumber: {
+      type: String,
+      required: true,
+    },
+    sellerName: {
+      type: String,
+      required: true,
+    },
+    sellerAddress: {
+      type: String,
+      required: true,
+    },
+    sellerTaxId: {
+      type: String,
+      required: true,
+    },
+    buyerName: {
+      type: String,
+      required: true,
+    },
+    buyerAddress: {
+      type: String,
+      required: true,
+    },
+    buyerTaxId: {
+      type: String,
+      required: false,
+      default: null,
+    },
+    subtotal: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    vatAmount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    totalWithVat: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    reason: {
+      type: String,
+      default: null,
+      maxlength: 500,
+    },
+    issuedDate: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// เลขที่ใบลดหนี้ไม่ซ้ำภายในร้าน
+CreditNoteSchema.index({ userId: 1, creditNoteNumber: 1 }, { unique: true });
+
+export const CreditNote = mongoose.model<ICreditNote>("CreditNote", CreditNoteSchema);
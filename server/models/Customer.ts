@@ -1,9 +1,16 @@
 import mongoose, { Schema, Document } from "mongoose";
 
+/**
+ * Customer Model - ลูกค้าของร้าน (ลูกหนี้ขายเชื่อ / ผู้ซื้อในใบกำกับภาษีเต็ม)
+ * address / taxId ใช้กรอกข้อมูลผู้ซื้อในใบกำกับภาษีให้อัตโนมัติ
+ */
 export interface ICustomer extends Document {
   userId: mongoose.Types.ObjectId;
   name: string;
   phone?: string | null;
+  address?: string | null;
+  taxId?: string | null; // เลขประจำตัวผู้เสียภาษี
+  note?: string | null;
   totalDebt: number;
   createdAt: Date;
   updatedAt: Date;
@@ -26,6 +33,21 @@ const CustomerSchema = new Schema<ICustomer>(
       default: null,
       maxlength: 20,
     },
+    address: {
+      type: String,
+      default: null,
+      maxlength: 500,
+    },
+    taxId: {
+      type: String,
+      default: null,
+      maxlength: 20,
+    },
+    note: {
+      type: String,
+      default: null,
+      maxlength: 500,
+    },
     totalDebt: {
       type: Number,
       default: 0,
@@ -38,4 +60,6 @@ const CustomerSchema = new Schema<ICustomer>(
   }
 );
 
+CustomerSchema.index({ userId: 1, name: 1 });
+
 export const Customer = mongoose.model<ICustomer>("Customer", CustomerSchema);
@@ -1,11 +1,27 @@
 import mongoose, { Schema, Document } from "mongoose";
 
+/**
+ * หน่วยขายเพิ่มเติม เช่น แพ็ค (6 ขวด) / ลัง (24 ขวด)
+ * ขายแล้วตัดสต็อก factor หน่วยฐานต่อ 1 หน่วย
+ */
+export interface IProductUnit {
+  name: string;
+  factor: number; // 1 หน่วยนี้ = factor หน่วยฐาน
+  barcode?: string | null;
+  price: number; // ราคาขายต่อหน่วยนี้
+}
+
 export interface IProduct extends Document {
   userId: mongoose.Types.ObjectId;
   name: string;
   barcode?: string | null;
   imageUrl?: string | null;
   price: number;
+  /**
+   * ราคาทุนต่อหน่วย (average = ทุนถัวเฉลี่ย, fifo = ทุนรับเข้าครั้งล่าสุด)
+   * optional/backward-compatible: ข้อมูลเก่าจะเป็น 0 (= ยังไม่ทราบทุน)
+   */
+  costPrice: number;
   stock: number;
   /**
    * Reorder point (ขั้นต่ำที่ควรแจ้งเตือน)
@@ -16,10 +32,75 @@ export interface IProduct extends Document {
    * Legacy field used by older code. Prefer `reorderPoint`.
    */
   minStock: number;
+  /**
+   * หมวดหมู่สินค้า
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= ไม่มีหมวด)
+   */
+  categoryId?: mongoose.Types.ObjectId | null;
+  /**
+   * แท็กอิสระ (เช่น "ขายดี", "ของฝาก")
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= [])
+   */
+  tags?: string[];
+  /**
+   * หน่วยฐานที่ใช้นับสต็อก (เช่น "ขวด")
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= "ชิ้น")
+   */
+  baseUnit?: string;
+  /**
+   * หน่วยขายเพิ่มเติม (stock / price / costPrice ยังเป็นของหน่วยฐาน)
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= ขายเป็นหน่วยฐานอย่างเดียว)
+   */
+  units?: IProductUnit[];
+  /**
+   * ขายตามน้ำหนัก/ความยาว (เช่น หมู 0.35 กก., เชือก 1.5 เมตร) - จำนวนเป็นทศนิยมได้
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= ขายเป็นจำนวนเต็ม)
+   */
+  soldByMeasure?: boolean;
+  /**
+   * จำนวนทศนิยมของสินค้าที่ขายตามน้ำหนัก/ความยาว (1-3)
+   */
+  quantityPrecision?: number;
+  /**
+   * รหัส PLU บนตาชั่ง (ตัด 0 นำหน้าแล้ว) ใช้หาสินค้าจากบาร์โค้ดตาชั่ง
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= ไม่ได้ชั่งขาย)
+   */
+  plu?: string | null;
+  /**
+   * เวลาที่เก็บเข้าคลัง (เลิกขาย) - ซ่อนจากหน้าขาย/รายการสินค้า แต่ยังอยู่ในรายงานและประวัติสต็อก
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= ยังขายอยู่)
+   */
+  archivedAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const ProductUnitSchema = new Schema<IProductUnit>(
+  {
+    name: {
+      type: String,
+      required: true,
+      maxlength: 50,
+    },
+    factor: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    barcode: {
+      type: String,
+      default: null,
+      maxlength: 100,
+    },
+    price: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+  },
+  { _id: false }
+);
+
 const ProductSchema = new Schema<IProduct>(
   {
     userId: {
@@ -51,6 +132,11 @@ const ProductSchema = new Schema<IProduct>(
       required: true,
       min: 0,
     },
+    costPrice: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
     stock: {
       type: Number,
       default: 0,
@@ -69,10 +155,52 @@ const ProductSchema = new Schema<IProduct>(
       required: true,
       min: 0,
     },
+    categoryId: {
+      type: Schema.Types.ObjectId,
+      ref: "Category",
+      default: null,
+    },
+    tags: {
+      type: [String],
+      default: [],
+    },
+    baseUnit: {
+      type: String,
+      default: "ชิ้น",
+      maxlength: 50,
+    },
+    units: {
+      type: [ProductUnitSchema],
+      default: [],
+    },
+    soldByMeasure: {
+      type: Boolean,
+      default: false,
+    },
+    quantityPrecision: {
+      type: Number,
+      default: 3,
+      min: 0,
+      max: 3,
+    },
+    plu: {
+      type: String,
+      default: null,
+      maxlength: 6,
+    },
+    archivedAt: {
+      type: Date,
+      default: null,
+    },
   },
   {
     timestamps: true,
   }
 );
 
+ProductSchema.index({ userId: 1, categoryId: 1 });
+ProductSchema.index({ userId: 1, "units.barcode": 1 });
+ProductSchema.index({ userId: 1, plu: 1 });
+ProductSchema.index({ userId: 1, archivedAt: 1 });
+
 export const Product = mongoose.model<IProduct>("Product", ProductSchema);
@@ -0,0 +1,135 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * สถานะใบสั่งซื้อ
+ * - draft              = ร่าง (ยังแก้ไข/ลบได้)
+ * - ordered            = สั่งซื้อแล้ว รอรับของ
+ * - partially_received = รับของแล้วบางส่วน
+ * - received           = รับของครบแล้ว
+ */
+export type PurchaseOrderStatus = "draft" | "ordered" | "partially_received" | "received";
+
+/**
+ * รายการสินค้าในใบสั่งซื้อ
+ */
+export interface IPurchaseOrderItem {
+  _id: mongoose.Types.ObjectId;
+  productId: mongoose.Types.ObjectId;
+  productName: string; // snapshot ชื่อสินค้าตอนสั่ง
+  quantity: number; // จำนวนที่สั่ง
+  unitCost: number; // ราคาทุนต่อหน่วย
+  totalCost: number; // quantity * unitCost
+  receivedQuantity: number; // จำนวนที่รับเข้าแล้ว
+}
+
+/**
+ * Purchase Order Model - ใบสั่งซื้อสินค้าจากผู้จำหน่าย
+ */
+export interface IPurchaseOrder extends Document {
+  userId: mongoose.Types.ObjectId;
+  supplierId: mongoose.Types.ObjectId;
+  poNumber: string; // เลขที่ใบสั่งซื้อ (PO-YYYY-XXXXXX)
+  status: PurchaseOrderStatus;
+  items: IPurchaseOrderItem[];
+  totalCost: number; // รวมราคาทุนทั้งใบ
+  note?: string | null;
+  orderedAt?: Date | null;
+  receivedAt?: Date | null; // วันที่รับของครบ
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PurchaseOrderItemSchema = new Schema<IPurchaseOrderItem>({
+  productId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: "Product",
+  },
+  productName: {
+    type: String,
+    required: true,
+    maxlength: 255,
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  unitCost: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  totalCost: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  receivedQuantity: {
+    type: Number,
+    required: true,
+    default: 0,
+    min: 0,
+  },
+});
+
+const PurchaseOrderSchema = new Schema<IPurchaseOrder>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: "User",
+    },
+    supplierId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: "Supplier",
+    },
+    poNumber: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["draft", "ordered", "partially_received", "received"],
+      required: true,
+      default: "draft",
+    },
+    items: {
+      type: [PurchaseOrderItemSchema],
+      required: true,
+      validate: {
+        validator: (items: IPurchaseOrderItem[]) => items.length > 0,
+        message: "ใบสั่งซื้อต้องมีสินค้าอย่างน้อย 1 รายการ",
+      },
+    },
+    totalCost: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    note: {
+      type: String,
+      default: null,
+      maxlength: 500,
+    },
+    orderedAt: {
+      type: Date,
+      default: null,
+    },
+    receivedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// เลขที่ใบสั่งซื้อไม่ซ้ำภายในร้าน
+PurchaseOrderSchema.index({ userId: 1, poNumber: 1 }, { unique: true });
+PurchaseOrderSchema.index({ userId: 1, status: 1, createdAt: -1 });
+PurchaseOrderSchema.index({ supplierId: 1 });
+
+export const PurchaseOrder = mongoose.model<IPurchaseOrder>("PurchaseOrder", PurchaseOrderSchema);
@@ -1,4 +1,17 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { PAYMENT_METHODS, type PaymentMethod } from "@shared/payment";
+
+export type { PaymentMethod };
+
+/**
+ * วิธีชำระเงิน 1 รายการ (1 บิลจ่ายได้หลายวิธี เช่น เงินสดครึ่งหนึ่ง โอนครึ่งหนึ่ง)
+ * เงินสด: amount = เงินที่รับมา, เงินทอนเก็บที่ Sale.changeAmount
+ */
+export interface ISalePayment {
+  method: PaymentMethod;
+  amount: number;
+  reference?: string | null; // เลขอ้างอิงการโอน / 4 ตัวท้ายบัตร
+}
 
 export interface ISale extends Document {
   userId: mongoose.Types.ObjectId;
@@ -27,10 +40,92 @@ export interface ISale extends Document {
    * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้
    */
   totalWithVat?: number;
+  /**
+   * ส่วนลดท้ายบิล - รูปแบบและค่าที่แคชเชียร์กรอก
+   * คิดจากยอดหลังหักส่วนลดรายการ และหักก่อนคำนวณ VAT
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= ไม่มีส่วนลด)
+   */
+  billDiscountType?: "percent" | "amount" | null;
+  billDiscountValue?: number;
+  /**
+   * ส่วนลดท้ายบิลเป็นบาท
+   */
+  billDiscountAmount?: number;
+  /**
+   * ส่วนลดรวมทั้งบิล (ส่วนลดรายการ + ส่วนลดท้ายบิล) หน่วยบาท
+   */
+  discountTotal?: number;
+  /**
+   * ต้นทุนขายรวมทั้งบิล (Σ SaleItem.unitCost × quantity) - ใช้คิดกำไรขั้นต้น
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= 0)
+   */
+  costTotal?: number;
+  /**
+   * Legacy: วิธีชำระแบบเดิม ยังบันทึกไว้ให้ข้อมูลเก่า/รายงานเดิมใช้ได้
+   * บิลใหม่ = "credit" ถ้ามีการขายเชื่อใน payments, นอกนั้น "cash"
+   */
   paymentType: "cash" | "credit";
+  /**
+   * รายการชำระเงิน
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (ใช้ paymentType แทน)
+   */
+  payments?: ISalePayment[];
+  /**
+   * เงินทอน (ทอนเป็นเงินสดเท่านั้น)
+   */
+  changeAmount?: number;
+  /**
+   * สถานะบิล
+   * - completed          = ขายปกติ
+   * - partially_returned = มีการคืนสินค้าบางรายการ
+   * - voided             = ยกเลิกทั้งบิล / คืนครบทุกรายการ
+   *
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= completed)
+   */
+  status?: "completed" | "partially_returned" | "voided";
+  /**
+   * ยอดที่คืนเงินแล้วทั้งหมด (รวม VAT) หน่วยบาท
+   */
+  refundedAmount?: number;
+  /**
+   * key ที่ client สร้างต่อ 1 การกดชำระเงิน - กันบันทึกบิลซ้ำเมื่อ retry
+   * optional: บิลเก่า/บิลที่ไม่ได้ส่ง key จะเป็น null
+   */
+  idempotencyKey?: string | null;
+  /**
+   * สาขาที่ขาย
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= สาขาหลัก)
+   */
+  branchId?: mongoose.Types.ObjectId | null;
+  /**
+   * แคชเชียร์ที่ขาย (เจ้าของร้าน/พนักงานที่ปลดล็อกเครื่องด้วย PIN)
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้
+   */
+  cashierId?: mongoose.Types.ObjectId | null;
   createdAt: Date;
 }
 
+const SalePaymentSchema = new Schema<ISalePayment>(
+  {
+    method: {
+      type: String,
+      enum: PAYMENT_METHODS,
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    reference: {
+      type: String,
+      default: null,
+      maxlength: 100,
+    },
+  },
+  { _id: false }
+);
+
 const SaleSchema = new Schema<ISale>(
   {
     userId: {
@@ -43,6 +138,16 @@ const SaleSchema = new Schema<ISale>(
       default: null,
       ref: "Customer",
     },
+    branchId: {
+      type: Schema.Types.ObjectId,
+      default: null,
+      ref: "Branch",
+    },
+    cashierId: {
+      type: Schema.Types.ObjectId,
+      default: null,
+      ref: "User",
+    },
     totalAmount: {
       type: Number,
       required: true,
@@ -68,16 +173,71 @@ const SaleSchema = new Schema<ISale>(
       default: 0,
       min: 0,
     },
+    billDiscountType: {
+      type: String,
+      enum: ["percent", "amount", null],
+      default: null,
+    },
+    billDiscountValue: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    billDiscountAmount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    discountTotal: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    costTotal: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
     paymentType: {
       type: String,
       enum: ["cash", "credit"],
       default: "cash",
       required: true,
     },
+    payments: {
+      type: [SalePaymentSchema],
+      default: undefined,
+    },
+    changeAmount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    status: {
+      type: String,
+      enum: ["completed", "partially_returned", "voided"],
+      default: "completed",
+    },
+    refundedAmount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    idempotencyKey: {
+      type: String,
+      default: null,
+      maxlength: 100,
+    },
   },
   {
     timestamps: { createdAt: true, updatedAt: false },
   }
 );
 
+// 1 key = 1 บิลต่อร้าน (บิลที่ไม่มี key ไม่ถูกนับ)
+SaleSchema.index(
+  { userId: 1, idempotencyKey: 1 },
+  { unique: true, partialFilterExpression: { idempotencyKey: { $type: "string" } } }
+);
+
 export const Sale = mongoose.model<ISale>("Sale", SaleSchema);
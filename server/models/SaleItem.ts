@@ -6,7 +6,45 @@ export interface ISaleItem extends Document {
   productName: string;
   quantity: number;
   unitPrice: number;
+  /**
+   * ยอดบรรทัดหลังหักส่วนลดรายการ (unitPrice × quantity - discountAmount)
+   */
   totalPrice: number;
+  /**
+   * ราคาทุนต่อหน่วย ณ เวลาที่ขาย (snapshot จาก Product.costPrice)
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= ทุน 0)
+   */
+  unitCost?: number;
+  /**
+   * ส่วนลดรายการ - รูปแบบและค่าที่แคชเชียร์กรอก
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= ไม่มีส่วนลด)
+   */
+  discountType?: "percent" | "amount" | null;
+  discountValue?: number;
+  /**
+   * ส่วนลดรายการเป็นบาท
+   */
+  discountAmount?: number;
+  /**
+   * จำนวนที่คืนแล้ว (จาก sales.return / sales.void)
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= 0)
+   */
+  returnedQuantity?: number;
+  /**
+   * หน่วยที่ขาย (quantity / unitPrice / unitCost เป็นของหน่วยนี้)
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= หน่วยฐาน)
+   */
+  unitName?: string | null;
+  /**
+   * 1 หน่วยที่ขาย = unitFactor หน่วยฐาน (ตัดสต็อก quantity × unitFactor)
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= 1)
+   */
+  unitFactor?: number;
+  /**
+   * ทศนิยมของ quantity (สินค้าขายตามน้ำหนัก/ความยาว) ใช้แสดงในใบเสร็จ เช่น 1.250 กก.
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= 0 จำนวนเต็ม)
+   */
+  quantityPrecision?: number;
 }
 
 const SaleItemSchema = new Schema<ISaleItem>(
@@ -29,7 +67,7 @@ const SaleItemSchema = new Schema<ISaleItem>(
     quantity: {
       type: Number,
       required: true,
-      min: 1,
+      min: 0,
     },
     unitPrice: {
       type: Number,
@@ -41,6 +79,46 @@ const SaleItemSchema = new Schema<ISaleItem>(
       required: true,
       min: 0,
     },
+    unitCost: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    discountType: {
+      type: String,
+      enum: ["percent", "amount", null],
+      default: null,
+    },
+    discountValue: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    discountAmount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    returnedQuantity: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    unitName: {
+      type: String,
+      default: null,
+      maxlength: 50,
+    },
+    unitFactor: {
+      type: Number,
+      default: 1,
+      min: 0,
+    },
+    quantityPrecision: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
   },
   {
     timestamps: false,
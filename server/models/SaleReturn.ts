@@ -0,0 +1,180 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { PAYMENT_METHODS, type PaymentMethod } from "@shared/payment";
+
+/**
+ * SaleReturn Model - เอกสารคืนสินค้า / ยกเลิกบิล
+ * 1 Sale มีได้หลาย SaleReturn (คืนทีละบางรายการ) แต่ยอดคืนรวมต้องไม่เกินยอดขาย
+ */
+export interface ISaleReturnItem {
+  saleItemId: mongoose.Types.ObjectId;
+  productId: mongoose.Types.ObjectId;
+  productName: string;
+  quantity: number; // จำนวนที่คืนในเอกสารนี้
+  unitPrice: number;
+  totalPrice: number; // มูลค่าคืน (ก่อน VAT)
+}
+
+export interface ISaleReturn extends Document {
+  userId: mongoose.Types.ObjectId;
+  saleId: mongoose.Types.ObjectId;
+  /**
+   * void   = ยกเลิกทั้งบิล (sales.void)
+   * return = คืนบางรายการ (sales.return)
+   */
+  type: "void" | "return";
+  items: ISaleReturnItem[];
+  // ยอดคืน (คิด VAT ตามอัตราของบิลเดิม)
+  subtotal: number;
+  vatRate: number;
+  vatAmount: number;
+  totalWithVat: number;
+  /**
+   * ต้นทุนของสินค้าที่คืน (ตาม SaleItem.unitCost) - หักออกจากต้นทุนขายในรายงานกำไร
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= 0)
+   */
+  costTotal?: number;
+  /**
+   * วิธีคืนเงิน (ตามวิธีชำระของบิลเดิม) ของส่วนที่ไม่ได้ลดหนี้
+   * - cash   = คืนเงินสดจากลิ้นชัก
+   * - credit = ลดยอดค้างของลูกค้า
+   * - transfer / promptpay / card = คืนผ่านช่องทางเดิม (ไม่กระทบเงินสดในลิ้นชัก)
+   */
+  paymentType: PaymentMethod;
+  /**
+   * ส่วนของยอดคืนที่ลดยอดค้างของลูกค้า (บิลที่จ่ายเชื่อผสมเงินสด ลดหนี้ได้ไม่เกินส่วนที่เชื่อ)
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (paymentType = credit → ลดหนี้ทั้งก้อน)
+   */
+  creditAmount?: number;
+  customerId?: mongoose.Types.ObjectId | null;
+  reason?: string | null;
+  creditNoteId?: mongoose.Types.ObjectId | null; // ใบลดหนี้ (ถ้าบิลมีใบกำกับภาษีเต็ม)
+  /**
+   * สาขาที่ที่รับคืน (= สาขาของบิลขาย)
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= สาขาหลัก)
+   */
+  branchId?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+}
+
+const SaleReturnItemSchema = new Schema<ISaleReturnItem>(
+  {
+    saleItemId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: "SaleItem",
+    },
+    productId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: "Product",
+    },
+    productName: {
+      type: String,
+      required: true,
+      maxlength: 255,
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    unitPrice: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    totalPrice: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+  },
+  { _id: false }
+);
+
+const SaleReturnSchema = new Schema<ISaleReturn>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: "User",
+    },
+    saleId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: "Sale",
+    },
+    type: {
+      type: String,
+      enum: ["void", "return"],
+      required: true,
+    },
+    items: {
+      type: [SaleReturnItemSchema],
+      required: true,
+    },
+    subtotal: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    vatRate: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    vatAmount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    totalWithVat: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    costTotal: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    paymentType: {
+      type: String,
+      enum: PAYMENT_METHODS,
+      required: true,
+    },
+    creditAmount: {
+      type: Number,
+      min: 0,
+    },
+    customerId: {
+      type: Schema.Types.ObjectId,
+      default: null,
+      ref: "Customer",
+    },
+    branchId: {
+      type: Schema.Types.ObjectId,
+      default: null,
+      ref: "Branch",
+    },
+    reason: {
+      type: String,
+      default: null,
+      maxlength: 500,
+    },
+    creditNoteId: {
+      type: Schema.Types.ObjectId,
+      default: null,
+      ref: "CreditNote",
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// userId + createdAt: สำหรับรายงาน / สรุปกะ
+SaleReturnSchema.index({ userId: 1, createdAt: -1 });
+SaleReturnSchema.index({ saleId: 1 });
+
+export const SaleReturn = mongoose.model<ISaleReturn>("SaleReturn", SaleReturnSchema);
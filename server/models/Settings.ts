@@ -1,27 +1,103 @@
 import mongoose, { Schema, Document } from "mongoose";
+import type { CostingMethod } from "../costing";
+import type { ScaleBarcodeRule } from "@shared/scaleBarcode";
 
 /**
- * Settings Model - สำหรับเก็บ global system settings
- * ใช้ singleton pattern (มีแค่ 1 record ใน DB)
+ * Settings Model - สำหรับเก็บ settings ระดับร้าน
+ * 1 ร้าน (userId) = 1 record
+ *
+ * ข้อมูลเก่าเป็น singleton (singleton: "settings", ไม่มี userId)
+ * จะถูกย้ายไปเป็นของร้านแอดมินคนแรกโดย migrateLegacySettings()
  */
 export interface ISettings extends Document {
-  singleton?: string; // Always "settings" to enforce singleton pattern (optional for backward compatibility)
+  /**
+   * เจ้าของ settings (ร้าน)
+   * optional/backward-compatible: record singleton เก่าจะไม่มี field นี้
+   */
+  userId?: mongoose.Types.ObjectId | null;
+  /**
+   * Legacy field จาก singleton pattern เดิม ใช้หา record เก่าตอน migrate เท่านั้น
+   */
+  singleton?: string;
   vatEnabled: boolean;
   // ข้อมูลผู้ขาย (สำหรับใบกำกับภาษีเต็ม)
   sellerName?: string; // ชื่อร้าน
   sellerAddress?: string; // ที่อยู่ร้าน
   sellerTaxId?: string; // เลขประจำตัวผู้เสียภาษีผู้ขาย
+  /**
+   * PromptPay ID ของร้าน (เบอร์มือถือ 10 หลัก / เลขประจำตัวผู้เสียภาษี 13 หลัก)
+   * ว่าง = ไม่แสดง QR พร้อมเพย์
+   */
+  promptPayId?: string;
+  /**
+   * วิธีคิดต้นทุนสินค้าคงเหลือ: average = ถัวเฉลี่ยเคลื่อนที่, fifo = เข้าก่อนออกก่อน
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= average)
+   */
+  costingMethod?: CostingMethod;
+  /**
+   * กฎอ่านบาร์โค้ดจากตาชั่ง (prefix 20-29 + PLU + ราคา/น้ำหนัก)
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= [] ยิงได้เฉพาะบาร์โค้ดตรงตัว)
+   */
+  scaleBarcodeRules?: ScaleBarcodeRule[];
+  /**
+   * prefix บาร์โค้ดที่ร้านสร้างเอง (20-29 ห้ามซ้ำกับกฎตาชั่ง)
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= "29")
+   */
+  internalBarcodePrefix?: string;
+  /**
+   * ลำดับล่าสุดของบาร์โค้ดที่ร้านสร้างเอง
+   */
+  internalBarcodeSequence?: number;
+  /**
+   * คำแนะนำการสั่งซื้อ: ดูยอดขายย้อนหลังกี่วัน / สั่งให้พอขายกี่วัน / รอของจากผู้จำหน่ายกี่วัน
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= 28 / 14 / 2 วัน)
+   */
+  reorderSalesWindowDays?: number;
+  reorderCoverDays?: number;
+  reorderLeadTimeDays?: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const ScaleBarcodeRuleSchema = new Schema<ScaleBarcodeRule>(
+  {
+    prefix: {
+      type: String,
+      required: true,
+      match: /^2\d$/,
+    },
+    pluLength: {
+      type: Number,
+      required: true,
+      min: 4,
+      max: 6,
+    },
+    valueType: {
+      type: String,
+      enum: ["price", "weight"],
+      required: true,
+    },
+    decimals: {
+      type: Number,
+      required: true,
+      min: 0,
+      max: 3,
+    },
+  },
+  { _id: false }
+);
+
 const SettingsSchema = new Schema<ISettings>(
   {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: false,
+      default: null,
+    },
     singleton: {
       type: String,
-      default: "settings",
-      required: true,
-      immutable: true,
+      required: false,
     },
     vatEnabled: {
       type: Boolean,
@@ -43,13 +119,59 @@ const SettingsSchema = new Schema<ISettings>(
       required: false,
       default: "",
     },
+    promptPayId: {
+      type: String,
+      required: false,
+      default: "",
+    },
+    costingMethod: {
+      type: String,
+      enum: ["average", "fifo"],
+      required: false,
+      default: "average",
+    },
+    scaleBarcodeRules: {
+      type: [ScaleBarcodeRuleSchema],
+      default: [],
+    },
+    internalBarcodePrefix: {
+      type: String,
+      default: "29",
+      match: /^2\d$/,
+    },
+    internalBarcodeSequence: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    reorderSalesWindowDays: {
+      type: Number,
+      default: 28,
+      min: 1,
+      max: 365,
+    },
+    reorderCoverDays: {
+      type: Number,
+      default: 14,
+      min: 1,
+      max: 180,
+    },
+    reorderLeadTimeDays: {
+      type: Number,
+      default: 2,
+      min: 0,
+      max: 90,
+    },
   },
   {
     timestamps: true,
   }
 );
 
-// Ensure only one settings document exists
-SettingsSchema.index({ singleton: 1 }, { unique: true });
+// 1 ร้าน = 1 settings (record เก่าที่ยังไม่มี userId ไม่ถูกนับ)
+SettingsSchema.index(
+  { userId: 1 },
+  { unique: true, partialFilterExpression: { userId: { $type: "objectId" } } }
+);
 
 export const Settings = mongoose.model<ISettings>("Settings", SettingsSchema);
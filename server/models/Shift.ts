@@ -10,6 +10,16 @@ import mongoose, { Schema, Document } from "mongoose";
  */
 export interface IShift extends Document {
   userId: mongoose.Types.ObjectId;
+  /**
+   * สาขาที่ของกะ (แต่ละสาขาเปิด/ปิดกะแยกกัน)
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= สาขาหลัก)
+   */
+  branchId?: mongoose.Types.ObjectId | null;
+  /**
+   * แคชเชียร์ที่เปิดกะ
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้
+   */
+  cashierId?: mongoose.Types.ObjectId | null;
   /**
    * เลขกะ - เริ่มจาก 1 ในแต่ละวัน
    * เช่น วันเดียวกันอาจมีกะเช้า (1), กะบ่าย (2), กะดึก (3)
@@ -38,7 +48,7 @@ export interface IShift extends Document {
    */
   closingCash?: number | null;
   /**
-   * เงินสดที่ควรมี - คำนวณจาก openingCash + cashSales
+   * เงินสดที่ควรมี - คำนวณจาก openingCash + cashSales (เงินสดจริงหลังทอน/คืนเงิน)
    * ใช้เปรียบเทียบกับ actualCash เพื่อหาผลต่าง
    */
   expectedCash: number;
@@ -63,6 +73,13 @@ export interface IShift extends Document {
    * ยอดขายเครดิต - ยอดขายที่ชำระด้วยเครดิต (ค้างชำระ)
    */
   creditSales: number;
+  /**
+   * ยอดรับชำระช่องทางอื่น (ไม่เข้าลิ้นชักเงินสด)
+   * optional/backward-compatible: กะเก่าจะไม่มี field เหล่านี้
+   */
+  transferSales?: number;
+  promptPaySales?: number;
+  cardSales?: number;
   /**
    * จำนวนรายการขาย - จำนวนครั้งที่ขายในกะนี้
    */
@@ -87,6 +104,16 @@ const ShiftSchema = new Schema<IShift>(
       ref: "User",
       index: true,
     },
+    branchId: {
+      type: Schema.Types.ObjectId,
+      default: null,
+      ref: "Branch",
+    },
+    cashierId: {
+      type: Schema.Types.ObjectId,
+      default: null,
+      ref: "User",
+    },
     shiftNumber: {
       type: Number,
       required: true,
@@ -158,6 +185,21 @@ const ShiftSchema = new Schema<IShift>(
       default: 0,
       min: 0,
     },
+    transferSales: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    promptPaySales: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    cardSales: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
     saleCount: {
       type: Number,
       required: true,
@@ -0,0 +1,44 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { STAFF_ROLES, type StaffRole } from "@shared/permissions";
+
+/**
+ * ShopMember Model - พนักงานที่เข้าใช้ข้อมูลร้านของเจ้าของร้าน
+ *
+ * ข้อมูลร้านทั้งหมดผูกกับ userId ของเจ้าของร้าน (shopId) - ผู้ใช้ที่ไม่มี record นี้คือเจ้าของร้านของตัวเอง
+ * ผู้ใช้ 1 คนเป็นพนักงานได้ร้านเดียว
+ */
+export interface IShopMember extends Document {
+  shopId: mongoose.Types.ObjectId; // userId ของเจ้าของร้าน
+  userId: mongoose.Types.ObjectId; // บัญชีของพนักงาน
+  role: StaffRole;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ShopMemberSchema = new Schema<IShopMember>(
+  {
+    shopId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: "User",
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: "User",
+    },
+    role: {
+      type: String,
+      enum: STAFF_ROLES,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+ShopMemberSchema.index({ userId: 1 }, { unique: true });
+ShopMemberSchema.index({ shopId: 1 });
+
+export const ShopMember = mongoose.model<IShopMember>("ShopMember", ShopMemberSchema);
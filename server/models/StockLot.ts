@@ -0,0 +1,74 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * StockLot Model - ล็อตสินค้าพร้อมวันหมดอายุ
+ * รับของเข้าพร้อมเลขล็อต/วันหมดอายุ 1 ครั้ง = 1 ล็อต
+ * ขายจะลด remainingQuantity จากล็อตที่หมดอายุก่อน (FEFO)
+ */
+export interface IStockLot extends Document {
+  userId: mongoose.Types.ObjectId;
+  productId: mongoose.Types.ObjectId;
+  lotNumber?: string | null;
+  expiryDate?: Date | null; // null = ไม่มีวันหมดอายุ
+  quantity: number; // จำนวนที่รับเข้า (หน่วยฐาน)
+  remainingQuantity: number; // จำนวนที่ยังเหลือในล็อตนี้
+  movementId?: mongoose.Types.ObjectId | null; // StockMovement ที่รับล็อตนี้เข้า
+  /**
+   * สาขาที่ล็อตนี้อยู่ (ตัดออกเฉพาะล็อตของสาขาที่ตัดสต็อก)
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= สาขาหลัก)
+   */
+  branchId?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+}
+
+const StockLotSchema = new Schema<IStockLot>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: "User",
+    },
+    productId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: "Product",
+    },
+    lotNumber: {
+      type: String,
+      default: null,
+      maxlength: 100,
+    },
+    expiryDate: {
+      type: Date,
+      default: null,
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    remainingQuantity: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    movementId: {
+      type: Schema.Types.ObjectId,
+      ref: "StockMovement",
+      default: null,
+    },
+    branchId: {
+      type: Schema.Types.ObjectId,
+      default: null,
+      ref: "Branch",
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+StockLotSchema.index({ productId: 1, branchId: 1, remainingQuantity: 1 });
+StockLotSchema.index({ userId: 1, expiryDate: 1 });
+
+export const StockLot = mongoose.model<IStockLot>("StockLot", StockLotSchema);
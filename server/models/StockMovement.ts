@@ -1,7 +1,18 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { STOCK_ADJUST_REASONS, type StockAdjustReason } from "@shared/stockAdjust";
 
 export type StockMovementType = "IN" | "OUT";
-export type StockMovementSource = "SALE" | "PURCHASE" | "ADJUST";
+export type StockMovementSource = "SALE" | "PURCHASE" | "ADJUST" | "RETURN" | "TRANSFER";
+
+/**
+ * ล็อตที่รับเข้า/ตัดออกในการเคลื่อนไหวนี้
+ */
+export interface IStockMovementLot {
+  lotId: mongoose.Types.ObjectId;
+  lotNumber?: string | null;
+  expiryDate?: Date | null;
+  quantity: number;
+}
 
 export interface IStockMovement extends Document {
   productId: mongoose.Types.ObjectId;
@@ -9,9 +20,64 @@ export interface IStockMovement extends Document {
   quantity: number;
   source: StockMovementSource;
   note?: string | null;
+  purchaseOrderId?: mongoose.Types.ObjectId | null; // ใบสั่งซื้อที่รับของเข้า (source = PURCHASE)
+  stocktakeId?: mongoose.Types.ObjectId | null; // รอบนับสต็อกที่ปรับยอด (source = ADJUST)
+  /**
+   * เหตุผลการปรับสต็อก (source = ADJUST)
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= other)
+   */
+  reason?: StockAdjustReason | null;
+  /**
+   * ต้นทุนของการเคลื่อนไหวนี้ (IN = ทุนที่รับเข้า, OUT = ทุนที่ตัดออกตามวิธีคิดต้นทุนของร้าน)
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้
+   */
+  unitCost?: number | null;
+  totalCost?: number | null;
+  /**
+   * ยอดคงเหลือหลังการเคลื่อนไหว (ใช้ทำรายงานมูลค่าสินค้าคงเหลือ ณ วันที่)
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= ประมาณจากสต็อกปัจจุบัน × ทุน)
+   */
+  balanceQuantity?: number | null;
+  balanceValue?: number | null;
+  /**
+   * ล็อตที่เกี่ยวข้อง (ส่วนที่ไม่ระบุล็อตจะไม่อยู่ในนี้)
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= [])
+   */
+  lots?: IStockMovementLot[];
+  /**
+   * สาขาที่สต็อกเคลื่อนไหว
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= สาขาหลัก)
+   */
+  branchId?: mongoose.Types.ObjectId | null;
+  stockTransferId?: mongoose.Types.ObjectId | null; // ใบโอนระหว่างสาขา (source = TRANSFER)
+  cashierId?: mongoose.Types.ObjectId | null; // ผู้ทำรายการ (ข้อมูลเก่า = ไม่มี)
   createdAt: Date;
 }
 
+const StockMovementLotSchema = new Schema<IStockMovementLot>(
+  {
+    lotId: {
+      type: Schema.Types.ObjectId,
+      ref: "StockLot",
+      required: true,
+    },
+    lotNumber: {
+      type: String,
+      default: null,
+    },
+    expiryDate: {
+      type: Date,
+      default: null,
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+  },
+  { _id: false }
+);
+
 const StockMovementSchema = new Schema<IStockMovement>(
   {
     productId: {
@@ -27,11 +93,11 @@ const StockMovementSchema = new Schema<IStockMovement>(
     quantity: {
       type: Number,
       required: true,
-      min: 1,
+      min: 0, // สินค้าขายตามน้ำหนัก/ความยาวเป็นทศนิยมได้
     },
     source: {
       type: String,
-      enum: ["SALE", "PURCHASE", "ADJUST"],
+      enum: ["SALE", "PURCHASE", "ADJUST", "RETURN", "TRANSFER"],
       required: true,
     },
     note: {
@@ -39,6 +105,56 @@ const StockMovementSchema = new Schema<IStockMovement>(
       default: null,
       maxlength: 500,
     },
+    purchaseOrderId: {
+      type: Schema.Types.ObjectId,
+      ref: "PurchaseOrder",
+      default: null,
+    },
+    stocktakeId: {
+      type: Schema.Types.ObjectId,
+      ref: "Stocktake",
+      default: null,
+    },
+    reason: {
+      type: String,
+      enum: [...STOCK_ADJUST_REASONS, null],
+      default: null,
+    },
+    unitCost: {
+      type: Number,
+      default: null,
+    },
+    totalCost: {
+      type: Number,
+      default: null,
+    },
+    balanceQuantity: {
+      type: Number,
+      default: null,
+    },
+    balanceValue: {
+      type: Number,
+      default: null,
+    },
+    lots: {
+      type: [StockMovementLotSchema],
+      default: [],
+    },
+    branchId: {
+      type: Schema.Types.ObjectId,
+      ref: "Branch",
+      default: null,
+    },
+    stockTransferId: {
+      type: Schema.Types.ObjectId,
+      ref: "StockTransfer",
+      default: null,
+    },
+    cashierId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
   },
   {
     timestamps: { createdAt: true, updatedAt: false },
@@ -0,0 +1,93 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * รายการที่โอน (จำนวนเป็นหน่วยฐาน)
+ */
+export interface IStockTransferItem {
+  productId: mongoose.Types.ObjectId;
+  productName: string; // snapshot ชื่อสินค้าตอนโอน
+  quantity: number;
+  unitCost?: number | null; // ทุนต่อหน่วยที่ตัดออกจากสาขาต้นทาง
+}
+
+/**
+ * StockTransfer Model - ใบโอนสินค้าระหว่างสาขา
+ * บันทึกแล้วตัด OUT ที่สาขาต้นทาง และรับ IN ที่สาขาปลายทางทันที (source = TRANSFER)
+ * fromBranchId / toBranchId = null คือสาขาหลัก
+ */
+export interface IStockTransfer extends Document {
+  userId: mongoose.Types.ObjectId;
+  transferNumber: string; // เลขที่ใบโอน (TRF-YYYY-XXXXXX)
+  fromBranchId?: mongoose.Types.ObjectId | null;
+  toBranchId?: mongoose.Types.ObjectId | null;
+  items: IStockTransferItem[];
+  note?: string | null;
+  createdAt: Date;
+}
+
+const StockTransferItemSchema = new Schema<IStockTransferItem>(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: "Product",
+    },
+    productName: {
+      type: String,
+      required: true,
+      maxlength: 255,
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    unitCost: {
+      type: Number,
+      default: null,
+    },
+  },
+  { _id: false }
+);
+
+const StockTransferSchema = new Schema<IStockTransfer>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: "User",
+    },
+    transferNumber: {
+      type: String,
+      required: true,
+    },
+    fromBranchId: {
+      type: Schema.Types.ObjectId,
+      ref: "Branch",
+      default: null,
+    },
+    toBranchId: {
+      type: Schema.Types.ObjectId,
+      ref: "Branch",
+      default: null,
+    },
+    items: {
+      type: [StockTransferItemSchema],
+      default: [],
+    },
+    note: {
+      type: String,
+      default: null,
+      maxlength: 500,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// เลขที่ใบโอนไม่ซ้ำภายในร้าน
+StockTransferSchema.index({ userId: 1, transferNumber: 1 }, { unique: true });
+StockTransferSchema.index({ userId: 1, createdAt: -1 });
+
+export const StockTransfer = mongoose.model<IStockTransfer>("StockTransfer", StockTransferSchema);
@@ -0,0 +1,141 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * สถานะรอบนับสต็อก
+ * - counting  = กำลังนับ (เพิ่ม/แก้จำนวนนับได้)
+ * - posted    = ปรับสต็อกตามผลนับแล้ว (แก้ไขไม่ได้)
+ * - cancelled = ยกเลิก (ไม่ปรับสต็อก)
+ */
+export type StocktakeStatus = "counting" | "posted" | "cancelled";
+
+/**
+ * รายการที่นับในรอบนับสต็อก
+ * expectedQuantity / variance / unitCost / varianceValue บันทึกตอน post
+ */
+export interface IStocktakeItem {
+  _id: mongoose.Types.ObjectId;
+  productId: mongoose.Types.ObjectId;
+  productName: string; // snapshot ชื่อสินค้าตอนนับ
+  countedQuantity: number; // จำนวนที่นับได้จริง
+  expectedQuantity?: number | null; // สต็อกในระบบตอน post
+  variance?: number | null; // countedQuantity - expectedQuantity
+  unitCost?: number | null; // ทุนต่อหน่วยที่ใช้ปรับ
+  varianceValue?: number | null; // มูลค่าผลต่าง (ติดลบ = ของหาย)
+  countedAt: Date;
+}
+
+/**
+ * Stocktake Model - รอบนับสต็อกจริงเทียบกับสต็อกในระบบ
+ */
+export interface IStocktake extends Document {
+  userId: mongoose.Types.ObjectId;
+  /**
+   * สาขาที่นับ - post แล้วปรับสต็อกของสาขานี้
+   * optional/backward-compatible: ข้อมูลเก่าจะไม่มี field นี้ (= สาขาหลัก)
+   */
+  branchId?: mongoose.Types.ObjectId | null;
+  stocktakeNumber: string; // เลขที่รอบนับ (STK-YYYY-XXXXXX)
+  status: StocktakeStatus;
+  items: IStocktakeItem[];
+  note?: string | null;
+  reason?: string | null; // เหตุผลการปรับสต็อก (ใส่ตอน post)
+  postedAt?: Date | null;
+  cancelledAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StocktakeItemSchema = new Schema<IStocktakeItem>({
+  productId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: "Product",
+  },
+  productName: {
+    type: String,
+    required: true,
+    maxlength: 255,
+  },
+  countedQuantity: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  expectedQuantity: {
+    type: Number,
+    default: null,
+  },
+  variance: {
+    type: Number,
+    default: null,
+  },
+  unitCost: {
+    type: Number,
+    default: null,
+  },
+  varianceValue: {
+    type: Number,
+    default: null,
+  },
+  countedAt: {
+    type: Date,
+    required: true,
+    default: Date.now,
+  },
+});
+
+const StocktakeSchema = new Schema<IStocktake>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: "User",
+    },
+    branchId: {
+      type: Schema.Types.ObjectId,
+      default: null,
+      ref: "Branch",
+    },
+    stocktakeNumber: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["counting", "posted", "cancelled"],
+      required: true,
+      default: "counting",
+    },
+    items: {
+      type: [StocktakeItemSchema],
+      default: [],
+    },
+    note: {
+      type: String,
+      default: null,
+      maxlength: 500,
+    },
+    reason: {
+      type: String,
+      default: null,
+      maxlength: 500,
+    },
+    postedAt: {
+      type: Date,
+      default: null,
+    },
+    cancelledAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// เลขที่รอบนับไม่ซ้ำภายในร้าน
+StocktakeSchema.index({ userId: 1, stocktakeNumber: 1 }, { unique: true });
+StocktakeSchema.index({ userId: 1, status: 1, createdAt: -1 });
+
+export const Stocktake = mongoose.model<IStocktake>("Stocktake", StocktakeSchema);
@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * Supplier Model - ผู้จำหน่าย / ร้านที่ไปซื้อของมาขาย
+ */
+export interface ISupplier extends Document {
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  contactName?: string | null; // ชื่อผู้ติดต่อ
+  phone?: string | null;
+  address?: string | null;
+  taxId?: string | null; // เลขประจำตัวผู้เสียภาษี (ถ้ามี)
+  note?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SupplierSchema = new Schema<ISupplier>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: "User",
+    },
+    name: {
+      type: String,
+      required: true,
+      maxlength: 255,
+    },
+    contactName: {
+      type: String,
+      default: null,
+      maxlength: 255,
+    },
+    phone: {
+      type: String,
+      default: null,
+      maxlength: 20,
+    },
+    address: {
+      type: String,
+      default: null,
+      maxlength: 500,
+    },
+    taxId: {
+      type: String,
+      default: null,
+      maxlength: 20,
+    },
+    note: {
+      type: String,
+      default: null,
+      maxlength: 500,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+SupplierSchema.index({ userId: 1, name: 1 });
+
+export const Supplier = mongoose.model<ISupplier>("Supplier", SupplierSchema);
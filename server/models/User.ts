@@ -4,6 +4,9 @@ export interface IUser extends Document {
   openId?: string | null; // Optional for email/password users
   email?: string | null;
   password?: string | null; // Hashed password for email/password login
+  pin?: string | null; // Hashed 4-6 digit PIN for switching cashier on a shared device
+  pinFailedAttempts?: number; // PIN attempts used since the last success/lockout
+  pinLockedUntil?: Date | null; // PIN unlock blocked until this time after too many wrong guesses
   name?: string | null;
   loginMethod?: string | null;
   role: "user" | "admin";
@@ -35,6 +38,21 @@ const UserSchema = new Schema<IUser>(
       required: false,
       select: false, // Don't return password by default
     },
+    pin: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    pinFailedAttempts: {
+      type: Number,
+      default: 0,
+      select: false,
+    },
+    pinLockedUntil: {
+      type: Date,
+      default: null,
+      select: false,
+    },
     name: {
       type: String,
       default: null,
@@ -3,6 +3,16 @@ import { ENV } from "./_core/env";
 
 let isConnected = false;
 
+/**
+ * MongoDB ใช้ transaction ไม่ได้ (standalone) - server ต้องไม่เปิดให้บริการต่อ
+ */
+export class TransactionsUnsupportedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TransactionsUnsupportedError";
+  }
+}
+
 export async function connectMongoDB() {
   if (isConnected) {
     return mongoose.connection;
@@ -15,6 +25,7 @@ export async function connectMongoDB() {
 
   try {
     await mongoose.connect(ENV.databaseUrl);
+    await assertTransactionsSupported();
     isConnected = true;
     console.log("[MongoDB] Connected successfully");
     return mongoose.connection;
@@ -24,6 +35,21 @@ export async function connectMongoDB() {
   }
 }
 
+/**
+ * ขายสินค้า/คืนสินค้า/รับของใช้ transaction → ต้องเป็น replica set หรือ sharded cluster (mongos)
+ * MongoDB แบบ standalone เปิด transaction ไม่ได้ - หยุดตั้งแต่ตอนเชื่อมต่อแทนที่จะไปล้มตอนขาย
+ */
+async function assertTransactionsSupported() {
+  const hello = await mongoose.connection.db!.admin().command({ hello: 1 });
+  if (hello.setName || hello.msg === "isdbgrid") return;
+
+  await mongoose.disconnect();
+  throw new TransactionsUnsupportedError(
+    "MongoDB server is standalone - transactions require a replica set. " +
+      "Use MongoDB Atlas or start mongod with --replSet (a single-node replica set is enough)."
+  );
+}
+
 export async function disconnectMongoDB() {
   if (isConnected) {
     await mongoose.disconnect();
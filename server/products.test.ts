@@ -1,9 +1,12 @@
 import { describe, expect, it, vi } from "vitest";
 import { appRouter } from "./routers";
+import * as db from "./db";
+import { CASHIER_HEADER, CASHIER_LOCKED_ERR_MSG } from "@shared/cashier";
 import type { TrpcContext } from "./_core/context";
 
 // Mock the database functions
 vi.mock("./db", () => ({
+  getShopMembership: vi.fn().mockResolvedValue({ shopId: "1", role: "owner" }),
   getProductsByUser: vi.fn().mockResolvedValue([
     { id: 1, userId: 1, name: "ปุ๋ยยูเรีย", price: "350.00", stock: 10, minStock: 5 },
     { id: 2, userId: 1, name: "ยาฆ่าแมลง", price: "120.00", stock: 3, minStock: 5 },
@@ -13,12 +16,21 @@ vi.mock("./db", () => ({
   ]),
   createProduct: vi.fn().mockResolvedValue(3),
   updateProduct: vi.fn().mockResolvedValue(undefined),
-  deleteProduct: vi.fn().mockResolvedValue(undefined),
+  archiveProduct: vi.fn().mockResolvedValue(undefined),
+  restoreProduct: vi.fn().mockResolvedValue(undefined),
+  getProductById: vi.fn().mockResolvedValue({
+    id: "1",
+    name: "ปุ๋ยยูเรีย",
+    price: "350",
+    stock: 10,
+    archivedAt: null,
+  }),
+  createAuditLog: vi.fn().mockResolvedValue(undefined),
 }));
 
 type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
 
-function createAuthContext(): TrpcContext {
+function createAuthContext(headers: Record<string, string> = {}, ip?: string): TrpcContext {
   const user: AuthenticatedUser = {
     id: 1,
     openId: "test-user",
@@ -35,7 +47,8 @@ function createAuthContext(): TrpcContext {
     user,
     req: {
       protocol: "https",
-      headers: {},
+      headers,
+      ip,
     } as TrpcContext["req"],
     res: {
       clearCookie: vi.fn(),
@@ -93,12 +106,65 @@ describe("products router", () => {
     expect(result).toEqual({ success: true });
   });
 
-  it("deletes a product", async () => {
+  it("archives a product instead of deleting it", async () => {
     const ctx = createAuthContext();
     const caller = appRouter.createCaller(ctx);
 
-    const result = await caller.products.delete({ id: 1 });
+    const result = await caller.products.archive({ id: 1 });
 
     expect(result).toEqual({ success: true });
   });
+
+  it("restores an archived product", async () => {
+    const ctx = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+
+    const result = await caller.products.restore({ id: 1 });
+
+    expect(result).toEqual({ success: true });
+  });
+
+  it("records the old and new price in the audit log", async () => {
+    vi.mocked(db.getProductById)
+      .mockResolvedValueOnce({ id: "1", name: "ปุ๋ยยูเรีย", price: "350", stock: 10 })
+      .mockResolvedValueOnce({ id: "1", name: "ปุ๋ยยูเรีย", price: "380", stock: 10 });
+    vi.mocked(db.createAuditLog).mockClear();
+    // Express ตั้ง req.ip จาก x-forwarded-for ตาม trust proxy แล้ว - ไม่อ่าน header เอง
+    const ctx = createAuthContext({ "x-forwarded-for": "198.51.100.1" }, "203.0.113.7");
+    const caller = appRouter.createCaller(ctx);
+
+    await caller.products.update({ id: 1, price: "380.00", stock: 10 });
+
+    expect(db.createAuditLog).toHaveBeenCalledWith({
+      userId: "1",
+      actorId: "1",
+      actorName: "Test User",
+      ip: "203.0.113.7",
+      action: "product.update",
+      entityId: "1",
+      entityName: "ปุ๋ยยูเรีย",
+      before: { price: "350" },
+      after: { price: "380" },
+    });
+  });
+
+  it("forbids cashiers from changing product prices", async () => {
+    vi.mocked(db.getShopMembership).mockResolvedValueOnce({ shopId: "1", role: "cashier" });
+    const ctx = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+
+    await expect(
+      caller.products.update({ id: 1, price: "1.00" })
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+
+  it("asks for the PIN again when the cashier token is invalid", async () => {
+    const ctx = createAuthContext({ [CASHIER_HEADER]: "expired-token" });
+    const caller = appRouter.createCaller(ctx);
+
+    await expect(caller.products.list()).rejects.toMatchObject({
+      code: "UNAUTHORIZED",
+      message: CASHIER_LOCKED_ERR_MSG,
+    });
+  });
 });
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { buildPromptPayPayload, crc16, isValidPromptPayId } from "./promptpay";
+
+describe("PromptPay", () => {
+  describe("crc16", () => {
+    it("should match CRC-16/CCITT-FALSE check value", () => {
+      expect(crc16("123456789")).toBe("29B1");
+    });
+  });
+
+  describe("isValidPromptPayId", () => {
+    it("should accept phone numbers and tax IDs", () => {
+      expect(isValidPromptPayId("081-234-5678")).toBe(true);
+      expect(isValidPromptPayId("1234567890123")).toBe(true);
+      expect(isValidPromptPayId("12345")).toBe(false);
+    });
+  });
+
+  describe("buildPromptPayPayload", () => {
+    it("should build static payload for phone number", () => {
+      const payload = buildPromptPayPayload("080-123-4567");
+
+      expect(payload).toContain("010211"); // static QR
+      expect(payload).toContain("0016A000000677010111");
+      expect(payload).toContain("01130066801234567"); // 0066 + เบอร์ตัด 0
+      expect(payload).toContain("5802TH");
+      expect(payload).toContain("5303764");
+      expect(payload).not.toContain("5404");
+    });
+
+    it("should build dynamic payload with amount", () => {
+      const payload = buildPromptPayPayload("0801234567", 1150);
+
+      expect(payload).toContain("010212"); // dynamic QR
+      expect(payload).toContain("54071150.00");
+    });
+
+    it("should use tax ID tag for 13-digit IDs", () => {
+      const payload = buildPromptPayPayload("0105551234567", 99.5);
+
+      expect(payload).toContain("02130105551234567");
+      expect(payload).toContain("540599.50");
+    });
+
+    it("should end with a valid CRC", () => {
+      const payload = buildPromptPayPayload("0801234567", 4.22);
+      const data = payload.slice(0, -4);
+
+      expect(data.endsWith("6304")).toBe(true);
+      expect(payload.slice(-4)).toBe(crc16(data));
+    });
+
+    it("should reject invalid PromptPay ID", () => {
+      expect(() => buildPromptPayPayload("12345")).toThrow();
+    });
+  });
+});
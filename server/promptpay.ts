@@ -0,0 +1,103 @@
+/**
+ * PromptPay QR (Thai QR Payment / EMVCo Merchant Presented Mode)
+ *
+ * payload = ชุด TLV: [ID 2 หลัก][ความยาว 2 หลัก][ค่า]
+ * ปิดท้ายด้วย CRC16-CCITT (tag 63) ที่คำนวณรวม "6304" ด้วย
+ */
+
+const ID_PAYLOAD_FORMAT = "00";
+const ID_POI_METHOD = "01";
+const ID_MERCHANT_INFORMATION_BOT = "29";
+const ID_TRANSACTION_CURRENCY = "53";
+const ID_TRANSACTION_AMOUNT = "54";
+const ID_COUNTRY_CODE = "58";
+const ID_CRC = "63";
+
+const PROMPTPAY_AID = "A000000677010111";
+const BOT_ID_MERCHANT_PHONE_NUMBER = "01";
+const BOT_ID_MERCHANT_TAX_ID = "02";
+const BOT_ID_MERCHANT_EWALLET_ID = "03";
+
+const POI_METHOD_STATIC = "11"; // ใช้ซ้ำได้ ลูกค้ากรอกยอดเอง
+const POI_METHOD_DYNAMIC = "12"; // ระบุยอดในตัว QR
+const CURRENCY_THB = "764";
+const COUNTRY_TH = "TH";
+
+function tlv(id: string, value: string): string {
+  return id + String(value.length).padStart(2, "0") + value;
+}
+
+/**
+ * CRC16-CCITT (polynomial 0x1021, initial 0xFFFF) ตาม EMVCo
+ */
+export function crc16(data: string): string {
+  let crc = 0xffff;
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, "0");
+}
+
+/**
+ * ตัดอักขระที่ไม่ใช่ตัวเลขออก (รับ "081-234-5678" / "1 2345 67890 12 3")
+ */
+export function sanitizePromptPayId(id: string): string {
+  return id.replace(/[^0-9]/g, "");
+}
+
+/**
+ * ตรวจรูปแบบ PromptPay ID: เบอร์มือถือ 10 หลัก, เลขผู้เสียภาษี/บัตรประชาชน 13 หลัก, e-Wallet 15 หลัก
+ */
+export function isValidPromptPayId(id: string): boolean {
+  const digits = sanitizePromptPayId(id);
+  return /^0\d{9}$/.test(digits) || digits.length === 13 || digits.length === 15;
+}
+
+/**
+ * สร้าง payload สำหรับ PromptPay QR
+ * @param promptPayId เบอร์มือถือ / เลขประจำตัวผู้เสียภาษี / e-Wallet ID
+ * @param amount ยอดเงิน (บาท) - ไม่ระบุ = QR แบบ static ให้ลูกค้ากรอกยอดเอง
+ */
+export function buildPromptPayPayload(promptPayId: string, amount?: number | null): string {
+  const digits = sanitizePromptPayId(promptPayId);
+  if (!isValidPromptPayId(digits)) {
+    throw new Error("PromptPay ID ไม่ถูกต้อง (เบอร์มือถือ 10 หลัก หรือเลขประจำตัวผู้เสียภาษี 13 หลัก)");
+  }
+
+  let accountTag: string;
+  let accountValue: string;
+  if (digits.length === 10) {
+    // เบอร์มือถือ → 0066 + ตัด 0 นำหน้า (รวม 13 หลัก)
+    accountTag = BOT_ID_MERCHANT_PHONE_NUMBER;
+    accountValue = ("0066" + digits.substring(1)).padStart(13, "0");
+  } else if (digits.length === 13) {
+    accountTag = BOT_ID_MERCHANT_TAX_ID;
+    accountValue = digits;
+  } else {
+    accountTag = BOT_ID_MERCHANT_EWALLET_ID;
+    accountValue = digits;
+  }
+
+  const hasAmount = amount != null && amount > 0;
+
+  const fields = [
+    tlv(ID_PAYLOAD_FORMAT, "01"),
+    tlv(ID_POI_METHOD, hasAmount ? POI_METHOD_DYNAMIC : POI_METHOD_STATIC),
+    tlv(
+      ID_MERCHANT_INFORMATION_BOT,
+      tlv("00", PROMPTPAY_AID) + tlv(accountTag, accountValue)
+    ),
+    tlv(ID_COUNTRY_CODE, COUNTRY_TH),
+    tlv(ID_TRANSACTION_CURRENCY, CURRENCY_THB),
+  ];
+  if (hasAmount) {
+    fields.push(tlv(ID_TRANSACTION_AMOUNT, amount!.toFixed(2)));
+  }
+
+  const data = fields.join("") + ID_CRC + "04";
+  return data + crc16(data);
+}
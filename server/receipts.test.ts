@@ -129,5 +129,52 @@ describe("Receipt Functions", () => {
       expect(result).toContain("ลูกค้า");
       expect(result).toContain("100");
     });
+
+    it("should show the unit sold for multi-unit products", () => {
+      const mockReceiptData = {
+        saleId: 6,
+        date: new Date("2026-01-20T18:00:00"),
+        customerName: "ลูกค้า",
+        items: [
+          {
+            productName: "น้ำดื่ม 600ml",
+            quantity: 2,
+            unitName: "แพ็ค",
+            unitPrice: "39",
+            totalPrice: "78",
+          },
+        ],
+        totalAmount: 78,
+        paymentType: "cash" as const,
+      };
+
+      const result = db.formatReceiptText(mockReceiptData);
+
+      expect(result).toContain("2 แพ็ค x ฿39");
+    });
+
+    it("should show weighed quantities with their decimals", () => {
+      const mockReceiptData = {
+        saleId: 7,
+        date: new Date("2026-01-20T18:30:00"),
+        customerName: "ลูกค้า",
+        items: [
+          {
+            productName: "หมูสับ",
+            quantity: 1.25,
+            quantityPrecision: 3,
+            unitName: "กก.",
+            unitPrice: "160",
+            totalPrice: "200",
+          },
+        ],
+        totalAmount: 200,
+        paymentType: "cash" as const,
+      };
+
+      const result = db.formatReceiptText(mockReceiptData);
+
+      expect(result).toContain("1.250 กก. x ฿160");
+    });
   });
 });
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { calculateReorderSuggestion } from "./reorder";
+
+const options = { windowDays: 28, coverDays: 14, leadTimeDays: 2 };
+
+describe("Reorder suggestions", () => {
+  it("should estimate days of stock left from average daily sales", () => {
+    const result = calculateReorderSuggestion(
+      { stock: 30, soldQuantity: 84, reorderPoint: 5 },
+      options
+    );
+    expect(result.averageDailySales).toBe(3);
+    expect(result.daysOfStockLeft).toBe(10);
+    expect(result.needsReorder).toBe(false);
+    expect(result.suggestedQuantity).toBe(0);
+  });
+
+  it("should reorder when stock runs out before the supplier delivers", () => {
+    // ขายวันละ 3 เหลือ 6 = 2 วัน → ต้องสั่งแม้ยังไม่ถึงจุดสั่งซื้อ
+    const result = calculateReorderSuggestion(
+      { stock: 6, soldQuantity: 84, reorderPoint: 5 },
+      options
+    );
+    expect(result.needsReorder).toBe(true);
+    // พอขาย 2 + 14 วัน = 48 ชิ้น
+    expect(result.suggestedQuantity).toBe(42);
+  });
+
+  it("should fall back to twice the reorder point without sales history", () => {
+    const result = calculateReorderSuggestion(
+      { stock: 2, soldQuantity: 0, reorderPoint: 5 },
+      options
+    );
+    expect(result.daysOfStockLeft).toBeNull();
+    expect(result.needsReorder).toBe(true);
+    expect(result.suggestedQuantity).toBe(8);
+  });
+
+  it("should round measured quantities up to the product precision", () => {
+    const result = calculateReorderSuggestion(
+      { stock: 0.5, soldQuantity: 7, reorderPoint: 1, precision: 3 },
+      { windowDays: 7, coverDays: 1, leadTimeDays: 1 }
+    );
+    expect(result.suggestedQuantity).toBe(1.5);
+  });
+});
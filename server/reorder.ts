@@ -0,0 +1,72 @@
+/**
+ * คำแนะนำการสั่งซื้อจากยอดขายจริง
+ *
+ * - ยอดขายเฉลี่ยต่อวัน = ยอดขายสุทธิ (หน่วยฐาน) ในช่วง windowDays วันล่าสุด ÷ windowDays
+ * - ควรสั่งเมื่อสต็อกต่ำกว่าจุดสั่งซื้อ หรือจะขายหมดก่อนของมาส่ง (leadTimeDays)
+ * - จำนวนที่ควรสั่ง = พอขายระหว่างรอของ + อีก coverDays วัน
+ */
+import { roundQuantity } from "@shared/units";
+
+export const DEFAULT_REORDER_SALES_WINDOW_DAYS = 28;
+export const DEFAULT_REORDER_COVER_DAYS = 14;
+export const DEFAULT_REORDER_LEAD_TIME_DAYS = 2;
+
+export type ReorderOptions = {
+  windowDays: number;
+  coverDays: number;
+  leadTimeDays: number;
+};
+
+export type ReorderSuggestion = {
+  averageDailySales: number;
+  daysOfStockLeft: number | null; // null = ไม่มียอดขายในช่วงนี้ (ประเมินไม่ได้)
+  needsReorder: boolean;
+  suggestedQuantity: number;
+};
+
+/**
+ * คำนวณคำแนะนำการสั่งซื้อของสินค้า 1 รายการ
+ * @param soldQuantity ยอดขายสุทธิ (หน่วยฐาน) ในช่วง options.windowDays วัน
+ * @param precision ทศนิยมของสต็อก (สินค้าขายตามน้ำหนัก/ความยาว)
+ */
+export function calculateReorderSuggestion(
+  input: { stock: number; soldQuantity: number; reorderPoint: number; precision?: number },
+  options: ReorderOptions
+): ReorderSuggestion {
+  const precision = input.precision ?? 0;
+  const stock = Math.max(0, input.stock);
+  const averageDailySales =
+    options.windowDays > 0 ? Math.max(0, input.soldQuantity) / options.windowDays : 0;
+  const daysOfStockLeft =
+    averageDailySales > 0 ? Math.round((stock / averageDailySales) * 10) / 10 : null;
+
+  const needsReorder =
+    stock <= input.reorderPoint ||
+    (daysOfStockLeft !== null && daysOfStockLeft <= options.leadTimeDays);
+
+  // ไม่มียอดขาย → สั่งให้กลับไปเป็น 2 เท่าของจุดสั่งซื้อ (แบบเดิม)
+  const targetStock =
+    averageDailySales > 0
+      ? Math.max(
+          averageDailySales * (options.leadTimeDays + options.coverDays),
+          input.reorderPoint
+        )
+      : input.reorderPoint * 2;
+
+  let suggestedQuantity = 0;
+  if (needsReorder) {
+    const factor = Math.pow(10, precision);
+    suggestedQuantity = roundQuantity(
+      Math.ceil(roundQuantity((targetStock - stock) * factor, 6)) / factor,
+      precision
+    );
+    if (suggestedQuantity <= 0) suggestedQuantity = 1;
+  }
+
+  return {
+    averageDailySales: roundQuantity(averageDailySales, 3),
+    daysOfStockLeft,
+    needsReorder,
+    suggestedQuantity,
+  };
+}
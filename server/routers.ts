@@ -1,12 +1,149 @@
-import { COOKIE_NAME, ONE_YEAR_MS } from "@shared/const";
+import { COOKIE_NAME, ONE_YEAR_MS, UNAUTHED_ERR_MSG } from "@shared/const";
+import { AUDIT_ACTIONS } from "@shared/audit";
+import { BRANCH_HEADER, MAIN_BRANCH_ID } from "@shared/branch";
+import { PIN_PATTERN } from "@shared/cashier";
+import { PAYMENT_METHODS } from "@shared/payment";
+import { hasPermission, ROLE_PERMISSIONS, STAFF_ROLES, type ShopRole } from "@shared/permissions";
+import { STOCK_ADJUST_REASONS } from "@shared/stockAdjust";
 import { getSessionCookieOptions } from "./_core/cookies";
+import type { TrpcContext } from "./_core/context";
 // Cloudinary ปิดชั่วคราว — ใช้รูป local (client/public/products/) เท่านั้น
 // import { uploadProductImage as uploadToCloudinary } from "./_core/cloudinary";
 import { systemRouter } from "./_core/systemRouter";
-import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
+import { permissionProcedure, protectedProcedure, publicProcedure, shopProcedure, router } from "./_core/trpc";
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import * as db from "./db";
+import { diffFields, recordAudit } from "./audit";
+import { buildPromptPayPayload } from "./promptpay";
+import QRCode from "qrcode";
+
+// ส่วนลด: percent = % (0-100), amount = บาท
+const discountSchema = z.object({
+  type: z.enum(["percent", "amount"]),
+  value: z.number().min(0),
+}).refine((d) => d.type !== "percent" || d.value <= 100, {
+  message: "ส่วนลดต้องไม่เกิน 100%",
+});
+
+const supplierSchema = z.object({
+  name: z.string().trim().min(1, "กรุณาใส่ชื่อผู้จำหน่าย").max(255),
+  contactName: z.string().max(255).optional(),
+  phone: z.string().max(20).optional(),
+  address: z.string().max(500).optional(),
+  taxId: z.string().max(20).optional(),
+  note: z.string().max(500).optional(),
+});
+
+const customerSchema = z.object({
+  name: z.string().trim().min(1, "กรุณาใส่ชื่อลูกค้า").max(255),
+  phone: z.string().max(20).optional(),
+  address: z.string().max(500).optional(),
+  taxId: z
+    .string()
+    .optional()
+    .refine((val) => !val || val.trim() === "" || /^\d{13}$/.test(val.replace(/\s|-/g, "")), {
+      message: "เลขประจำตัวผู้เสียภาษีต้องเป็นตัวเลข 13 หลัก",
+    }),
+  note: z.string().max(500).optional(),
+});
+
+// หน่วยขายเพิ่มเติม เช่น แพ็ค = 6 ชิ้น
+const productUnitSchema = z.object({
+  name: z.string().trim().min(1, "กรุณาใส่ชื่อหน่วย").max(50),
+  factor: z.number().positive("จำนวนต่อหน่วยต้องมากกว่า 0"),
+  barcode: z.string().max(100).optional().nullable(),
+  price: z.number().min(0),
+});
+
+// token แคชเชียร์ที่ปลดล็อกด้วย PIN ใช้ได้ 1 วันทำงาน
+const CASHIER_TOKEN_TTL_MS = 1000 * 60 * 60 * 12;
+
+/**
+ * ตั้ง/ล้างสถานะล็อกเครื่องใน session cookie (ล็อกอยู่ = ทุก request ต้องมี token แคชเชียร์)
+ */
+async function setDeviceLocked(ctx: Pick<TrpcContext, "req" | "res">, locked: boolean) {
+  const { sdk } = await import("./_core/sdk");
+  const sessionToken = await sdk.signDeviceLock(ctx.req, locked);
+  if (!sessionToken) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: UNAUTHED_ERR_MSG });
+  }
+  const cookieOptions = getSessionCookieOptions(ctx.req);
+  ctx.res.cookie(COOKIE_NAME, sessionToken, { ...cookieOptions, maxAge: ONE_YEAR_MS });
+}
+
+// วันที่จาก client (YYYY-MM-DD) ตามเวลาร้าน
+const dateStringSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "รูปแบบวันที่ไม่ถูกต้อง");
+
+function parseDateString(value: string, endOfDay = false): Date {
+  const [year, month, day] = value.split("-").map(Number);
+  return endOfDay
+    ? new Date(year, month - 1, day, 23, 59, 59, 999)
+    : new Date(year, month - 1, day);
+}
+
+/**
+ * สาขาที่ client กำลังใช้งาน (header x-branch-id) - ไม่ส่ง/"main" = สาขาหลัก (null)
+ */
+async function getCurrentBranchId(
+  ctx: Pick<TrpcContext, "req"> & { shop: { id: string } }
+): Promise<string | null> {
+  const header = ctx.req.headers[BRANCH_HEADER];
+  const value = Array.isArray(header) ? header[0] : header;
+  if (!value || value === MAIN_BRANCH_ID) return null;
+
+  const branch = await db.getBranchById(value, ctx.shop.id);
+  if (!branch) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "ไม่พบสาขาที่เลือก กรุณาเลือกสาขาใหม่",
+    });
+  }
+  return branch.id;
+}
+
+/**
+ * ขอบเขตสาขาของรายงาน: allBranches = รวมทุกสาขา (undefined) นอกนั้น = สาขาที่ใช้งานอยู่
+ */
+async function getReportBranchScope(
+  ctx: Parameters<typeof getCurrentBranchId>[0],
+  allBranches?: boolean
+): Promise<db.BranchScope> {
+  return allBranches ? undefined : getCurrentBranchId(ctx);
+}
+
+/**
+ * ต้นทุน/มูลค่าทุนแสดงเฉพาะบทบาทที่ดูกำไรได้ (reports.profit) - บทบาทอื่นตัด field ออก
+ */
+function hideCostFields<T extends object, K extends keyof T>(
+  role: ShopRole,
+  rows: T[],
+  fields: readonly K[]
+): Array<Omit<T, K> & Partial<Pick<T, K>>> {
+  if (hasPermission(role, "reports.profit")) return rows;
+  return rows.map((row) => {
+    const visible = { ...row };
+    for (const field of fields) delete visible[field];
+    return visible;
+  });
+}
+
+/**
+ * hideCostFields ของเอกสารที่มีรายการย่อย (บิลขาย → returns, รอบนับ → items) - ตัดทั้งหัวเอกสารและทุกรายการ
+ */
+function hideCostFieldsWithLines<T extends object>(
+  role: ShopRole,
+  doc: T,
+  linesKey: keyof T & string,
+  fields: readonly string[]
+): T {
+  if (hasPermission(role, "reports.profit")) return doc;
+  const [visible] = hideCostFields<any, string>(role, [doc], fields);
+  const lines = (doc as any)[linesKey] ?? [];
+  return { ...visible, [linesKey]: hideCostFields<any, string>(role, lines, fields) } as T;
+}
+
+const STOCKTAKE_COST_FIELDS = ["unitCost", "varianceValue"] as const;
 
 export const appRouter = router({
   system: systemRouter,
@@ -109,75 +246,249 @@ export const appRouter = router({
 
   // ==================== PRODUCTS ====================
   products: router({
-    list: protectedProcedure.query(async ({ ctx }) => {
-      return db.getProductsByUser(ctx.user.id);
-    }),
+    // ไม่ระบุ = เฉพาะสินค้าที่ยังขายอยู่, archived = สินค้าที่เก็บเข้าคลัง
+    list: shopProcedure
+      .input(z.object({ archived: z.boolean().optional() }).optional())
+      .query(async ({ ctx, input }) => {
+        const products = await db.getProductsByUser(ctx.shop.id, {
+          archived: input?.archived,
+          branchId: await getCurrentBranchId(ctx),
+        });
+        return hideCostFields(ctx.shop.role, products, ["costPrice"]);
+      }),
 
     /* Cloudinary ปิดชั่วคราว — ใช้รูป local (ใส่ชื่อไฟล์ใน imageUrl) เท่านั้น
-    uploadImage: protectedProcedure
+    uploadImage: shopProcedure
       .input(...)
       .mutation(...),
     */
 
-    create: protectedProcedure
+    create: permissionProcedure("products.edit")
       .input(z.object({
         name: z.string().min(1),
         price: z.string(),
+        costPrice: z.number().min(0).optional(), // ราคาทุนต่อหน่วย
         stock: z.number().default(0),
         reorderPoint: z.number().default(5),
         minStock: z.number().optional(), // legacy alias
         barcode: z.string().optional(),
         imageUrl: z.string().optional().nullable(),
+        categoryId: z.string().optional().nullable(),
+        tags: z.array(z.string().max(50)).optional(),
+        baseUnit: z.string().trim().max(50).optional(),
+        units: z.array(productUnitSchema).max(10).optional(),
+        soldByMeasure: z.boolean().optional(), // ขายตามน้ำหนัก/ความยาว
+        quantityPrecision: z.number().int().min(1).max(3).optional(),
+        plu: z.string().regex(/^\d{0,6}$/, "PLU ต้องเป็นตัวเลขไม่เกิน 6 หลัก").optional().nullable(), // รหัสบนตาชั่ง
       }))
       .mutation(async ({ ctx, input }) => {
-        const id = await db.createProduct({
-          userId: ctx.user.id,
-          name: input.name,
-          price: input.price,
-          stock: input.stock,
-          reorderPoint: input.reorderPoint ?? input.minStock,
-          barcode: input.barcode,
-          imageUrl: input.imageUrl,
-        });
-        return { id };
+        try {
+          const id = await db.createProduct({
+            userId: ctx.shop.id,
+            name: input.name,
+            price: input.price,
+            costPrice: input.costPrice,
+            stock: input.stock,
+            reorderPoint: input.reorderPoint ?? input.minStock,
+            barcode: input.barcode,
+            imageUrl: input.imageUrl,
+            categoryId: input.categoryId,
+            tags: input.tags,
+            baseUnit: input.baseUnit,
+            units: input.units,
+            soldByMeasure: input.soldByMeasure,
+            quantityPrecision: input.quantityPrecision,
+            plu: input.plu,
+          });
+          return { id };
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถเพิ่มสินค้าได้",
+          });
+        }
       }),
     
-    update: protectedProcedure
+    update: permissionProcedure("products.edit")
       .input(z.object({
         id: z.union([z.string(), z.number()]),
         name: z.string().min(1).optional(),
         price: z.string().optional(),
+        costPrice: z.number().min(0).optional(),
         stock: z.number().optional(),
         reorderPoint: z.number().optional(),
         minStock: z.number().optional(), // legacy alias
         barcode: z.string().optional(),
         imageUrl: z.string().optional().nullable(),
+        categoryId: z.string().optional().nullable(),
+        tags: z.array(z.string().max(50)).optional(),
+        baseUnit: z.string().trim().max(50).optional(),
+        units: z.array(productUnitSchema).max(10).optional(),
+        soldByMeasure: z.boolean().optional(), // ขายตามน้ำหนัก/ความยาว
+        quantityPrecision: z.number().int().min(1).max(3).optional(),
+        plu: z.string().regex(/^\d{0,6}$/, "PLU ต้องเป็นตัวเลขไม่เกิน 6 หลัก").optional().nullable(), // รหัสบนตาชั่ง
       }))
       .mutation(async ({ ctx, input }) => {
         const { id, ...data } = input;
-        await db.updateProduct(id, ctx.user.id, data);
-        return { success: true };
+        try {
+          const branchId = await getCurrentBranchId(ctx);
+          const existing = await db.getProductById(id, ctx.shop.id, branchId);
+          await db.updateProduct(id, ctx.shop.id, data, branchId, ctx.cashier.id);
+
+          const updated = existing && (await db.getProductById(id, ctx.shop.id, branchId));
+          const changes =
+            updated &&
+            diffFields(
+              existing,
+              updated,
+              Object.keys(data).map((key) => (key === "minStock" ? "reorderPoint" : key))
+            );
+          if (changes) {
+            await recordAudit(ctx, {
+              action: "product.update",
+              entityId: updated.id,
+              entityName: updated.name,
+              ...changes,
+            });
+          }
+          return { success: true };
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถแก้ไขสินค้าได้",
+          });
+        }
       }),
     
-    delete: protectedProcedure
+    // เก็บสินค้าเข้าคลัง (เลิกขาย) - ไม่ลบจริง ประวัติการขาย/สต็อกยังอยู่ครบ
+    archive: permissionProcedure("products.delete")
       .input(z.object({ id: z.union([z.string(), z.number()]) }))
       .mutation(async ({ ctx, input }) => {
-        await db.deleteProduct(input.id, ctx.user.id);
-        return { success: true };
+        try {
+          await db.archiveProduct(input.id, ctx.shop.id);
+          const product = await db.getProductById(input.id, ctx.shop.id);
+          await recordAudit(ctx, {
+            action: "product.archive",
+            entityId: String(input.id),
+            entityName: product?.name ?? null,
+            before: { archivedAt: null },
+            after: { archivedAt: product?.archivedAt ?? new Date() },
+          });
+          return { success: true };
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถเก็บสินค้าเข้าคลังได้",
+          });
+        }
+      }),
+
+    restore: permissionProcedure("products.delete")
+      .input(z.object({ id: z.union([z.string(), z.number()]) }))
+      .mutation(async ({ ctx, input }) => {
+        try {
+          const product = await db.getProductById(input.id, ctx.shop.id);
+          await db.restoreProduct(input.id, ctx.shop.id);
+          await recordAudit(ctx, {
+            action: "product.restore",
+            entityId: String(input.id),
+            entityName: product?.name ?? null,
+            before: { archivedAt: product?.archivedAt ?? null },
+            after: { archivedAt: null },
+          });
+          return { success: true };
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถนำสินค้ากลับมาขายได้",
+          });
+        }
+      }),
+
+    // ลบถาวร - เฉพาะสินค้าในคลังที่ไม่เคยมีการเคลื่อนไหวสต็อก
+    purge: permissionProcedure("products.delete")
+      .input(z.object({ id: z.union([z.string(), z.number()]) }))
+      .mutation(async ({ ctx, input }) => {
+        try {
+          const product = await db.getProductById(input.id, ctx.shop.id);
+          await db.purgeProduct(input.id, ctx.shop.id);
+          await recordAudit(ctx, {
+            action: "product.purge",
+            entityId: String(input.id),
+            entityName: product?.name ?? null,
+            before: product
+              ? {
+                  name: product.name,
+                  barcode: product.barcode ?? null,
+                  price: product.price,
+                  costPrice: product.costPrice ?? null,
+                  stock: product.stock,
+                }
+              : null,
+            after: null,
+          });
+          return { success: true };
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถลบสินค้าได้",
+          });
+        }
       }),
     
-    lowStock: protectedProcedure.query(async ({ ctx }) => {
-      return db.getLowStockProducts(ctx.user.id);
-    }),
+    // allBranches = ดูจากสต็อกรวมทุกสาขา
+    lowStock: shopProcedure
+      .input(z.object({ allBranches: z.boolean().optional() }).optional())
+      .query(async ({ ctx, input }) => {
+        const products = await db.getLowStockProducts(
+          ctx.shop.id,
+          await getReportBranchScope(ctx, input?.allBranches)
+        );
+        return hideCostFields(ctx.shop.role, products, ["costPrice"]);
+      }),
+
+    // สินค้าที่ควรสั่งซื้อ + จำนวนที่แนะนำ จากยอดขายเฉลี่ยต่อวัน
+    reorderSuggestions: shopProcedure
+      .input(z.object({ allBranches: z.boolean().optional() }).optional())
+      .query(async ({ ctx, input }) => {
+        const { options, suggestions } = await db.getReorderSuggestions(
+          ctx.shop.id,
+          await getReportBranchScope(ctx, input?.allBranches)
+        );
+        return { options, suggestions: hideCostFields(ctx.shop.role, suggestions, ["costPrice"]) };
+      }),
     
-    byBarcode: protectedProcedure
+    /**
+     * สร้างบาร์โค้ดภายในร้านให้สินค้าที่ยังไม่มี (ไม่ระบุ productIds = ทุกตัว)
+     */
+    generateBarcodes: permissionProcedure("products.edit")
+      .input(z.object({
+        productIds: z.array(z.string()).max(500).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        try {
+          const generated = await db.generateProductBarcodes(ctx.shop.id, input.productIds);
+          return { generated };
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถสร้างบาร์โค้ดได้",
+          });
+        }
+      }),
+
+    byBarcode: shopProcedure
       .input(z.object({ barcode: z.string().min(1) }))
       .query(async ({ ctx, input }) => {
-        const product = await db.getProductByBarcode(ctx.user.id, input.barcode);
-        return product ?? null;
+        const product = await db.getProductByBarcode(
+          ctx.shop.id,
+          input.barcode,
+          await getCurrentBranchId(ctx)
+        );
+        return product ? hideCostFields(ctx.shop.role, [product], ["costPrice"])[0] : null;
       }),
     
-    import: protectedProcedure
+    import: permissionProcedure("products.edit")
       .input(z.object({
         products: z.array(z.object({
           name: z.string().min(1),
@@ -186,17 +497,21 @@ export const appRouter = router({
           reorderPoint: z.number().optional(),
           minStock: z.number().optional(), // legacy alias
           imageUrl: z.string().optional().nullable(),
+          category: z.string().max(100).optional().nullable(), // ชื่อหมวดหมู่ (ยังไม่มี = สร้างใหม่)
+          tags: z.array(z.string().max(50)).optional(),
         })),
       }))
       .mutation(async ({ ctx, input }) => {
         try {
           const productsToImport = input.products.map((p) => ({
-            userId: ctx.user.id,
+            userId: ctx.shop.id,
             name: p.name,
             price: typeof p.price === "string" ? p.price : String(p.price),
             stock: p.stock,
             reorderPoint: p.reorderPoint ?? p.minStock,
             imageUrl: p.imageUrl,
+            categoryName: p.category,
+            tags: p.tags,
           }));
           
           const createdIds = await db.createProductsBulk(productsToImport);
@@ -210,168 +525,957 @@ export const appRouter = router({
           throw new Error(error.message || "เกิดข้อผิดพลาดในการนำเข้าสินค้า");
         }
       }),
-  }),
+  }),
+
+  // ==================== SALES ====================
+  sales: router({
+    list: shopProcedure
+      .input(z.object({ limit: z.number().default(50) }).optional())
+      .query(async ({ ctx, input }) => {
+        const sales = await db.getSalesByUser(ctx.shop.id, input?.limit);
+        return hideCostFields(ctx.shop.role, sales, ["costTotal"]) as any[];
+      }),
+    
+    create: shopProcedure
+      .input(z.object({
+        items: z.array(z.object({
+          productId: z.union([z.string(), z.number()]),
+          productName: z.string(),
+          quantity: z.number().positive(), // สินค้าขายตามน้ำหนัก/ความยาวเป็นทศนิยมได้
+          unitPrice: z.string(),
+          unitName: z.string().max(50).optional().nullable(), // หน่วยที่ขาย (ไม่ส่ง = หน่วยฐาน)
+          discount: discountSchema.optional().nullable(), // ส่วนลดรายการ
+        })),
+        billDiscount: discountSchema.optional().nullable(), // ส่วนลดท้ายบิล (หักก่อน VAT)
+        payments: z.array(z.object({
+          method: z.enum(PAYMENT_METHODS),
+          amount: z.number().min(0),
+          reference: z.string().max(100).optional().nullable(),
+        })).optional(),
+        paymentType: z.enum(["cash", "credit"]).optional(), // legacy: client เก่าที่ไม่ส่ง payments
+        customerId: z.string().optional().nullable(), // ลูกค้าที่เลือกจากรายชื่อ
+        customerName: z.string().optional(),
+        vatRate: z.number().min(0).max(0.07).optional(), // 0 = ไม่คิด VAT, 0.07 = คิด 7%
+        idempotencyKey: z.string().min(8).max(100).optional(), // กันบันทึกซ้ำเมื่อ client retry
+      }))
+      .mutation(async ({ ctx, input }) => {
+        try {
+          const { saleId, totalAmount, changeAmount } = await db.recordSale({
+            userId: ctx.shop.id,
+            items: input.items,
+            billDiscount: input.billDiscount,
+            payments: input.payments,
+            paymentType: input.paymentType,
+            customerId: input.customerId,
+            customerName: input.customerName,
+            vatRate: input.vatRate ?? 0, // frontend ส่งมา หรือ default 0
+            idempotencyKey: input.idempotencyKey,
+            branchId: await getCurrentBranchId(ctx),
+            cashierId: ctx.cashier.id,
+          });
+          return { saleId, totalAmount, changeAmount };
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถบันทึกการขายได้",
+          });
+        }
+      }),
+    
+    today: shopProcedure.query(async ({ ctx }) => {
+      return db.getTodaySales(ctx.shop.id);
+    }),
+
+    /**
+     * ดึงบิลขายพร้อมรายการและประวัติการคืน
+     */
+    detail: shopProcedure
+      .input(z.object({ saleId: z.union([z.string(), z.number()]) }))
+      .query(async ({ ctx, input }) => {
+        const sale = await db.getSaleDetail(input.saleId, ctx.shop.id);
+        if (!sale) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "ไม่พบบิลขาย",
+          });
+        }
+        return hideCostFieldsWithLines(ctx.shop.role, sale, "returns", ["costTotal"]);
+      }),
+
+    /**
+     * ยกเลิกทั้งบิล - คืนสต็อกทุกรายการที่ยังไม่ได้คืน
+     */
+    void: shopProcedure
+      .input(
+        z.object({
+          saleId: z.union([z.string(), z.number()]),
+          reason: z.string().max(500).optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        try {
+          return await db.returnSale({
+            userId: ctx.shop.id,
+            saleId: input.saleId,
+            type: "void",
+            reason: input.reason ?? null,
+            cashierId: ctx.cashier.id,
+          });
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถยกเลิกบิลได้",
+          });
+        }
+      }),
+
+    /**
+     * คืนสินค้าบางรายการ
+     */
+    return: shopProcedure
+      .input(
+        z.object({
+          saleId: z.union([z.string(), z.number()]),
+          items: z
+            .array(
+              z.object({
+                saleItemId: z.union([z.string(), z.number()]),
+                quantity: z.number().positive(),
+              })
+            )
+            .min(1, "กรุณาเลือกสินค้าที่ต้องการคืน"),
+          reason: z.string().max(500).optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        try {
+          return await db.returnSale({
+            userId: ctx.shop.id,
+            saleId: input.saleId,
+            type: "return",
+            items: input.items,
+            reason: input.reason ?? null,
+            cashierId: ctx.cashier.id,
+          });
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถคืนสินค้าได้",
+          });
+        }
+      }),
+  }),
+
+  // ==================== STOCK MANAGEMENT ====================
+  stock: router({
+    in: shopProcedure
+      .input(
+        z.object({
+          productId: z.union([z.string(), z.number()]),
+          quantity: z.number().positive(),
+          note: z.string().optional(),
+          unitCost: z.number().min(0).optional(), // ราคาทุนต่อหน่วยที่ซื้อมา (อัปเดตราคาทุนสินค้า)
+          lotNumber: z.string().trim().max(100).optional(),
+          expiryDate: dateStringSchema.optional(), // YYYY-MM-DD
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        // Ensure product belongs to the current user before adjusting stock.
+        const product = await db.getProductById(input.productId, ctx.shop.id);
+        if (!product) throw new Error("ไม่พบสินค้า");
+
+        const updated = await db.stockInPurchase({
+          productId: input.productId,
+          quantity: input.quantity,
+          note: input.note ?? null,
+          unitCost: input.unitCost ?? null,
+          lotNumber: input.lotNumber || null,
+          expiryDate: input.expiryDate ? parseDateString(input.expiryDate) : null,
+          branchId: await getCurrentBranchId(ctx),
+          cashierId: ctx.cashier.id,
+        });
+
+        return { success: true, product: updated };
+      }),
+
+    // ปรับสต็อกด้วยมือ (ต้องมีเหตุผลและหมายเหตุ)
+    adjust: shopProcedure
+      .input(
+        z.object({
+          productId: z.union([z.string(), z.number()]),
+          direction: z.enum(["in", "out"]),
+          quantity: z.number().positive(),
+          reason: z.enum(STOCK_ADJUST_REASONS),
+          note: z.string().trim().min(1, "กรุณาใส่หมายเหตุ").max(500),
+          lotId: z.string().optional(), // ตัดออกจากล็อตนี้ก่อน
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        try {
+          const updated = await db.adjustStock({
+            userId: ctx.shop.id,
+            productId: input.productId,
+            quantityChange: input.direction === "in" ? input.quantity : -input.quantity,
+            reason: input.reason,
+            note: input.note,
+            lotId: input.lotId ?? null,
+            branchId: await getCurrentBranchId(ctx),
+            cashierId: ctx.cashier.id,
+          });
+          return { success: true, product: updated };
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถปรับสต็อกได้",
+          });
+        }
+      }),
+
+    movements: shopProcedure
+      .input(
+        z
+          .object({
+            limit: z.number().optional(),
+            cursor: z.string().optional(),
+            productId: z.union([z.string(), z.number()]).optional(),
+          })
+          .optional()
+      )
+      .query(async ({ ctx, input }) => {
+        const movements = await db.getStockMovementsByUser({
+          userId: ctx.shop.id,
+          limit: input?.limit,
+          cursor: input?.cursor ?? null,
+          productId: input?.productId ?? null,
+        });
+        return {
+          ...movements,
+          items: hideCostFields(ctx.shop.role, movements.items, [
+            "unitCost",
+            "totalCost",
+            "balanceValue",
+          ]) as any[],
+        };
+      }),
+
+    // ล็อตที่หมดอายุแล้ว/จะหมดอายุภายใน days วัน
+    nearExpiry: shopProcedure
+      .input(z.object({ days: z.number().int().min(0).max(365).default(7) }).optional())
+      .query(async ({ ctx, input }) => {
+        const lots = await db.getNearExpiryLots(
+          ctx.shop.id,
+          input?.days ?? 7,
+          await getCurrentBranchId(ctx)
+        );
+        return hideCostFields(ctx.shop.role, lots, ["costValue"]);
+      }),
+  }),
+
+  // ==================== CATEGORIES ====================
+  categories: router({
+    list: shopProcedure.query(async ({ ctx }) => {
+      return db.getCategoriesByUser(ctx.shop.id);
+    }),
+
+    create: permissionProcedure("products.edit")
+      .input(
+        z.object({
+          name: z.string().trim().min(1, "กรุณาใส่ชื่อหมวดหมู่").max(100),
+          sortOrder: z.number().int().optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        try {
+          const id = await db.createCategory(ctx.shop.id, input);
+          return { success: true, id };
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถเพิ่มหมวดหมู่ได้",
+          });
+        }
+      }),
+
+    update: permissionProcedure("products.edit")
+      .input(
+        z.object({
+          id: z.union([z.string(), z.number()]),
+          name: z.string().trim().min(1, "กรุณาใส่ชื่อหมวดหมู่").max(100).optional(),
+          sortOrder: z.number().int().optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const { id, ...data } = input;
+        try {
+          await db.updateCategory(id, ctx.shop.id, data);
+          return { success: true };
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถแก้ไขหมวดหมู่ได้",
+          });
+        }
+      }),
+
+    delete: permissionProcedure("products.edit")
+      .input(z.object({ id: z.union([z.string(), z.number()]) }))
+      .mutation(async ({ ctx, input }) => {
+        await db.deleteCategory(input.id, ctx.shop.id);
+        return { success: true };
+      }),
+  }),
+
+  // ==================== SUPPLIERS ====================
+  suppliers: router({
+    list: shopProcedure.query(async ({ ctx }) => {
+      return db.getSuppliersByUser(ctx.shop.id);
+    }),
+
+    create: shopProcedure
+      .input(supplierSchema)
+      .mutation(async ({ ctx, input }) => {
+        const id = await db.createSupplier(ctx.shop.id, input);
+        return { success: true, id };
+      }),
+
+    update: shopProcedure
+      .input(
+        supplierSchema.partial().extend({
+          id: z.union([z.string(), z.number()]),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const { id, ...data } = input;
+        await db.updateSupplier(id, ctx.shop.id, data);
+        return { success: true };
+      }),
+
+    delete: shopProcedure
+      .input(z.object({ id: z.union([z.string(), z.number()]) }))
+      .mutation(async ({ ctx, input }) => {
+        try {
+          await db.deleteSupplier(input.id, ctx.shop.id);
+          return { success: true };
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถลบผู้จำหน่ายได้",
+          });
+        }
+      }),
+  }),
+
+  // ==================== PURCHASE ORDERS ====================
+  purchaseOrders: router({
+    list: shopProcedure
+      .input(
+        z
+          .object({
+            status: z.enum(["draft", "ordered", "partially_received", "received"]).optional(),
+          })
+          .optional()
+      )
+      .query(async ({ ctx, input }) => {
+        return db.getPurchaseOrders(ctx.shop.id, { status: input?.status });
+      }),
+
+    get: shopProcedure
+      .input(z.object({ id: z.union([z.string(), z.number()]) }))
+      .query(async ({ ctx, input }) => {
+        const order = await db.getPurchaseOrderById(input.id, ctx.shop.id);
+        if (!order) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "ไม่พบใบสั่งซื้อ" });
+        }
+        return order;
+      }),
+
+    create: shopProcedure
+      .input(
+        z.object({
+          supplierId: z.union([z.string(), z.number()]),
+          items: z
+            .array(
+              z.object({
+                productId: z.union([z.string(), z.number()]),
+                quantity: z.number().int().min(1),
+                unitCost: z.number().min(0),
+              })
+            )
+            .min(1),
+          note: z.string().max(500).optional(),
+          markOrdered: z.boolean().optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        try {
+          return await db.createPurchaseOrder({ userId: ctx.shop.id, ...input });
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถสร้างใบสั่งซื้อได้",
+          });
+        }
+      }),
+
+    markOrdered: shopProcedure
+      .input(z.object({ id: z.union([z.string(), z.number()]) }))
+      .mutation(async ({ ctx, input }) => {
+        try {
+          await db.markPurchaseOrderOrdered(input.id, ctx.shop.id);
+          return { success: true };
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถเปลี่ยนสถานะใบสั่งซื้อได้",
+          });
+        }
+      }),
+
+    delete: shopProcedure
+      .input(z.object({ id: z.union([z.string(), z.number()]) }))
+      .mutation(async ({ ctx, input }) => {
+        try {
+          await db.deletePurchaseOrder(input.id, ctx.shop.id);
+          return { success: true };
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถลบใบสั่งซื้อได้",
+          });
+        }
+      }),
+
+    // รับสินค้าตามใบสั่งซื้อ (รับบางส่วนได้)
+    receive: shopProcedure
+      .input(
+        z.object({
+          id: z.union([z.string(), z.number()]),
+          lines: z
+            .array(
+              z.object({
+                itemId: z.string(),
+                quantity: z.number().int().min(0),
+              })
+            )
+            .min(1),
+          note: z.string().max(500).optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        try {
+          return await db.receivePurchaseOrder({
+            userId: ctx.shop.id,
+            purchaseOrderId: input.id,
+            lines: input.lines,
+            note: input.note ?? null,
+            cashierId: ctx.cashier.id,
+          });
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถรับสินค้าได้",
+          });
+        }
+      }),
+  }),
+
+  // ==================== STOCKTAKES ====================
+  stocktakes: router({
+    list: shopProcedure
+      .input(
+        z
+          .object({
+            status: z.enum(["counting", "posted", "cancelled"]).optional(),
+          })
+          .optional()
+      )
+      .query(async ({ ctx, input }) => {
+        const stocktakes = await db.getStocktakes(ctx.shop.id, { status: input?.status });
+        return stocktakes.map((stocktake) =>
+          hideCostFieldsWithLines(ctx.shop.role, stocktake, "items", STOCKTAKE_COST_FIELDS)
+        );
+      }),
+
+    get: shopProcedure
+      .input(z.object({ id: z.union([z.string(), z.number()]) }))
+      .query(async ({ ctx, input }) => {
+        const stocktake = await db.getStocktakeById(input.id, ctx.shop.id);
+        if (!stocktake) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "ไม่พบรอบนับสต็อก" });
+        }
+        return hideCostFieldsWithLines(ctx.shop.role, stocktake, "items", STOCKTAKE_COST_FIELDS);
+      }),
+
+    create: shopProcedure
+      .input(z.object({ note: z.string().max(500).optional() }).optional())
+      .mutation(async ({ ctx, input }) => {
+        return db.createStocktake({
+          userId: ctx.shop.id,
+          note: input?.note ?? null,
+          branchId: await getCurrentBranchId(ctx),
+        });
+      }),
+
+    // บันทึกจำนวนนับ (ยิงบาร์โค้ด = add ทีละ 1, กรอกจำนวน = set)
+    count: shopProcedure
+      .input(
+        z.object({
+          id: z.union([z.string(), z.number()]),
+          productId: z.union([z.string(), z.number()]),
+          quantity: z.number().min(0),
+          mode: z.enum(["add", "set"]).default("set"),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        try {
+          return await db.countStocktakeItem({
+            userId: ctx.shop.id,
+            stocktakeId: input.id,
+            productId: input.productId,
+            quantity: input.quantity,
+            mode: input.mode,
+          });
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถบันทึกจำนวนนับได้",
+          });
+        }
+      }),
+
+    removeItem: shopProcedure
+      .input(
+        z.object({
+          id: z.union([z.string(), z.number()]),
+          itemId: z.string(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        try {
+          await db.removeStocktakeItem({
+            userId: ctx.shop.id,
+            stocktakeId: input.id,
+            itemId: input.itemId,
+          });
+          return { success: true };
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถลบรายการได้",
+          });
+        }
+      }),
+
+    // ปรับสต็อกตามผลนับ แล้วปิดรอบ
+    post: shopProcedure
+      .input(
+        z.object({
+          id: z.union([z.string(), z.number()]),
+          reason: z.string().min(1, "กรุณาระบุเหตุผลการปรับสต็อก").max(500),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        try {
+          const result = await db.postStocktake({
+            userId: ctx.shop.id,
+            stocktakeId: input.id,
+            reason: input.reason,
+            cashierId: ctx.cashier.id,
+          });
+          return hideCostFields(ctx.shop.role, [result], ["varianceValue"])[0];
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถปรับสต็อกได้",
+          });
+        }
+      }),
+
+    cancel: shopProcedure
+      .input(z.object({ id: z.union([z.string(), z.number()]) }))
+      .mutation(async ({ ctx, input }) => {
+        try {
+          await db.cancelStocktake(input.id, ctx.shop.id);
+          return { success: true };
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถยกเลิกรอบนับได้",
+          });
+        }
+      }),
+  }),
+
+  // ==================== BRANCHES ====================
+  // สาขาหลักไม่มี record (id = null) - list คืนเฉพาะสาขาที่เพิ่มเอง
+  branches: router({
+    list: shopProcedure.query(async ({ ctx }) => {
+      return db.getBranchesByUser(ctx.shop.id);
+    }),
+
+    create: permissionProcedure("branches.manage")
+      .input(
+        z.object({
+          name: z.string().trim().min(1, "กรุณาใส่ชื่อสาขา").max(100),
+          address: z.string().max(500).optional(),
+          phone: z.string().max(20).optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        try {
+          const id = await db.createBranch(ctx.shop.id, input);
+          return { success: true, id };
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถเพิ่มสาขาได้",
+          });
+        }
+      }),
+
+    update: permissionProcedure("branches.manage")
+      .input(
+        z.object({
+          id: z.string(),
+          name: z.string().trim().min(1, "กรุณาใส่ชื่อสาขา").max(100).optional(),
+          address: z.string().max(500).nullable().optional(),
+          phone: z.string().max(20).nullable().optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const { id, ...data } = input;
+        try {
+          await db.updateBranch(id, ctx.shop.id, data);
+          return { success: true };
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถแก้ไขสาขาได้",
+          });
+        }
+      }),
+  }),
+
+  // ==================== STOCK TRANSFERS ====================
+  transfers: router({
+    list: shopProcedure
+      .input(z.object({ limit: z.number().int().min(1).max(200).default(50) }).optional())
+      .query(async ({ ctx, input }) => {
+        const transfers = await db.getStockTransfersByUser(ctx.shop.id, input?.limit);
+        return transfers.map((transfer) =>
+          hideCostFieldsWithLines(ctx.shop.role, transfer, "items", ["unitCost"])
+        );
+      }),
+
+    /**
+     * โอนสินค้าระหว่างสาขา (null = สาขาหลัก)
+     */
+    create: permissionProcedure("branches.manage")
+      .input(
+        z.object({
+          fromBranchId: z.string().nullable(),
+          toBranchId: z.string().nullable(),
+          items: z
+            .array(
+              z.object({
+                productId: z.string(),
+                quantity: z.number().positive(),
+              })
+            )
+            .min(1, "กรุณาเพิ่มสินค้าอย่างน้อย 1 รายการ"),
+          note: z.string().max(500).optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        try {
+          return await db.createStockTransfer({
+            userId: ctx.shop.id,
+            fromBranchId: input.fromBranchId,
+            toBranchId: input.toBranchId,
+            items: input.items,
+            note: input.note ?? null,
+            cashierId: ctx.cashier.id,
+          });
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถโอนสินค้าได้",
+          });
+        }
+      }),
+  }),
+
+  // ==================== STAFF ====================
+  // พนักงานใช้ข้อมูลร้านเดียวกับเจ้าของร้าน แต่ทำได้ตามสิทธิ์ของบทบาท
+  staff: router({
+    me: shopProcedure.query(({ ctx }) => {
+      return {
+        role: ctx.shop.role,
+        permissions: ROLE_PERMISSIONS[ctx.shop.role],
+        cashier: { id: ctx.cashier.id, name: ctx.cashier.name },
+      };
+    }),
+
+    // ==================== CASHIER PIN ====================
+    // ใช้ตอนเครื่องล็อกอยู่ → ไม่ผ่าน shopProcedure (ไม่ต้องมี token แคชเชียร์)
+    cashiers: protectedProcedure.query(async ({ ctx }) => {
+      const { shopId } = await db.getShopMembership(ctx.user.id);
+      return db.getShopCashiers(shopId);
+    }),
+
+    /**
+     * ล็อกเครื่อง (สลับแคชเชียร์) - server จำไว้ใน session cookie, ปลดได้ด้วย PIN เจ้าของร้านเท่านั้น
+     */
+    lock: protectedProcedure.mutation(async ({ ctx }) => {
+      await setDeviceLocked(ctx, true);
+      return { success: true } as const;
+    }),
+
+    /**
+     * ปลดล็อกเครื่องเป็นแคชเชียร์คนนี้ - คืน token ให้ client ส่งใน header x-cashier-token
+     * เครื่องยังเข้าสู่ระบบด้วยบัญชีเดิม (ไม่ออกจากระบบ) และยังล็อกอยู่ เว้นแต่คนปลดเป็นเจ้าของร้าน
+     */
+    unlock: protectedProcedure
+      .input(z.object({ userId: z.string(), pin: z.string().regex(PIN_PATTERN, "PIN ต้องเป็นตัวเลข 4-6 หลัก") }))
+      .mutation(async ({ ctx, input }) => {
+        const { shopId } = await db.getShopMembership(ctx.user.id);
+        let cashier: db.ShopCashier | null;
+        try {
+          cashier = await db.verifyCashierPin(shopId, input.userId, input.pin);
+        } catch (error: any) {
+          throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: error.message });
+        }
+        if (!cashier) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "PIN ไม่ถูกต้อง" });
+        }
+
+        const { sdk } = await import("./_core/sdk");
+        const token = await sdk.createCashierToken(cashier.id, {
+          name: cashier.name,
+          expiresInMs: CASHIER_TOKEN_TTL_MS,
+        });
+        if (cashier.role === "owner") {
+          await setDeviceLocked(ctx, false);
+        }
+        return { token, cashier };
+      }),
 
-  // ==================== SALES ====================
-  sales: router({
-    list: protectedProcedure
-      .input(z.object({ limit: z.number().default(50) }).optional())
-      .query(async ({ ctx, input }) => {
-        return db.getSalesByUser(ctx.user.id, input?.limit);
-      }),
-    
-    create: protectedProcedure
-      .input(z.object({
-        items: z.array(z.object({
-          productId: z.union([z.string(), z.number()]),
-          productName: z.string(),
-          quantity: z.number().min(1),
-          unitPrice: z.string(),
-        })),
-        paymentType: z.enum(["cash", "credit"]),
-        customerName: z.string().optional(),
-        vatRate: z.number().min(0).max(0.07).optional(), // 0 = ไม่คิด VAT, 0.07 = คิด 7%
-      }))
+    /**
+     * ตั้ง/ล้าง PIN - ของตัวเองได้เสมอ, ของคนอื่นในร้านต้องมีสิทธิ์จัดการพนักงาน
+     */
+    setPin: shopProcedure
+      .input(
+        z.object({
+          userId: z.string().optional(), // ไม่ระบุ = แคชเชียร์ที่ใช้เครื่องอยู่
+          pin: z.string().regex(PIN_PATTERN, "PIN ต้องเป็นตัวเลข 4-6 หลัก").nullable(),
+        })
+      )
       .mutation(async ({ ctx, input }) => {
-        // Calculate total
-        const totalAmount = input.items.reduce((sum, item) => {
-          return sum + (parseFloat(item.unitPrice) * item.quantity);
-        }, 0);
-        
-        // Calculate VAT
-        const vatRate = input.vatRate ?? 0; // frontend ส่งมา หรือ default 0
-        const subtotal = totalAmount;
-        const vatAmount = subtotal * vatRate;
-        const totalWithVat = subtotal + vatAmount;
-        
-        let customerId: string | number | null = null;
-        
-        // Handle credit sale - create or find customer
-        if (input.paymentType === "credit" && input.customerName) {
-          let customer = await db.getCustomerByName(input.customerName, ctx.user.id);
-          if (!customer) {
-            customerId = await db.createCustomer({
-              userId: ctx.user.id,
-              name: input.customerName,
-              totalDebt: totalWithVat.toFixed(2), // ใช้ totalWithVat สำหรับลูกหนี้
-            });
-          } else {
-            customerId = customer.id as string | number;
-            await db.updateCustomerDebt(customer.id, totalWithVat); // ใช้ totalWithVat สำหรับลูกหนี้
+        const userId = input.userId ?? ctx.cashier.id;
+        if (userId !== ctx.cashier.id) {
+          if (!hasPermission(ctx.shop.role, "staff.manage")) {
+            throw new TRPCError({ code: "FORBIDDEN", message: "บัญชีนี้ไม่มีสิทธิ์ทำรายการนี้" });
+          }
+          if (!(await db.getShopCashier(ctx.shop.id, userId))) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "ไม่พบพนักงาน" });
           }
         }
-        
-        // Create sale
-        const saleId = await db.createSale({
-          userId: ctx.user.id,
-          customerId,
-          totalAmount: totalAmount.toFixed(2), // เก็บ totalAmount เดิมไว้ (backward compatible)
-          paymentType: input.paymentType,
-          vatRate,
-          subtotal,
-          vatAmount,
-          totalWithVat,
-        });
-        
-        // Create sale items and update stock
-        const saleItems = input.items.map(item => ({
-          saleId,
-          productId: item.productId,
-          productName: item.productName,
-          quantity: item.quantity,
-          unitPrice: item.unitPrice,
-          totalPrice: (parseFloat(item.unitPrice) * item.quantity).toFixed(2),
-        }));
-        
-        await db.createSaleItems(saleItems);
-        
-        // Update product stock
-        for (const item of input.items) {
-          await db.updateProductStock(
-            item.productId,
-            -item.quantity,
-            "SALE",
-            `sale:${saleId}`
-          );
-        }
-        
-        return { saleId, totalAmount };
+        try {
+          await db.setUserPin(userId, input.pin);
+          return { success: true };
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถตั้ง PIN ได้",
+          });
+        }
       }),
-    
-    today: protectedProcedure.query(async ({ ctx }) => {
-      return db.getTodaySales(ctx.user.id);
+
+    list: permissionProcedure("staff.manage").query(async ({ ctx }) => {
+      return db.getShopMembers(ctx.shop.id);
     }),
-  }),
 
-  // ==================== STOCK MANAGEMENT ====================
-  stock: router({
-    in: protectedProcedure
+    create: permissionProcedure("staff.manage")
       .input(
         z.object({
-          productId: z.union([z.string(), z.number()]),
-          quantity: z.number().min(1),
-          note: z.string().optional(),
+          email: z.string().email("อีเมลไม่ถูกต้อง"),
+          password: z.string().min(6, "รหัสผ่านต้องมีอย่างน้อย 6 ตัวอักษร"),
+          name: z.string().trim().max(255).optional(),
+          role: z.enum(STAFF_ROLES),
         })
       )
       .mutation(async ({ ctx, input }) => {
-        // Ensure product belongs to the current user before adjusting stock.
-        const product = await db.getProductById(input.productId, ctx.user.id);
-        if (!product) throw new Error("ไม่พบสินค้า");
+        try {
+          const id = await db.createShopMember(ctx.shop.id, input);
+          return { success: true, id };
+        } catch (error: any) {
+          if (error.message === "Email already registered" || error.message?.includes("duplicate")) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "อีเมลนี้ถูกใช้งานแล้ว" });
+          }
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถเพิ่มพนักงานได้",
+          });
+        }
+      }),
 
-        const updated = await db.stockInPurchase({
-          productId: input.productId,
-          quantity: input.quantity,
-          note: input.note ?? null,
-        });
+    updateRole: permissionProcedure("staff.manage")
+      .input(z.object({ id: z.string(), role: z.enum(STAFF_ROLES) }))
+      .mutation(async ({ ctx, input }) => {
+        try {
+          await db.updateShopMemberRole(ctx.shop.id, input.id, input.role);
+          return { success: true };
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถแก้ไขพนักงานได้",
+          });
+        }
+      }),
 
-        return { success: true, product: updated };
+    remove: permissionProcedure("staff.manage")
+      .input(z.object({ id: z.string() }))
+      .mutation(async ({ ctx, input }) => {
+        try {
+          await db.removeShopMember(ctx.shop.id, input.id);
+          return { success: true };
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถลบพนักงานได้",
+          });
+        }
       }),
+  }),
 
-    movements: protectedProcedure
+  // ==================== AUDIT LOG ====================
+  // ประวัติการทำรายการสำคัญ (เพิ่มได้อย่างเดียว) - เจ้าของร้านเท่านั้น
+  audit: router({
+    search: permissionProcedure("audit.view")
       .input(
         z
           .object({
-            limit: z.number().optional(),
-            cursor: z.string().optional(),
-            productId: z.union([z.string(), z.number()]).optional(),
+            action: z.enum(AUDIT_ACTIONS).optional(),
+            search: z.string().max(100).optional(),
+            from: dateStringSchema.optional(),
+            to: dateStringSchema.optional(),
+            limit: z.number().int().min(1).max(500).optional(),
           })
           .optional()
       )
       .query(async ({ ctx, input }) => {
-        return db.getStockMovementsByUser({
-          userId: ctx.user.id,
+        return db.searchAuditLogs(ctx.shop.id, {
+          action: input?.action,
+          search: input?.search,
+          from: input?.from ? parseDateString(input.from) : undefined,
+          to: input?.to ? parseDateString(input.to, true) : undefined,
           limit: input?.limit,
-          cursor: input?.cursor ?? null,
-          productId: input?.productId ?? null,
         });
       }),
   }),
 
   // ==================== CUSTOMERS ====================
   customers: router({
-    list: protectedProcedure.query(async ({ ctx }) => {
-      return db.getCustomersByUser(ctx.user.id);
+    list: shopProcedure.query(async ({ ctx }) => {
+      return db.getCustomersByUser(ctx.shop.id);
     }),
     
-    withDebt: protectedProcedure.query(async ({ ctx }) => {
-      return db.getCustomersWithDebt(ctx.user.id);
+    // ค้นจากชื่อ / เบอร์โทร / เลขผู้เสียภาษี (ใช้ในหน้าขายและหน้ารายชื่อลูกค้า)
+    search: shopProcedure
+      .input(
+        z
+          .object({
+            search: z.string().max(100).optional(),
+            limit: z.number().int().min(1).max(100).optional(),
+          })
+          .optional()
+      )
+      .query(async ({ ctx, input }) => {
+        return db.searchCustomers(ctx.shop.id, input?.search, input?.limit);
+      }),
+
+    create: shopProcedure
+      .input(customerSchema)
+      .mutation(async ({ ctx, input }) => {
+        try {
+          const id = await db.createCustomer({ userId: ctx.shop.id, ...input });
+          return { success: true, id };
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถเพิ่มลูกค้าได้",
+          });
+        }
+      }),
+
+    update: shopProcedure
+      .input(
+        customerSchema.partial().extend({
+          id: z.union([z.string(), z.number()]),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const { id, ...data } = input;
+        try {
+          await db.updateCustomer(id, ctx.shop.id, data);
+          return { success: true };
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถแก้ไขลูกค้าได้",
+          });
+        }
+      }),
+
+    delete: shopProcedure
+      .input(z.object({ id: z.union([z.string(), z.number()]) }))
+      .mutation(async ({ ctx, input }) => {
+        try {
+          await db.deleteCustomer(input.id, ctx.shop.id);
+          return { success: true };
+        } catch (error: any) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message || "ไม่สามารถลบลูกค้าได้",
+          });
+        }
+      }),
+
+    withDebt: shopProcedure.query(async ({ ctx }) => {
+      return db.getCustomersWithDebt(ctx.shop.id);
     }),
     
-    payDebt: protectedProcedure
+    payDebt: shopProcedure
       .input(z.object({
         customerId: z.union([z.string(), z.number()]),
         amount: z.number().positive(),
       }))
       .mutation(async ({ ctx, input }) => {
-        await db.payDebt(input.customerId, ctx.user.id, input.amount);
+        const before = await db.getCustomerById(input.customerId, ctx.shop.id);
+        await db.payDebt(input.customerId, ctx.shop.id, input.amount);
+        const after = await db.getCustomerById(input.customerId, ctx.shop.id);
+        await recordAudit(ctx, {
+          action: "customer.payDebt",
+          entityId: String(input.customerId),
+          entityName: after?.name ?? before?.name ?? null,
+          before: { totalDebt: before ? Number(before.totalDebt) : null },
+          after: {
+            totalDebt: after ? Number(after.totalDebt) : null,
+            paidAmount: input.amount,
+          },
+        });
         return { success: true };
       }),
   }),
 
   // ==================== ANALYTICS ====================
   analytics: router({
-    dashboard: protectedProcedure.query(async ({ ctx }) => {
-      return db.getAnalytics(ctx.user.id);
+    dashboard: shopProcedure.query(async ({ ctx }) => {
+      const analytics = await db.getAnalytics(ctx.shop.id);
+      return {
+        ...analytics,
+        lowStockProducts: hideCostFields(ctx.shop.role, analytics.lowStockProducts, ["costPrice"]),
+      };
     }),
   }),
 
@@ -380,9 +1484,9 @@ export const appRouter = router({
     /**
      * ดึงรายละเอียดยอดขายวันนี้พร้อมรายการสินค้า
      */
-    todaySalesDetail: protectedProcedure.query(async ({ ctx }) => {
-      const todaySalesData = await db.getTodaySales(ctx.user.id);
-      const soldItems = await db.getTodaySoldItems(ctx.user.id);
+    todaySalesDetail: shopProcedure.query(async ({ ctx }) => {
+      const todaySalesData = await db.getTodaySales(ctx.shop.id);
+      const soldItems = await db.getTodaySoldItems(ctx.shop.id);
 
       return {
         totalAmount: todaySalesData.totalSales,
@@ -397,39 +1501,195 @@ export const appRouter = router({
   }),
 
   // ==================== REPORTS ====================
+  // allBranches = รวมทุกสาขา (ไม่ระบุ = เฉพาะสาขาที่ใช้งานอยู่)
   reports: router({
-    summary: protectedProcedure.query(async ({ ctx }) => {
-      return db.getSalesSummary(ctx.user.id);
-    }),
+    summary: permissionProcedure("reports.profit")
+      .input(z.object({ allBranches: z.boolean().optional() }).optional())
+      .query(async ({ ctx, input }) => {
+        return db.getSalesSummary(
+          ctx.shop.id,
+          await getReportBranchScope(ctx, input?.allBranches)
+        );
+      }),
     
-    daily: protectedProcedure
-      .input(z.object({ days: z.number().default(7) }).optional())
+    daily: permissionProcedure("reports.profit")
+      .input(
+        z
+          .object({
+            days: z.number().default(7),
+            categoryId: z.string().nullable().optional(), // null = ไม่มีหมวด
+            allBranches: z.boolean().optional(),
+          })
+          .optional()
+      )
       .query(async ({ ctx, input }) => {
-        return db.getDailySales(ctx.user.id, input?.days);
+        return db.getDailySales(
+          ctx.shop.id,
+          input?.days,
+          input?.categoryId,
+          await getReportBranchScope(ctx, input?.allBranches)
+        );
       }),
     
-    monthly: protectedProcedure
-      .input(z.object({ months: z.number().default(6) }).optional())
+    monthly: permissionProcedure("reports.profit")
+      .input(
+        z
+          .object({ months: z.number().default(6), allBranches: z.boolean().optional() })
+          .optional()
+      )
       .query(async ({ ctx, input }) => {
-        return db.getMonthlySales(ctx.user.id, input?.months);
+        return db.getMonthlySales(
+          ctx.shop.id,
+          input?.months,
+          await getReportBranchScope(ctx, input?.allBranches)
+        );
       }),
     
-    topProducts: protectedProcedure
-      .input(z.object({ limit: z.number().default(5) }).optional())
+    topProducts: permissionProcedure("reports.profit")
+      .input(
+        z
+          .object({
+            limit: z.number().default(5),
+            sortBy: z.enum(["quantity", "profit"]).default("quantity"),
+            categoryId: z.string().nullable().optional(), // null = ไม่มีหมวด
+            allBranches: z.boolean().optional(),
+          })
+          .optional()
+      )
+      .query(async ({ ctx, input }) => {
+        return db.getTopSellingProducts(
+          ctx.shop.id,
+          input?.limit,
+          input?.sortBy,
+          input?.categoryId,
+          await getReportBranchScope(ctx, input?.allBranches)
+        );
+      }),
+
+    byCategory: permissionProcedure("reports.profit")
+      .input(
+        z
+          .object({ days: z.number().default(30), allBranches: z.boolean().optional() })
+          .optional()
+      )
       .query(async ({ ctx, input }) => {
-        return db.getTopSellingProducts(ctx.user.id, input?.limit);
+        return db.getSalesByCategory(
+          ctx.shop.id,
+          input?.days,
+          await getReportBranchScope(ctx, input?.allBranches)
+        );
+      }),
+
+    // ยอดขายแยกตามแคชเชียร์ (คนที่ปลดล็อกเครื่องตอนขาย)
+    byCashier: permissionProcedure("reports.profit")
+      .input(
+        z
+          .object({ days: z.number().default(30), allBranches: z.boolean().optional() })
+          .optional()
+      )
+      .query(async ({ ctx, input }) => {
+        return db.getSalesByCashier(
+          ctx.shop.id,
+          input?.days,
+          await getReportBranchScope(ctx, input?.allBranches)
+        );
+      }),
+
+    /**
+     * มูลค่าสินค้าคงเหลือ ณ สิ้นวันที่ asOf (YYYY-MM-DD, ไม่ระบุ = ตอนนี้) - รวมทุกสาขาเสมอ
+     */
+    stockValuation: permissionProcedure("reports.profit")
+      .input(
+        z
+          .object({
+            asOf: dateStringSchema.optional(),
+          })
+          .optional()
+      )
+      .query(async ({ ctx, input }) => {
+        const asOf = input?.asOf ? parseDateString(input.asOf, true) : new Date();
+        return db.getStockValuation(ctx.shop.id, asOf);
+      }),
+
+    /**
+     * ของหาย/ตัดทิ้งตามเหตุผลและสินค้า (ไม่ระบุช่วง = ต้นเดือนนี้ถึงตอนนี้)
+     */
+    shrinkage: permissionProcedure("reports.profit")
+      .input(
+        z
+          .object({
+            from: dateStringSchema.optional(),
+            to: dateStringSchema.optional(),
+            allBranches: z.boolean().optional(),
+          })
+          .optional()
+      )
+      .query(async ({ ctx, input }) => {
+        const now = new Date();
+        const from = input?.from
+          ? parseDateString(input.from)
+          : new Date(now.getFullYear(), now.getMonth(), 1);
+        const to = input?.to ? parseDateString(input.to, true) : now;
+        return db.getShrinkageReport(
+          ctx.shop.id,
+          from,
+          to,
+          await getReportBranchScope(ctx, input?.allBranches)
+        );
       }),
   }),
 
   // ==================== RECEIPTS ====================
   receipts: router({
-    generate: protectedProcedure
+    generate: shopProcedure
       .input(z.object({ saleId: z.union([z.string(), z.number()]) }))
       .query(async ({ ctx, input }) => {
         const receiptData = await db.getReceiptData(input.saleId);
         const receiptText = db.formatReceiptText(receiptData);
         return { receiptText, receiptData };
       }),
+
+    /**
+     * PromptPay QR ของร้าน
+     * - amount: ยอดที่หน้าชำระเงิน (ยังไม่มีบิล)
+     * - saleId: ยอดส่วนที่จ่ายพร้อมเพย์ของบิล สำหรับพิมพ์ท้ายใบเสร็จ
+     * ร้านที่ยังไม่ตั้ง PromptPay ID หรือบิลที่ไม่ได้จ่ายพร้อมเพย์ → null
+     */
+    promptPayQr: shopProcedure
+      .input(
+        z.object({
+          saleId: z.union([z.string(), z.number()]).optional(),
+          amount: z.number().min(0).optional(),
+        })
+      )
+      .query(async ({ ctx, input }) => {
+        const settings = await db.getSettings(ctx.shop.id);
+        if (!settings.promptPayId) return null;
+
+        let amount = input.amount ?? null;
+        if (input.saleId !== undefined) {
+          const sale = await db.getSaleDetail(input.saleId, ctx.shop.id);
+          if (!sale) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "ไม่พบบิลขาย" });
+          }
+          const promptPayAmount = db
+            .getSalePayments(sale)
+            .filter((p) => p.method === "promptpay")
+            .reduce((sum, p) => sum + p.amount, 0);
+          if (promptPayAmount <= 0) return null;
+          amount = promptPayAmount;
+        }
+
+        const payload = buildPromptPayPayload(settings.promptPayId, amount);
+        const qrDataUrl = await QRCode.toDataURL(payload, { margin: 1, width: 256 });
+        return {
+          payload,
+          qrDataUrl,
+          amount,
+          // แสดงแค่ 4 ตัวท้ายบนหน้าจอ
+          promptPayIdMasked: "x".repeat(Math.max(0, settings.promptPayId.length - 4)) + settings.promptPayId.slice(-4),
+        };
+      }),
   }),
 
   // ==================== FULL TAX INVOICE ====================
@@ -438,7 +1698,7 @@ export const appRouter = router({
      * ดึงข้อมูล Sale สำหรับสร้างใบกำกับภาษีเต็ม
      * ตรวจสอบว่ามี VAT หรือไม่
      */
-    getSaleData: protectedProcedure
+    getSaleData: shopProcedure
       .input(z.object({ saleId: z.union([z.string(), z.number()]) }))
       .query(async ({ ctx, input }) => {
         const saleData = await db.getSaleForFullTaxInvoice(input.saleId);
@@ -454,7 +1714,7 @@ export const appRouter = router({
     /**
      * ตรวจสอบว่ามีใบกำกับภาษีเต็มอยู่แล้วหรือไม่
      */
-    checkExists: protectedProcedure
+    checkExists: shopProcedure
       .input(z.object({ saleId: z.union([z.string(), z.number()]) }))
       .query(async ({ ctx, input }) => {
         const invoice = await db.getFullTaxInvoiceBySaleId(input.saleId);
@@ -464,7 +1724,7 @@ export const appRouter = router({
     /**
      * สร้างใบกำกับภาษีเต็ม
      */
-    create: protectedProcedure
+    create: shopProcedure
       .input(
         z.object({
           saleId: z.union([z.string(), z.number()]),
@@ -476,7 +1736,7 @@ export const appRouter = router({
       .mutation(async ({ ctx, input }) => {
         try {
           const invoiceId = await db.createFullTaxInvoice({
-            userId: ctx.user.id,
+            userId: ctx.shop.id,
             saleId: input.saleId,
             buyerName: input.buyerName,
             buyerAddress: input.buyerAddress,
@@ -494,7 +1754,7 @@ export const appRouter = router({
     /**
      * ดึงใบกำกับภาษีเต็มพร้อมข้อความที่ format แล้ว
      */
-    get: protectedProcedure
+    get: shopProcedure
       .input(z.object({ saleId: z.union([z.string(), z.number()]) }))
       .query(async ({ ctx, input }) => {
         const invoice = await db.getFullTaxInvoiceBySaleId(input.saleId);
@@ -525,6 +1785,7 @@ export const appRouter = router({
           buyerAddress: invoice.buyerAddress,
           buyerTaxId: invoice.buyerTaxId ?? null,
           items: saleData.items,
+          billDiscountAmount: saleData.billDiscountAmount,
           subtotal: invoice.subtotal,
           vatAmount: invoice.vatAmount,
           totalWithVat: invoice.totalWithVat,
@@ -548,7 +1809,7 @@ export const appRouter = router({
     /**
      * ดึงรายการใบกำกับภาษีเต็มทั้งหมด (สำหรับบัญชี/ตรวจสอบ)
      */
-    list: protectedProcedure
+    list: shopProcedure
       .input(
         z
           .object({
@@ -557,7 +1818,7 @@ export const appRouter = router({
           .optional()
       )
       .query(async ({ ctx, input }) => {
-        const invoices = await db.getFullTaxInvoices(ctx.user.id, input?.limit ?? 50);
+        const invoices = await db.getFullTaxInvoices(ctx.shop.id, input?.limit ?? 50);
         return invoices;
       }),
 
@@ -567,7 +1828,7 @@ export const appRouter = router({
      * - ต้องยังคงเลขที่เอกสาร
      * - เปลี่ยนสถานะเป็น "cancelled"
      */
-    cancel: protectedProcedure
+    cancel: permissionProcedure("fullTaxInvoice.cancel")
       .input(
         z.object({
           invoiceId: z.union([z.string(), z.number()]),
@@ -575,7 +1836,14 @@ export const appRouter = router({
       )
       .mutation(async ({ ctx, input }) => {
         try {
-          await db.cancelFullTaxInvoice(input.invoiceId, ctx.user.id);
+          const invoice = await db.cancelFullTaxInvoice(input.invoiceId, ctx.shop.id);
+          await recordAudit(ctx, {
+            action: "fullTaxInvoice.cancel",
+            entityId: String(input.invoiceId),
+            entityName: invoice.invoiceNumber,
+            before: { status: "issued", buyerName: invoice.buyerName },
+            after: { status: "cancelled" },
+          });
           return { success: true };
         } catch (error: any) {
           throw new TRPCError({
@@ -584,6 +1852,40 @@ export const appRouter = router({
           });
         }
       }),
+
+    /**
+     * ดึงใบลดหนี้พร้อมข้อความที่ format แล้ว
+     * (ออกอัตโนมัติตอนคืนสินค้า/ยกเลิกบิลที่มีใบกำกับภาษีเต็ม)
+     */
+    getCreditNote: shopProcedure
+      .input(z.object({ creditNoteId: z.union([z.string(), z.number()]) }))
+      .query(async ({ ctx, input }) => {
+        const creditNote = await db.getCreditNoteById(input.creditNoteId, ctx.shop.id);
+        if (!creditNote) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "ไม่พบใบลดหนี้",
+          });
+        }
+
+        const creditNoteText = db.formatCreditNoteText(creditNote);
+        return { creditNote, creditNoteText };
+      }),
+
+    /**
+     * ดึงรายการใบลดหนี้ทั้งหมด
+     */
+    listCreditNotes: shopProcedure
+      .input(
+        z
+          .object({
+            limit: z.number().min(1).max(100).default(50),
+          })
+          .optional()
+      )
+      .query(async ({ ctx, input }) => {
+        return db.getCreditNotes(ctx.shop.id, input?.limit ?? 50);
+      }),
   }),
 
   // ==================== SHIFT CLOSING ====================
@@ -593,15 +1895,16 @@ export const appRouter = router({
      * - เช็คว่ามีกะเปิดอยู่แล้วหรือไม่
      * - สร้าง Shift ใหม่พร้อม openingCash
      */
-    open: protectedProcedure
+    open: shopProcedure
       .input(
         z.object({
           openingCash: z.number().min(0),
         })
       )
       .mutation(async ({ ctx, input }) => {
-        // เช็คว่ามีกะเปิดอยู่แล้วหรือไม่
-        const existingShift = await db.getOpenShiftToday(ctx.user.id);
+        // เช็คว่ามีกะเปิดอยู่แล้วหรือไม่ (กะแยกตามสาขา)
+        const branchId = await getCurrentBranchId(ctx);
+        const existingShift = await db.getOpenShiftToday(ctx.shop.id, branchId);
         if (existingShift) {
           throw new TRPCError({
             code: "BAD_REQUEST",
@@ -610,13 +1913,13 @@ export const appRouter = router({
         }
 
         // หา shiftNumber ของวันนี้ (max + 1)
-        const maxShiftNumber = await db.getMaxShiftNumberToday(ctx.user.id);
+        const maxShiftNumber = await db.getMaxShiftNumberToday(ctx.shop.id, branchId);
         const shiftNumber = maxShiftNumber + 1;
 
         // สร้าง Shift ใหม่
         const today = new Date();
         const shift = await db.createShift({
-          userId: ctx.user.id,
+          userId: ctx.shop.id,
           shiftNumber,
           shiftDate: today,
           startTime: new Date(),
@@ -627,6 +1930,8 @@ export const appRouter = router({
           creditSales: 0,
           saleCount: 0,
           status: "open",
+          branchId,
+          cashierId: ctx.cashier.id,
         });
 
         return shift;
@@ -638,7 +1943,7 @@ export const appRouter = router({
      * - คำนวณ expectedCash, cashDifference
      * - อัปเดต Shift เป็น closed
      */
-    close: protectedProcedure
+    close: shopProcedure
       .input(
         z.object({
           closingCash: z.number().min(0),
@@ -647,7 +1952,8 @@ export const appRouter = router({
       )
       .mutation(async ({ ctx, input }) => {
         // หา shift ที่เปิดอยู่
-        const shift = await db.getOpenShiftToday(ctx.user.id);
+        const branchId = await getCurrentBranchId(ctx);
+        const shift = await db.getOpenShiftToday(ctx.shop.id, branchId);
         if (!shift) {
           throw new TRPCError({
             code: "BAD_REQUEST",
@@ -658,12 +1964,13 @@ export const appRouter = router({
         // ดึงยอดขายทั้งหมดตั้งแต่ shift.startTime ถึง now
         const endTime = new Date();
         const salesSummary = await db.getSalesSummaryForShift(
-          ctx.user.id,
+          ctx.shop.id,
           shift.startTime,
-          endTime
+          endTime,
+          branchId
         );
 
-        // คำนวณ expectedCash และ cashDifference
+        // คำนวณ expectedCash และ cashDifference (นับเฉพาะเงินสดจริง ไม่รวมโอน/พร้อมเพย์/บัตร)
         const expectedCash = shift.openingCash + salesSummary.cashSales;
         const actualCash = input.closingCash;
         const cashDifference = actualCash - expectedCash;
@@ -678,10 +1985,21 @@ export const appRouter = router({
           totalSales: salesSummary.totalSales,
           cashSales: salesSummary.cashSales,
           creditSales: salesSummary.creditSales,
+          transferSales: salesSummary.transferSales,
+          promptPaySales: salesSummary.promptPaySales,
+          cardSales: salesSummary.cardSales,
           saleCount: salesSummary.saleCount,
           notes: input.notes ?? null,
         });
 
+        await recordAudit(ctx, {
+          action: "shift.close",
+          entityId: shift.id,
+          entityName: `กะที่ ${shift.shiftNumber}`,
+          before: { status: "open", openingCash: shift.openingCash, expectedCash },
+          after: { status: "closed", closingCash: input.closingCash, cashDifference },
+        });
+
         // Return summary
         return {
           shift: closedShift,
@@ -694,6 +2012,10 @@ export const appRouter = router({
             totalSales: salesSummary.totalSales,
             cashSales: salesSummary.cashSales,
             creditSales: salesSummary.creditSales,
+            transferSales: salesSummary.transferSales,
+            promptPaySales: salesSummary.promptPaySales,
+            cardSales: salesSummary.cardSales,
+            refundAmount: salesSummary.refundAmount,
             saleCount: salesSummary.saleCount,
             startTime: shift.startTime,
             endTime,
@@ -704,35 +2026,44 @@ export const appRouter = router({
     /**
      * ดึงกะของวันนี้ (ล่าสุด)
      */
-    today: protectedProcedure.query(async ({ ctx }) => {
-      const shift = await db.getTodayShift(ctx.user.id);
+    today: shopProcedure.query(async ({ ctx }) => {
+      const shift = await db.getTodayShift(ctx.shop.id, await getCurrentBranchId(ctx));
       return shift;
     }),
   }),
 
   chat: router({
-    send: protectedProcedure
+    send: shopProcedure
       .input(z.object({ message: z.string().min(1) }))
       .mutation(async ({ ctx, input }) => {
         // Save user message first (same behavior asเดิม)
         await db.createChatLog({
-          userId: ctx.user.id,
+          userId: ctx.shop.id,
+          actorId: ctx.cashier.id,
           role: "user",
           content: input.message,
         });
 
         try {
           // Use existing analytics as the single source of truth
-          const analytics = await db.getAnalytics(ctx.user.id);
+          const analytics = await db.getAnalytics(ctx.shop.id);
 
           const normalized = input.message.toLowerCase().trim();
 
+          const isProfitQuestion =
+            /กำไร/.test(normalized) ||
+            /ต้นทุน/.test(normalized) ||
+            /ขาดทุน/.test(normalized);
+
           const isTodaySalesQuestion =
             /วันนี้.*ขาย/.test(normalized) ||
             /ขาย.*วันนี้/.test(normalized) ||
             /ยอด.*วันนี้/.test(normalized) ||
             /ยอดขายวันนี้/.test(normalized);
 
+          // "ใกล้หมดอายุ" มีคำว่า "ใกล้หมด" → ต้องเช็คก่อนคำถามสินค้าใกล้หมด
+          const isNearExpiryQuestion = /หมดอายุ/.test(normalized);
+
           const isLowStockQuestion =
             /ใกล้หมด/.test(normalized) ||
             /ของ.*หมด/.test(normalized) ||
@@ -752,10 +2083,41 @@ export const appRouter = router({
 
           let aiResponse: string;
 
-          if (isTodaySalesQuestion) {
+          if (isProfitQuestion && !hasPermission(ctx.shop.role, "reports.profit")) {
+            aiResponse = "บัญชีพนักงานดูกำไร/ต้นทุนไม่ได้ครับ ให้เจ้าของร้านหรือผู้จัดการดูแทน";
+          } else if (isProfitQuestion) {
+            // กำไรขั้นต้น = ยอดขายสุทธิ (ก่อน VAT) - ต้นทุนสินค้าที่ขาย
+            const summary = await db.getSalesSummary(ctx.shop.id);
+            const topProfit = await db.getTopSellingProducts(ctx.shop.id, 5, "profit");
+            const formatBaht = (value: number) =>
+              Math.round(value).toLocaleString("th-TH");
+
+            if (summary.thisMonth.saleCount === 0) {
+              aiResponse = "เดือนนี้ยังไม่มีการขายเลยครับ เลยยังคิดกำไรไม่ได้";
+            } else {
+              let response =
+                `วันนี้กำไรขั้นต้น ${formatBaht(summary.today.grossProfit)} บาท ` +
+                `(ขาย ${formatBaht(summary.today.totalAmount)} บาท, อัตรากำไร ${summary.today.grossMargin}%)\n` +
+                `เดือนนี้กำไรขั้นต้น ${formatBaht(summary.thisMonth.grossProfit)} บาท ` +
+                `(ขาย ${formatBaht(summary.thisMonth.totalAmount)} บาท, อัตรากำไร ${summary.thisMonth.grossMargin}%)\n`;
+
+              if (topProfit.length > 0) {
+                response += "\nสินค้าที่ทำกำไรให้มากที่สุด:\n";
+                topProfit.forEach((item) => {
+                  response += `• ${item.productName}: กำไร ${formatBaht(item.grossProfit)} บาท (${item.grossMargin}%)\n`;
+                });
+              }
+
+              if (topProfit.some((item) => item.totalCost === 0)) {
+                response += "\n* สินค้าบางรายการยังไม่ได้ใส่ราคาทุน กำไรของรายการนั้นจะสูงกว่าความจริงครับ";
+              }
+
+              aiResponse = response.trim();
+            }
+          } else if (isTodaySalesQuestion) {
             // เรียก API เพื่อดึงรายละเอียดยอดขายพร้อมรายการสินค้า
-            const salesDetail = await db.getTodaySales(ctx.user.id);
-            const soldItems = await db.getTodaySoldItems(ctx.user.id);
+            const salesDetail = await db.getTodaySales(ctx.shop.id);
+            const soldItems = await db.getTodaySoldItems(ctx.shop.id);
             
             const amount = Math.round(salesDetail.totalSales);
             const count = salesDetail.saleCount;
@@ -783,6 +2145,26 @@ export const appRouter = router({
               
               aiResponse = response;
             }
+          } else if (isNearExpiryQuestion) {
+            const lots = await db.getNearExpiryLots(ctx.shop.id, 7);
+            if (lots.length === 0) {
+              aiResponse = "ช่วง 7 วันนี้ยังไม่มีสินค้าหมดอายุครับ";
+            } else {
+              const lines = lots.map((lot) => {
+                const when =
+                  lot.daysLeft < 0
+                    ? `หมดอายุแล้ว ${-lot.daysLeft} วัน`
+                    : lot.daysLeft === 0
+                      ? "หมดอายุวันนี้"
+                      : `อีก ${lot.daysLeft} วัน`;
+                return `• ${lot.productName}${lot.lotNumber ? ` (ล็อต ${lot.lotNumber})` : ""}: เหลือ ${lot.remainingQuantity.toLocaleString(
+                  "th-TH"
+                )} ${lot.baseUnit} - ${when}`;
+              });
+              aiResponse =
+                `มีสินค้าหมดอายุหรือใกล้หมดอายุใน 7 วัน ${lots.length} ล็อตครับ:\n` +
+                lines.join("\n");
+            }
           } else if (isLowStockQuestion) {
             const items = analytics.lowStockProducts ?? [];
             if (items.length === 0) {
@@ -812,26 +2194,35 @@ export const appRouter = router({
                 )} บาทครับ:\n` + lines.join("\n");
             }
           } else if (isReorderTomorrowQuestion) {
-            const items = analytics.lowStockProducts ?? [];
-            if (items.length === 0) {
+            const { options, suggestions } = await db.getReorderSuggestions(ctx.shop.id);
+            if (suggestions.length === 0) {
               aiResponse =
-                "จากข้อมูลตอนนี้ ยังไม่มีสินค้าที่น่าเป็นห่วงเป็นพิเศษ พรุ่งนี้ยังไม่จำเป็นต้องรีบสั่งของครับ";
+                "จากยอดขายช่วงนี้ ยังไม่มีสินค้าที่จะขายหมดก่อนของมาส่ง พรุ่งนี้ยังไม่จำเป็นต้องรีบสั่งของครับ";
             } else {
-              const lines = items.map(
-                (p: any) =>
-                  `• ${p.name}: เหลือ ${p.stock} ชิ้น (ควรมีอย่างน้อย ${((p as any).reorderPoint ?? (p as any).minStock ?? 5).toLocaleString(
-                    "th-TH"
-                  )} ชิ้น)`
-              );
+              const lines = suggestions.slice(0, 10).map((p: any) => {
+                const left =
+                  p.daysOfStockLeft === null
+                    ? "ยังไม่มียอดขายช่วงนี้"
+                    : `ขายได้อีกประมาณ ${p.daysOfStockLeft.toLocaleString("th-TH")} วัน`;
+                return `• ${p.name}: เหลือ ${p.stock} (${left}) ควรสั่ง ${p.suggestedQuantity.toLocaleString(
+                  "th-TH"
+                )}`;
+              });
+              if (suggestions.length > 10) {
+                lines.push(`และอื่น ๆ อีก ${suggestions.length - 10} รายการ`);
+              }
               aiResponse =
-                "ถ้าจะสั่งของพรุ่งนี้ ผมแนะนำเริ่มจากรายการใกล้หมดเหล่านี้ก่อนครับ:\n" +
+                `ถ้าจะสั่งของพรุ่งนี้ ผมแนะนำตามยอดขาย ${options.windowDays} วันที่ผ่านมา ` +
+                `(รอของ ${options.leadTimeDays} วัน สั่งให้พอขาย ${options.coverDays} วัน) ครับ:\n` +
                 lines.join("\n");
             }
           } else {
             aiResponse =
               "ตอนนี้ผมช่วยตอบได้เฉพาะเรื่องพื้นฐานของร้าน เช่น:\n" +
               "- วันนี้ขายได้เท่าไหร่\n" +
+              "- เดือนนี้กำไรเท่าไหร่\n" +
               "- ของอะไรใกล้หมด\n" +
+              "- ของอะไรใกล้หมดอายุ\n" +
               "- ใครค้างเงินอยู่\n" +
               "- พรุ่งนี้ควรซื้ออะไร\n" +
               "ลองถามใหม่อีกครั้งในรูปแบบนี้ได้เลยครับ 🙂";
@@ -839,7 +2230,8 @@ export const appRouter = router({
 
           // Save AI response (same behavior)
           await db.createChatLog({
-            userId: ctx.user.id,
+            userId: ctx.shop.id,
+            actorId: ctx.cashier.id,
             role: "assistant",
             content: aiResponse,
           });
@@ -851,10 +2243,11 @@ export const appRouter = router({
         }
       }),
     
-    history: protectedProcedure
+    history: shopProcedure
       .input(z.object({ limit: z.number().default(20) }).optional())
       .query(async ({ ctx, input }) => {
-        const logs = await db.getChatLogs(ctx.user.id, input?.limit);
+        // เห็นเฉพาะบทสนทนาของตัวเอง (คำตอบเรื่องกำไรของเจ้าของร้านไม่หลุดไปให้พนักงาน)
+        const logs = await db.getChatLogs(ctx.shop.id, ctx.cashier.id, input?.limit);
         return logs.reverse(); // Return in chronological order
       }),
   }),
@@ -0,0 +1,404 @@
+import mongoose from "mongoose";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { mockModelModule } = await vi.hoisted(() => import("./test/modelMocks"));
+
+vi.mock("./models/Sale", (importOriginal) => mockModelModule(importOriginal, "Sale"));
+vi.mock("./models/SaleItem", (importOriginal) => mockModelModule(importOriginal, "SaleItem"));
+vi.mock("./models/SaleReturn", (importOriginal) => mockModelModule(importOriginal, "SaleReturn"));
+vi.mock("./models/Product", (importOriginal) => mockModelModule(importOriginal, "Product"));
+vi.mock("./models/Customer", (importOriginal) => mockModelModule(importOriginal, "Customer"));
+vi.mock("./models/FullTaxInvoice", (importOriginal) => mockModelModule(importOriginal, "FullTaxInvoice"));
+vi.mock("./models/CreditNote", (importOriginal) => mockModelModule(importOriginal, "CreditNote"));
+vi.mock("./models/Settings", (importOriginal) => mockModelModule(importOriginal, "Settings"));
+vi.mock("./models/BranchStock", (importOriginal) => mockModelModule(importOriginal, "BranchStock"));
+vi.mock("./models/StockLot", (importOriginal) => mockModelModule(importOriginal, "StockLot"));
+vi.mock("./models/StockMovement", (importOriginal) => mockModelModule(importOriginal, "StockMovement"));
+
+import { returnSale } from "./db";
+import { Sale } from "./models/Sale";
+import { SaleItem } from "./models/SaleItem";
+import { SaleReturn } from "./models/SaleReturn";
+import { Product } from "./models/Product";
+import { Customer } from "./models/Customer";
+import { FullTaxInvoice } from "./models/FullTaxInvoice";
+import { CreditNote } from "./models/CreditNote";
+import { Settings } from "./models/Settings";
+import { BranchStock } from "./models/BranchStock";
+import { StockLot } from "./models/StockLot";
+import { StockMovement } from "./models/StockMovement";
+import {
+  mock,
+  mockTransactionSession,
+  query,
+  resetModelMock,
+  type FakeSession,
+} from "./test/modelMocks";
+
+const userId = new mongoose.Types.ObjectId();
+const saleId = new mongoose.Types.ObjectId();
+const customerId = new mongoose.Types.ObjectId();
+const productA = new mongoose.Types.ObjectId();
+const productB = new mongoose.Types.ObjectId();
+const itemA = new mongoose.Types.ObjectId();
+const itemB = new mongoose.Types.ObjectId();
+
+// บิล 250 บาท: ปุ๋ย 2 × 100 (ทุน 60) + ยา 1 × 50 (ทุน 30)
+function givenSale(overrides: Record<string, unknown> = {}, returned = { a: 0, b: 0 }) {
+  mock(Sale).findOne.mockImplementation(() =>
+    query({
+      _id: saleId,
+      userId,
+      customerId: null,
+      status: "completed",
+      totalAmount: 250,
+      subtotal: 250,
+      vatRate: 0,
+      vatAmount: 0,
+      totalWithVat: 250,
+      billDiscountAmount: 0,
+      paymentType: "cash",
+      payments: [{ method: "cash", amount: 250, reference: null }],
+      ...overrides,
+    })
+  );
+  mock(SaleItem).find.mockImplementation(() =>
+    query([
+      {
+        _id: itemA,
+        saleId,
+        productId: productA,
+        productName: "ปุ๋ยยูเรีย",
+        quantity: 2,
+        returnedQuantity: returned.a,
+        unitPrice: 100,
+        totalPrice: 200,
+        unitCost: 60,
+      },
+      {
+        _id: itemB,
+        saleId,
+        productId: productB,
+        productName: "ยาฆ่าแมลง",
+        quantity: 1,
+        returnedQuantity: returned.b,
+        unitPrice: 50,
+        totalPrice: 50,
+        unitCost: 30,
+      },
+    ])
+  );
+}
+
+// ยอดของ SaleReturn ก่อนหน้าของบิลนี้ (ผลของ $group)
+function givenPreviousReturns(totals: {
+  subtotal: number;
+  vatAmount: number;
+  totalWithVat: number;
+  creditAmount: number;
+}) {
+  mock(SaleReturn).aggregate.mockImplementation(() => query([{ _id: null, ...totals }]));
+}
+
+const createdReturn = () => mock(SaleReturn).create.mock.calls[0][0][0];
+
+describe("returnSale", () => {
+  let session: FakeSession;
+
+  beforeEach(() => {
+    for (const model of [
+      Sale,
+      SaleItem,
+      SaleReturn,
+      Product,
+      Customer,
+      FullTaxInvoice,
+      CreditNote,
+      Settings,
+      BranchStock,
+      StockLot,
+      StockMovement,
+    ]) {
+      resetModelMock(model);
+    }
+    session = mockTransactionSession();
+
+    mock(Product).find.mockImplementation(() => query([{ _id: productA }, { _id: productB }]));
+    mock(Product).findOneAndUpdate.mockImplementation(() =>
+      query({ _id: productA, userId, stock: 10, costPrice: 60, price: 100 })
+    );
+  });
+
+  it("should return part of a sale inside one transaction", async () => {
+    givenSale();
+
+    const result = await returnSale({
+      userId,
+      saleId,
+      type: "return",
+      items: [{ saleItemId: itemA.toString(), quantity: 1 }],
+    });
+
+    expect(result).toMatchObject({
+      status: "partially_returned",
+      subtotal: 100,
+      vatAmount: 0,
+      totalWithVat: 100,
+      creditNoteId: null,
+    });
+    expect(session.withTransaction).toHaveBeenCalledTimes(1);
+    expect(session.endSession).toHaveBeenCalled();
+    expect(createdReturn()).toMatchObject({
+      type: "return",
+      items: [expect.objectContaining({ saleItemId: itemA, quantity: 1, totalPrice: 100 })],
+      costTotal: 60,
+      paymentType: "cash",
+      creditAmount: 0,
+    });
+    // คืนสต็อกที่ทุนเดิมตอนขาย
+    expect(mock(Product).findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: productA },
+      { $inc: { stock: 1 } },
+      expect.objectContaining({ session })
+    );
+    expect(mock(StockMovement).create.mock.calls[0][0][0]).toMatchObject({
+      source: "RETURN",
+      quantity: 1,
+      unitCost: 60,
+    });
+    expect(mock(Sale).updateOne).toHaveBeenCalledWith(
+      { _id: saleId, status: { $ne: "voided" } },
+      { $set: { status: "partially_returned" }, $inc: { refundedAmount: 100 } },
+      { session }
+    );
+    expect(mock(Customer).updateOne).not.toHaveBeenCalled();
+  });
+
+  it("should only increase the returned quantity while some is left to return", async () => {
+    givenSale();
+
+    await returnSale({
+      userId,
+      saleId,
+      type: "return",
+      items: [{ saleItemId: itemA.toString(), quantity: 2 }],
+    });
+
+    expect(mock(SaleItem).updateOne).toHaveBeenCalledWith(
+      {
+        _id: itemA,
+        $expr: { $lte: [{ $add: [{ $ifNull: ["$returnedQuantity", 0] }, 2] }, "$quantity"] },
+      },
+      { $inc: { returnedQuantity: 2 } },
+      { session }
+    );
+  });
+
+  it("should void the sale once the last items come back", async () => {
+    givenSale({}, { a: 1, b: 0 });
+    givenPreviousReturns({ subtotal: 100, vatAmount: 0, totalWithVat: 100, creditAmount: 0 });
+
+    const result = await returnSale({
+      userId,
+      saleId,
+      type: "return",
+      items: [
+        { saleItemId: itemA.toString(), quantity: 1 },
+        { saleItemId: itemB.toString(), quantity: 1 },
+      ],
+    });
+
+    // ใบสุดท้ายใช้ยอดคงเหลือของบิล
+    expect(result).toMatchObject({ status: "voided", subtotal: 150, totalWithVat: 150 });
+    expect(mock(Sale).updateOne).toHaveBeenCalledWith(
+      { _id: saleId, status: { $ne: "voided" } },
+      { $set: { status: "voided" }, $inc: { refundedAmount: 150 } },
+      { session }
+    );
+  });
+
+  it("should void every item that has not been returned yet", async () => {
+    givenSale();
+
+    const result = await returnSale({ userId, saleId, type: "void" });
+
+    expect(result).toMatchObject({ status: "voided", subtotal: 250, totalWithVat: 250 });
+    expect(createdReturn()).toMatchObject({
+      type: "void",
+      items: [
+        expect.objectContaining({ saleItemId: itemA, quantity: 2 }),
+        expect.objectContaining({ saleItemId: itemB, quantity: 1 }),
+      ],
+      costTotal: 150,
+    });
+  });
+
+  it("should reject a sale that is already voided", async () => {
+    givenSale({ status: "voided" });
+
+    await expect(returnSale({ userId, saleId, type: "void" })).rejects.toThrow(
+      "บิลนี้ถูกยกเลิก/คืนสินค้าครบแล้ว"
+    );
+    expect(mock(SaleReturn).create).not.toHaveBeenCalled();
+  });
+
+  it("should reject more than the quantity left to return", async () => {
+    givenSale({}, { a: 1, b: 0 });
+
+    await expect(
+      returnSale({
+        userId,
+        saleId,
+        type: "return",
+        items: [{ saleItemId: itemA.toString(), quantity: 2 }],
+      })
+    ).rejects.toThrow("คืนได้อีกไม่เกิน 1 ชิ้น");
+  });
+
+  it("should abort when another return took the quantity first", async () => {
+    givenSale();
+    mock(SaleItem).updateOne.mockResolvedValueOnce({ matchedCount: 0 });
+
+    await expect(
+      returnSale({
+        userId,
+        saleId,
+        type: "return",
+        items: [{ saleItemId: itemA.toString(), quantity: 1 }],
+      })
+    ).rejects.toThrow("ถูกคืนไปแล้ว");
+    expect(mock(Sale).updateOne).not.toHaveBeenCalled();
+    expect(session.endSession).toHaveBeenCalled();
+  });
+
+  it("should abort when the sale was voided by another return", async () => {
+    givenSale();
+    mock(Sale).updateOne.mockResolvedValueOnce({ matchedCount: 0 });
+
+    await expect(returnSale({ userId, saleId, type: "void" })).rejects.toThrow(
+      "บิลนี้ถูกยกเลิก/คืนสินค้าครบแล้ว"
+    );
+    expect(mock(Customer).updateOne).not.toHaveBeenCalled();
+  });
+
+  it("should issue a credit note for the returned amount including VAT", async () => {
+    givenSale({ vatRate: 0.07, vatAmount: 17.5, totalWithVat: 267.5 });
+    const invoiceId = new mongoose.Types.ObjectId();
+    mock(FullTaxInvoice).findOne.mockImplementation(() =>
+      query({
+        _id: invoiceId,
+        saleId,
+        invoiceNumber: "INV-2026-000001",
+        sellerName: "ร้านเกษตร",
+        sellerAddress: "ตลาด",
+        sellerTaxId: "0105555000000",
+        buyerName: "บริษัท ก",
+        buyerAddress: "กรุงเทพ",
+        buyerTaxId: "0105555000001",
+      })
+    );
+
+    const result = await returnSale({
+      userId,
+      saleId,
+      type: "return",
+      items: [{ saleItemId: itemA.toString(), quantity: 1 }],
+      reason: "ของชำรุด",
+    });
+
+    const creditNote = mock(CreditNote).create.mock.calls[0][0][0];
+    expect(creditNote).toMatchObject({
+      invoiceId,
+      originalInvoiceNumber: "INV-2026-000001",
+      creditNoteNumber: `CN-${new Date().getFullYear()}-000001`,
+      subtotal: 100,
+      vatAmount: 7,
+      totalWithVat: 107,
+      reason: "ของชำรุด",
+    });
+    expect(mock(CreditNote).create.mock.calls[0][1]).toEqual({ session });
+    expect(result.totalWithVat).toBe(107);
+    expect(result.creditNoteId).toEqual(expect.any(String));
+    expect(mock(SaleReturn).updateOne).toHaveBeenCalledWith(
+      { _id: expect.anything() },
+      { $set: { creditNoteId: expect.any(mongoose.Types.ObjectId) } },
+      { session }
+    );
+  });
+
+  it("should cut the whole refund from debt on a credit sale", async () => {
+    givenSale({
+      customerId,
+      paymentType: "credit",
+      payments: [{ method: "credit", amount: 250, reference: null }],
+    });
+
+    await returnSale({
+      userId,
+      saleId,
+      type: "return",
+      items: [{ saleItemId: itemA.toString(), quantity: 1 }],
+    });
+
+    expect(createdReturn()).toMatchObject({ paymentType: "credit", creditAmount: 100 });
+    expect(mock(Customer).updateOne).toHaveBeenCalledWith(
+      { _id: customerId },
+      [{ $set: { totalDebt: { $max: [0, { $subtract: ["$totalDebt", 100] }] } } }],
+      { session }
+    );
+  });
+
+  it("should only cut the credit part of a mixed credit and cash sale from debt", async () => {
+    givenSale({
+      customerId,
+      paymentType: "credit",
+      payments: [
+        { method: "credit", amount: 150, reference: null },
+        { method: "cash", amount: 100, reference: null },
+      ],
+    });
+
+    await returnSale({ userId, saleId, type: "void" });
+
+    // 150 ลดหนี้ อีก 100 คืนเป็นเงินสด
+    expect(createdReturn()).toMatchObject({
+      totalWithVat: 250,
+      paymentType: "cash",
+      creditAmount: 150,
+    });
+    expect(mock(Customer).updateOne).toHaveBeenCalledWith(
+      { _id: customerId },
+      [{ $set: { totalDebt: { $max: [0, { $subtract: ["$totalDebt", 150] }] } } }],
+      { session }
+    );
+  });
+
+  it("should refund cash once the credit part has already been cut from debt", async () => {
+    givenSale(
+      {
+        customerId,
+        paymentType: "credit",
+        payments: [
+          { method: "credit", amount: 150, reference: null },
+          { method: "cash", amount: 100, reference: null },
+        ],
+      },
+      { a: 1, b: 1 }
+    );
+    givenPreviousReturns({ subtotal: 150, vatAmount: 0, totalWithVat: 150, creditAmount: 150 });
+
+    await returnSale({
+      userId,
+      saleId,
+      type: "return",
+      items: [{ saleItemId: itemA.toString(), quantity: 1 }],
+    });
+
+    expect(createdReturn()).toMatchObject({
+      totalWithVat: 100,
+      paymentType: "cash",
+      creditAmount: 0,
+    });
+    expect(mock(Customer).updateOne).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,318 @@
+import mongoose from "mongoose";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { mockModelModule } = await vi.hoisted(() => import("./test/modelMocks"));
+
+vi.mock("./models/Sale", (importOriginal) => mockModelModule(importOriginal, "Sale"));
+vi.mock("./models/SaleItem", (importOriginal) => mockModelModule(importOriginal, "SaleItem"));
+vi.mock("./models/SaleReturn", (importOriginal) => mockModelModule(importOriginal, "SaleReturn"));
+vi.mock("./models/Product", (importOriginal) => mockModelModule(importOriginal, "Product"));
+vi.mock("./models/Customer", (importOriginal) => mockModelModule(importOriginal, "Customer"));
+vi.mock("./models/Settings", (importOriginal) => mockModelModule(importOriginal, "Settings"));
+vi.mock("./models/BranchStock", (importOriginal) => mockModelModule(importOriginal, "BranchStock"));
+vi.mock("./models/StockLot", (importOriginal) => mockModelModule(importOriginal, "StockLot"));
+vi.mock("./models/StockMovement", (importOriginal) => mockModelModule(importOriginal, "StockMovement"));
+
+import { getSalesSummaryForShift, recordSale } from "./db";
+import { Sale } from "./models/Sale";
+import { SaleItem } from "./models/SaleItem";
+import { SaleReturn } from "./models/SaleReturn";
+import { Product } from "./models/Product";
+import { Customer } from "./models/Customer";
+import { Settings } from "./models/Settings";
+import { BranchStock } from "./models/BranchStock";
+import { StockLot } from "./models/StockLot";
+import { StockMovement } from "./models/StockMovement";
+import {
+  mock,
+  mockTransactionSession,
+  query,
+  resetModelMock,
+  type FakeSession,
+} from "./test/modelMocks";
+
+const userId = new mongoose.Types.ObjectId();
+const productA = new mongoose.Types.ObjectId();
+const productB = new mongoose.Types.ObjectId();
+
+function givenProducts(stock: { a: number; b: number }) {
+  mock(Product).find.mockImplementation(() =>
+    query([
+      { _id: productA, userId, name: "ปุ๋ยยูเรีย", stock: stock.a, price: 100 },
+      { _id: productB, userId, name: "ยาฆ่าแมลง", stock: stock.b, price: 50 },
+    ])
+  );
+  mock(Product).findOneAndUpdate.mockImplementation((filter: any) =>
+    query({
+      _id: filter._id,
+      userId,
+      stock: 5,
+      costPrice: filter._id.equals(productA) ? 60 : 30,
+      price: 100,
+    })
+  );
+}
+
+// ปุ๋ย 2 × 100 + ยา 1 × 50 = 250 บาท
+const cartItems = [
+  { productId: productA.toString(), productName: "ปุ๋ยยูเรีย", quantity: 2, unitPrice: 100 },
+  { productId: productB.toString(), productName: "ยาฆ่าแมลง", quantity: 1, unitPrice: 50 },
+];
+
+const createdSale = () => mock(Sale).create.mock.calls[0][0][0];
+
+describe("recordSale", () => {
+  let session: FakeSession;
+
+  beforeEach(() => {
+    for (const model of [
+      Sale,
+      SaleItem,
+      SaleReturn,
+      Product,
+      Customer,
+      Settings,
+      BranchStock,
+      StockLot,
+      StockMovement,
+    ]) {
+      resetModelMock(model);
+    }
+    session = mockTransactionSession();
+    givenProducts({ a: 10, b: 10 });
+  });
+
+  it("should save the sale, its items and the stock cuts in one transaction", async () => {
+    const result = await recordSale({ userId, items: cartItems, idempotencyKey: "key-1" });
+
+    expect(result).toMatchObject({ totalAmount: 250, changeAmount: 0, duplicate: false });
+    expect(session.withTransaction).toHaveBeenCalledTimes(1);
+    expect(mock(Product).findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: productA, stock: { $gte: 2 } },
+      { $inc: { stock: -2 } },
+      expect.objectContaining({ session })
+    );
+    expect(createdSale()).toMatchObject({
+      totalAmount: 250,
+      totalWithVat: 250,
+      costTotal: 150,
+      idempotencyKey: "key-1",
+    });
+    expect(mock(Sale).create.mock.calls[0][1]).toEqual({ session });
+    expect(mock(SaleItem).insertMany.mock.calls[0][0]).toHaveLength(2);
+    expect(session.endSession).toHaveBeenCalled();
+  });
+
+  it("should return the existing sale when the idempotency key is replayed", async () => {
+    const existingId = new mongoose.Types.ObjectId();
+    mock(Sale).findOne.mockImplementation(() =>
+      query({ _id: existingId, totalAmount: 250, changeAmount: 50 })
+    );
+
+    const result = await recordSale({ userId, items: cartItems, idempotencyKey: "key-1" });
+
+    expect(result).toEqual({
+      saleId: existingId.toString(),
+      totalAmount: 250,
+      changeAmount: 50,
+      duplicate: true,
+    });
+    expect(mock(Sale).findOne).toHaveBeenCalledWith({ userId, idempotencyKey: "key-1" });
+    expect(mongoose.startSession).not.toHaveBeenCalled();
+    expect(mock(Product).findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it("should return the sale saved by a concurrent retry with the same key", async () => {
+    const existingId = new mongoose.Types.ObjectId();
+    mock(Sale)
+      .findOne.mockImplementationOnce(() => query(null))
+      .mockImplementationOnce(() => query({ _id: existingId, totalAmount: 250, changeAmount: 0 }));
+    mock(Sale).create.mockRejectedValueOnce(
+      Object.assign(new Error("E11000 duplicate key"), { code: 11000 })
+    );
+
+    const result = await recordSale({ userId, items: cartItems, idempotencyKey: "key-1" });
+
+    expect(result).toMatchObject({ saleId: existingId.toString(), duplicate: true });
+    expect(session.aborted).toBe(true);
+  });
+
+  it("should reject the sale before writing anything when stock is short", async () => {
+    givenProducts({ a: 1, b: 10 });
+
+    await expect(recordSale({ userId, items: cartItems })).rejects.toThrow(
+      "สต็อกไม่พอ: ปุ๋ยยูเรีย (เหลือ 1 ชิ้น)"
+    );
+    expect(mongoose.startSession).not.toHaveBeenCalled();
+    expect(mock(Product).findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it("should roll back when another sale takes the stock mid-transaction", async () => {
+    // ปุ๋ยตัดได้ แต่ยาถูกขายตัดหน้าไปก่อน (เงื่อนไข stock >= qty ไม่ผ่าน)
+    mock(Product)
+      .findOneAndUpdate.mockImplementationOnce(() =>
+        query({ _id: productA, userId, stock: 8, costPrice: 60, price: 100 })
+      )
+      .mockImplementationOnce(() => query(null));
+
+    await expect(recordSale({ userId, items: cartItems })).rejects.toThrow(
+      "สต็อกไม่พอสำหรับการขาย/ตัดสต็อก"
+    );
+    expect(session.aborted).toBe(true);
+    expect(mock(Sale).create).not.toHaveBeenCalled();
+    expect(mock(SaleItem).insertMany).not.toHaveBeenCalled();
+    expect(session.endSession).toHaveBeenCalled();
+  });
+
+  it("should round VAT to the satang like returns do", async () => {
+    // 33.33 × 7% = 2.3331
+    const result = await recordSale({
+      userId,
+      items: [{ ...cartItems[0], quantity: 1, unitPrice: 33.33 }],
+      vatRate: 0.07,
+    });
+
+    expect(createdSale()).toMatchObject({ subtotal: 33.33, vatAmount: 2.33, totalWithVat: 35.66 });
+    expect(result.totalAmount).toBe(33.33);
+  });
+
+  describe("split payments", () => {
+    it("should give change only out of the cash part", async () => {
+      const result = await recordSale({
+        userId,
+        items: cartItems,
+        payments: [
+          { method: "transfer", amount: 150, reference: "REF-1" },
+          { method: "cash", amount: 200 },
+        ],
+      });
+
+      expect(result.changeAmount).toBe(100);
+      expect(createdSale()).toMatchObject({
+        paymentType: "cash",
+        changeAmount: 100,
+        payments: [
+          { method: "transfer", amount: 150, reference: "REF-1" },
+          { method: "cash", amount: 200, reference: null },
+        ],
+      });
+    });
+
+    it("should reject an overpayment that is not cash", async () => {
+      await expect(
+        recordSale({
+          userId,
+          items: cartItems,
+          payments: [
+            { method: "cash", amount: 20 },
+            { method: "card", amount: 260 },
+          ],
+        })
+      ).rejects.toThrow("ทอนเงินได้เฉพาะส่วนที่จ่ายเงินสด");
+      expect(mongoose.startSession).not.toHaveBeenCalled();
+    });
+
+    it("should reject payments that do not cover the bill", async () => {
+      await expect(
+        recordSale({
+          userId,
+          items: cartItems,
+          payments: [
+            { method: "cash", amount: 100 },
+            { method: "promptpay", amount: 100 },
+          ],
+        })
+      ).rejects.toThrow("ยอดชำระไม่ครบ ขาดอีก 50 บาท");
+    });
+
+    it("should only add the credit part to the customer's debt", async () => {
+      const customerId = new mongoose.Types.ObjectId();
+      mock(Customer).findOneAndUpdate.mockImplementation(() => query({ _id: customerId }));
+
+      await recordSale({
+        userId,
+        items: cartItems,
+        customerId: customerId.toString(),
+        payments: [
+          { method: "cash", amount: 100 },
+          { method: "credit", amount: 150 },
+        ],
+      });
+
+      expect(mock(Customer).findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: customerId, userId },
+        { $inc: { totalDebt: 150 } },
+        { new: true, session }
+      );
+      expect(createdSale()).toMatchObject({ customerId, paymentType: "credit", changeAmount: 0 });
+    });
+  });
+});
+
+describe("getSalesSummaryForShift", () => {
+  beforeEach(() => {
+    resetModelMock(Sale);
+    resetModelMock(SaleReturn);
+  });
+
+  it("should count cash after change and refunds, split by payment method", async () => {
+    mock(Sale).find.mockImplementation(() =>
+      query([
+        // รับเงินสด 300 ทอน 50
+        { paymentType: "cash", payments: [{ method: "cash", amount: 300 }], totalWithVat: 250, changeAmount: 50 },
+        {
+          paymentType: "cash",
+          payments: [
+            { method: "cash", amount: 100 },
+            { method: "transfer", amount: 150 },
+          ],
+          totalWithVat: 250,
+          changeAmount: 0,
+        },
+        { paymentType: "credit", payments: [{ method: "credit", amount: 200 }], totalWithVat: 200, changeAmount: 0 },
+        // บิลเก่าไม่มี payments
+        { paymentType: "cash", totalAmount: 80, totalWithVat: 80 },
+      ])
+    );
+    mock(SaleReturn).aggregate.mockImplementation(() =>
+      query([
+        // คืนบิลเชื่อผสมเงินสด 100: ลดหนี้ 60 คืนเงินสด 40
+        { _id: "cash", total: 100, creditAmount: 60 },
+        { _id: "credit", total: 50, creditAmount: 50 },
+      ])
+    );
+
+    const summary = await getSalesSummaryForShift(
+      userId,
+      new Date("2026-10-19T00:00:00"),
+      new Date("2026-10-19T23:59:59")
+    );
+
+    expect(summary).toEqual({
+      totalSales: 630,
+      cashSales: 390, // 300 - 50 + 100 + 80 - 40
+      creditSales: 90, // 200 - 60 - 50
+      transferSales: 150,
+      promptPaySales: 0,
+      cardSales: 0,
+      saleCount: 4,
+      refundAmount: 150,
+    });
+  });
+
+  it("should treat older returns without a credit split by their refund method", async () => {
+    mock(SaleReturn).aggregate.mockImplementation(() => query([]));
+
+    await getSalesSummaryForShift(userId, new Date("2026-10-19"), new Date("2026-10-20"));
+
+    const [, group] = mock(SaleReturn).aggregate.mock.calls[0][0];
+    expect(group.$group.creditAmount).toEqual({
+      $sum: {
+        $ifNull: [
+          "$creditAmount",
+          { $cond: [{ $eq: ["$paymentType", "credit"] }, "$totalWithVat", 0] },
+        ],
+      },
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from "vitest";
+import { appRouter } from "./routers";
+import * as db from "./db";
+import type { TrpcContext } from "./_core/context";
+
+vi.mock("./db", () => ({
+  getShopMembership: vi.fn().mockResolvedValue({ shopId: "1", role: "owner" }),
+  getSaleDetail: vi.fn().mockResolvedValue({
+    id: "sale-1",
+    totalAmount: 250,
+    costTotal: 150,
+    status: "partially_returned",
+    items: [{ id: "item-1", productName: "ปุ๋ยยูเรีย", quantity: 2, unitPrice: 100 }],
+    returns: [{ id: "return-1", subtotal: 100, costTotal: 60 }],
+  }),
+  getStocktakeById: vi.fn().mockResolvedValue({
+    id: "stocktake-1",
+    status: "counting",
+    varianceValue: -30,
+    items: [{ id: "line-1", variance: -1, unitCost: 30, varianceValue: -30 }],
+  }),
+}));
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createAuthContext(): TrpcContext {
+  const user: AuthenticatedUser = {
+    id: 1,
+    openId: "test-user",
+    email: "test@example.com",
+    name: "Test User",
+    loginMethod: "manus",
+    role: "user",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+  };
+
+  return {
+    user,
+    req: {
+      protocol: "https",
+      headers: {},
+    } as TrpcContext["req"],
+    res: {
+      clearCookie: vi.fn(),
+    } as unknown as TrpcContext["res"],
+  };
+}
+
+describe("cost visibility", () => {
+  it("shows the sale cost to the owner", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+
+    const sale = await caller.sales.detail({ saleId: "sale-1" });
+
+    expect(sale.costTotal).toBe(150);
+    expect(sale.returns[0].costTotal).toBe(60);
+  });
+
+  it("hides the sale and return cost from a cashier", async () => {
+    vi.mocked(db.getShopMembership).mockResolvedValueOnce({ shopId: "1", role: "cashier" });
+    const caller = appRouter.createCaller(createAuthContext());
+
+    const sale = await caller.sales.detail({ saleId: "sale-1" });
+
+    expect(sale).not.toHaveProperty("costTotal");
+    expect(sale.returns[0]).not.toHaveProperty("costTotal");
+    expect(sale.returns[0].subtotal).toBe(100);
+    expect(sale.items).toHaveLength(1);
+  });
+
+  it("hides stocktake cost and variance value from a cashier", async () => {
+    vi.mocked(db.getShopMembership).mockResolvedValueOnce({ shopId: "1", role: "cashier" });
+    const caller = appRouter.createCaller(createAuthContext());
+
+    const stocktake = await caller.stocktakes.get({ id: "stocktake-1" });
+
+    expect(stocktake).not.toHaveProperty("varianceValue");
+    expect(stocktake.items[0]).not.toHaveProperty("unitCost");
+    expect(stocktake.items[0]).not.toHaveProperty("varianceValue");
+    expect(stocktake.items[0].variance).toBe(-1);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import {
+  getScaleLabelQuantity,
+  parseScaleBarcode,
+  validateScaleBarcodeRules,
+  type ScaleBarcodeRule,
+} from "@shared/scaleBarcode";
+
+const weightRule: ScaleBarcodeRule = { prefix: "20", pluLength: 5, valueType: "weight", decimals: 3 };
+const priceRule: ScaleBarcodeRule = { prefix: "21", pluLength: 5, valueType: "price", decimals: 2 };
+
+describe("Scale barcode", () => {
+  describe("parseScaleBarcode", () => {
+    it("should read PLU and weight", () => {
+      const label = parseScaleBarcode("2012345012509", [weightRule, priceRule]);
+
+      expect(label?.plu).toBe("12345");
+      expect(label?.rule.valueType).toBe("weight");
+      expect(label?.value).toBe(1.25);
+    });
+
+    it("should read price and strip leading zeros from PLU", () => {
+      const label = parseScaleBarcode("2100123045006", [weightRule, priceRule]);
+
+      expect(label?.plu).toBe("123");
+      expect(label?.value).toBe(45);
+    });
+
+    it("should ignore normal barcodes and unknown prefixes", () => {
+      expect(parseScaleBarcode("8850123456787", [weightRule, priceRule])).toBeNull();
+      expect(parseScaleBarcode("2012345012509", [priceRule])).toBeNull();
+      expect(parseScaleBarcode("2012345012500", [weightRule])).toBeNull(); // check digit ผิด
+    });
+  });
+
+  describe("getScaleLabelQuantity", () => {
+    it("should derive weight from an embedded price", () => {
+      const label = parseScaleBarcode("2100123045006", [priceRule])!;
+
+      // ฿45 ÷ ฿180/กก. = 0.25 กก.
+      expect(getScaleLabelQuantity(label, 180, 3)).toBe(0.25);
+      expect(getScaleLabelQuantity(label, 0, 3)).toBeNull();
+    });
+  });
+
+  describe("validateScaleBarcodeRules", () => {
+    it("should reject duplicate or out-of-range prefixes", () => {
+      expect(validateScaleBarcodeRules([weightRule, priceRule])).toBeNull();
+      expect(validateScaleBarcodeRules([weightRule, weightRule])).not.toBeNull();
+      expect(validateScaleBarcodeRules([{ ...weightRule, prefix: "30" }])).not.toBeNull();
+    });
+  });
+});
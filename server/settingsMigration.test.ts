@@ -0,0 +1,46 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { mockModelModule } = await vi.hoisted(() => import("./test/modelMocks"));
+
+vi.mock("./models/Settings", (importOriginal) => mockModelModule(importOriginal, "Settings"));
+vi.mock("./models/User", (importOriginal) => mockModelModule(importOriginal, "User"));
+
+import { migrateLegacySettings } from "./db";
+import { Settings } from "./models/Settings";
+import { User } from "./models/User";
+import { mock, resetModelMock } from "./test/modelMocks";
+
+const dropIndex = vi.fn();
+(Settings as any).collection = { dropIndex };
+
+// error ของ MongoDB driver (MongoServerError มี codeName)
+const serverError = (codeName: string) => Object.assign(new Error(codeName), { codeName });
+
+describe("migrateLegacySettings", () => {
+  beforeEach(() => {
+    resetModelMock(Settings);
+    resetModelMock(User);
+    dropIndex.mockReset().mockResolvedValue(undefined);
+  });
+
+  it("should always drop the legacy singleton index", async () => {
+    await migrateLegacySettings();
+
+    expect(dropIndex).toHaveBeenCalledWith("singleton_1");
+  });
+
+  it("should carry on when the index or collection is already gone", async () => {
+    dropIndex.mockRejectedValueOnce(serverError("IndexNotFound"));
+    await expect(migrateLegacySettings()).resolves.toBeUndefined();
+
+    dropIndex.mockRejectedValueOnce(serverError("NamespaceNotFound"));
+    await expect(migrateLegacySettings()).resolves.toBeUndefined();
+  });
+
+  it("should fail when the index cannot be dropped", async () => {
+    dropIndex.mockRejectedValueOnce(serverError("Unauthorized"));
+
+    await expect(migrateLegacySettings()).rejects.toThrow("Unauthorized");
+    expect(mock(Settings).findOne).not.toHaveBeenCalled();
+  });
+});
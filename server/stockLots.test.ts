@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { daysUntilExpiry, planLotConsumption, sortLotsFefo, type StockLotBalance } from "./stockLots";
+
+const lot = (id: string, remainingQuantity: number, expiry: string | null, received: string) => ({
+  id,
+  remainingQuantity,
+  expiryDate: expiry ? new Date(`${expiry}T00:00:00`) : null,
+  createdAt: new Date(`${received}T08:00:00`),
+});
+
+const lots: StockLotBalance[] = [
+  lot("no-expiry", 5, null, "2026-01-01"),
+  lot("late", 10, "2026-03-01", "2026-01-02"),
+  lot("early", 4, "2026-02-01", "2026-01-10"),
+];
+
+describe("Stock lots", () => {
+  describe("sortLotsFefo", () => {
+    it("should put the earliest expiry first and lots without expiry last", () => {
+      expect(sortLotsFefo(lots).map((l) => l.id)).toEqual(["early", "late", "no-expiry"]);
+    });
+  });
+
+  describe("planLotConsumption", () => {
+    it("should take sales from the earliest-expiring lots first", () => {
+      expect(planLotConsumption(lots, 3, 6, { lotsFirst: true })).toEqual([
+        { id: "early", quantity: 4 },
+        { id: "late", quantity: 2 },
+      ]);
+    });
+
+    it("should take other deductions from untracked stock before lots", () => {
+      expect(planLotConsumption(lots, 3, 5)).toEqual([{ id: "early", quantity: 2 }]);
+      expect(planLotConsumption(lots, 3, 2)).toEqual([]);
+    });
+
+    it("should take the requested lot first", () => {
+      expect(planLotConsumption(lots, 3, 12, { lotId: "late" })).toEqual([
+        { id: "late", quantity: 10 },
+      ]);
+    });
+  });
+
+  describe("daysUntilExpiry", () => {
+    it("should count calendar days", () => {
+      const now = new Date("2026-02-01T21:00:00");
+      expect(daysUntilExpiry(new Date("2026-02-01T00:00:00"), now)).toBe(0);
+      expect(daysUntilExpiry(new Date("2026-02-04T00:00:00"), now)).toBe(3);
+      expect(daysUntilExpiry(new Date("2026-01-30T00:00:00"), now)).toBe(-2);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * ล็อตสินค้าและวันหมดอายุ
+ *
+ * - รับของเข้าพร้อมเลขล็อต/วันหมดอายุ = 1 ล็อต
+ * - สต็อกที่ไม่มีล็อตรองรับ (ข้อมูลเก่า/รับเข้าโดยไม่ระบุล็อต/รับคืน) = ของไม่ระบุล็อต
+ * - ขาย → ตัดล็อตที่หมดอายุก่อนออกก่อน (FEFO) ของไม่ระบุล็อตตัดทีหลังสุด
+ * - ตัดสต็อกอื่นๆ → ตัดของไม่ระบุล็อตก่อน แล้วค่อยตัดล็อตแบบ FEFO (ยอดล็อตรวมต้องไม่เกินสต็อก)
+ */
+import { roundQuantity } from "@shared/units";
+
+export type StockLotBalance = {
+  id: string;
+  remainingQuantity: number;
+  expiryDate: Date | null;
+  createdAt: Date;
+};
+
+/**
+ * เรียงล็อตแบบ FEFO: วันหมดอายุใกล้สุดก่อน ล็อตที่ไม่มีวันหมดอายุไว้ท้าย (รับเข้าก่อนออกก่อน)
+ */
+export function sortLotsFefo<T extends StockLotBalance>(lots: T[]): T[] {
+  return [...lots].sort((a, b) => {
+    if (a.expiryDate && b.expiryDate) {
+      const diff = a.expiryDate.getTime() - b.expiryDate.getTime();
+      if (diff !== 0) return diff;
+    } else if (a.expiryDate || b.expiryDate) {
+      return a.expiryDate ? -1 : 1;
+    }
+    return a.createdAt.getTime() - b.createdAt.getTime();
+  });
+}
+
+/**
+ * แผนการตัดล็อต (ไม่รวมส่วนที่ตัดจากของไม่ระบุล็อต)
+ * @param untrackedQuantity สต็อกก่อนตัดที่ไม่มีล็อตรองรับ
+ * @param options.lotsFirst ตัดล็อตก่อนของไม่ระบุล็อต (การขาย)
+ * @param options.lotId ตัดล็อตนี้ก่อน (เช่น ทิ้งล็อตที่หมดอายุ)
+ */
+export function planLotConsumption(
+  lots: StockLotBalance[],
+  untrackedQuantity: number,
+  quantity: number,
+  options: { lotsFirst?: boolean; lotId?: string | null } = {}
+): Array<{ id: string; quantity: number }> {
+  const ordered = sortLotsFefo(lots.filter((lot) => lot.remainingQuantity > 0));
+  if (options.lotId) {
+    const index = ordered.findIndex((lot) => lot.id === options.lotId);
+    if (index > 0) ordered.unshift(...ordered.splice(index, 1));
+  }
+
+  let remaining = quantity;
+  // ตัดล็อตที่ระบุก่อนเสมอ ไม่ว่าจะตัดของไม่ระบุล็อตก่อนหรือไม่
+  const consumed: Array<{ id: string; quantity: number }> = [];
+  const take = (lot: StockLotBalance) => {
+    const amount = roundQuantity(Math.min(lot.remainingQuantity, remaining), 3);
+    if (amount <= 0) return;
+    consumed.push({ id: lot.id, quantity: amount });
+    remaining = roundQuantity(remaining - amount, 3);
+  };
+
+  let queue = ordered;
+  if (options.lotId && ordered[0]?.id === options.lotId) {
+    take(ordered[0]);
+    queue = ordered.slice(1);
+  }
+  if (!options.lotsFirst) {
+    remaining = roundQuantity(Math.max(0, remaining - Math.max(0, untrackedQuantity)), 3);
+  }
+  for (const lot of queue) {
+    if (remaining <= 0) break;
+    take(lot);
+  }
+  return consumed;
+}
+
+/**
+ * จำนวนวันถึงวันหมดอายุ (นับตามวันที่ ไม่สนเวลา) ติดลบ = หมดอายุแล้ว
+ */
+export function daysUntilExpiry(expiryDate: Date, now: Date = new Date()): number {
+  const startOfDay = (date: Date) =>
+    Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+  return Math.round((startOfDay(expiryDate) - startOfDay(now)) / 86_400_000);
+}
@@ -0,0 +1,95 @@
+import mongoose from "mongoose";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { mockModelModule } = await vi.hoisted(() => import("./test/modelMocks"));
+
+vi.mock("./models/Stocktake", (importOriginal) => mockModelModule(importOriginal, "Stocktake"));
+vi.mock("./models/Product", (importOriginal) => mockModelModule(importOriginal, "Product"));
+vi.mock("./models/Settings", (importOriginal) => mockModelModule(importOriginal, "Settings"));
+vi.mock("./models/BranchStock", (importOriginal) => mockModelModule(importOriginal, "BranchStock"));
+vi.mock("./models/StockLot", (importOriginal) => mockModelModule(importOriginal, "StockLot"));
+vi.mock("./models/StockMovement", (importOriginal) => mockModelModule(importOriginal, "StockMovement"));
+
+import { postStocktake } from "./db";
+import { Stocktake } from "./models/Stocktake";
+import { Product } from "./models/Product";
+import { Settings } from "./models/Settings";
+import { BranchStock } from "./models/BranchStock";
+import { StockLot } from "./models/StockLot";
+import { StockMovement } from "./models/StockMovement";
+import { mock, mockTransactionSession, query, resetModelMock } from "./test/modelMocks";
+
+const userId = new mongoose.Types.ObjectId();
+const branchId = new mongoose.Types.ObjectId();
+const productId = new mongoose.Types.ObjectId();
+
+// รอบนับที่เปิดที่สาขา B: ข้าวสาร (ชั่งกิโล) สาขานี้มี 0.3 กก. สต็อกรวมทุกสาขา 10.3 กก.
+function givenStocktake(countedQuantity: number) {
+  const stocktake = {
+    _id: new mongoose.Types.ObjectId(),
+    userId,
+    branchId,
+    stocktakeNumber: "STK-2026-000001",
+    status: "counting",
+    items: [{ productId, productName: "ข้าวสาร", countedQuantity }] as any[],
+    save: vi.fn(),
+  };
+  mock(Stocktake).findOne.mockImplementation(() => query(stocktake));
+  return stocktake;
+}
+
+describe("postStocktake", () => {
+  beforeEach(() => {
+    for (const model of [Stocktake, Product, Settings, BranchStock, StockLot, StockMovement]) {
+      resetModelMock(model);
+    }
+    mockTransactionSession();
+
+    mock(Product).find.mockImplementation(() =>
+      query([{ _id: productId, stock: 10.3, costPrice: 40 }])
+    );
+    mock(Product).findById.mockImplementation(() => query({ _id: productId, userId }));
+    mock(BranchStock).find.mockImplementation(() =>
+      query([{ productId, branchId, stock: 0.3 }])
+    );
+  });
+
+  it("should adjust the stock of the branch the count was taken at", async () => {
+    const stocktake = givenStocktake(2);
+    mock(Product).findOneAndUpdate.mockImplementation(() =>
+      query({ _id: productId, userId, stock: 12, costPrice: 40, price: 60 })
+    );
+    mock(BranchStock).findOne.mockImplementation(() => query({ stock: 2 }));
+
+    const result = await postStocktake({
+      userId,
+      stocktakeId: stocktake._id.toString(),
+      reason: "นับสิ้นเดือน",
+    });
+
+    expect(result.adjustedCount).toBe(1);
+    expect(mock(BranchStock).findOneAndUpdate).toHaveBeenCalledWith(
+      { branchId, productId },
+      expect.objectContaining({ $inc: { stock: 1.7 } }),
+      expect.anything()
+    );
+    expect(mock(StockMovement).create.mock.calls[0][0][0]).toMatchObject({ branchId, quantity: 1.7 });
+    expect(stocktake.items[0]).toMatchObject({ expectedQuantity: 0.3, variance: 1.7 });
+  });
+
+  it("should not adjust float noise on weighed items", async () => {
+    // 0.1 + 0.2 กก. จากการชั่ง 2 ครั้ง
+    const stocktake = givenStocktake(0.1 + 0.2);
+
+    const result = await postStocktake({
+      userId,
+      stocktakeId: stocktake._id.toString(),
+      reason: "นับสิ้นเดือน",
+    });
+
+    expect(result).toEqual({ adjustedCount: 0, varianceValue: 0 });
+    expect(mock(Product).findOneAndUpdate).not.toHaveBeenCalled();
+    expect(stocktake.items[0].variance).toBe(0);
+    expect(stocktake.status).toBe("posted");
+  });
+});
@@ -0,0 +1,97 @@
+import mongoose from "mongoose";
+import { vi } from "vitest";
+
+/**
+ * ของปลอมสำหรับเทสต์ที่เรียก db.ts โดยไม่มี MongoDB จริง
+ *
+ * ใช้คู่กับ vi.mock ในไฟล์เทสต์ (vi.mock ต้องอยู่ในไฟล์เทสต์เอง):
+ *   const { mockModelModule } = await vi.hoisted(() => import("./test/modelMocks"));
+ *   vi.mock("./models/Sale", (importOriginal) => mockModelModule(importOriginal, "Sale"));
+ */
+
+/**
+ * query ของ mongoose แบบย่อ: chain ได้ (session/select/sort/limit/lean) แล้ว await ได้ค่าที่ตั้งไว้
+ */
+export function query(value: unknown) {
+  const chain: any = {
+    session: () => chain,
+    select: () => chain,
+    sort: () => chain,
+    limit: () => chain,
+    lean: () => chain,
+    then: (resolve: any, reject: any) => Promise.resolve(value).then(resolve, reject),
+  };
+  return chain;
+}
+
+let sequence = 0;
+const withId = (doc: any) => ({
+  _id: doc._id ?? (++sequence).toString(16).padStart(24, "0"),
+  ...doc,
+});
+
+export function createModelMock() {
+  const model = {
+    find: vi.fn(),
+    findOne: vi.fn(),
+    findById: vi.fn(),
+    findOneAndUpdate: vi.fn(),
+    updateOne: vi.fn(),
+    aggregate: vi.fn(),
+    create: vi.fn(),
+    insertMany: vi.fn(),
+  };
+  resetModelMock(model);
+  return model;
+}
+
+export type ModelMock = ReturnType<typeof createModelMock>;
+
+/**
+ * ค่าเริ่มต้น: หาไม่เจอ, update สำเร็จ, create คืนเอกสารพร้อม _id
+ */
+export function resetModelMock(model: unknown) {
+  const m = model as ModelMock;
+  m.find.mockReset().mockImplementation(() => query([]));
+  m.findOne.mockReset().mockImplementation(() => query(null));
+  m.findById.mockReset().mockImplementation(() => query(null));
+  m.findOneAndUpdate.mockReset().mockImplementation(() => query(null));
+  m.updateOne.mockReset().mockResolvedValue({ matchedCount: 1 });
+  m.aggregate.mockReset().mockImplementation(() => query([]));
+  m.create
+    .mockReset()
+    .mockImplementation(async (docs: any) => (Array.isArray(docs) ? docs.map(withId) : withId(docs)));
+  m.insertMany.mockReset().mockImplementation(async (docs: any) => docs);
+}
+
+// model ที่ import มาจากไฟล์ที่ถูก mock → ใช้ API ของ vi.fn ได้
+export const mock = (model: unknown) => model as ModelMock;
+
+/**
+ * factory ของ vi.mock: คง export อื่นของไฟล์ model ไว้ แทนเฉพาะตัว model
+ */
+export async function mockModelModule(importOriginal: () => Promise<unknown>, name: string) {
+  return { ...((await importOriginal()) as object), [name]: createModelMock() };
+}
+
+/**
+ * transaction ปลอม - withTransaction ของจริง abort แล้วโยน error ต่อเมื่อ callback ล้ม
+ */
+export function mockTransactionSession() {
+  const session = {
+    aborted: false,
+    withTransaction: vi.fn(async (fn: () => Promise<void>) => {
+      try {
+        await fn();
+      } catch (error) {
+        session.aborted = true;
+        throw error;
+      }
+    }),
+    endSession: vi.fn(),
+  };
+  vi.spyOn(mongoose, "startSession").mockResolvedValue(session as any);
+  return session;
+}
+
+export type FakeSession = ReturnType<typeof mockTransactionSession>;
@@ -0,0 +1,34 @@
+/**
+ * รายการที่บันทึกลง audit log (ใช้ร่วมกันทั้ง client และ server)
+ * - product.update        = แก้ไขสินค้า (ราคา/ทุน/สต็อก ฯลฯ)
+ * - product.archive       = เก็บสินค้าเข้าคลัง
+ * - product.restore       = นำสินค้ากลับมาขาย
+ * - product.purge         = ลบสินค้าถาวร
+ * - customer.payDebt      = รับชำระหนี้
+ * - fullTaxInvoice.cancel = ยกเลิกใบกำกับภาษีเต็ม
+ * - settings.update       = แก้ไขตั้งค่าร้าน
+ * - shift.close           = ปิดกะ
+ */
+export const AUDIT_ACTIONS = [
+  "product.update",
+  "product.archive",
+  "product.restore",
+  "product.purge",
+  "customer.payDebt",
+  "fullTaxInvoice.cancel",
+  "settings.update",
+  "shift.close",
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  "product.update": "แก้ไขสินค้า",
+  "product.archive": "เก็บสินค้าเข้าคลัง",
+  "product.restore": "นำสินค้ากลับมาขาย",
+  "product.purge": "ลบสินค้าถาวร",
+  "customer.payDebt": "รับชำระหนี้",
+  "fullTaxInvoice.cancel": "ยกเลิกใบกำกับภาษี",
+  "settings.update": "แก้ไขตั้งค่าร้าน",
+  "shift.close": "ปิดกะ",
+};
@@ -0,0 +1,39 @@
+/**
+ * บาร์โค้ด EAN-13 (ใช้ร่วมกันทั้ง client และ server)
+ */
+
+/**
+ * check digit ของ EAN-13 จาก 12 หลักแรก
+ */
+export function ean13CheckDigit(first12: string): number {
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += Number(first12[i]) * (i % 2 === 0 ? 1 : 3);
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+export function isValidEan13(barcode: string): boolean {
+  return /^\d{13}$/.test(barcode) && ean13CheckDigit(barcode.slice(0, 12)) === Number(barcode[12]);
+}
+
+/**
+ * prefix 20-29 เป็นช่วงที่ GS1 สงวนไว้ใช้ภายในร้าน (ไม่ชนกับบาร์โค้ดจากผู้ผลิต)
+ */
+export const DEFAULT_INTERNAL_BARCODE_PREFIX = "29";
+
+export function isValidInternalBarcodePrefix(prefix: string): boolean {
+  return /^2\d$/.test(prefix);
+}
+
+/**
+ * บาร์โค้ดภายในร้าน: prefix (2 หลัก) + ลำดับ (10 หลัก) + check digit
+ * เช่น ("29", 15) → "2900000000155"
+ */
+export function buildInternalEan13(prefix: string, sequence: number): string {
+  const first12 = prefix + String(sequence).padStart(10, "0");
+  if (!isValidInternalBarcodePrefix(prefix) || first12.length !== 12) {
+    throw new Error("ลำดับบาร์โค้ดภายในร้านเต็มแล้ว");
+  }
+  return first12 + ean13CheckDigit(first12);
+}
@@ -0,0 +1,12 @@
+/**
+ * สาขาของร้าน
+ *
+ * สาขาหลักไม่มี record ในฐานข้อมูล (branchId = null) ฝั่ง client ใช้ MAIN_BRANCH_ID แทน
+ */
+export const MAIN_BRANCH_ID = "main";
+export const MAIN_BRANCH_NAME = "สาขาหลัก";
+
+/**
+ * header ที่ client ส่งสาขาที่กำลังใช้งานมากับทุก request
+ */
+export const BRANCH_HEADER = "x-branch-id";
@@ -0,0 +1,15 @@
+/**
+ * สลับแคชเชียร์บนเครื่องที่ใช้ร่วมกัน
+ *
+ * เครื่องยังเข้าสู่ระบบด้วยบัญชีเดิม (cookie) - พนักงานแต่ละคนปลดล็อกด้วย PIN
+ * แล้ว client ส่ง token ของแคชเชียร์มากับทุก request ใน header นี้
+ */
+export const CASHIER_HEADER = "x-cashier-token";
+
+// PIN ตัวเลข 4-6 หลัก
+export const PIN_PATTERN = /^\d{4,6}$/;
+
+/**
+ * token แคชเชียร์หมดอายุ/ใช้ไม่ได้ → client ต้องกลับไปหน้าล็อก
+ */
+export const CASHIER_LOCKED_ERR_MSG = "Please unlock with PIN (10003)";
@@ -0,0 +1,29 @@
+/**
+ * ส่วนลด (ใช้ร่วมกันทั้ง client และ server เพื่อให้ยอดตรงกัน)
+ * - percent = ลดเป็น % ของยอด (0-100)
+ * - amount  = ลดเป็นจำนวนเงิน (บาท)
+ */
+export type DiscountType = "percent" | "amount";
+
+export type DiscountInput = {
+  type: DiscountType;
+  value: number;
+};
+
+/**
+ * คำนวณจำนวนเงินส่วนลดจากยอดก่อนลด
+ * ส่วนลดไม่เกินยอด และปัดเป็น 2 ตำแหน่ง (สตางค์)
+ */
+export function calculateDiscountAmount(
+  baseAmount: number,
+  discount?: DiscountInput | null
+): number {
+  if (!discount || !(discount.value > 0) || !(baseAmount > 0)) return 0;
+
+  const raw =
+    discount.type === "percent"
+      ? (baseAmount * Math.min(discount.value, 100)) / 100
+      : discount.value;
+
+  return Math.round(Math.min(raw, baseAmount) * 100) / 100;
+}
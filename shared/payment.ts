@@ -0,0 +1,19 @@
+/**
+ * วิธีชำระเงิน (ใช้ร่วมกันทั้ง client และ server)
+ * - cash      = เงินสด (ทอนได้)
+ * - transfer  = โอนเงิน
+ * - promptpay = พร้อมเพย์
+ * - card      = บัตร
+ * - credit    = ขายเชื่อ (เพิ่มยอดค้างของลูกค้า)
+ */
+export const PAYMENT_METHODS = ["cash", "transfer", "promptpay", "card", "credit"] as const;
+
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: "เงินสด",
+  transfer: "โอนเงิน",
+  promptpay: "พร้อมเพย์",
+  card: "บัตร",
+  credit: "ขายเชื่อ",
+};
@@ -0,0 +1,56 @@
+/**
+ * บทบาทของผู้ใช้ในร้าน (ใช้ร่วมกันทั้ง client และ server)
+ * - owner   = เจ้าของร้าน (บัญชีที่สมัครเอง ไม่มี record สมาชิก)
+ * - manager = ผู้จัดการ ทำได้ทุกอย่างยกเว้นจัดการพนักงานและดู audit log
+ * - cashier = พนักงานขาย ขาย/รับคืน/เปิดปิดกะ/รับของได้ แต่แก้สินค้าและดูกำไรไม่ได้
+ */
+export const SHOP_ROLES = ["owner", "manager", "cashier"] as const;
+
+export type ShopRole = (typeof SHOP_ROLES)[number];
+
+// บทบาทที่เจ้าของร้านเพิ่มให้พนักงานได้
+export const STAFF_ROLES = ["manager", "cashier"] as const satisfies readonly ShopRole[];
+
+export type StaffRole = (typeof STAFF_ROLES)[number];
+
+export const SHOP_ROLE_LABELS: Record<ShopRole, string> = {
+  owner: "เจ้าของร้าน",
+  manager: "ผู้จัดการ",
+  cashier: "พนักงานขาย",
+};
+
+/**
+ * สิทธิ์ที่ต้องตรวจ (การทำงานที่ไม่อยู่ในรายการนี้ สมาชิกทุกบทบาททำได้)
+ * - products.edit         = เพิ่ม/แก้ไขสินค้า ราคา หมวดหมู่ นำเข้าสินค้า
+ * - products.delete       = เก็บสินค้าเข้าคลัง/ลบถาวร
+ * - fullTaxInvoice.cancel = ยกเลิกใบกำกับภาษีเต็ม
+ * - reports.profit        = รายงานยอดขาย/ต้นทุน/กำไร/มูลค่าสต็อก
+ * - settings.manage       = แก้ไขตั้งค่าร้าน
+ * - branches.manage       = เพิ่ม/แก้ไขสาขา และโอนสินค้าระหว่างสาขา
+ * - staff.manage          = เพิ่ม/แก้ไข/ลบพนักงาน
+ * - audit.view            = ดูประวัติการทำรายการสำคัญ (audit log)
+ */
+export const PERMISSIONS = [
+  "products.edit",
+  "products.delete",
+  "fullTaxInvoice.cancel",
+  "reports.profit",
+  "settings.manage",
+  "branches.manage",
+  "staff.manage",
+  "audit.view",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLE_PERMISSIONS: Record<ShopRole, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  manager: PERMISSIONS.filter(
+    (permission) => permission !== "staff.manage" && permission !== "audit.view"
+  ),
+  cashier: [],
+};
+
+export function hasPermission(role: ShopRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
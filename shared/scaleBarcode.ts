@@ -0,0 +1,103 @@
+import { isValidEan13 } from "./barcode";
+import { roundQuantity } from "./units";
+
+/**
+ * บาร์โค้ดจากตาชั่ง (EAN-13 ขึ้นต้น 20-29) ที่ฝังรหัส PLU + ราคา/น้ำหนัก
+ * โครงสร้าง: prefix (2 หลัก) + PLU (pluLength หลัก) + ค่า (ที่เหลือ) + check digit (1 หลัก)
+ * เช่น 20 12345 01250 C → PLU 12345, น้ำหนัก 1.250 กก. (decimals = 3)
+ */
+export const SCALE_BARCODE_VALUE_TYPES = ["price", "weight"] as const;
+export type ScaleBarcodeValueType = (typeof SCALE_BARCODE_VALUE_TYPES)[number];
+
+export const SCALE_BARCODE_VALUE_TYPE_LABELS: Record<ScaleBarcodeValueType, string> = {
+  price: "ราคา (บาท)",
+  weight: "น้ำหนัก/จำนวน",
+};
+
+export const MIN_PLU_LENGTH = 4;
+export const MAX_PLU_LENGTH = 6;
+export const MAX_SCALE_DECIMALS = 3;
+
+export type ScaleBarcodeRule = {
+  prefix: string; // 2 หลัก "20"-"29"
+  pluLength: number;
+  valueType: ScaleBarcodeValueType;
+  decimals: number; // ทศนิยมของค่า เช่น ราคา 2 (สตางค์), น้ำหนัก 3 (กรัม)
+};
+
+export type ScaleBarcodeLabel = {
+  rule: ScaleBarcodeRule;
+  plu: string; // ตัด 0 นำหน้าแล้ว
+  value: number;
+};
+
+/**
+ * PLU ที่ใช้เทียบ - ตัวเลขล้วน ตัด 0 นำหน้า ("00123" → "123")
+ */
+export function normalizePlu(plu: string): string {
+  const digits = plu.replace(/\D/g, "");
+  if (!digits) return "";
+  return digits.replace(/^0+(?=\d)/, "");
+}
+
+/**
+ * ตรวจกฎบาร์โค้ดตาชั่ง คืนข้อความผิดพลาด (ถูกต้อง → null)
+ */
+export function validateScaleBarcodeRules(rules: ScaleBarcodeRule[]): string | null {
+  const prefixes = new Set<string>();
+  for (const rule of rules) {
+    if (!/^2\d$/.test(rule.prefix)) return `prefix "${rule.prefix}" ต้องเป็นเลข 20-29`;
+    if (prefixes.has(rule.prefix)) return `prefix ${rule.prefix} ซ้ำ`;
+    prefixes.add(rule.prefix);
+    if (
+      !Number.isInteger(rule.pluLength) ||
+      rule.pluLength < MIN_PLU_LENGTH ||
+      rule.pluLength > MAX_PLU_LENGTH
+    ) {
+      return `รหัส PLU ต้องยาว ${MIN_PLU_LENGTH}-${MAX_PLU_LENGTH} หลัก`;
+    }
+    if (!Number.isInteger(rule.decimals) || rule.decimals < 0 || rule.decimals > MAX_SCALE_DECIMALS) {
+      return `ทศนิยมต้องเป็น 0-${MAX_SCALE_DECIMALS} ตำแหน่ง`;
+    }
+  }
+  return null;
+}
+
+/**
+ * อ่านบาร์โค้ดตาชั่งตามกฎของร้าน ไม่ใช่บาร์โค้ดตาชั่ง/check digit ผิด → null
+ */
+export function parseScaleBarcode(
+  barcode: string,
+  rules: ScaleBarcodeRule[]
+): ScaleBarcodeLabel | null {
+  const code = barcode.trim();
+  if (!isValidEan13(code)) return null;
+
+  const rule = rules.find((r) => code.startsWith(r.prefix));
+  if (!rule) return null;
+
+  const pluEnd = 2 + rule.pluLength;
+  const plu = normalizePlu(code.slice(2, pluEnd));
+  const rawValue = Number(code.slice(pluEnd, 12));
+  return {
+    rule,
+    plu,
+    value: rawValue / 10 ** rule.decimals,
+  };
+}
+
+/**
+ * จำนวนหน่วยฐานที่ใส่ตะกร้าจากฉลากตาชั่ง
+ * - weight → ค่าบนฉลากคือจำนวนเลย
+ * - price → ถอดจำนวนจากราคา ÷ ราคาต่อหน่วย (ตาชั่งคิดราคาจากน้ำหนักจริง จึงได้น้ำหนักเดิมกลับมา)
+ * ราคาต่อหน่วยเป็น 0 → null (ถอดจำนวนจากราคาไม่ได้)
+ */
+export function getScaleLabelQuantity(
+  label: ScaleBarcodeLabel,
+  unitPrice: number,
+  precision: number
+): number | null {
+  if (label.rule.valueType === "weight") return roundQuantity(label.value, precision);
+  if (!(unitPrice > 0)) return null;
+  return roundQuantity(label.value / unitPrice, precision);
+}
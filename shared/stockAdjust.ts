@@ -0,0 +1,43 @@
+/**
+ * เหตุผลการปรับสต็อก (ใช้ร่วมกันทั้ง client และ server)
+ * - damaged    = ชำรุด/เสียหาย (ตัดออก)
+ * - expired    = หมดอายุ (ตัดออก)
+ * - lost       = สูญหาย (ตัดออก)
+ * - own_use    = เอาไปใช้เอง (ตัดออก)
+ * - found      = เจอของเพิ่ม (เพิ่มเข้า)
+ * - count      = นับสต็อกไม่ตรง (มาจากรอบนับสต็อก)
+ * - correction = แก้ไขยอดสต็อกจากหน้าสินค้า
+ * - other      = อื่นๆ
+ */
+export const STOCK_ADJUST_REASONS = [
+  "damaged",
+  "expired",
+  "lost",
+  "own_use",
+  "found",
+  "count",
+  "correction",
+  "other",
+] as const;
+
+export type StockAdjustReason = (typeof STOCK_ADJUST_REASONS)[number];
+
+export const STOCK_ADJUST_REASON_LABELS: Record<StockAdjustReason, string> = {
+  damaged: "ชำรุด/เสียหาย",
+  expired: "หมดอายุ",
+  lost: "สูญหาย",
+  own_use: "ใช้เอง",
+  found: "เจอของเพิ่ม",
+  count: "นับสต็อกไม่ตรง",
+  correction: "แก้ไขยอดสต็อก",
+  other: "อื่นๆ",
+};
+
+// เหตุผลที่ใช้ได้เฉพาะตัดออก / เฉพาะเพิ่มเข้า (นอกนั้นได้ทั้งสองทาง)
+export const STOCK_WRITE_OFF_REASONS: readonly StockAdjustReason[] = [
+  "damaged",
+  "expired",
+  "lost",
+  "own_use",
+];
+export const STOCK_ADD_REASONS: readonly StockAdjustReason[] = ["found"];
@@ -0,0 +1,150 @@
+/**
+ * หน่วยขายของสินค้า (ใช้ร่วมกันทั้ง client และ server)
+ * สต็อกนับเป็นหน่วยฐานเสมอ (เช่น ขวด) หน่วยอื่นแปลงด้วย factor (เช่น แพ็ค = 6 ขวด, ลัง = 24 ขวด)
+ */
+export const DEFAULT_BASE_UNIT = "ชิ้น";
+
+/**
+ * หน่วยขายเพิ่มเติม (นอกจากหน่วยฐาน)
+ */
+export type ProductUnit = {
+  name: string;
+  factor: number; // 1 หน่วยนี้ = factor หน่วยฐาน
+  barcode?: string | null;
+  price: number | string;
+};
+
+/**
+ * หน่วยที่เลือกขายได้ - หน่วยฐานมี factor = 1
+ */
+export type SellingUnit = {
+  name: string;
+  factor: number;
+  barcode: string | null;
+  price: number;
+  isBase: boolean;
+};
+
+type ProductWithUnits = {
+  baseUnit?: string | null;
+  price: number | string;
+  barcode?: string | null;
+  units?: ProductUnit[] | null;
+};
+
+const toPrice = (price: number | string) =>
+  typeof price === "string" ? parseFloat(price) || 0 : price;
+
+/**
+ * หน่วยทั้งหมดที่ขายได้ (หน่วยฐานมาก่อน)
+ */
+export function getSellingUnits(product: ProductWithUnits): SellingUnit[] {
+  return [
+    {
+      name: product.baseUnit || DEFAULT_BASE_UNIT,
+      factor: 1,
+      barcode: product.barcode ?? null,
+      price: toPrice(product.price),
+      isBase: true,
+    },
+    ...(product.units ?? []).map((unit) => ({
+      name: unit.name,
+      factor: unit.factor,
+      barcode: unit.barcode ?? null,
+      price: toPrice(unit.price),
+      isBase: false,
+    })),
+  ];
+}
+
+/**
+ * หาหน่วยจากชื่อ (ไม่ระบุ = หน่วยฐาน) ไม่พบ → null
+ */
+export function findSellingUnit(
+  product: ProductWithUnits,
+  unitName?: string | null
+): SellingUnit | null {
+  const units = getSellingUnits(product);
+  if (!unitName) return units[0];
+  return units.find((unit) => unit.name === unitName) ?? null;
+}
+
+/**
+ * หาหน่วยจากบาร์โค้ดที่ยิง (บาร์โค้ดสินค้า = หน่วยฐาน) ไม่พบ → null
+ */
+export function findUnitByBarcode(
+  product: ProductWithUnits,
+  barcode: string
+): SellingUnit | null {
+  return getSellingUnits(product).find((unit) => unit.barcode === barcode) ?? null;
+}
+
+/**
+ * จำนวนตามหน่วยขาย → จำนวนหน่วยฐานที่ต้องตัดสต็อก
+ */
+export function toBaseQuantity(quantity: number, factor: number): number {
+  return roundQuantity(quantity * factor, MAX_QUANTITY_PRECISION);
+}
+
+/**
+ * ตรวจหน่วยขายเพิ่มเติม คืนข้อความผิดพลาด (ถูกต้อง → null)
+ */
+export function validateProductUnits(baseUnit: string, units: ProductUnit[]): string | null {
+  const names = new Set([baseUnit.trim()]);
+  const barcodes = new Set<string>();
+  for (const unit of units) {
+    const name = unit.name.trim();
+    if (!name) return "กรุณาใส่ชื่อหน่วย";
+    if (names.has(name)) return `ชื่อหน่วย "${name}" ซ้ำ`;
+    names.add(name);
+    if (!(unit.factor > 0)) return `หน่วย "${name}" ต้องมีจำนวนต่อหน่วยมากกว่า 0`;
+    const barcode = unit.barcode?.trim();
+    if (barcode) {
+      if (barcodes.has(barcode)) return `บาร์โค้ด ${barcode} ซ้ำ`;
+      barcodes.add(barcode);
+    }
+  }
+  return null;
+}
+
+/**
+ * ทศนิยมของจำนวนสูงสุด (กรัม / มิลลิเมตร) - สต็อกปัดที่ตำแหน่งนี้เสมอ
+ */
+export const MAX_QUANTITY_PRECISION = 3;
+
+type MeasuredProduct = {
+  soldByMeasure?: boolean | null;
+  quantityPrecision?: number | null;
+};
+
+/**
+ * จำนวนทศนิยมที่ขาย/นับได้ (สินค้าทั่วไป = 0 คือจำนวนเต็ม)
+ */
+export function getQuantityPrecision(product: MeasuredProduct): number {
+  if (!product.soldByMeasure) return 0;
+  const precision = product.quantityPrecision ?? MAX_QUANTITY_PRECISION;
+  return Math.min(MAX_QUANTITY_PRECISION, Math.max(0, Math.floor(precision)));
+}
+
+export function roundQuantity(quantity: number, precision: number): number {
+  const factor = 10 ** precision;
+  return Math.round(quantity * factor) / factor;
+}
+
+/**
+ * จำนวนมากกว่า 0 และทศนิยมไม่เกินที่กำหนด
+ */
+export function isValidQuantity(quantity: number, precision: number): boolean {
+  return (
+    Number.isFinite(quantity) &&
+    quantity > 0 &&
+    Math.abs(roundQuantity(quantity, precision) - quantity) < 1e-9
+  );
+}
+
+/**
+ * แสดงจำนวนตามทศนิยมของสินค้า เช่น 1.25 (3 ตำแหน่ง) → "1.250"
+ */
+export function formatQuantity(quantity: number, precision = 0): string {
+  return precision > 0 ? quantity.toFixed(precision) : String(quantity);
+}